@@ -0,0 +1,293 @@
+import {
+  AgentProfileSchema,
+  ApprovalRequestSchema,
+  AuditEntrySchema,
+  MemorySchema,
+  OrchestrationSchema,
+  PluginSchema,
+  PolicySchema,
+  PolicyVersionSchema,
+  UserSchema,
+  type AgentProfile,
+  type ApprovalRequest,
+  type AuditEntry,
+  type Memory,
+  type Orchestration,
+  type Plugin,
+  type Policy,
+  type PolicyVersion,
+  type User,
+} from '@/lib/schemas/api';
+import { between, fixture, intBetween, pick, seededRandom, type GenerateContext } from './generate';
+
+/**
+ * The mock backend's data set: every record is generated from the dashboard's own schemas,
+ * then linked up so ids, names and statuses agree across entities.
+ */
+
+export interface Dataset {
+  user: User;
+  agents: AgentProfile[];
+  orchestrations: Orchestration[];
+  policies: Policy[];
+  policyVersions: Map<string, PolicyVersion[]>;
+  approvals: ApprovalRequest[];
+  memories: Memory[];
+  plugins: Plugin[];
+  audit: AuditEntry[];
+  settings: Record<string, unknown>;
+}
+
+const AGENT_NAMES = ['Research Analyst', 'Billing Reconciler', 'Support Triage', 'Release Scribe', 'Security Sentinel', 'Contract Reviewer', 'Data Wrangler', 'Ops Responder'];
+const AGENT_TYPES = ['llm', 'tool_runner', 'planner', 'retriever'];
+const PRESETS = ['conservative', 'balanced', 'exploratory'];
+const TOOLS = ['web.search', 'fs.read', 'fs.write', 'shell.exec', 'http.request', 'sql.query', 'email.send'];
+const RUN_NAMES = ['Nightly invoice sync', 'Weekly incident digest', 'Ticket backlog triage', 'Release notes draft', 'Credential scan', 'Vendor contract review', 'Latency regression report', 'Churn risk summary'];
+const STEP_NAMES = ['Plan', 'Gather context', 'Call model', 'Run tool', 'Review output', 'Publish'];
+const PLUGIN_NAMES: [string, Plugin['category']][] = [
+  ['store-postgres', 'data'],
+  ['supervisor-postgres', 'ai'],
+  ['memory-stm-db', 'data'],
+  ['llm-gateway', 'ai'],
+  ['http-fetch', 'network'],
+  ['sandbox-shell', 'code'],
+];
+const POLICY_NAMES = ['Production safety', 'Cost guardrails', 'Data exfiltration', 'Human review for writes', 'Default allow'];
+const MEMORY_TYPES: Memory['type'][] = ['conversation', 'knowledge', 'policy', 'procedure'];
+const TAGS = ['billing', 'incident', 'customer', 'security', 'release', 'vendor', 'latency', 'onboarding'];
+
+const HOUR = 3600 * 1000;
+const iso = (ms: number) => new Date(ms).toISOString();
+
+function makeAgents(ctx: GenerateContext): AgentProfile[] {
+  return AGENT_NAMES.map((name, i) => {
+    const allowed = TOOLS.filter(() => ctx.random() < 0.5);
+    return fixture(AgentProfileSchema, ctx, {
+      id: `agent_${String(i + 1).padStart(3, '0')}`,
+      name,
+      type: pick(ctx.random, AGENT_TYPES),
+      behaviorPreset: pick(ctx.random, PRESETS),
+      status: i === 6 ? 'maintenance' : i === 7 ? 'inactive' : 'active',
+      lastActivity: iso(ctx.now - between(ctx.random, 0, 6 * HOUR)),
+      riskProfile: {
+        maxCost: intBetween(ctx.random, 20, 200),
+        maxExecutionTime: intBetween(ctx.random, 60, 1800),
+        allowedTools: allowed,
+        forbiddenTools: TOOLS.filter(tool => !allowed.includes(tool) && ctx.random() < 0.3),
+        autonomyLevel: intBetween(ctx.random, 1, 5),
+      },
+    });
+  });
+}
+
+function makeOrchestration(ctx: GenerateContext, index: number, agents: AgentProfile[]): Orchestration {
+  const { random, now } = ctx;
+  const agent = pick(random, agents.filter(candidate => candidate.status === 'active'));
+  const id = `orch_${String(index + 1).padStart(4, '0')}`;
+  const createdAt = now - index * 2.5 * HOUR - between(random, 0, HOUR);
+  const status: Orchestration['status'] =
+    index < 4 ? 'running' : index < 6 ? 'pending' : random() < 0.8 ? 'completed' : random() < 0.6 ? 'failed' : 'cancelled';
+  const progress = status === 'completed' ? 100 : status === 'pending' ? 0 : status === 'running' ? intBetween(random, 10, 90) : intBetween(random, 5, 95);
+  const duration = intBetween(random, 20_000, 900_000);
+  const stepCount = intBetween(random, 3, STEP_NAMES.length);
+
+  const steps = STEP_NAMES.slice(0, stepCount).map((name, stepIndex) => {
+    const done = (stepIndex + 1) / stepCount * 100 <= progress;
+    const stepStatus = done ? 'completed' : status === 'running' && (stepIndex / stepCount) * 100 <= progress ? 'running' : status === 'failed' && !done ? 'failed' : 'pending';
+    return {
+      id: `${id}_step_${stepIndex + 1}`,
+      name,
+      status: stepStatus,
+      progress: done ? 100 : stepStatus === 'running' ? intBetween(random, 10, 90) : 0,
+      agentId: agent.id,
+      agentName: agent.name,
+      type: name === 'Call model' ? 'llm_request' : name === 'Run tool' ? 'tool_request' : name === 'Review output' ? 'approval' : 'condition',
+      startTime: stepStatus !== 'pending' ? iso(createdAt + stepIndex * 30_000) : undefined,
+      endTime: done ? iso(createdAt + (stepIndex + 1) * 30_000) : undefined,
+    } as const;
+  });
+
+  const name = pick(random, RUN_NAMES);
+
+  return fixture(OrchestrationSchema, ctx, {
+    id,
+    name,
+    description: `${name} run by ${agent.name}`,
+    status,
+    progress,
+    createdAt: iso(createdAt),
+    startTime: status === 'pending' ? undefined : iso(createdAt + 5_000),
+    endTime: ['completed', 'failed', 'cancelled'].includes(status) ? iso(createdAt + duration) : undefined,
+    // Unfinished runs finish `duration` after they were created, or after now for the part still to do
+    estimatedCompletion: status === 'running' || status === 'pending'
+      ? iso(Math.max(createdAt + duration, now + duration * (100 - progress) / 100))
+      : undefined,
+    agentId: agent.id,
+    agentName: agent.name,
+    executionPlan: {
+      id: `plan_${id}`,
+      orchestrationId: id,
+      steps: steps as Orchestration['executionPlan']['steps'],
+      toolAllowlist: agent.riskProfile.allowedTools,
+      toolDenylist: agent.riskProfile.forbiddenTools,
+      allowed: true,
+      decision: 'allow',
+      metadata: { evaluatedAt: iso(createdAt), evaluator: 'supervisor' },
+    },
+    metrics: {
+      duration: status === 'pending' ? 0 : duration,
+      cost: Number(between(random, 0.05, 12).toFixed(2)),
+      tokensUsed: intBetween(random, 1_000, 80_000),
+      toolCalls: intBetween(random, 0, 40),
+    },
+  });
+}
+
+function makePolicies(ctx: GenerateContext): { policies: Policy[]; versions: Map<string, PolicyVersion[]> } {
+  const versions = new Map<string, PolicyVersion[]>();
+  const policies = POLICY_NAMES.map((name, i) => {
+    const id = `policy_${String(i + 1).padStart(2, '0')}`;
+    const rules = [
+      { id: `${id}_rule_1`, name: 'Block shell in production', priority: 100, action: 'deny' as const, enabled: true, conditions: [{ field: 'intent.tool', operator: 'equals' as const, value: 'shell.exec' }, { field: 'context.environment', operator: 'equals' as const, value: 'production' }], parameters: {} },
+      { id: `${id}_rule_2`, name: 'Review expensive runs', priority: 50, action: 'ask' as const, enabled: true, conditions: [{ field: 'intent.estimatedCost', operator: 'gt' as const, value: 25 }], parameters: {} },
+      { id: `${id}_rule_3`, name: 'Allow read-only tools', priority: 10, action: 'allow' as const, enabled: i !== 4, conditions: [{ field: 'intent.tool', operator: 'in' as const, value: ['fs.read', 'web.search', 'sql.query'] }], parameters: {} },
+    ];
+    const policy = fixture(PolicySchema, ctx, {
+      id,
+      name,
+      description: `${name} rules for agent tool use`,
+      status: i === 3 ? 'draft' : 'active',
+      priority: 100 - i * 10,
+      version: `1.${i + 2}.0`,
+      rules: rules.map(rule => ({ ...rule, description: rule.name })),
+      updatedAt: iso(ctx.now - i * 24 * HOUR),
+    });
+
+    // Older revisions drop or loosen rules so the history diff has something to show
+    versions.set(id, [0, 1, 2].map(revision => fixture(PolicyVersionSchema, ctx, {
+      ...policy,
+      version: `1.${i + 2 - revision}.0`,
+      rules: revision === 0 ? policy.rules : policy.rules.slice(revision).map(rule => ({ ...rule, priority: rule.priority + revision })),
+      updatedAt: iso(ctx.now - (i + revision * 7) * 24 * HOUR),
+      changedBy: pick(ctx.random, ['ops@example.com', 'security@example.com', 'platform@example.com']),
+      changeNote: revision === 0 ? 'Current revision' : `Revision ${revision} before rule cleanup`,
+    })));
+
+    return policy;
+  });
+  return { policies, versions };
+}
+
+function makeApprovals(ctx: GenerateContext, orchestrations: Orchestration[]): ApprovalRequest[] {
+  return orchestrations.filter(run => run.status === 'running').slice(0, 3).map((run, i) => {
+    const step = { ...run.executionPlan.steps[Math.min(2, run.executionPlan.steps.length - 1)], status: 'waiting_approval' as const };
+    return fixture(ApprovalRequestSchema, ctx, {
+      id: `approval_${i + 1}`,
+      status: 'pending',
+      orchestrationId: run.id,
+      orchestrationName: run.name,
+      step,
+      decision: {
+        orchestrationId: run.id,
+        agentId: run.agentId,
+        intent: { tool: pick(ctx.random, ['fs.write', 'email.send', 'http.request']), estimatedCost: intBetween(ctx.random, 10, 60) },
+        executionPlan: { ...run.executionPlan, decision: 'ask', allowed: false, reasonCodes: ['REQUIRES_HUMAN_REVIEW'] },
+      },
+      requestedAt: iso(ctx.now - between(ctx.random, 0.1, 3) * HOUR),
+      resolvedAt: undefined,
+      resolvedBy: undefined,
+      justification: undefined,
+    });
+  });
+}
+
+// Memories of the same type cluster together so the embedding map shows structure
+function makeMemories(ctx: GenerateContext, orchestrations: Orchestration[]): Memory[] {
+  const centers = MEMORY_TYPES.map(() => Array.from({ length: 16 }, () => between(ctx.random, -1, 1)));
+  return Array.from({ length: 60 }, (_, i) => {
+    const typeIndex = i % MEMORY_TYPES.length;
+    return fixture(MemorySchema, ctx, {
+      id: `mem_${String(i + 1).padStart(3, '0')}`,
+      type: MEMORY_TYPES[typeIndex],
+      tags: TAGS.filter(() => ctx.random() < 0.25).slice(0, 3),
+      source: { type: 'orchestration', id: pick(ctx.random, orchestrations).id },
+      createdAt: iso(ctx.now - between(ctx.random, 0, 120) * 24 * HOUR),
+      expiresAt: ctx.random() < 0.1 ? iso(ctx.now - 24 * HOUR) : undefined,
+      metadata: { embedding: centers[typeIndex].map(value => Number((value + between(ctx.random, -0.25, 0.25)).toFixed(4))) },
+    });
+  });
+}
+
+function makePlugins(ctx: GenerateContext): Plugin[] {
+  return PLUGIN_NAMES.map(([name, category]) => fixture(PluginSchema, ctx, {
+    id: name,
+    name,
+    description: `${name} plugin`,
+    category,
+    status: 'active',
+    health: { status: 'healthy', lastCheck: iso(ctx.now) },
+  }));
+}
+
+function makeAudit(ctx: GenerateContext, orchestrations: Orchestration[], policies: Policy[], user: User): AuditEntry[] {
+  const templates: { type: AuditEntry['type']; level: AuditEntry['level']; message: string }[] = [
+    { type: 'supervisor_decision', level: 'info', message: 'Execution plan approved by supervisor' },
+    { type: 'supervisor_decision', level: 'warning', message: 'Execution plan escalated for human review' },
+    { type: 'agent_action', level: 'info', message: 'Tool call completed' },
+    { type: 'agent_action', level: 'error', message: 'Tool call failed after retries' },
+    { type: 'policy_violation', level: 'critical', message: 'Denied tool requested in production' },
+    { type: 'system_event', level: 'info', message: 'Plugin health check passed' },
+    { type: 'user_action', level: 'info', message: 'Policy rules updated' },
+  ];
+
+  return Array.from({ length: 300 }, (_, i) => {
+    const template = pick(ctx.random, templates);
+    const run = pick(ctx.random, orchestrations);
+    const policy = pick(ctx.random, policies);
+    return fixture(AuditEntrySchema, ctx, {
+      id: `audit_${String(i + 1).padStart(5, '0')}`,
+      timestamp: iso(ctx.now - i * 0.4 * HOUR),
+      ...template,
+      userId: template.type === 'user_action' ? user.id : undefined,
+      agentId: template.type === 'user_action' ? undefined : run.agentId,
+      orchestrationId: template.type === 'user_action' || template.type === 'system_event' ? undefined : run.id,
+      policyId: template.type === 'supervisor_decision' || template.type === 'policy_violation' ? policy.id : undefined,
+      metadata: { policyName: policy.name, decision: template.level === 'critical' ? 'deny' : 'allow' },
+    });
+  });
+}
+
+export function createDataset(seed = 42, now = Date.now()): Dataset {
+  const ctx: GenerateContext = { random: seededRandom(seed), now };
+
+  const user = fixture(UserSchema, ctx, {
+    id: 'user_001',
+    email: 'operator@example.com',
+    name: 'Mock Operator',
+    role: 'owner',
+    isActive: true,
+    createdAt: iso(now - 180 * 24 * HOUR),
+    lastLogin: iso(now - 2 * HOUR),
+  });
+  const agents = makeAgents(ctx);
+  const orchestrations = Array.from({ length: 40 }, (_, i) => makeOrchestration(ctx, i, agents));
+  const { policies, versions } = makePolicies(ctx);
+
+  return {
+    user,
+    agents,
+    orchestrations,
+    policies,
+    policyVersions: versions,
+    approvals: makeApprovals(ctx, orchestrations),
+    memories: makeMemories(ctx, orchestrations),
+    plugins: makePlugins(ctx),
+    audit: makeAudit(ctx, orchestrations, policies, user),
+    settings: {
+      environment: 'development',
+      defaultPolicyId: policies[0].id,
+      approvalTimeoutMinutes: 30,
+      retentionDays: 90,
+    },
+  };
+}
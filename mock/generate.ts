@@ -0,0 +1,188 @@
+import { z, type ZodTypeAny } from 'zod';
+
+/**
+ * Builds plausible values for any zod schema.
+ *
+ * Field names drive the values (ids look like ids, rates stay in 0..1, timestamps are recent),
+ * and schema constraints (min/max, enums, datetime, url, email) are respected so generated
+ * fixtures always parse. Seeded, so the same seed gives the same data.
+ */
+
+export type Random = () => number;
+
+// mulberry32 - tiny, seedable, good enough for fixtures
+export function seededRandom(seed: number): Random {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export const pick = <T>(random: Random, items: readonly T[]): T => items[Math.floor(random() * items.length)];
+export const between = (random: Random, min: number, max: number) => min + random() * (max - min);
+export const intBetween = (random: Random, min: number, max: number) => Math.floor(between(random, min, max + 1));
+
+const WORDS = [
+  'alpha', 'amber', 'atlas', 'beacon', 'cedar', 'cobalt', 'delta', 'ember', 'falcon', 'granite',
+  'harbor', 'helix', 'iris', 'juniper', 'kestrel', 'lumen', 'meridian', 'nova', 'onyx', 'orbit',
+  'pioneer', 'quartz', 'raven', 'sable', 'summit', 'tango', 'vector', 'willow', 'zenith',
+];
+
+const SENTENCES = [
+  'Summarize the weekly incident reports and flag recurring root causes.',
+  'Reconcile invoices against purchase orders and escalate mismatches.',
+  'Draft a customer reply based on the ticket history and refund policy.',
+  'Scan the repository for leaked credentials before the release branch is cut.',
+  'Collect latency metrics from the staging cluster and compare them with last week.',
+  'Classify inbound support emails and route them to the right queue.',
+  'Generate release notes from merged pull requests since the last tag.',
+  'Check vendor contracts for auto-renewal clauses expiring this quarter.',
+];
+
+export interface GenerateContext {
+  random: Random;
+  // Reference time for generated timestamps
+  now: number;
+}
+
+function hex(random: Random, length: number): string {
+  let out = '';
+  for (let i = 0; i < length; i++) out += Math.floor(random() * 16).toString(16);
+  return out;
+}
+
+function idPrefix(key: string): string {
+  const base = key === 'id' ? 'obj' : key.replace(/Id$/, '');
+  return base.replace(/[A-Z]/g, c => `_${c.toLowerCase()}`).slice(0, 12);
+}
+
+function stringFor(schema: z.ZodString, key: string, ctx: GenerateContext): string {
+  const { random, now } = ctx;
+  if (schema.isDatetime) return new Date(now - Math.floor(random() * 30 * 24 * 3600 * 1000)).toISOString();
+  if (schema.isEmail) return `${pick(random, WORDS)}.${pick(random, WORDS)}@example.com`;
+  if (schema.isURL) return `https://example.com/${pick(random, WORDS)}`;
+  if (schema.isUUID) return `${hex(random, 8)}-${hex(random, 4)}-4${hex(random, 3)}-a${hex(random, 3)}-${hex(random, 12)}`;
+
+  let value: string;
+  if (key === 'id' || key.endsWith('Id')) value = `${idPrefix(key)}_${hex(random, 8)}`;
+  else if (key === 'version' || key === 'schemaVersion' || key === 'policyVersion') value = `${intBetween(random, 1, 3)}.${intBetween(random, 0, 9)}.${intBetween(random, 0, 9)}`;
+  else if (key === 'token') value = hex(random, 48);
+  else if (/name$/i.test(key)) value = `${pick(random, WORDS)}-${pick(random, WORDS)}`;
+  else if (/(description|summary|message|prompt|text|justification|note|query|point)$/i.test(key)) value = pick(random, SENTENCES);
+  else value = pick(random, WORDS);
+
+  const min = schema.minLength ?? 0;
+  const max = schema.maxLength ?? Infinity;
+  while (value.length < min) value += ` ${pick(random, WORDS)}`;
+  return value.slice(0, max);
+}
+
+function numberFor(schema: z.ZodNumber, key: string, ctx: GenerateContext): number {
+  const { random } = ctx;
+  let min = 0;
+  let max = 1000;
+  let decimals = 0;
+
+  if (/(rate|confidence|importance|score|ratio)$/i.test(key)) [max, decimals] = [1, 3];
+  else if (key === 'progress') max = 100;
+  else if (/(cost|llm|tools|storage|thisMonth)$/i.test(key)) [max, decimals] = [80, 2];
+  else if (/(duration|time|ms|latency)$/i.test(key)) [min, max] = [50, 60000];
+  else if (/tokens/i.test(key)) [min, max] = [100, 20000];
+  else if (key === 'uptime') [min, max] = [3600, 30 * 24 * 3600];
+  else if (key === 'priority') max = 100;
+
+  if (schema.minValue !== null && schema.minValue !== undefined) min = Math.max(min, schema.minValue);
+  if (schema.maxValue !== null && schema.maxValue !== undefined) max = Math.min(max, schema.maxValue);
+  if (max < min) max = min;
+
+  const value = between(random, min, max);
+  return schema.isInt || decimals === 0 ? Math.round(value) : Number(value.toFixed(decimals));
+}
+
+/**
+ * A value for `schema`. `key` is the property name the value is stored under and steers the
+ * heuristics; nested objects pass their own keys down.
+ */
+export function generate(schema: ZodTypeAny, ctx: GenerateContext, key = ''): unknown {
+  const { random } = ctx;
+
+  if (schema instanceof z.ZodEffects) return generate(schema.innerType(), ctx, key);
+  if (schema instanceof z.ZodLazy) return generate(schema.schema, ctx, key);
+  if (schema instanceof z.ZodBranded) return generate(schema.unwrap(), ctx, key);
+  if (schema instanceof z.ZodCatch) return generate(schema.removeCatch(), ctx, key);
+  if (schema instanceof z.ZodPipeline) return generate(schema._def.in, ctx, key);
+  if (schema instanceof z.ZodDefault) return generate(schema.removeDefault(), ctx, key);
+  if (schema instanceof z.ZodOptional) return random() < 0.8 ? generate(schema.unwrap(), ctx, key) : undefined;
+  if (schema instanceof z.ZodNullable) return random() < 0.9 ? generate(schema.unwrap(), ctx, key) : null;
+
+  if (schema instanceof z.ZodObject) {
+    const out: Record<string, unknown> = {};
+    for (const [childKey, child] of Object.entries(schema.shape as Record<string, ZodTypeAny>)) {
+      const value = generate(child, ctx, childKey);
+      if (value !== undefined) out[childKey] = value;
+    }
+    return out;
+  }
+
+  if (schema instanceof z.ZodArray) {
+    const min = schema._def.minLength?.value ?? 0;
+    const max = schema._def.maxLength?.value ?? Math.max(min, 4);
+    const count = key === 'embedding' ? 16 : intBetween(random, Math.max(min, 1), Math.max(min, Math.min(max, 4)));
+    return Array.from({ length: count }, () => generate(schema.element, ctx, key === 'embedding' ? 'embeddingValue' : singular(key)));
+  }
+
+  if (schema instanceof z.ZodRecord) {
+    const out: Record<string, unknown> = {};
+    const count = intBetween(random, 1, 3);
+    for (let i = 0; i < count; i++) out[pick(random, WORDS)] = generate(schema.valueSchema, ctx, 'value');
+    return out;
+  }
+
+  if (schema instanceof z.ZodTuple) return schema.items.map((item: ZodTypeAny, idx: number) => generate(item, ctx, `${key}${idx}`));
+  if (schema instanceof z.ZodDiscriminatedUnion) return generate(pick(random, schema.options as ZodTypeAny[]), ctx, key);
+  if (schema instanceof z.ZodUnion) return generate(pick(random, schema.options as ZodTypeAny[]), ctx, key);
+  if (schema instanceof z.ZodEnum) return pick(random, schema.options as string[]);
+  if (schema instanceof z.ZodNativeEnum) return pick(random, Object.values(schema.enum));
+  if (schema instanceof z.ZodLiteral) return schema.value;
+  if (schema instanceof z.ZodString) return stringFor(schema, key, ctx);
+  if (schema instanceof z.ZodNumber) return key === 'embeddingValue' ? Number(between(random, -1, 1).toFixed(4)) : numberFor(schema, key, ctx);
+  if (schema instanceof z.ZodBoolean) return random() < 0.8;
+  if (schema instanceof z.ZodDate) return new Date(ctx.now);
+  if (schema instanceof z.ZodNull) return null;
+  if (schema instanceof z.ZodAny || schema instanceof z.ZodUnknown) return pick(random, WORDS);
+
+  throw new Error(`No generator for ${schema.constructor.name}${key ? ` at "${key}"` : ''}`);
+}
+
+function singular(key: string): string {
+  return key.endsWith('ies') ? `${key.slice(0, -3)}y` : key.replace(/s$/, '');
+}
+
+type DeepPartial<T> = T extends (infer U)[] ? DeepPartial<U>[] : T extends object ? { [K in keyof T]?: DeepPartial<T[K]> } : T;
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function merge(base: unknown, overrides: unknown): unknown {
+  if (!isPlainObject(base) || !isPlainObject(overrides)) return overrides === undefined ? base : overrides;
+  const out: Record<string, unknown> = { ...base };
+  for (const [key, value] of Object.entries(overrides)) {
+    // An explicit undefined removes the generated value
+    if (value === undefined) delete out[key];
+    else out[key] = merge(base[key], value);
+  }
+  return out;
+}
+
+/**
+ * Generates a value, applies `overrides` on top and parses the result, so a fixture that
+ * drifts from the schema fails loudly at startup instead of confusing the dashboard.
+ */
+export function fixture<S extends ZodTypeAny>(schema: S, ctx: GenerateContext, overrides?: DeepPartial<z.infer<S>>): z.infer<S> {
+  return schema.parse(merge(generate(schema, ctx), overrides));
+}
@@ -0,0 +1,87 @@
+/**
+ * Switchable failure modes for the mock backend. A scenario only decides how the server
+ * misbehaves - latency, injected errors, what /health and /ready report - never the data itself.
+ */
+
+export type ScenarioName = 'healthy' | 'degraded' | 'db-down' | 'slow';
+
+export interface Scenario {
+  name: ScenarioName;
+  description: string;
+  // Added to every response, picked uniformly in [min, max] ms
+  latency: [number, number];
+  // Chance that a request gets a stall longer than the client's 8s timeout
+  timeoutRate: number;
+  // Chance that a GET under /api answers 503 with Retry-After
+  errorRate: number;
+  checks: { database: boolean; redis: boolean };
+  ready: boolean;
+  // Every /api request fails, as when the store plugin cannot reach its database
+  apiDown: boolean;
+  // Plugins reported as degraded in /api/plugins
+  degradedPlugins: string[];
+  // Live events are only emitted while the backend can run orchestrations
+  events: boolean;
+}
+
+export const SCENARIOS: Record<ScenarioName, Scenario> = {
+  healthy: {
+    name: 'healthy',
+    description: 'Everything up, low latency',
+    latency: [20, 120],
+    timeoutRate: 0,
+    errorRate: 0,
+    checks: { database: true, redis: true },
+    ready: true,
+    apiDown: false,
+    degradedPlugins: [],
+    events: true,
+  },
+  degraded: {
+    name: 'degraded',
+    description: 'Redis down, not ready, some API calls fail with 503',
+    latency: [300, 900],
+    timeoutRate: 0,
+    errorRate: 0.2,
+    checks: { database: true, redis: false },
+    ready: false,
+    apiDown: false,
+    degradedPlugins: ['memory-stm-db', 'llm-gateway'],
+    events: true,
+  },
+  'db-down': {
+    name: 'db-down',
+    description: 'Database unreachable: /health is unhealthy and every /api route answers 503',
+    latency: [20, 80],
+    timeoutRate: 0,
+    errorRate: 0,
+    checks: { database: false, redis: true },
+    ready: false,
+    apiDown: true,
+    degradedPlugins: [],
+    events: false,
+  },
+  slow: {
+    name: 'slow',
+    description: 'Responses take 2-6s and some exceed the client timeout',
+    latency: [2000, 6000],
+    timeoutRate: 0.1,
+    errorRate: 0,
+    checks: { database: true, redis: true },
+    ready: true,
+    apiDown: false,
+    degradedPlugins: [],
+    events: true,
+  },
+};
+
+export function isScenarioName(value: unknown): value is ScenarioName {
+  return typeof value === 'string' && value in SCENARIOS;
+}
+
+// Milliseconds to hold the response for under `scenario`
+export function responseDelay(scenario: Scenario, random: () => number = Math.random): number {
+  if (random() < scenario.timeoutRate) return 9000 + random() * 3000;
+  const [min, max] = scenario.latency;
+  return min + random() * (max - min);
+}
@@ -0,0 +1,731 @@
+/**
+ * Local mock of the orchestrator backend, for developing the dashboard without production.
+ *
+ *   npm run mock                          # http://localhost:3001, scenario "healthy"
+ *   MOCK_SCENARIO=db-down npm run mock    # start in another scenario
+ *   curl -X POST localhost:3001/__mock/scenario -d '{"scenario":"slow"}'
+ *
+ * Serves every route UltraSecureApiClient calls, plus the /ws event stream. Data comes from
+ * `createDataset`, so it always matches src/lib/schemas/api.ts; mutations are kept in memory
+ * until restart. Environment: PORT (3001), MOCK_SCENARIO, MOCK_SEED (42), MOCK_SESSION_MINUTES (60).
+ * Any email signs in as the dataset's owner; the password "wrong" is rejected.
+ */
+
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
+import { randomUUID } from 'node:crypto';
+import { WebSocketServer, type WebSocket } from 'ws';
+import {
+  AgentProfileSchema,
+  OrchestrationSchema,
+  type AuditEntry,
+  type ComplianceReport,
+  type Orchestration,
+  type OrchestrationEvent,
+} from '@/lib/schemas/api';
+import { evaluatePolicy } from '@/lib/policies/evaluate';
+import { createDataset } from './fixtures';
+import { fixture, pick, seededRandom } from './generate';
+import { SCENARIOS, isScenarioName, responseDelay, type Scenario } from './scenarios';
+
+const PORT = Number(process.env.PORT ?? 3001);
+const SEED = Number(process.env.MOCK_SEED ?? 42);
+const SESSION_MINUTES = Number(process.env.MOCK_SESSION_MINUTES ?? 60);
+const UNAUTHORIZED_CLOSE_CODE = 4001;
+const VERSION = '0.9.0-mock';
+
+const startedAt = Date.now();
+const db = createDataset(SEED);
+const random = seededRandom(SEED + 1);
+const sessions = new Map<string, number>();
+const requestCounts = new Map<string, number>();
+const durationBuckets = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+const durations = { buckets: durationBuckets.map(() => 0), sum: 0, count: 0 };
+
+let scenario: Scenario = SCENARIOS[isScenarioName(process.env.MOCK_SCENARIO) ? process.env.MOCK_SCENARIO : 'healthy'];
+
+class HttpError extends Error {
+  constructor(public status: number, message: string, public code?: string, public headers: Record<string, string> = {}) {
+    super(message);
+  }
+}
+
+// Response helpers
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, PUT, PATCH, DELETE, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Request-ID',
+  'Access-Control-Expose-Headers': 'Content-Length, Content-Disposition, Retry-After',
+};
+
+function send(res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) {
+  const payload = typeof body === 'string' ? body : JSON.stringify(body);
+  res.writeHead(status, {
+    ...CORS_HEADERS,
+    'Content-Type': typeof body === 'string' ? 'text/plain; charset=utf-8' : 'application/json',
+    'Content-Length': String(Buffer.byteLength(payload)),
+    ...headers,
+  });
+  res.end(payload);
+}
+
+const ok = <T>(data: T, message?: string) => ({ success: true, data, timestamp: new Date().toISOString(), message });
+
+function paginate<T>(items: T[], query: URLSearchParams) {
+  const limit = Number(query.get('limit') ?? 20);
+  const offset = Number(query.get('offset') ?? 0);
+  return {
+    page: items.slice(offset, offset + limit),
+    pagination: { total: items.length, limit, offset, hasMore: offset + limit < items.length },
+  };
+}
+
+function inDateRange(timestamp: string, query: URLSearchParams): boolean {
+  const start = query.get('startDate');
+  const end = query.get('endDate');
+  return (!start || timestamp >= start) && (!end || timestamp <= end);
+}
+
+function findOr404<T extends { id: string }>(items: T[], id: string, kind: string): T {
+  const item = items.find(candidate => candidate.id === id);
+  if (!item) throw new HttpError(404, `${kind} ${id} not found`, 'NOT_FOUND');
+  return item;
+}
+
+async function readJson(req: IncomingMessage): Promise<Record<string, any>> {
+  let raw = '';
+  for await (const chunk of req) raw += chunk;
+  if (!raw) return {};
+  try {
+    return JSON.parse(raw);
+  } catch {
+    throw new HttpError(400, 'Request body is not valid JSON', 'INVALID_JSON');
+  }
+}
+
+// Sessions - tokens are opaque and only live as long as the process
+
+function issueSession() {
+  const token = randomUUID().replace(/-/g, '');
+  const expiresAt = Date.now() + SESSION_MINUTES * 60 * 1000;
+  sessions.set(token, expiresAt);
+  db.user.lastLogin = new Date().toISOString();
+  return { token, user: db.user, expiresAt: new Date(expiresAt).toISOString(), environment: 'development' as const };
+}
+
+function tokenValid(token: string | undefined): boolean {
+  const expiresAt = token ? sessions.get(token) : undefined;
+  return expiresAt !== undefined && expiresAt > Date.now();
+}
+
+// Requests without a token are let through so the dashboard works signed out; a stale token is rejected
+function checkAuth(req: IncomingMessage): string | undefined {
+  const token = req.headers.authorization?.replace(/^Bearer\s+/i, '');
+  if (token && !tokenValid(token)) throw new HttpError(401, 'Session expired', 'SESSION_EXPIRED');
+  return token;
+}
+
+// Live events
+
+function eventPair(run: Orchestration): OrchestrationEvent[] {
+  const correlationId = randomUUID();
+  const base = { orchestrationId: run.id, agentId: run.agentId, correlationId };
+  const requestedAt = new Date().toISOString();
+
+  if (random() < 0.5) {
+    const toolId = pick(random, run.executionPlan.toolAllowlist.length > 0 ? run.executionPlan.toolAllowlist : ['web.search']);
+    return [
+      { event: 'ToolRequested', data: { ...base, toolId, input: { query: 'latest incidents' }, timestamp: requestedAt } },
+      {
+        event: 'ToolExecuted',
+        data: {
+          ...base,
+          toolId,
+          result: { success: random() > 0.1, output: { items: Math.floor(random() * 20) }, executionTime: Math.round(50 + random() * 2000), metadata: {} },
+          timestamp: new Date().toISOString(),
+        },
+      },
+    ];
+  }
+
+  return [
+    { event: 'LLMRequested', data: { ...base, providerId: 'llm-gateway', prompt: run.description, parameters: { temperature: 0.2 }, timestamp: requestedAt } },
+    {
+      event: 'LLMResponded',
+      data: {
+        ...base,
+        providerId: 'llm-gateway',
+        response: { text: `Step finished for ${run.name}.`, tokens: Math.round(200 + random() * 3000), metadata: { model: 'mock-large' } },
+        timestamp: new Date().toISOString(),
+      },
+    },
+  ];
+}
+
+// Overview is derived from the data so the numbers agree with the list pages
+
+function overview() {
+  const runs = db.orchestrations;
+  const count = (status: Orchestration['status']) => runs.filter(run => run.status === status).length;
+  const cost = runs.reduce((sum, run) => sum + (run.metrics.cost ?? 0), 0);
+  const componentStatus = (up: boolean) => (up ? 'healthy' : 'critical');
+  const components: Record<string, 'healthy' | 'degraded' | 'critical'> = {
+    database: componentStatus(scenario.checks.database),
+    redis: componentStatus(scenario.checks.redis),
+    ...Object.fromEntries(scenario.degradedPlugins.map(name => [name, 'degraded' as const])),
+  };
+
+  return {
+    orchestrations: { total: runs.length, active: count('running'), completed: count('completed'), failed: count('failed') },
+    agents: {
+      total: db.agents.length,
+      active: db.agents.filter(agent => agent.status === 'active').length,
+      idle: db.agents.filter(agent => agent.status === 'maintenance').length,
+      offline: db.agents.filter(agent => agent.status === 'inactive' || agent.status === 'error').length,
+    },
+    system: {
+      status: !scenario.checks.database ? 'critical' : scenario.name === 'healthy' ? 'healthy' : 'degraded',
+      components,
+      lastCheck: new Date().toISOString(),
+      uptime: Math.round((Date.now() - startedAt) / 1000),
+      version: VERSION,
+    },
+    performance: {
+      requestsPerMinute: Math.round(120 + random() * 60),
+      averageResponseTime: Math.round((scenario.latency[0] + scenario.latency[1]) / 2),
+      errorRate: scenario.errorRate,
+      throughput: Math.round(40 + random() * 20),
+    },
+    costs: {
+      total: Number(cost.toFixed(2)),
+      thisMonth: Number((cost * 0.4).toFixed(2)),
+      breakdown: { llm: Number((cost * 0.7).toFixed(2)), tools: Number((cost * 0.25).toFixed(2)), storage: Number((cost * 0.05).toFixed(2)) },
+    },
+  };
+}
+
+function complianceReport(dateRange: { start: string; end: string }): ComplianceReport {
+  const entries = db.audit.filter(entry => entry.timestamp >= dateRange.start && entry.timestamp <= dateRange.end);
+  const decisions = entries.filter(entry => entry.type === 'supervisor_decision' || entry.type === 'policy_violation');
+  const decisionOf = (entry: AuditEntry) => (entry.type === 'policy_violation' ? 'deny' : entry.level === 'warning' ? 'ask' : 'allow');
+  const policyName = (id?: string) => db.policies.find(policy => policy.id === id)?.name;
+  const resolved = db.approvals.filter(approval => approval.status !== 'pending' && approval.resolvedAt);
+
+  return {
+    exportId: `exp_${randomUUID()}`,
+    type: 'compliance_report',
+    format: 'json',
+    dateRange,
+    generatedAt: new Date().toISOString(),
+    schemaVersion: '1.0.0',
+    data: {
+      summary: {
+        totalDecisions: decisions.length,
+        allowed: decisions.filter(entry => decisionOf(entry) === 'allow').length,
+        denied: decisions.filter(entry => decisionOf(entry) === 'deny').length,
+        escalated: decisions.filter(entry => decisionOf(entry) === 'ask').length,
+        violations: entries.filter(entry => entry.type === 'policy_violation').length,
+        approvals: resolved.length,
+      },
+      decisionsByPolicy: db.policies.map(policy => {
+        const mine = decisions.filter(entry => entry.policyId === policy.id);
+        const tally = (decision: string) => mine.filter(entry => decisionOf(entry) === decision).length;
+        return { policyId: policy.id, policyName: policy.name, total: mine.length, allow: tally('allow'), deny: tally('deny'), ask: tally('ask'), autofix: 0 };
+      }),
+      violations: entries
+        .filter(entry => entry.type === 'policy_violation')
+        .map(entry => ({
+          id: entry.id,
+          timestamp: entry.timestamp,
+          level: entry.level,
+          message: entry.message,
+          policyId: entry.policyId,
+          policyName: policyName(entry.policyId),
+          agentId: entry.agentId,
+          orchestrationId: entry.orchestrationId,
+        })),
+      approvals: resolved.map(approval => ({
+        id: approval.id,
+        orchestrationId: approval.orchestrationId,
+        stepName: approval.step.name,
+        status: approval.status as 'approved' | 'rejected',
+        approverId: db.user.id,
+        approverName: db.user.name,
+        justification: approval.justification,
+        requestedAt: approval.requestedAt,
+        resolvedAt: approval.resolvedAt!,
+      })),
+    },
+  };
+}
+
+function auditCsv(entries: AuditEntry[]): string {
+  const columns = ['id', 'timestamp', 'type', 'level', 'message', 'userId', 'agentId', 'orchestrationId', 'policyId'] as const;
+  const cell = (value: unknown) => (value === undefined ? '' : `"${String(value).replace(/"/g, '""')}"`);
+  return [columns.join(','), ...entries.map(entry => columns.map(column => cell(entry[column])).join(','))].join('\n');
+}
+
+function filterAudit(query: URLSearchParams): AuditEntry[] {
+  return db.audit.filter(entry =>
+    (!query.get('type') || entry.type === query.get('type')) &&
+    (!query.get('level') || entry.level === query.get('level')) &&
+    (!query.get('agentId') || entry.agentId === query.get('agentId')) &&
+    (!query.get('orchestrationId') || entry.orchestrationId === query.get('orchestrationId')) &&
+    inDateRange(entry.timestamp, query)
+  );
+}
+
+// Routes under /api. Returns the response body, or sends the response itself and returns undefined.
+
+const SORT_KEYS: Record<string, (run: Orchestration) => number | string> = {
+  createdAt: run => run.createdAt,
+  cost: run => run.metrics.cost ?? 0,
+  duration: run => run.metrics.duration ?? 0,
+  progress: run => run.progress,
+};
+
+async function api(req: IncomingMessage, res: ServerResponse, segments: string[], query: URLSearchParams): Promise<unknown> {
+  const method = req.method ?? 'GET';
+  const [resource, id, action] = segments;
+  const route = `${method} ${resource ?? ''}${id ? '/:id' : ''}${action ? `/${action}` : ''}`;
+
+  if (resource === 'auth') {
+    if (route === 'POST auth/:id' && id === 'login') {
+      const body = await readJson(req);
+      if (!body.email || body.password === 'wrong') throw new HttpError(401, 'Invalid credentials', 'INVALID_CREDENTIALS');
+      return ok(issueSession());
+    }
+    if (route === 'POST auth/:id' && id === 'refresh') {
+      const token = checkAuth(req);
+      if (!token) throw new HttpError(401, 'Not signed in', 'UNAUTHENTICATED');
+      sessions.delete(token);
+      return ok(issueSession());
+    }
+    if (route === 'POST auth/:id' && id === 'logout') {
+      const token = req.headers.authorization?.replace(/^Bearer\s+/i, '');
+      if (token) sessions.delete(token);
+      return ok({ message: 'Signed out' });
+    }
+  }
+
+  checkAuth(req);
+
+  switch (route) {
+    case 'GET whoami':
+      return ok(db.user);
+    case 'GET overview':
+      return ok(overview());
+    case 'GET overview/:id':
+      if (id !== 'stats') break;
+      return ok({ ...overview().performance, uptime: Math.round((Date.now() - startedAt) / 1000) });
+
+    case 'GET orchestrations': {
+      const sortKey = SORT_KEYS[query.get('sortBy') ?? 'createdAt'] ?? SORT_KEYS.createdAt;
+      const direction = query.get('sortOrder') === 'asc' ? 1 : -1;
+      const runs = db.orchestrations
+        .filter(run =>
+          (!query.get('status') || run.status === query.get('status')) &&
+          (!query.get('agentId') || run.agentId === query.get('agentId')) &&
+          inDateRange(run.createdAt, query)
+        )
+        .sort((a, b) => (sortKey(a) > sortKey(b) ? direction : sortKey(a) < sortKey(b) ? -direction : 0));
+      const { page, pagination } = paginate(runs, query);
+      return ok({ orchestrations: page, pagination });
+    }
+    case 'POST orchestrations': {
+      const body = await readJson(req);
+      const agent = findOr404(db.agents, body.agentId, 'Agent');
+      const runId = `orch_${String(db.orchestrations.length + 1).padStart(4, '0')}`;
+      const run = fixture(OrchestrationSchema, { random, now: Date.now() }, {
+        id: runId,
+        name: body.name,
+        description: body.description ?? '',
+        status: 'pending',
+        progress: 0,
+        createdAt: new Date().toISOString(),
+        agentId: agent.id,
+        agentName: agent.name,
+        executionPlan: { orchestrationId: runId, steps: [] },
+        metrics: { duration: 0, cost: 0, tokensUsed: 0, toolCalls: 0 },
+      });
+      db.orchestrations.unshift(run);
+      return ok(run, 'Orchestration created');
+    }
+    case 'GET orchestrations/:id':
+      return ok(findOr404(db.orchestrations, id, 'Orchestration'));
+    case 'PATCH orchestrations/:id': {
+      const run = findOr404(db.orchestrations, id, 'Orchestration');
+      Object.assign(run, await readJson(req), { id: run.id });
+      return ok(run);
+    }
+    case 'DELETE orchestrations/:id':
+      findOr404(db.orchestrations, id, 'Orchestration');
+      db.orchestrations = db.orchestrations.filter(run => run.id !== id);
+      return ok({ message: `Orchestration ${id} deleted` });
+    case 'GET orchestrations/:id/export': {
+      const run = findOr404(db.orchestrations, id, 'Orchestration');
+      const bundle = {
+        exportId: `exp_${randomUUID()}`,
+        type: 'orchestration_bundle',
+        dateRange: { start: run.createdAt, end: run.endTime ?? new Date().toISOString() },
+        format: 'json',
+        data: { orchestration: run, events: Array.from({ length: 4 }, () => eventPair(run)).flat() },
+        generatedAt: new Date().toISOString(),
+        schemaVersion: '1.0.0',
+      };
+      send(res, 200, bundle, { 'Content-Disposition': `attachment; filename="orchestration-${id}.json"` });
+      return undefined;
+    }
+
+    case 'GET agents': {
+      const agents = db.agents.filter(agent =>
+        (!query.get('status') || agent.status === query.get('status')) &&
+        (!query.get('type') || agent.type === query.get('type'))
+      );
+      const { page, pagination } = paginate(agents, query);
+      return ok({ agents: page, pagination });
+    }
+    case 'POST agents': {
+      const body = await readJson(req);
+      const agent = fixture(AgentProfileSchema, { random, now: Date.now() }, {
+        ...body,
+        id: `agent_${String(db.agents.length + 1).padStart(3, '0')}`,
+        version: '1.0.0',
+        status: 'active',
+        lastActivity: new Date().toISOString(),
+        metrics: { tasksCompleted: 0, successRate: 0, averageResponseTime: 0, costThisMonth: 0 },
+        createdAt: new Date().toISOString(),
+        updatedAt: new Date().toISOString(),
+      });
+      db.agents.push(agent);
+      return ok(agent, 'Agent created');
+    }
+    case 'GET agents/:id':
+      return ok(findOr404(db.agents, id, 'Agent'));
+    case 'PATCH agents/:id': {
+      const agent = findOr404(db.agents, id, 'Agent');
+      Object.assign(agent, await readJson(req), { id: agent.id, updatedAt: new Date().toISOString() });
+      return ok(agent);
+    }
+    case 'POST agents/:id/clone': {
+      const source = findOr404(db.agents, id, 'Agent');
+      const body = await readJson(req);
+      const clone = {
+        ...structuredClone(source),
+        ...body.overrides,
+        id: `agent_${String(db.agents.length + 1).padStart(3, '0')}`,
+        name: `${source.name} (copy)`,
+        behaviorPreset: body.behaviorPreset ?? source.behaviorPreset,
+        createdAt: new Date().toISOString(),
+        updatedAt: new Date().toISOString(),
+      };
+      db.agents.push(clone);
+      return ok({ agent: clone, cloneDetails: { sourceId: source.id, behaviorPreset: clone.behaviorPreset } });
+    }
+
+    case 'GET policies': {
+      const { page, pagination } = paginate(db.policies, query);
+      return ok({ policies: page, pagination });
+    }
+    case 'GET policies/:id':
+      return ok(findOr404(db.policies, id, 'Policy'));
+    case 'PATCH policies/:id': {
+      const policy = findOr404(db.policies, id, 'Policy');
+      const previous = structuredClone(policy);
+      const [major, minor] = policy.version.split('.').map(Number);
+      Object.assign(policy, await readJson(req), { id: policy.id, version: `${major}.${minor + 1}.0`, updatedAt: new Date().toISOString() });
+      db.policyVersions.set(id, [{ ...policy, changedBy: db.user.email, changeNote: 'Edited in dashboard' }, ...(db.policyVersions.get(id) ?? []).map(version => version.version === previous.version ? { ...version, ...previous } : version)]);
+      return ok(policy);
+    }
+    case 'GET policies/:id/versions':
+      findOr404(db.policies, id, 'Policy');
+      return ok({ versions: db.policyVersions.get(id) ?? [] });
+    case 'POST policies/:id/test': {
+      const policy = findOr404(db.policies, id, 'Policy');
+      const body = await readJson(req);
+      return ok(evaluatePolicy(policy, { intent: body.intent ?? {}, context: body.context }));
+    }
+
+    case 'GET approvals': {
+      const approvals = db.approvals.filter(approval =>
+        (!query.get('status') || approval.status === query.get('status')) &&
+        (!query.get('orchestrationId') || approval.orchestrationId === query.get('orchestrationId'))
+      );
+      // Resolved approvals come back most recently decided first
+      approvals.sort((a, b) => (b.resolvedAt ?? '').localeCompare(a.resolvedAt ?? ''));
+      const { page, pagination } = paginate(approvals, query);
+      return ok({ approvals: page, pagination });
+    }
+    case 'POST approvals/:id/decision': {
+      const approval = findOr404(db.approvals, id, 'Approval');
+      if (approval.status !== 'pending') throw new HttpError(409, 'Approval already resolved', 'ALREADY_RESOLVED');
+      const body = await readJson(req);
+      const resolvedAt = new Date().toISOString();
+      Object.assign(approval, {
+        status: body.decision === 'approve' ? 'approved' : 'rejected',
+        justification: body.justification,
+        resolvedAt,
+        resolvedBy: db.user.email,
+        step: { ...approval.step, status: body.decision === 'approve' ? 'running' : 'failed' },
+      });
+      // Newest first, like the generated log
+      const entry: AuditEntry = {
+        id: `audit_${randomUUID()}`,
+        timestamp: resolvedAt,
+        type: 'user_action',
+        level: body.decision === 'approve' ? 'info' : 'warning',
+        message: `${body.decision === 'approve' ? 'Approved' : 'Rejected'} ${approval.step.name} in ${approval.orchestrationName}`,
+        userId: db.user.id,
+        orchestrationId: approval.orchestrationId,
+        metadata: { approvalId: approval.id, decision: body.decision, justification: body.justification, stepId: approval.step.id },
+      };
+      db.audit.unshift(entry);
+      return ok(approval);
+    }
+
+    case 'GET memory': {
+      const tags = query.getAll('tags');
+      const minImportance = Number(query.get('importance') ?? 0);
+      const memories = db.memories.filter(memory =>
+        (!query.get('type') || memory.type === query.get('type')) &&
+        memory.importance >= minImportance &&
+        tags.every(tag => memory.tags.includes(tag))
+      );
+      const { page, pagination } = paginate(memories, query);
+      return ok({ memories: page, pagination });
+    }
+    case 'POST memory/:id': {
+      if (id !== 'search') break;
+      const started = Date.now();
+      const body = await readJson(req);
+      const terms = String(body.query ?? '').toLowerCase().split(/\s+/).filter(Boolean);
+      const filters = body.filters ?? {};
+      // Naive term overlap stands in for vector similarity
+      const results = db.memories
+        .filter(memory =>
+          (!filters.type || memory.type === filters.type) &&
+          (!filters.tags?.length || filters.tags.every((tag: string) => memory.tags.includes(tag))) &&
+          memory.importance >= (filters.minImportance ?? 0)
+        )
+        .map(memory => {
+          const text = [memory.content.summary, ...memory.content.keyPoints, ...memory.tags].join(' ').toLowerCase();
+          const hits = terms.filter(term => text.includes(term));
+          return {
+            memory,
+            score: Number(((terms.length ? hits.length / terms.length : 0) * 0.8 + memory.importance * 0.2).toFixed(3)),
+            highlights: memory.content.keyPoints.filter(point => hits.some(term => point.toLowerCase().includes(term))),
+          };
+        })
+        .sort((a, b) => b.score - a.score);
+      return ok({ query: body.query ?? '', results: results.slice(0, body.limit ?? 10), totalMatches: results.length, tookMs: Date.now() - started });
+    }
+
+    case 'GET plugins': {
+      const plugins = db.plugins.map(plugin =>
+        scenario.degradedPlugins.includes(plugin.name)
+          ? { ...plugin, health: { status: 'degraded' as const, lastCheck: new Date().toISOString(), details: { reason: 'Dependency unavailable' } } }
+          : { ...plugin, health: { ...plugin.health, lastCheck: new Date().toISOString() } }
+      );
+      const { page, pagination } = paginate(plugins, query);
+      return ok({ plugins: page, pagination });
+    }
+    case 'GET plugins/:id':
+      return ok(findOr404(db.plugins, id, 'Plugin'));
+
+    case 'GET audit': {
+      const { page, pagination } = paginate(filterAudit(query), query);
+      return ok({ entries: page, pagination });
+    }
+    case 'GET audit/:id': {
+      if (id !== 'export') break;
+      const entries = filterAudit(query);
+      const stamp = new Date().toISOString().slice(0, 10);
+      if (query.get('format') === 'csv') {
+        send(res, 200, auditCsv(entries), { 'Content-Type': 'text/csv', 'Content-Disposition': `attachment; filename="audit-${stamp}.csv"` });
+      } else {
+        send(res, 200, entries, { 'Content-Disposition': `attachment; filename="audit-${stamp}.json"` });
+      }
+      return undefined;
+    }
+
+    case 'POST compliance/:id': {
+      if (id !== 'reports') break;
+      const body = await readJson(req);
+      if (!body.dateRange?.start || !body.dateRange?.end) throw new HttpError(400, 'dateRange.start and dateRange.end are required', 'VALIDATION_ERROR');
+      return ok(complianceReport(body.dateRange));
+    }
+
+    case 'GET settings':
+      return ok(db.settings);
+    case 'PUT settings':
+      Object.assign(db.settings, await readJson(req));
+      return ok(db.settings, 'Settings saved');
+  }
+
+  throw new HttpError(404, `No mock route for ${method} /api/${segments.join('/')}`, 'NOT_FOUND');
+}
+
+// Root routes: health, readiness, metrics and the scenario switch
+
+function metricsText(): string {
+  const lines = [
+    '# HELP process_uptime_seconds Seconds since the mock server started.',
+    '# TYPE process_uptime_seconds gauge',
+    `process_uptime_seconds ${Math.round((Date.now() - startedAt) / 1000)}`,
+    '# HELP orchestrations_active Orchestrations currently running.',
+    '# TYPE orchestrations_active gauge',
+    `orchestrations_active ${db.orchestrations.filter(run => run.status === 'running').length}`,
+    '# HELP http_requests_total HTTP requests served, by route and status.',
+    '# TYPE http_requests_total counter',
+    ...Array.from(requestCounts.entries()).map(([key, value]) => {
+      const [method, route, status] = key.split(' ');
+      return `http_requests_total{method="${method}",route="${route}",status="${status}"} ${value}`;
+    }),
+    '# HELP http_request_duration_seconds Time to answer HTTP requests.',
+    '# TYPE http_request_duration_seconds histogram',
+    ...durationBuckets.map((bucket, index) => `http_request_duration_seconds_bucket{le="${bucket}"} ${durations.buckets[index]}`),
+    `http_request_duration_seconds_bucket{le="+Inf"} ${durations.count}`,
+    `http_request_duration_seconds_sum ${durations.sum.toFixed(3)}`,
+    `http_request_duration_seconds_count ${durations.count}`,
+  ];
+  return `${lines.join('\n')}\n`;
+}
+
+async function root(req: IncomingMessage, res: ServerResponse, path: string): Promise<unknown> {
+  switch (`${req.method} ${path}`) {
+    case 'GET /':
+      return { name: 'orchestrator-mock', version: VERSION, status: scenario.name, endpoints: ['/health', '/ready', '/metrics', '/api', '/ws', '/__mock'] };
+    case 'GET /health': {
+      const healthy = scenario.checks.database;
+      const body = { status: healthy ? 'healthy' : 'unhealthy', uptime: Math.round((Date.now() - startedAt) / 1000), version: VERSION, checks: scenario.checks };
+      if (!healthy) throw Object.assign(new HttpError(503, 'Database unavailable', 'DB_DOWN'), { body });
+      return body;
+    }
+    case 'GET /ready':
+      if (!scenario.ready) throw new HttpError(503, 'Dependencies not ready', 'NOT_READY');
+      return { ready: true, status: 'ready' };
+    case 'GET /metrics':
+      send(res, 200, metricsText(), { 'Content-Type': 'text/plain; version=0.0.4' });
+      return undefined;
+    case 'GET /__mock':
+      return { scenario: scenario.name, scenarios: Object.values(SCENARIOS).map(({ name, description }) => ({ name, description })) };
+    case 'POST /__mock/scenario': {
+      const body = await readJson(req);
+      if (!isScenarioName(body.scenario)) throw new HttpError(400, `Unknown scenario; use one of ${Object.keys(SCENARIOS).join(', ')}`);
+      scenario = SCENARIOS[body.scenario];
+      console.log(`Scenario switched to ${scenario.name}`);
+      return { scenario: scenario.name };
+    }
+  }
+  throw new HttpError(404, `No mock route for ${req.method} ${path}`, 'NOT_FOUND');
+}
+
+// Ids in the path would make one metrics series per record
+function routeLabel(path: string): string {
+  return path.replace(/\/(orch|agent|policy|approval|mem|audit)_[\w]+/g, '/:id');
+}
+
+const server = createServer(async (req, res) => {
+  const started = Date.now();
+  const url = new URL(req.url ?? '/', `http://${req.headers.host ?? 'localhost'}`);
+  const path = url.pathname.replace(/\/$/, '') || '/';
+
+  res.on('finish', () => {
+    const seconds = (Date.now() - started) / 1000;
+    const key = `${req.method} ${routeLabel(path)} ${res.statusCode}`;
+    requestCounts.set(key, (requestCounts.get(key) ?? 0) + 1);
+    durationBuckets.forEach((bucket, index) => { if (seconds <= bucket) durations.buckets[index] += 1; });
+    durations.sum += seconds;
+    durations.count += 1;
+  });
+
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204, CORS_HEADERS);
+    res.end();
+    return;
+  }
+
+  try {
+    // The scenario switch answers immediately so a slow scenario can always be turned off
+    if (!path.startsWith('/__mock')) {
+      await new Promise(resolve => setTimeout(resolve, responseDelay(scenario)));
+    }
+
+    let body: unknown;
+    if (path === '/api' || path.startsWith('/api/')) {
+      if (scenario.apiDown) throw new HttpError(503, 'Database unavailable', 'DB_DOWN');
+      if (req.method === 'GET' && random() < scenario.errorRate) {
+        throw new HttpError(503, 'Service temporarily unavailable', 'UNAVAILABLE', { 'Retry-After': '1' });
+      }
+      body = await api(req, res, path.split('/').slice(2), url.searchParams);
+    } else {
+      body = await root(req, res, path);
+    }
+
+    if (body !== undefined) send(res, 200, body);
+  } catch (error) {
+    if (res.headersSent) return;
+    if (error instanceof HttpError) {
+      const body = (error as HttpError & { body?: unknown }).body ?? { success: false, error: error.message, code: error.code };
+      send(res, error.status, body, error.headers);
+    } else {
+      console.error(error);
+      send(res, 500, { success: false, error: error instanceof Error ? error.message : 'Internal error', code: 'INTERNAL' });
+    }
+  }
+});
+
+// WebSocket stream on /ws: authenticate, then subscribe to orchestration ids or '*'
+
+const wss = new WebSocketServer({ noServer: true });
+const subscriptions = new Map<WebSocket, Set<string>>();
+
+server.on('upgrade', (req, socket, head) => {
+  if (new URL(req.url ?? '/', 'http://localhost').pathname !== '/ws') {
+    socket.destroy();
+    return;
+  }
+  wss.handleUpgrade(req, socket, head, ws => wss.emit('connection', ws, req));
+});
+
+wss.on('connection', ws => {
+  subscriptions.set(ws, new Set());
+
+  ws.on('message', raw => {
+    let frame: { type?: string; token?: string; orchestrationId?: string };
+    try {
+      frame = JSON.parse(raw.toString());
+    } catch {
+      return;
+    }
+
+    if (frame.type === 'authenticate') {
+      if (!tokenValid(frame.token?.replace(/^Bearer\s+/i, ''))) ws.close(UNAUTHORIZED_CLOSE_CODE, 'Unauthorized');
+    } else if (frame.type === 'subscribe' && frame.orchestrationId) {
+      subscriptions.get(ws)?.add(frame.orchestrationId);
+    } else if (frame.type === 'unsubscribe' && frame.orchestrationId) {
+      subscriptions.get(ws)?.delete(frame.orchestrationId);
+    }
+  });
+
+  ws.on('close', () => subscriptions.delete(ws));
+});
+
+setInterval(() => {
+  const running = db.orchestrations.filter(run => run.status === 'running');
+  if (!scenario.events || running.length === 0 || subscriptions.size === 0) return;
+
+  const run = pick(random, running);
+  const events = eventPair(run);
+  run.metrics.toolCalls = (run.metrics.toolCalls ?? 0) + 1;
+
+  subscriptions.forEach((ids, ws) => {
+    if (!ids.has('*') && !ids.has(run.id)) return;
+    events.forEach((event, index) => setTimeout(() => ws.send(JSON.stringify(event)), index * 400));
+  });
+}, 1500);
+
+server.listen(PORT, () => {
+  console.log(`Mock API listening on http://localhost:${PORT} (scenario: ${scenario.name})`);
+  console.log(`Point the dashboard at it with NEXT_PUBLIC_API_BASE_URL=http://localhost:${PORT}`);
+});
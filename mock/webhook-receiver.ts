@@ -0,0 +1,60 @@
+/**
+ * Local endpoint for the dashboard's diagnostics webhooks: prints every delivery and checks its
+ * signature.
+ *
+ *   npm run webhook-receiver                                  # http://localhost:3002
+ *   DIAGNOSTICS_WEBHOOK_SECRET=dev npm run webhook-receiver   # verify signatures
+ *   RECEIVER_FAIL_FIRST=2 npm run webhook-receiver            # answer 503 twice per delivery, to watch retries
+ *
+ * Point the dashboard at it with DIAGNOSTICS_WEBHOOKS=http://localhost:3002, using the same
+ * secret. Environment: PORT (3002), DIAGNOSTICS_WEBHOOK_SECRET, RECEIVER_FAIL_FIRST (0).
+ */
+
+import { createServer } from 'node:http';
+import { SIGNATURE_HEADER, verifySignature, type WebhookEvent } from '@/lib/diagnostics/webhooks';
+
+const PORT = Number(process.env.PORT ?? 3002);
+const SECRET = process.env.DIAGNOSTICS_WEBHOOK_SECRET;
+const FAIL_FIRST = Number(process.env.RECEIVER_FAIL_FIRST ?? 0);
+
+// Attempts seen per delivery id and path, for RECEIVER_FAIL_FIRST
+const attempts = new Map<string, number>();
+
+createServer((req, res) => {
+  if (req.method !== 'POST') {
+    res.writeHead(405).end();
+    return;
+  }
+
+  const chunks: Buffer[] = [];
+  req.on('data', chunk => chunks.push(chunk));
+  req.on('end', () => {
+    const body = Buffer.concat(chunks).toString('utf8');
+    const delivery = String(req.headers['x-dashboard-delivery'] ?? 'unknown');
+    const key = `${delivery} ${req.url}`;
+    const attempt = (attempts.get(key) ?? 0) + 1;
+    attempts.set(key, attempt);
+
+    if (attempt <= FAIL_FIRST) {
+      console.log(`✗ ${delivery} attempt ${attempt}: answering 503`);
+      res.writeHead(503).end();
+      return;
+    }
+
+    const signature = req.headers[SIGNATURE_HEADER.toLowerCase()] as string | undefined;
+    if (SECRET && !verifySignature(body, signature, SECRET)) {
+      console.log(`✗ ${delivery}: bad or missing signature (${signature ?? 'none'})`);
+      res.writeHead(401).end();
+      return;
+    }
+
+    // Slack-format targets get { text, blocks } instead of the event
+    const event = JSON.parse(body) as Partial<WebhookEvent> & { text?: string };
+    console.log(`✓ ${req.url} ${delivery} attempt ${attempt}${SECRET ? ', signature ok' : ''}: ${event.text ?? `system ${event.status}`}`);
+    event.opened?.forEach(problem => console.log(`    opened   [${problem.severity}] ${problem.title}`));
+    event.resolved?.forEach(problem => console.log(`    resolved [${problem.severity}] ${problem.title}`));
+    res.writeHead(204).end();
+  });
+}).listen(PORT, () => {
+  console.log(`Webhook receiver on http://localhost:${PORT}${SECRET ? ' (verifying signatures)' : ''}`);
+});
@@ -9,6 +9,8 @@ const nextConfig = {
   },
   // Ensure static files are included in standalone build
   experimental: {
+    // Runs src/instrumentation.ts on server start (scheduled diagnostics and webhooks)
+    instrumentationHook: true,
     outputFileTracingIncludes: {
       '/**': ['./.next/static/**/*'],
     },
@@ -0,0 +1,276 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { DashboardShell } from '@/components/layout/DashboardShell';
+import { AgentForm } from '@/components/agents/AgentForm';
+import { AgentStatusBadge } from '@/components/agents/AgentStatusBadge';
+import { useAgent, useCloneAgent, useUpdateAgent } from '@/lib/api/client';
+import { describeApiError } from '@/lib/api/errors';
+import { usePermission } from '@/lib/auth/session';
+import { formatCost, formatDateTime, formatDuration, formatNumber, formatPercent } from '@/lib/utils/format';
+import { ArrowLeft, Brain, CheckCircle2, Clock, Coins, Copy, Pencil, ShieldCheck, XCircle } from 'lucide-react';
+
+// Force dynamic rendering - this page uses client-side hooks and cannot be statically generated
+export const dynamic = 'force-dynamic';
+
+export default function AgentDetailPage({ params }: { params: { id: string } }) {
+  const router = useRouter();
+  const { data, isLoading, error } = useAgent(params.id);
+  const updateAgent = useUpdateAgent();
+  const cloneAgent = useCloneAgent();
+  const canEdit = usePermission('agents:edit');
+  const [mode, setMode] = useState<'view' | 'edit' | 'clone'>('view');
+  const [clonePreset, setClonePreset] = useState('');
+  const [cloneName, setCloneName] = useState('');
+  const agent = data?.data;
+
+  const backLink = (
+    <Link
+      href="/agents"
+      className="px-4 py-2 rounded-xl border-2 bg-slate-800/70 border-slate-600/50 text-slate-300 hover:border-slate-500 font-semibold text-sm flex items-center gap-2"
+    >
+      <ArrowLeft className="h-4 w-4" />
+      All agents
+    </Link>
+  );
+
+  if (isLoading) {
+    return (
+      <DashboardShell title="Agent" description="Loading agent..." actions={backLink}>
+        <div className="space-y-4">
+          {[1, 2].map(i => (
+            <div key={i} className="h-40 bg-slate-900/50 rounded-xl animate-pulse shimmer" />
+          ))}
+        </div>
+      </DashboardShell>
+    );
+  }
+
+  if (error || !agent) {
+    return (
+      <DashboardShell title="Agent" description={params.id} actions={backLink}>
+        <div className="p-6 bg-gradient-to-r from-red-500/20 to-red-500/10 border border-red-500/30 rounded-xl flex items-start gap-4">
+          <XCircle className="h-5 w-5 text-red-400 mt-1" />
+          <div>
+            <h4 className="text-lg font-semibold text-white">Unable to load agent</h4>
+            <p className="text-sm text-slate-300">{describeApiError(error, 'Agent not found.')}</p>
+          </div>
+        </div>
+      </DashboardShell>
+    );
+  }
+
+  const budgetUsed = agent.riskProfile.maxCost > 0 ? agent.metrics.costThisMonth / agent.riskProfile.maxCost : 0;
+  const metrics = [
+    { label: 'Tasks Completed', value: formatNumber(agent.metrics.tasksCompleted), icon: <CheckCircle2 className="h-5 w-5" />, color: 'text-emerald-400' },
+    { label: 'Success Rate', value: formatPercent(agent.metrics.successRate, 1), icon: <ShieldCheck className="h-5 w-5" />, color: 'text-blue-400' },
+    { label: 'Avg Response', value: formatDuration(agent.metrics.averageResponseTime), icon: <Clock className="h-5 w-5" />, color: 'text-purple-400' },
+    { label: 'Cost This Month', value: formatCost(agent.metrics.costThisMonth), icon: <Coins className="h-5 w-5" />, color: 'text-amber-400' },
+  ];
+
+  const submitClone = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!clonePreset.trim()) return;
+    cloneAgent.mutate(
+      {
+        id: agent.id,
+        data: {
+          behaviorPreset: clonePreset.trim(),
+          overrides: cloneName.trim() ? { name: cloneName.trim() } : undefined,
+        },
+      },
+      { onSuccess: (response) => router.push(`/agents/${response.data.agent.id}`) }
+    );
+  };
+
+  const modeButton = (target: 'edit' | 'clone', label: string, icon: React.ReactNode) => (
+    <button
+      onClick={() => setMode(mode === target ? 'view' : target)}
+      className={`px-4 py-2 rounded-xl border-2 font-semibold text-sm flex items-center gap-2 ${
+        mode === target
+          ? 'bg-blue-500/25 border-blue-500/40 text-blue-200'
+          : 'bg-slate-800/70 border-slate-600/50 text-slate-300 hover:border-slate-500'
+      }`}
+    >
+      {icon}
+      {label}
+    </button>
+  );
+
+  return (
+    <DashboardShell
+      title={agent.name}
+      description={
+        <div className="flex flex-wrap items-center gap-3">
+          <span>{agent.type} · v{agent.version} · {agent.behaviorPreset}</span>
+          <AgentStatusBadge status={agent.status} />
+        </div>
+      }
+      icon={<Brain className="h-7 w-7 text-purple-300" />}
+      actions={
+        <>
+          {canEdit && modeButton('edit', 'Edit', <Pencil className="h-4 w-4" />)}
+          {canEdit && modeButton('clone', 'Clone', <Copy className="h-4 w-4" />)}
+          {backLink}
+        </>
+      }
+    >
+      {/* Metrics */}
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-6 fade-in">
+        {metrics.map(metric => (
+          <Card key={metric.label} className="glass-effect border-slate-700/50 shadow-xl card-glow">
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-3">
+              <CardTitle className="text-sm font-semibold text-slate-300 uppercase tracking-wider">{metric.label}</CardTitle>
+              <div className={`${metric.color} p-2 rounded-lg bg-slate-800/50`}>{metric.icon}</div>
+            </CardHeader>
+            <CardContent>
+              <div className="text-3xl font-extrabold text-white">{metric.value}</div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      {mode === 'edit' && (
+        <Card className="glass-effect border-slate-700/50 shadow-xl mb-6 fade-in">
+          <CardHeader>
+            <CardTitle className="text-xl font-bold">Edit Agent</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <AgentForm
+              key={agent.updatedAt}
+              initial={agent}
+              submitLabel="Save Changes"
+              isSubmitting={updateAgent.isPending}
+              onCancel={() => setMode('view')}
+              onSubmit={(input) =>
+                updateAgent.mutate({ id: agent.id, updates: input }, { onSuccess: () => setMode('view') })
+              }
+            />
+          </CardContent>
+        </Card>
+      )}
+
+      {mode === 'clone' && (
+        <Card className="glass-effect border-slate-700/50 shadow-xl mb-6 fade-in">
+          <CardHeader>
+            <CardTitle className="text-xl font-bold">Clone Agent</CardTitle>
+            <CardDescription className="text-slate-300">Creates a copy of {agent.name} with a different behavior preset</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={submitClone} className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+              <label className="flex flex-col gap-1 text-xs text-slate-400 uppercase tracking-wider">
+                Behavior Preset
+                <input
+                  value={clonePreset}
+                  onChange={e => setClonePreset(e.target.value)}
+                  placeholder={agent.behaviorPreset}
+                  required
+                  className="px-3 py-2 bg-slate-900/70 border border-slate-700/60 rounded-lg text-sm text-slate-200 focus:outline-none focus:border-blue-500/60"
+                />
+              </label>
+              <label className="flex flex-col gap-1 text-xs text-slate-400 uppercase tracking-wider">
+                Name (optional)
+                <input
+                  value={cloneName}
+                  onChange={e => setCloneName(e.target.value)}
+                  placeholder={`${agent.name} (copy)`}
+                  className="px-3 py-2 bg-slate-900/70 border border-slate-700/60 rounded-lg text-sm text-slate-200 focus:outline-none focus:border-blue-500/60"
+                />
+              </label>
+              <button
+                type="submit"
+                disabled={!clonePreset.trim() || cloneAgent.isPending}
+                className="px-5 py-2 bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-500 hover:to-purple-500 disabled:from-slate-700 disabled:to-slate-700 disabled:cursor-not-allowed text-white font-bold rounded-lg text-sm"
+              >
+                {cloneAgent.isPending ? 'Cloning...' : 'Clone'}
+              </button>
+            </form>
+          </CardContent>
+        </Card>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {/* Risk Profile */}
+        <Card className="glass-effect border-slate-700/50 shadow-xl fade-in">
+          <CardHeader>
+            <CardTitle className="text-xl font-bold">Risk Profile</CardTitle>
+            <CardDescription className="text-slate-300">Limits enforced by the supervisor</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div>
+              <div className="flex items-center justify-between text-sm text-slate-300 mb-2">
+                <span>Monthly budget</span>
+                <span>{formatCost(agent.metrics.costThisMonth)} / {formatCost(agent.riskProfile.maxCost)}</span>
+              </div>
+              <div className="h-2 bg-slate-900/70 rounded-full overflow-hidden">
+                <div
+                  className={`h-full ${budgetUsed >= 1 ? 'bg-red-500' : budgetUsed >= 0.8 ? 'bg-amber-500' : 'bg-emerald-500'}`}
+                  style={{ width: `${Math.min(budgetUsed, 1) * 100}%` }}
+                />
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="p-4 bg-slate-900/60 rounded-lg border border-slate-700/50">
+                <div className="text-xs text-slate-400 uppercase tracking-wider">Max Execution Time</div>
+                <div className="text-xl font-bold text-white">{formatDuration(agent.riskProfile.maxExecutionTime)}</div>
+              </div>
+              <div className="p-4 bg-slate-900/60 rounded-lg border border-slate-700/50">
+                <div className="text-xs text-slate-400 uppercase tracking-wider">Autonomy Level</div>
+                <div className="text-xl font-bold text-white">{agent.riskProfile.autonomyLevel} / 5</div>
+              </div>
+            </div>
+            <div>
+              <div className="text-sm font-semibold text-emerald-400 mb-2">Allowed Tools</div>
+              <div className="flex flex-wrap gap-2">
+                {agent.riskProfile.allowedTools.length > 0 ? agent.riskProfile.allowedTools.map(tool => (
+                  <Badge key={tool} variant="success" className="font-mono">{tool}</Badge>
+                )) : <span className="text-xs text-slate-500">None</span>}
+              </div>
+            </div>
+            <div>
+              <div className="text-sm font-semibold text-red-400 mb-2">Forbidden Tools</div>
+              <div className="flex flex-wrap gap-2">
+                {agent.riskProfile.forbiddenTools.length > 0 ? agent.riskProfile.forbiddenTools.map(tool => (
+                  <Badge key={tool} variant="error" className="font-mono">{tool}</Badge>
+                )) : <span className="text-xs text-slate-500">None</span>}
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Capabilities */}
+        <Card className="glass-effect border-slate-700/50 shadow-xl fade-in">
+          <CardHeader>
+            <CardTitle className="text-xl font-bold">Capabilities & Permissions</CardTitle>
+            <CardDescription className="text-slate-300">
+              Created {formatDateTime(agent.createdAt)} · updated {formatDateTime(agent.updatedAt)}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div>
+              <div className="text-sm font-semibold text-slate-300 mb-2">Capabilities</div>
+              <div className="flex flex-wrap gap-2">
+                {agent.capabilities.length > 0 ? agent.capabilities.map(capability => (
+                  <Badge key={capability} variant="secondary">{capability}</Badge>
+                )) : <span className="text-xs text-slate-500">None</span>}
+              </div>
+            </div>
+            <div>
+              <div className="text-sm font-semibold text-slate-300 mb-2">Permissions</div>
+              <div className="flex flex-wrap gap-2">
+                {agent.permissions.length > 0 ? agent.permissions.map(permission => (
+                  <Badge key={permission} variant="outline" className="font-mono">{permission}</Badge>
+                )) : <span className="text-xs text-slate-500">None</span>}
+              </div>
+            </div>
+            <div className="text-xs text-slate-400">Last activity: {formatDateTime(agent.lastActivity)}</div>
+          </CardContent>
+        </Card>
+      </div>
+    </DashboardShell>
+  );
+}
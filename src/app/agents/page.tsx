@@ -0,0 +1,152 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { ValidationWarningsNotice } from '@/components/diagnostics/ValidationWarningsNotice';
+import { DashboardShell } from '@/components/layout/DashboardShell';
+import { AgentForm } from '@/components/agents/AgentForm';
+import { AgentStatusBadge } from '@/components/agents/AgentStatusBadge';
+import { useAgents, useCreateAgent } from '@/lib/api/client';
+import { describeApiError } from '@/lib/api/errors';
+import { usePermission } from '@/lib/auth/session';
+import type { AgentProfile } from '@/lib/schemas/api';
+import { formatCost, formatDateTime, formatPercent } from '@/lib/utils/format';
+import { Brain, Plus, Users, XCircle } from 'lucide-react';
+
+// Force dynamic rendering - this page uses client-side hooks and cannot be statically generated
+export const dynamic = 'force-dynamic';
+
+const STATUSES: AgentProfile['status'][] = ['active', 'inactive', 'maintenance', 'error'];
+
+export default function AgentsPage() {
+  const router = useRouter();
+  const [status, setStatus] = useState('');
+  const [showCreate, setShowCreate] = useState(false);
+  const { data, isLoading, error } = useAgents({ status: status || undefined, limit: 100 });
+  const createAgent = useCreateAgent();
+  const canEdit = usePermission('agents:edit');
+
+  const agents = data?.data.agents ?? [];
+  const totalCost = agents.reduce((sum, agent) => sum + agent.metrics.costThisMonth, 0);
+
+  return (
+    <DashboardShell
+      title="Agents"
+      description="Agent profiles, risk limits and performance"
+      icon={<Brain className="h-7 w-7 text-purple-300" />}
+      actions={
+        canEdit && <button
+          onClick={() => setShowCreate(!showCreate)}
+          className="px-5 py-3 bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-500 hover:to-purple-500 text-white font-bold rounded-xl flex items-center gap-2 shadow-xl text-sm"
+        >
+          <Plus className="h-4 w-4" />
+          New Agent
+        </button>
+      }
+    >
+      {canEdit && showCreate && (
+        <Card className="glass-effect border-slate-700/50 shadow-xl mb-6 fade-in">
+          <CardHeader>
+            <CardTitle className="text-xl font-bold">Create Agent</CardTitle>
+            <CardDescription className="text-slate-300">Define the agent and the limits the supervisor enforces on it</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <AgentForm
+              submitLabel="Create Agent"
+              isSubmitting={createAgent.isPending}
+              onCancel={() => setShowCreate(false)}
+              onSubmit={(input) =>
+                createAgent.mutate(input, {
+                  onSuccess: (response) => router.push(`/agents/${response.data.id}`),
+                })
+              }
+            />
+          </CardContent>
+        </Card>
+      )}
+
+      <Card className="glass-effect border-slate-700/50 shadow-xl fade-in">
+        <CardHeader>
+          <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+            <div className="flex items-center gap-3">
+              <div className="p-2 bg-gradient-to-br from-purple-500/20 to-pink-500/20 rounded-lg border border-purple-500/30">
+                <Users className="h-5 w-5 text-purple-400" />
+              </div>
+              <div>
+                <CardTitle className="text-xl font-bold">Fleet</CardTitle>
+                <CardDescription className="text-slate-300">
+                  {isLoading ? 'Loading agents...' : `${agents.length} agents · ${formatCost(totalCost)} this month`}
+                </CardDescription>
+              </div>
+            </div>
+            <select
+              value={status}
+              onChange={e => setStatus(e.target.value)}
+              className="px-3 py-2 bg-slate-900/70 border border-slate-700/60 rounded-lg text-sm text-slate-200"
+            >
+              <option value="">All statuses</option>
+              {STATUSES.map(s => <option key={s} value={s}>{s}</option>)}
+            </select>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <ValidationWarningsNotice warnings={data?.warnings} />
+          {error ? (
+            <div className="p-6 bg-gradient-to-r from-red-500/20 to-red-500/10 border border-red-500/30 rounded-xl flex items-start gap-4">
+              <XCircle className="h-5 w-5 text-red-400 mt-1" />
+              <p className="text-sm text-slate-300">{describeApiError(error, 'Failed to load agents.')}</p>
+            </div>
+          ) : isLoading ? (
+            <div className="space-y-2">
+              {[1, 2, 3, 4].map(i => (
+                <div key={i} className="h-12 bg-slate-900/50 rounded animate-pulse shimmer" />
+              ))}
+            </div>
+          ) : (
+            <div className="overflow-x-auto rounded-lg border border-slate-700/50">
+              <table className="w-full">
+                <thead>
+                  <tr className="bg-gradient-to-r from-slate-900/80 to-slate-800/80 border-b border-slate-700/50">
+                    <th className="text-left p-4 text-slate-300 font-semibold">Agent</th>
+                    <th className="text-left p-4 text-slate-300 font-semibold">Status</th>
+                    <th className="text-left p-4 text-slate-300 font-semibold">Preset</th>
+                    <th className="text-left p-4 text-slate-300 font-semibold">Autonomy</th>
+                    <th className="text-left p-4 text-slate-300 font-semibold">Success Rate</th>
+                    <th className="text-left p-4 text-slate-300 font-semibold">Cost This Month</th>
+                    <th className="text-left p-4 text-slate-300 font-semibold">Last Activity</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {agents.length === 0 ? (
+                    <tr>
+                      <td colSpan={7} className="p-8 text-center text-slate-400">No agents found.</td>
+                    </tr>
+                  ) : agents.map(agent => (
+                    <tr key={agent.id} className="border-b border-slate-800/50 hover:bg-slate-900/30 transition-colors">
+                      <td className="p-4">
+                        <Link href={`/agents/${agent.id}`} className="font-medium text-white hover:text-blue-300">{agent.name}</Link>
+                        <div className="text-xs text-slate-500">{agent.type} · v{agent.version}</div>
+                      </td>
+                      <td className="p-4"><AgentStatusBadge status={agent.status} /></td>
+                      <td className="p-4 text-slate-300">{agent.behaviorPreset}</td>
+                      <td className="p-4 text-slate-300">{agent.riskProfile.autonomyLevel} / 5</td>
+                      <td className="p-4">
+                        <span className={agent.metrics.successRate >= 0.9 ? 'text-emerald-400' : 'text-amber-400'}>
+                          {formatPercent(agent.metrics.successRate, 1)}
+                        </span>
+                      </td>
+                      <td className="p-4 text-slate-300">{formatCost(agent.metrics.costThisMonth)}</td>
+                      <td className="p-4 text-slate-400 text-sm">{formatDateTime(agent.lastActivity)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </DashboardShell>
+  );
+}
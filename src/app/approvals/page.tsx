@@ -0,0 +1,251 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { ValidationWarningsNotice } from '@/components/diagnostics/ValidationWarningsNotice';
+import { DashboardShell } from '@/components/layout/DashboardShell';
+import { DecisionBadge } from '@/components/orchestrations/OrchestrationStatusBadge';
+import { useApprovals, useDecideApproval } from '@/lib/api/client';
+import { describeApiError } from '@/lib/api/errors';
+import { usePermission } from '@/lib/auth/session';
+import { ApprovalDecisionSchema, type ApprovalDecision, type ApprovalRequest } from '@/lib/schemas/api';
+import { formatDateTime, formatPercent } from '@/lib/utils/format';
+import {
+  CheckCircle2, ClipboardCheck, History, Inbox, ShieldAlert, ShieldCheck, XCircle,
+} from 'lucide-react';
+
+// Force dynamic rendering - this page uses client-side hooks and cannot be statically generated
+export const dynamic = 'force-dynamic';
+
+const RECENT_DECISIONS = 20;
+
+function DecisionForm({ approvalId }: { approvalId: string }) {
+  const [justification, setJustification] = useState('');
+  const [validationError, setValidationError] = useState<string | null>(null);
+  const decide = useDecideApproval();
+
+  const submit = (decision: ApprovalDecision['decision']) => {
+    const parsed = ApprovalDecisionSchema.safeParse({ decision, justification });
+    if (!parsed.success) {
+      setValidationError(parsed.error.issues[0]?.message ?? 'Invalid justification');
+      return;
+    }
+    setValidationError(null);
+    decide.mutate({ id: approvalId, data: parsed.data });
+  };
+
+  return (
+    <>
+      <label className="block text-sm font-semibold text-slate-300 mb-2" htmlFor={`justification-${approvalId}`}>
+        Justification
+      </label>
+      <textarea
+        id={`justification-${approvalId}`}
+        value={justification}
+        onChange={e => setJustification(e.target.value)}
+        rows={2}
+        placeholder="Why is this step safe (or not) to run? Recorded in the audit trail."
+        className="w-full px-3 py-2 bg-slate-900/70 border border-slate-700/60 rounded-lg text-sm text-slate-200 focus:outline-none focus:border-blue-500/60"
+      />
+      {validationError && <p className="text-xs text-red-300 mt-1">{validationError}</p>}
+
+      <div className="flex items-center justify-end gap-3 mt-4">
+        <button
+          onClick={() => submit('reject')}
+          disabled={decide.isPending}
+          className="px-4 py-2 rounded-lg border border-red-500/40 bg-red-500/20 text-red-300 text-sm font-semibold flex items-center gap-2 disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          <XCircle className="h-4 w-4" />
+          Reject
+        </button>
+        <button
+          onClick={() => submit('approve')}
+          disabled={decide.isPending}
+          className="px-4 py-2 rounded-lg border border-emerald-500/40 bg-emerald-500/20 text-emerald-300 text-sm font-semibold flex items-center gap-2 disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          <CheckCircle2 className="h-4 w-4" />
+          Approve
+        </button>
+      </div>
+    </>
+  );
+}
+
+function ApprovalCard({ approval }: { approval: ApprovalRequest }) {
+  const canDecide = usePermission('approvals:decide');
+  const plan = approval.decision.executionPlan;
+  const riskColor = plan.metadata.riskScore >= 0.7 ? 'text-red-300' : plan.metadata.riskScore >= 0.4 ? 'text-amber-300' : 'text-emerald-300';
+
+  return (
+    <div className="p-6 bg-gradient-to-r from-amber-500/15 to-amber-500/5 rounded-xl border border-amber-500/30">
+      <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-4 mb-4">
+        <div>
+          <h4 className="text-lg font-semibold text-white">{approval.step.name}</h4>
+          <div className="text-sm text-slate-300">
+            <Link href={`/orchestrations/${approval.orchestrationId}`} className="hover:text-blue-300 underline-offset-2 hover:underline">
+              {approval.orchestrationName}
+            </Link>
+            <span className="mx-2">•</span>
+            {approval.step.agentName}
+            <span className="mx-2">•</span>
+            Requested {formatDateTime(approval.requestedAt)}
+          </div>
+        </div>
+        <div className="flex items-center gap-3">
+          <DecisionBadge decision={plan.decision} />
+          <div className="text-right">
+            <div className="text-xs text-slate-400 uppercase tracking-wider">Risk</div>
+            <div className={`text-2xl font-bold ${riskColor}`}>{plan.metadata.riskScore.toFixed(2)}</div>
+          </div>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 mb-4">
+        <div>
+          <div className="text-sm font-semibold text-slate-300 mb-2">Intent</div>
+          <pre className="text-xs text-slate-200 bg-slate-950/70 border border-slate-700/50 rounded-lg p-3 max-h-48 overflow-auto">
+            {JSON.stringify(approval.decision.intent, null, 2)}
+          </pre>
+        </div>
+        <div className="space-y-3">
+          <div>
+            <div className="text-sm font-semibold text-slate-300 mb-2">Plan</div>
+            <ol className="list-decimal list-inside space-y-1 text-sm text-slate-300">
+              {plan.steps.map(step => (
+                <li key={step.id} className={step.id === approval.step.id ? 'text-amber-300 font-semibold' : undefined}>
+                  {step.name} <span className="text-xs text-slate-500">({step.type})</span>
+                </li>
+              ))}
+            </ol>
+          </div>
+          <div className="text-xs text-slate-400">
+            Confidence {formatPercent(plan.metadata.confidence)} · policy {plan.metadata.policyVersion}
+          </div>
+          {plan.reasonCodes.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {plan.reasonCodes.map(code => (
+                <Badge key={code} variant="warning" className="font-mono">{code}</Badge>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {canDecide ? (
+        <DecisionForm approvalId={approval.id} />
+      ) : (
+        <p className="text-sm text-slate-400">Your role can review this request but not decide it.</p>
+      )}
+    </div>
+  );
+}
+
+export default function ApprovalsPage() {
+  const { data, isLoading, error } = useApprovals({ status: 'pending', limit: 50 });
+  const approved = useApprovals({ status: 'approved', limit: RECENT_DECISIONS });
+  const rejected = useApprovals({ status: 'rejected', limit: RECENT_DECISIONS });
+
+  const approvals = data?.data.approvals ?? [];
+  // Resolved approvals carry who decided, when and why - the same record the audit entry is written from
+  const decisions = [...(approved.data?.data.approvals ?? []), ...(rejected.data?.data.approvals ?? [])]
+    .sort((a, b) => (b.resolvedAt ?? '').localeCompare(a.resolvedAt ?? ''))
+    .slice(0, RECENT_DECISIONS);
+
+  return (
+    <DashboardShell
+      title="Approvals"
+      description="Steps waiting for a human decision"
+      icon={<ClipboardCheck className="h-7 w-7 text-amber-300" />}
+    >
+      <Card className="glass-effect border-slate-700/50 shadow-xl mb-6 fade-in">
+        <CardHeader>
+          <div className="flex items-center gap-3 mb-2">
+            <div className="p-2 bg-gradient-to-br from-amber-500/20 to-orange-500/20 rounded-lg border border-amber-500/30">
+              <Inbox className="h-5 w-5 text-amber-400" />
+            </div>
+            <div>
+              <CardTitle className="text-xl font-bold">Pending Gates</CardTitle>
+              <CardDescription className="text-slate-300">
+                {isLoading ? 'Loading approvals...' : `${approvals.length} ${approvals.length === 1 ? 'step' : 'steps'} awaiting approval`}
+              </CardDescription>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <ValidationWarningsNotice warnings={data?.warnings} />
+          {error ? (
+            <div className="p-6 bg-gradient-to-r from-red-500/20 to-red-500/10 border border-red-500/30 rounded-xl flex items-start gap-4">
+              <XCircle className="h-5 w-5 text-red-400 mt-1" />
+              <p className="text-sm text-slate-300">{describeApiError(error, 'Failed to load approvals.')}</p>
+            </div>
+          ) : isLoading ? (
+            <div className="space-y-4">
+              {[1, 2].map(i => (
+                <div key={i} className="h-48 bg-slate-900/50 rounded-xl animate-pulse shimmer" />
+              ))}
+            </div>
+          ) : approvals.length === 0 ? (
+            <div className="flex items-center gap-3 p-6 bg-gradient-to-r from-emerald-500/15 to-emerald-500/5 border border-emerald-500/30 rounded-xl text-emerald-200">
+              <ShieldCheck className="h-5 w-5" />
+              Inbox zero - no runs are waiting on a human decision.
+            </div>
+          ) : (
+            <div className="space-y-4">
+              {approvals.map(approval => (
+                <ApprovalCard key={approval.id} approval={approval} />
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="glass-effect border-slate-700/50 shadow-xl fade-in">
+        <CardHeader>
+          <div className="flex items-center gap-3 mb-2">
+            <div className="p-2 bg-gradient-to-br from-blue-500/20 to-cyan-500/20 rounded-lg border border-blue-500/30">
+              <History className="h-5 w-5 text-blue-400" />
+            </div>
+            <CardTitle className="text-xl font-bold">Recent Decisions</CardTitle>
+          </div>
+          <CardDescription className="text-slate-300">The latest approved and rejected gates, newest first</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {decisions.length === 0 ? (
+            <div className="text-slate-400 text-sm p-4 bg-slate-900/50 rounded-lg border border-slate-700/50">
+              No approval decisions recorded yet.
+            </div>
+          ) : (
+            <div className="space-y-2">
+              {decisions.map(approval => (
+                <div key={approval.id} className="flex items-start gap-3 p-4 bg-slate-900/60 rounded-lg border border-slate-700/50 text-sm">
+                  {approval.status === 'approved' ? (
+                    <CheckCircle2 className="h-4 w-4 text-emerald-400 mt-0.5" />
+                  ) : (
+                    <ShieldAlert className="h-4 w-4 text-red-400 mt-0.5" />
+                  )}
+                  <div className="flex-1 min-w-0">
+                    <div className="text-slate-200">
+                      {approval.status === 'approved' ? 'Approved' : 'Rejected'} {approval.step.name} in{' '}
+                      <Link href={`/orchestrations/${approval.orchestrationId}`} className="hover:text-blue-300 underline-offset-2 hover:underline">
+                        {approval.orchestrationName}
+                      </Link>
+                    </div>
+                    {approval.justification && (
+                      <div className="text-xs text-slate-400 mt-1 italic">&ldquo;{approval.justification}&rdquo;</div>
+                    )}
+                  </div>
+                  <div className="text-xs text-slate-400 flex-shrink-0 text-right">
+                    <div>{approval.resolvedBy ?? 'unknown user'}</div>
+                    <div>{formatDateTime(approval.resolvedAt)}</div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </DashboardShell>
+  );
+}
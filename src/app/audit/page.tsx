@@ -0,0 +1,378 @@
+'use client';
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { toast } from 'sonner';
+import { Badge, type BadgeProps } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { DashboardShell } from '@/components/layout/DashboardShell';
+import { JsonViewer } from '@/components/audit/JsonViewer';
+import { ultraSecureApiClient, useAgents, useInfiniteAudit } from '@/lib/api/client';
+import { describeApiError } from '@/lib/api/errors';
+import { usePermission } from '@/lib/auth/session';
+import type { AuditEntry } from '@/lib/schemas/api';
+import { cn } from '@/lib/utils/cn';
+import { toEndOfDay, toStartOfDay } from '@/lib/utils/dates';
+import { fileTimestamp, formatBytes, saveBlob } from '@/lib/utils/download';
+import { formatDateTime } from '@/lib/utils/format';
+import { ChevronDown, ChevronRight, Download, Filter, ScrollText, X, XCircle } from 'lucide-react';
+
+// Force dynamic rendering - this page uses client-side hooks and cannot be statically generated
+export const dynamic = 'force-dynamic';
+
+const PAGE_SIZE = 50;
+const TYPES: AuditEntry['type'][] = ['supervisor_decision', 'agent_action', 'system_event', 'policy_violation', 'user_action'];
+const LEVELS: AuditEntry['level'][] = ['info', 'warning', 'error', 'critical'];
+
+const LEVEL_VARIANTS: Record<AuditEntry['level'], BadgeProps['variant']> = {
+  info: 'secondary',
+  warning: 'warning',
+  error: 'error',
+  critical: 'destructive',
+};
+
+const inputClass = 'px-3 py-2 bg-slate-900/70 border border-slate-700/60 rounded-lg text-sm text-slate-200 focus:outline-none focus:border-blue-500/60';
+
+interface ExportState {
+  received: number;
+  total: number | null;
+  controller: AbortController;
+}
+
+function FacetChips<T extends string>({
+  label,
+  values,
+  selected,
+  counts,
+  onSelect,
+}: {
+  label: string;
+  values: T[];
+  selected: T | '';
+  counts: Map<string, number>;
+  onSelect: (value: T | '') => void;
+}) {
+  // While this facet filters the log, every other value would count 0, so only the selected one shows
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <span className="text-xs text-slate-400 uppercase tracking-wider w-16">{label}</span>
+      {values.map(value => (
+        <button
+          key={value}
+          type="button"
+          onClick={() => onSelect(selected === value ? '' : value)}
+          className={cn(
+            'px-3 py-1 rounded-lg border text-xs font-medium transition-all',
+            selected === value
+              ? 'bg-blue-500/20 border-blue-500/40 text-blue-200'
+              : 'bg-slate-800/50 border-slate-700/50 text-slate-400 hover:text-slate-200 hover:border-slate-500'
+          )}
+        >
+          {value.replace(/_/g, ' ')}
+          {(!selected || selected === value) && (
+            <span className="ml-1.5 text-slate-500" title="Among the entries loaded so far">{counts.get(value) ?? 0}</span>
+          )}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+export default function AuditPage() {
+  const [type, setType] = useState<AuditEntry['type'] | ''>('');
+  const [level, setLevel] = useState<AuditEntry['level'] | ''>('');
+  const [agentId, setAgentId] = useState('');
+  const [orchestrationIdInput, setOrchestrationIdInput] = useState('');
+  // Applied on Enter or when the field loses focus, not on every keystroke
+  const [orchestrationId, setOrchestrationId] = useState('');
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const [exportFormat, setExportFormat] = useState<'json' | 'csv'>('csv');
+  const [exporting, setExporting] = useState<ExportState | null>(null);
+  const canExport = usePermission('audit:export');
+  const sentinelRef = useRef<HTMLDivElement>(null);
+
+  const params = useMemo(() => ({
+    type: type || undefined,
+    level: level || undefined,
+    agentId: agentId || undefined,
+    orchestrationId: orchestrationId.trim() || undefined,
+    startDate: toStartOfDay(startDate),
+    endDate: toEndOfDay(endDate),
+  }), [type, level, agentId, orchestrationId, startDate, endDate]);
+
+  const { data, isLoading, error, fetchNextPage, hasNextPage, isFetchingNextPage } = useInfiniteAudit({ ...params, limit: PAGE_SIZE });
+  const { data: agentsData } = useAgents({ limit: 100 });
+
+  const entries = useMemo(() => data?.pages.flatMap(page => page.data.entries) ?? [], [data]);
+  const total = data?.pages[0]?.data.pagination.total;
+
+  // Facet counts cover the entries loaded so far
+  const typeCounts = useMemo(() => countBy(entries, entry => entry.type), [entries]);
+  const levelCounts = useMemo(() => countBy(entries, entry => entry.level), [entries]);
+
+  // Load the next page when the sentinel below the table scrolls into view
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel) return;
+
+    const observer = new IntersectionObserver(([entry]) => {
+      if (entry.isIntersecting && hasNextPage && !isFetchingNextPage) fetchNextPage();
+    }, { rootMargin: '200px' });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
+
+  const toggleExpanded = (id: string) => {
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id); else next.add(id);
+      return next;
+    });
+  };
+
+  const clearFilters = () => {
+    setType('');
+    setLevel('');
+    setAgentId('');
+    setOrchestrationIdInput('');
+    setOrchestrationId('');
+    setStartDate('');
+    setEndDate('');
+  };
+
+  const runExport = async () => {
+    const controller = new AbortController();
+    setExporting({ received: 0, total: null, controller });
+
+    try {
+      const blob = await ultraSecureApiClient.streamAuditExport(
+        { ...params, format: exportFormat },
+        progress => setExporting(prev => (prev ? { ...prev, ...progress } : prev)),
+        controller.signal
+      );
+      saveBlob(blob, `audit-${fileTimestamp()}.${exportFormat}`);
+      toast.success(`Exported ${formatBytes(blob.size)} of audit log`);
+    } catch (exportError) {
+      if (!controller.signal.aborted) {
+        toast.error(`Audit export failed: ${describeApiError(exportError)}`);
+      }
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  const hasFilters = Object.values(params).some(Boolean) || orchestrationIdInput.trim() !== '';
+
+  return (
+    <DashboardShell
+      title="Audit Log"
+      description="Every supervisor decision, agent action and operator change"
+      icon={<ScrollText className="h-7 w-7 text-amber-300" />}
+    >
+      <Card className="glass-effect border-slate-700/50 shadow-xl mb-6 fade-in">
+        <CardHeader className="pb-4">
+          <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+            <div className="flex items-center gap-3">
+              <div className="p-2 bg-gradient-to-br from-amber-500/20 to-orange-500/20 rounded-lg border border-amber-500/30">
+                <Filter className="h-5 w-5 text-amber-400" />
+              </div>
+              <CardTitle className="text-xl font-bold">Filters</CardTitle>
+              {hasFilters && (
+                <button type="button" onClick={clearFilters} className="text-sm text-slate-400 hover:text-white flex items-center gap-1">
+                  <X className="h-4 w-4" />
+                  Clear
+                </button>
+              )}
+            </div>
+            {canExport && <div className="flex items-center gap-3">
+              <select value={exportFormat} onChange={e => setExportFormat(e.target.value as 'json' | 'csv')} className={inputClass} disabled={!!exporting}>
+                <option value="csv">CSV</option>
+                <option value="json">JSON</option>
+              </select>
+              {exporting ? (
+                <button
+                  type="button"
+                  onClick={() => exporting.controller.abort()}
+                  className="px-4 py-2 rounded-lg border border-slate-600/50 bg-slate-800/70 text-slate-300 text-sm font-semibold flex items-center gap-2"
+                >
+                  <X className="h-4 w-4" />
+                  Cancel
+                </button>
+              ) : (
+                <button
+                  type="button"
+                  onClick={runExport}
+                  className="px-4 py-2 bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-500 hover:to-purple-500 text-white font-bold rounded-lg text-sm flex items-center gap-2"
+                >
+                  <Download className="h-4 w-4" />
+                  Export
+                </button>
+              )}
+            </div>}
+          </div>
+          {exporting && (
+            <div className="mt-4">
+              <div className="flex justify-between text-xs text-slate-400 mb-1">
+                <span>Downloading export...</span>
+                <span>
+                  {formatBytes(exporting.received)}
+                  {exporting.total !== null && ` of ${formatBytes(exporting.total)}`}
+                </span>
+              </div>
+              <div className="h-1.5 bg-slate-800 rounded-full overflow-hidden">
+                <div
+                  className={cn('h-full bg-gradient-to-r from-blue-500 to-purple-500 transition-all', exporting.total === null && 'animate-pulse')}
+                  style={{ width: exporting.total ? `${Math.min(100, (exporting.received / exporting.total) * 100)}%` : '100%' }}
+                />
+              </div>
+            </div>
+          )}
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <FacetChips label="Type" values={TYPES} selected={type} counts={typeCounts} onSelect={setType} />
+          <FacetChips label="Level" values={LEVELS} selected={level} counts={levelCounts} onSelect={setLevel} />
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+            <label className="flex flex-col gap-1 text-xs text-slate-400 uppercase tracking-wider">
+              Agent
+              <select value={agentId} onChange={e => setAgentId(e.target.value)} className={inputClass}>
+                <option value="">All agents</option>
+                {agentsData?.data.agents.map(agent => <option key={agent.id} value={agent.id}>{agent.name}</option>)}
+              </select>
+            </label>
+            <form
+              onSubmit={event => {
+                event.preventDefault();
+                setOrchestrationId(orchestrationIdInput);
+              }}
+            >
+              <label className="flex flex-col gap-1 text-xs text-slate-400 uppercase tracking-wider">
+                Orchestration
+                <input
+                  value={orchestrationIdInput}
+                  onChange={e => setOrchestrationIdInput(e.target.value)}
+                  onBlur={() => setOrchestrationId(orchestrationIdInput)}
+                  placeholder="Orchestration ID, then Enter"
+                  className={`${inputClass} font-mono`}
+                />
+              </label>
+            </form>
+            <label className="flex flex-col gap-1 text-xs text-slate-400 uppercase tracking-wider">
+              From
+              <input type="date" value={startDate} onChange={e => setStartDate(e.target.value)} className={inputClass} />
+            </label>
+            <label className="flex flex-col gap-1 text-xs text-slate-400 uppercase tracking-wider">
+              To
+              <input type="date" value={endDate} onChange={e => setEndDate(e.target.value)} className={inputClass} />
+            </label>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card className="glass-effect border-slate-700/50 shadow-xl fade-in">
+        <CardHeader>
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-gradient-to-br from-blue-500/20 to-purple-500/20 rounded-lg border border-blue-500/30">
+              <ScrollText className="h-5 w-5 text-blue-400" />
+            </div>
+            <div>
+              <CardTitle className="text-xl font-bold">Entries</CardTitle>
+              <CardDescription className="text-slate-300">
+                {isLoading ? 'Loading entries...' : `${entries.length} of ${total ?? entries.length} entries loaded`}
+              </CardDescription>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {error ? (
+            <div className="p-6 bg-gradient-to-r from-red-500/20 to-red-500/10 border border-red-500/30 rounded-xl flex items-start gap-4">
+              <XCircle className="h-5 w-5 text-red-400 mt-1" />
+              <p className="text-sm text-slate-300">{describeApiError(error, 'Failed to load audit log.')}</p>
+            </div>
+          ) : isLoading ? (
+            <div className="space-y-2">
+              {[1, 2, 3, 4, 5].map(i => (
+                <div key={i} className="h-12 bg-slate-900/50 rounded animate-pulse shimmer" />
+              ))}
+            </div>
+          ) : (
+            <div className="overflow-x-auto rounded-lg border border-slate-700/50">
+              <table className="w-full">
+                <thead>
+                  <tr className="bg-gradient-to-r from-slate-900/80 to-slate-800/80 border-b border-slate-700/50">
+                    <th className="w-10" />
+                    <th className="text-left p-4 text-slate-300 font-semibold">Time</th>
+                    <th className="text-left p-4 text-slate-300 font-semibold">Level</th>
+                    <th className="text-left p-4 text-slate-300 font-semibold">Type</th>
+                    <th className="text-left p-4 text-slate-300 font-semibold">Message</th>
+                    <th className="text-left p-4 text-slate-300 font-semibold">Actor</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {entries.length === 0 ? (
+                    <tr>
+                      <td colSpan={6} className="p-8 text-center text-slate-400">No audit entries match these filters.</td>
+                    </tr>
+                  ) : entries.map(entry => (
+                    <AuditRow key={entry.id} entry={entry} open={expanded.has(entry.id)} onToggle={() => toggleExpanded(entry.id)} />
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+          <div ref={sentinelRef} className="h-8 flex items-center justify-center text-xs text-slate-500">
+            {isFetchingNextPage ? 'Loading more...' : !isLoading && entries.length > 0 && !hasNextPage ? 'End of log' : null}
+          </div>
+        </CardContent>
+      </Card>
+    </DashboardShell>
+  );
+}
+
+function AuditRow({ entry, open, onToggle }: { entry: AuditEntry; open: boolean; onToggle: () => void }) {
+  const actor = entry.userId ? `user ${entry.userId}` : entry.agentId ? `agent ${entry.agentId}` : 'system';
+  const references = [
+    entry.orchestrationId && ['Orchestration', entry.orchestrationId],
+    entry.agentId && ['Agent', entry.agentId],
+    entry.policyId && ['Policy', entry.policyId],
+    entry.userId && ['User', entry.userId],
+  ].filter(Boolean) as [string, string][];
+
+  return (
+    <>
+      <tr onClick={onToggle} className="border-b border-slate-800/50 hover:bg-slate-900/30 transition-colors cursor-pointer">
+        <td className="pl-4 text-slate-500">
+          {open ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+        </td>
+        <td className="p-4 text-slate-400 text-sm whitespace-nowrap">{formatDateTime(entry.timestamp)}</td>
+        <td className="p-4"><Badge variant={LEVEL_VARIANTS[entry.level]}>{entry.level.toUpperCase()}</Badge></td>
+        <td className="p-4 text-slate-300 text-sm">{entry.type.replace(/_/g, ' ')}</td>
+        <td className="p-4 text-white text-sm">{entry.message}</td>
+        <td className="p-4 text-slate-400 text-sm font-mono">{actor}</td>
+      </tr>
+      {open && (
+        <tr className="border-b border-slate-800/50 bg-slate-900/40">
+          <td />
+          <td colSpan={5} className="p-4 space-y-3">
+            {references.length > 0 && (
+              <div className="flex flex-wrap gap-4 text-xs">
+                {references.map(([label, id]) => (
+                  <span key={label} className="text-slate-400">
+                    {label}: <span className="font-mono text-slate-200">{id}</span>
+                  </span>
+                ))}
+              </div>
+            )}
+            <JsonViewer value={entry.metadata} />
+          </td>
+        </tr>
+      )}
+    </>
+  );
+}
+
+function countBy<T>(items: T[], key: (item: T) => string): Map<string, number> {
+  const counts = new Map<string, number>();
+  items.forEach(item => counts.set(key(item), (counts.get(key(item)) ?? 0) + 1));
+  return counts;
+}
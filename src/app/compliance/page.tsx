@@ -0,0 +1,317 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { DashboardShell } from '@/components/layout/DashboardShell';
+import { useComplianceReport } from '@/lib/api/client';
+import { usePermission } from '@/lib/auth/session';
+import { renderComplianceReportHtml, verifyComplianceReport } from '@/lib/compliance/report';
+import { toEndOfDay, toStartOfDay } from '@/lib/utils/dates';
+import { saveBlob } from '@/lib/utils/download';
+import { formatDateTime, formatNumber } from '@/lib/utils/format';
+import { AlertTriangle, CheckCircle2, FileCheck2, FileJson, FileText, Gavel, Scale, ShieldAlert, XCircle } from 'lucide-react';
+
+// Force dynamic rendering - this page uses client-side hooks and cannot be statically generated
+export const dynamic = 'force-dynamic';
+
+const inputClass = 'px-3 py-2 bg-slate-900/70 border border-slate-700/60 rounded-lg text-sm text-slate-200 focus:outline-none focus:border-blue-500/60';
+
+// Local calendar day in the yyyy-mm-dd form date inputs use
+const toDateInput = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const quarterRange = (offset: number) => {
+  const now = new Date();
+  const quarter = Math.floor(now.getMonth() / 3) + offset;
+  const start = new Date(now.getFullYear(), quarter * 3, 1);
+  const end = new Date(now.getFullYear(), quarter * 3 + 3, 0);
+  return { start: toDateInput(start), end: toDateInput(end) };
+};
+
+const PRESETS = [
+  { label: 'Last quarter', range: () => quarterRange(-1) },
+  { label: 'This quarter', range: () => quarterRange(0) },
+  {
+    label: 'Last 30 days',
+    range: () => ({ start: toDateInput(new Date(Date.now() - 30 * 24 * 60 * 60 * 1000)), end: toDateInput(new Date()) }),
+  },
+];
+
+export default function CompliancePage() {
+  const [range, setRange] = useState(quarterRange(-1));
+  const [requested, setRequested] = useState<{ start: string; end: string } | null>(null);
+  const generate = useComplianceReport();
+  const canGenerate = usePermission('compliance:generate');
+
+  const verification = useMemo(
+    () => (generate.data ? verifyComplianceReport(generate.data.data, requested ?? undefined) : null),
+    [generate.data, requested]
+  );
+  const report = verification?.report;
+
+  const run = () => {
+    const start = toStartOfDay(range.start);
+    const end = toEndOfDay(range.end);
+    if (!start || !end) return;
+    setRequested({ start, end });
+    generate.mutate({ start, end });
+  };
+
+  const download = (kind: 'json' | 'html') => {
+    if (!generate.data || !requested) return;
+    // Named after the period the report was generated for, even if the inputs have changed since
+    const name = `compliance-report-${toDateInput(new Date(requested.start))}_${toDateInput(new Date(requested.end))}`;
+    if (kind === 'json') {
+      saveBlob(new Blob([JSON.stringify(generate.data.data, null, 2)], { type: 'application/json' }), `${name}.json`);
+    } else if (report) {
+      saveBlob(new Blob([renderComplianceReportHtml(report)], { type: 'text/html' }), `${name}.html`);
+    }
+  };
+
+  return (
+    <DashboardShell
+      title="Compliance"
+      description="Generate, verify and hand over compliance reports for a period"
+      icon={<Gavel className="h-7 w-7 text-teal-300" />}
+    >
+      <Card className="glass-effect border-slate-700/50 shadow-xl mb-6 fade-in">
+        <CardHeader className="pb-4">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-gradient-to-br from-teal-500/20 to-emerald-500/20 rounded-lg border border-teal-500/30">
+              <FileCheck2 className="h-5 w-5 text-teal-400" />
+            </div>
+            <div>
+              <CardTitle className="text-xl font-bold">Report Period</CardTitle>
+              <CardDescription className="text-slate-300">Decisions, violations and approvals within the range, both days inclusive</CardDescription>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <div className="flex flex-wrap items-end gap-4">
+            <label className="flex flex-col gap-1 text-xs text-slate-400 uppercase tracking-wider">
+              From
+              <input type="date" value={range.start} onChange={e => setRange({ ...range, start: e.target.value })} className={inputClass} />
+            </label>
+            <label className="flex flex-col gap-1 text-xs text-slate-400 uppercase tracking-wider">
+              To
+              <input type="date" value={range.end} onChange={e => setRange({ ...range, end: e.target.value })} className={inputClass} />
+            </label>
+            <div className="flex gap-2">
+              {PRESETS.map(preset => (
+                <button
+                  key={preset.label}
+                  type="button"
+                  onClick={() => setRange(preset.range())}
+                  className="px-3 py-2 rounded-lg border border-slate-700/50 bg-slate-800/50 text-slate-300 text-sm hover:border-slate-500"
+                >
+                  {preset.label}
+                </button>
+              ))}
+            </div>
+            <button
+              type="button"
+              onClick={run}
+              disabled={!canGenerate || !range.start || !range.end || range.start > range.end || generate.isPending}
+              title={canGenerate ? undefined : 'Your role cannot generate compliance reports'}
+              className="ml-auto px-5 py-2 bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-500 hover:to-purple-500 disabled:from-slate-700 disabled:to-slate-700 disabled:cursor-not-allowed text-white font-bold rounded-lg text-sm"
+            >
+              {generate.isPending ? 'Generating...' : 'Generate report'}
+            </button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {generate.isPending && (
+        <div className="space-y-4">
+          {[1, 2].map(i => (
+            <div key={i} className="h-40 bg-slate-900/50 rounded-xl animate-pulse shimmer" />
+          ))}
+        </div>
+      )}
+
+      {verification && (
+        <Card className="glass-effect border-slate-700/50 shadow-xl mb-6 fade-in">
+          <CardHeader>
+            <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+              <div className="flex items-center gap-3">
+                {verification.valid ? (
+                  <CheckCircle2 className="h-6 w-6 text-emerald-400" />
+                ) : (
+                  <XCircle className="h-6 w-6 text-red-400" />
+                )}
+                <div>
+                  <CardTitle className="text-xl font-bold">
+                    {verification.valid ? 'Report verified' : 'Report failed verification'}
+                  </CardTitle>
+                  <CardDescription className="text-slate-300">
+                    {generate.data && `Export ${generate.data.data.exportId} · schema v${generate.data.data.schemaVersion} · generated ${formatDateTime(generate.data.data.generatedAt)}`}
+                  </CardDescription>
+                </div>
+              </div>
+              <div className="flex gap-3">
+                <button
+                  type="button"
+                  onClick={() => download('json')}
+                  className="px-4 py-2 rounded-lg border border-slate-600/50 bg-slate-800/70 text-slate-300 text-sm font-semibold flex items-center gap-2 hover:border-slate-500"
+                >
+                  <FileJson className="h-4 w-4" />
+                  JSON
+                </button>
+                <button
+                  type="button"
+                  onClick={() => download('html')}
+                  disabled={!report}
+                  className="px-4 py-2 rounded-lg border border-slate-600/50 bg-slate-800/70 text-slate-300 text-sm font-semibold flex items-center gap-2 hover:border-slate-500 disabled:opacity-40 disabled:cursor-not-allowed"
+                >
+                  <FileText className="h-4 w-4" />
+                  Printable HTML
+                </button>
+              </div>
+            </div>
+          </CardHeader>
+          {verification.issues.length > 0 && (
+            <CardContent>
+              <ul className="space-y-1 text-sm">
+                {verification.issues.map((issue, idx) => (
+                  <li key={idx} className="flex items-start gap-2">
+                    {issue.severity === 'error' ? (
+                      <XCircle className="h-4 w-4 text-red-400 mt-0.5 shrink-0" />
+                    ) : (
+                      <AlertTriangle className="h-4 w-4 text-amber-400 mt-0.5 shrink-0" />
+                    )}
+                    <span className="font-mono text-xs text-slate-400 mt-0.5">{issue.path}</span>
+                    <span className={issue.severity === 'error' ? 'text-red-200' : 'text-amber-200'}>{issue.message}</span>
+                  </li>
+                ))}
+              </ul>
+            </CardContent>
+          )}
+        </Card>
+      )}
+
+      {report && (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-3 xl:grid-cols-6 gap-6 mb-6 fade-in">
+            {[
+              { label: 'Decisions', value: report.data.summary.totalDecisions },
+              { label: 'Allowed', value: report.data.summary.allowed },
+              { label: 'Denied', value: report.data.summary.denied },
+              { label: 'Escalated', value: report.data.summary.escalated },
+              { label: 'Violations', value: report.data.summary.violations },
+              { label: 'Approvals', value: report.data.summary.approvals },
+            ].map(metric => (
+              <Card key={metric.label} className="glass-effect border-slate-700/50 shadow-xl card-glow">
+                <CardHeader className="pb-3">
+                  <CardTitle className="text-sm font-semibold text-slate-300 uppercase tracking-wider">{metric.label}</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="text-3xl font-extrabold text-white">{formatNumber(metric.value)}</div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+
+          <Card className="glass-effect border-slate-700/50 shadow-xl mb-6 fade-in">
+            <CardHeader>
+              <div className="flex items-center gap-3">
+                <div className="p-2 bg-gradient-to-br from-emerald-500/20 to-teal-500/20 rounded-lg border border-emerald-500/30">
+                  <Scale className="h-5 w-5 text-emerald-400" />
+                </div>
+                <CardTitle className="text-xl font-bold">Decisions by Policy</CardTitle>
+              </div>
+            </CardHeader>
+            <CardContent>
+              <div className="overflow-x-auto rounded-lg border border-slate-700/50">
+                <table className="w-full">
+                  <thead>
+                    <tr className="bg-gradient-to-r from-slate-900/80 to-slate-800/80 border-b border-slate-700/50">
+                      {['Policy', 'Total', 'Allow', 'Deny', 'Ask', 'Autofix'].map(header => (
+                        <th key={header} className="text-left p-4 text-slate-300 font-semibold">{header}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {report.data.decisionsByPolicy.length === 0 ? (
+                      <tr>
+                        <td colSpan={6} className="p-8 text-center text-slate-400">No policy decisions in this period.</td>
+                      </tr>
+                    ) : report.data.decisionsByPolicy.map(policy => (
+                      <tr key={policy.policyId} className="border-b border-slate-800/50">
+                        <td className="p-4 text-white font-medium">{policy.policyName}</td>
+                        <td className="p-4 text-slate-300">{formatNumber(policy.total)}</td>
+                        <td className="p-4 text-emerald-300">{formatNumber(policy.allow)}</td>
+                        <td className="p-4 text-red-300">{formatNumber(policy.deny)}</td>
+                        <td className="p-4 text-amber-300">{formatNumber(policy.ask)}</td>
+                        <td className="p-4 text-blue-300">{formatNumber(policy.autofix)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </CardContent>
+          </Card>
+
+          <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+            <Card className="glass-effect border-slate-700/50 shadow-xl fade-in">
+              <CardHeader>
+                <div className="flex items-center gap-3">
+                  <div className="p-2 bg-gradient-to-br from-red-500/20 to-orange-500/20 rounded-lg border border-red-500/30">
+                    <ShieldAlert className="h-5 w-5 text-red-400" />
+                  </div>
+                  <CardTitle className="text-xl font-bold">Violations</CardTitle>
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {report.data.violations.length === 0 ? (
+                  <div className="text-slate-400 text-sm p-4 bg-slate-900/50 rounded-lg border border-slate-700/50">No violations in this period.</div>
+                ) : report.data.violations.map(violation => (
+                  <div key={violation.id} className="p-3 bg-slate-900/60 rounded-lg border border-slate-700/50">
+                    <div className="flex items-center gap-2 mb-1">
+                      <Badge variant={violation.level === 'critical' ? 'destructive' : violation.level === 'error' ? 'error' : 'warning'}>
+                        {violation.level.toUpperCase()}
+                      </Badge>
+                      <span className="text-xs text-slate-400">{formatDateTime(violation.timestamp)}</span>
+                      {(violation.policyName ?? violation.policyId) && (
+                        <span className="ml-auto text-xs text-slate-400">{violation.policyName ?? violation.policyId}</span>
+                      )}
+                    </div>
+                    <p className="text-sm text-white">{violation.message}</p>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+
+            <Card className="glass-effect border-slate-700/50 shadow-xl fade-in">
+              <CardHeader>
+                <div className="flex items-center gap-3">
+                  <div className="p-2 bg-gradient-to-br from-purple-500/20 to-pink-500/20 rounded-lg border border-purple-500/30">
+                    <Gavel className="h-5 w-5 text-purple-400" />
+                  </div>
+                  <CardTitle className="text-xl font-bold">Approvals</CardTitle>
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {report.data.approvals.length === 0 ? (
+                  <div className="text-slate-400 text-sm p-4 bg-slate-900/50 rounded-lg border border-slate-700/50">No approvals in this period.</div>
+                ) : report.data.approvals.map(approval => (
+                  <div key={approval.id} className="p-3 bg-slate-900/60 rounded-lg border border-slate-700/50">
+                    <div className="flex items-center gap-2 mb-1">
+                      <Badge variant={approval.status === 'approved' ? 'success' : 'error'}>{approval.status.toUpperCase()}</Badge>
+                      <span className="text-sm text-white font-medium">{approval.approverName}</span>
+                      <span className="ml-auto text-xs text-slate-400">{formatDateTime(approval.resolvedAt)}</span>
+                    </div>
+                    <div className="text-xs text-slate-400 font-mono">
+                      {approval.orchestrationId}{approval.stepName && ` · ${approval.stepName}`}
+                    </div>
+                    {approval.justification && <p className="text-sm text-slate-300 mt-1">{approval.justification}</p>}
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          </div>
+        </>
+      )}
+    </DashboardShell>
+  );
+}
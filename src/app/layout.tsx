@@ -3,6 +3,10 @@
 import React, { useState } from 'react';
 import './globals.css';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { Toaster } from 'sonner';
+import { SessionExpiryPrompt } from '@/components/auth/SessionExpiryPrompt';
+import { isApiError } from '@/lib/api/errors';
+import { SessionProvider } from '@/lib/auth/session';
 
 export default function RootLayout({
   children,
@@ -16,7 +20,8 @@ export default function RootLayout({
           queries: {
             staleTime: 60 * 1000, // 1 minute
             refetchOnWindowFocus: false,
-            retry: 1,
+            // The API client already retries idempotent requests; only retry what might succeed next time
+            retry: (failureCount, error) => failureCount < 1 && (!isApiError(error) || error.retryable),
           },
         },
       })
@@ -32,7 +37,13 @@ export default function RootLayout({
         <link rel="icon" href="/favicon.ico" />
       </head>
       <body className="antialiased">
-        <QueryClientProvider client={queryClient}>{children}</QueryClientProvider>
+        <QueryClientProvider client={queryClient}>
+          <SessionProvider>
+            {children}
+            <SessionExpiryPrompt />
+          </SessionProvider>
+          <Toaster theme="dark" richColors position="bottom-right" />
+        </QueryClientProvider>
       </body>
     </html>
   );
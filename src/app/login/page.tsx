@@ -0,0 +1,108 @@
+'use client';
+
+import { Suspense, useEffect, useState } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { AuthError, describeApiError } from '@/lib/api/errors';
+import { safeRedirectTarget } from '@/lib/auth/redirect';
+import { useSession } from '@/lib/auth/session';
+import { LogIn, Sparkles, XCircle } from 'lucide-react';
+
+// Force dynamic rendering - this page uses client-side hooks and cannot be statically generated
+export const dynamic = 'force-dynamic';
+
+const REASON_MESSAGES: Record<string, string> = {
+  expired: 'Your session expired. Sign in again to continue.',
+  unauthorized: 'The server rejected your credentials. Sign in again to continue.',
+  signed_out: 'You have been signed out.',
+};
+
+const inputClass = 'w-full px-3 py-2 bg-slate-900/70 border border-slate-700/60 rounded-lg text-sm text-slate-200 focus:outline-none focus:border-blue-500/60';
+
+function LoginForm() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const { session, loading, signIn } = useSession();
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const next = searchParams.get('next');
+  const reason = searchParams.get('reason');
+
+  // Already signed in - nothing to do here
+  useEffect(() => {
+    if (!loading && session) router.replace(safeRedirectTarget(next, window.location.origin));
+  }, [loading, session, next, router]);
+
+  const submit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setSubmitting(true);
+    setError(null);
+    try {
+      await signIn({ email: email.trim(), password });
+    } catch (signInError) {
+      setError(
+        signInError instanceof AuthError && signInError.status === 401
+          ? 'Incorrect email or password.'
+          : describeApiError(signInError)
+      );
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={submit} className="space-y-4">
+      {reason && REASON_MESSAGES[reason] && !error && (
+        <div className="p-3 bg-gradient-to-r from-amber-500/20 to-amber-500/10 border border-amber-500/30 rounded-lg text-sm text-amber-200">
+          {REASON_MESSAGES[reason]}
+        </div>
+      )}
+      {error && (
+        <div className="p-3 bg-gradient-to-r from-red-500/20 to-red-500/10 border border-red-500/30 rounded-lg flex items-start gap-2 text-sm text-red-200">
+          <XCircle className="h-4 w-4 mt-0.5 shrink-0" />
+          {error}
+        </div>
+      )}
+      <label className="flex flex-col gap-1 text-xs text-slate-400 uppercase tracking-wider">
+        Email
+        <input type="email" value={email} onChange={e => setEmail(e.target.value)} autoComplete="username" required className={inputClass} />
+      </label>
+      <label className="flex flex-col gap-1 text-xs text-slate-400 uppercase tracking-wider">
+        Password
+        <input type="password" value={password} onChange={e => setPassword(e.target.value)} autoComplete="current-password" required className={inputClass} />
+      </label>
+      <button
+        type="submit"
+        disabled={submitting || !email || !password}
+        className="w-full px-4 py-2.5 bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-500 hover:to-purple-500 disabled:from-slate-700 disabled:to-slate-700 text-white font-bold rounded-lg text-sm flex items-center justify-center gap-2"
+      >
+        <LogIn className="h-4 w-4" />
+        {submitting ? 'Signing in...' : 'Sign in'}
+      </button>
+    </form>
+  );
+}
+
+export default function LoginPage() {
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-950 via-slate-900 to-slate-950 flex items-center justify-center p-6">
+      <div className="w-full max-w-sm p-8 glass-effect border border-slate-700/50 rounded-2xl shadow-2xl fade-in">
+        <div className="flex items-center gap-3 mb-6">
+          <div className="p-3 bg-gradient-to-br from-blue-500/20 to-purple-500/20 rounded-xl border border-blue-500/30">
+            <Sparkles className="h-6 w-6 text-blue-300" />
+          </div>
+          <div>
+            <h1 className="text-2xl font-extrabold text-white">AI Execution Platform</h1>
+            <p className="text-sm text-slate-400">Sign in to the dashboard</p>
+          </div>
+        </div>
+        {/* useSearchParams needs a suspense boundary for prerendering */}
+        <Suspense fallback={<div className="h-48 bg-slate-900/50 rounded animate-pulse shimmer" />}>
+          <LoginForm />
+        </Suspense>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,235 @@
+'use client';
+
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { DashboardShell } from '@/components/layout/DashboardShell';
+import { EmbeddingScatter } from '@/components/memory/EmbeddingScatter';
+import { MemoryCard } from '@/components/memory/MemoryCard';
+import { useMemory, useMemorySearch } from '@/lib/api/client';
+import { describeApiError } from '@/lib/api/errors';
+import type { Memory } from '@/lib/schemas/api';
+import { Brain, Network, Search, X, XCircle } from 'lucide-react';
+
+// Force dynamic rendering - this page uses client-side hooks and cannot be statically generated
+export const dynamic = 'force-dynamic';
+
+const PAGE_SIZE = 200;
+// Memories not refreshed for this long are flagged even if they never expire
+const STALE_AFTER_DAYS = 90;
+
+const MEMORY_TYPES: Memory['type'][] = ['conversation', 'knowledge', 'policy', 'procedure'];
+
+const inputClass = 'px-3 py-2 bg-slate-900/70 border border-slate-700/60 rounded-lg text-sm text-slate-200 focus:outline-none focus:border-blue-500/60';
+
+const isStale = (memory: Memory) => {
+  const now = Date.now();
+  if (memory.expiresAt && new Date(memory.expiresAt).getTime() < now) return true;
+  return now - new Date(memory.createdAt).getTime() > STALE_AFTER_DAYS * 24 * 60 * 60 * 1000;
+};
+
+export default function MemoryExplorerPage() {
+  const [type, setType] = useState<Memory['type'] | ''>('');
+  const [tags, setTags] = useState<string[]>([]);
+  const [tagInput, setTagInput] = useState('');
+  const [minImportance, setMinImportance] = useState(0);
+  const [queryInput, setQueryInput] = useState('');
+  const [query, setQuery] = useState('');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const list = useMemory({
+    type: type || undefined,
+    tags: tags.length > 0 ? tags : undefined,
+    importance: minImportance || undefined,
+    limit: PAGE_SIZE,
+  });
+  const search = useMemorySearch({
+    query,
+    filters: { type: type || undefined, tags: tags.length > 0 ? tags : undefined, minImportance: minImportance || undefined },
+    limit: PAGE_SIZE,
+  });
+
+  const searching = query.trim().length > 0;
+  const active = searching ? search : list;
+  const hits = searching
+    ? (search.data?.data.results ?? [])
+    : (list.data?.data.memories ?? []).map(memory => ({ memory, score: undefined, highlights: undefined }));
+  const memories = hits.map(hit => hit.memory);
+  const staleCount = memories.filter(isStale).length;
+
+  const addTag = (tag: string) => {
+    const value = tag.trim();
+    if (value && !tags.includes(value)) setTags([...tags, value]);
+  };
+
+  const selectMemory = (id: string) => {
+    setSelectedId(id);
+    document.getElementById(`memory-${id}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  };
+
+  return (
+    <DashboardShell
+      title="Memory"
+      description="What agents remember, how it clusters, and what has gone stale"
+      icon={<Brain className="h-7 w-7 text-pink-300" />}
+    >
+      <Card className="glass-effect border-slate-700/50 shadow-xl mb-6 fade-in">
+        <CardContent className="pt-6 space-y-4">
+          <form
+            onSubmit={event => {
+              event.preventDefault();
+              setQuery(queryInput);
+            }}
+            className="flex gap-3"
+          >
+            <div className="relative flex-1">
+              <Search className="h-4 w-4 text-slate-500 absolute left-3 top-1/2 -translate-y-1/2" />
+              <input
+                value={queryInput}
+                onChange={e => setQueryInput(e.target.value)}
+                placeholder="Semantic search, e.g. &quot;how do we roll back a failed deploy&quot;"
+                className={`${inputClass} w-full pl-9`}
+              />
+            </div>
+            <button type="submit" className="px-4 py-2 bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-500 hover:to-purple-500 text-white font-bold rounded-lg text-sm">
+              Search
+            </button>
+            {searching && (
+              <button
+                type="button"
+                onClick={() => {
+                  setQuery('');
+                  setQueryInput('');
+                }}
+                className="px-4 py-2 rounded-lg border border-slate-600/50 bg-slate-800/70 text-slate-300 text-sm font-semibold"
+              >
+                Clear
+              </button>
+            )}
+          </form>
+
+          <div className="flex flex-wrap items-center gap-4">
+            <select value={type} onChange={e => setType(e.target.value as Memory['type'] | '')} className={inputClass}>
+              <option value="">All types</option>
+              {MEMORY_TYPES.map(option => <option key={option} value={option}>{option}</option>)}
+            </select>
+
+            <label className="flex items-center gap-2 text-sm text-slate-400">
+              Min importance
+              <input
+                type="range"
+                min={0}
+                max={1}
+                step={0.1}
+                value={minImportance}
+                onChange={e => setMinImportance(Number(e.target.value))}
+              />
+              <span className="text-slate-200 w-8">{minImportance.toFixed(1)}</span>
+            </label>
+
+            <form
+              onSubmit={event => {
+                event.preventDefault();
+                addTag(tagInput);
+                setTagInput('');
+              }}
+            >
+              <input value={tagInput} onChange={e => setTagInput(e.target.value)} placeholder="Add tag filter" className={inputClass} />
+            </form>
+
+            {tags.map(tag => (
+              <span key={tag} className="px-2 py-1 text-xs rounded-md bg-blue-500/20 border border-blue-500/40 text-blue-200 flex items-center gap-1">
+                #{tag}
+                <button type="button" onClick={() => setTags(tags.filter(t => t !== tag))} aria-label={`Remove ${tag}`}>
+                  <X className="h-3 w-3" />
+                </button>
+              </span>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
+      {active.error ? (
+        <div className="p-6 bg-gradient-to-r from-red-500/20 to-red-500/10 border border-red-500/30 rounded-xl flex items-start gap-4">
+          <XCircle className="h-5 w-5 text-red-400 mt-1" />
+          <div>
+            <h4 className="text-lg font-semibold text-white">{searching ? 'Search failed' : 'Unable to load memories'}</h4>
+            <p className="text-sm text-slate-300">{describeApiError(active.error)}</p>
+          </div>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+          <Card className="glass-effect border-slate-700/50 shadow-xl fade-in xl:sticky xl:top-6 self-start">
+            <CardHeader>
+              <div className="flex items-center gap-3">
+                <div className="p-2 bg-gradient-to-br from-pink-500/20 to-purple-500/20 rounded-lg border border-pink-500/30">
+                  <Network className="h-5 w-5 text-pink-400" />
+                </div>
+                <div>
+                  <CardTitle className="text-xl font-bold">Embedding Map</CardTitle>
+                  <CardDescription className="text-slate-300">2D PCA projection of the memories listed</CardDescription>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent>
+              {active.isLoading ? (
+                <div className="h-64 bg-slate-900/50 rounded animate-pulse shimmer" />
+              ) : (
+                <EmbeddingScatter memories={memories} isStale={isStale} selectedId={selectedId} onSelect={selectMemory} />
+              )}
+            </CardContent>
+          </Card>
+
+          <Card className="glass-effect border-slate-700/50 shadow-xl fade-in">
+            <CardHeader>
+              <div className="flex items-center gap-3">
+                <div className="p-2 bg-gradient-to-br from-blue-500/20 to-purple-500/20 rounded-lg border border-blue-500/30">
+                  <Brain className="h-5 w-5 text-blue-400" />
+                </div>
+                <div>
+                  <CardTitle className="text-xl font-bold">{searching ? 'Search Results' : 'Memories'}</CardTitle>
+                  <CardDescription className="text-slate-300">
+                    {active.isLoading
+                      ? 'Loading...'
+                      : searching
+                        ? `${hits.length} of ${search.data?.data.totalMatches ?? hits.length} matches for "${query}"${search.data?.data.tookMs !== undefined ? ` in ${search.data.data.tookMs}ms` : ''}`
+                        : `${hits.length} of ${list.data?.data.pagination.total ?? hits.length} memories`}
+                    {!active.isLoading && staleCount > 0 && ` · ${staleCount} stale`}
+                  </CardDescription>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent>
+              {active.isLoading ? (
+                <div className="space-y-3">
+                  {[1, 2, 3].map(i => (
+                    <div key={i} className="h-32 bg-slate-900/50 rounded-xl animate-pulse shimmer" />
+                  ))}
+                </div>
+              ) : hits.length === 0 ? (
+                <div className="text-slate-400 text-sm p-4 bg-slate-900/50 rounded-lg border border-slate-700/50">
+                  {searching ? 'Nothing matched this search.' : 'No memories match these filters.'}
+                </div>
+              ) : (
+                <div className="space-y-3">
+                  {hits.map(hit => (
+                    <div key={hit.memory.id} id={`memory-${hit.memory.id}`}>
+                      <MemoryCard
+                        memory={hit.memory}
+                        stale={isStale(hit.memory)}
+                        selected={hit.memory.id === selectedId}
+                        score={hit.score}
+                        highlights={hit.highlights}
+                        onTagClick={addTag}
+                        onSelect={() => setSelectedId(hit.memory.id)}
+                      />
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      )}
+    </DashboardShell>
+  );
+}
@@ -0,0 +1,298 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { toast } from 'sonner';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { DashboardShell } from '@/components/layout/DashboardShell';
+import { StepTimeline } from '@/components/orchestrations/StepTimeline';
+import { DecisionBadge, OrchestrationStatusBadge } from '@/components/orchestrations/OrchestrationStatusBadge';
+import { ultraSecureApiClient, useOrchestration } from '@/lib/api/client';
+import { describeApiError, errorFromResponse } from '@/lib/api/errors';
+import { useOrchestrationEvents } from '@/lib/api/realtime';
+import { describeEvent } from '@/lib/orchestrations/events';
+import { saveBlob } from '@/lib/utils/download';
+import { formatCost, formatDateTime, formatDuration, formatNumber, formatPercent } from '@/lib/utils/format';
+import {
+  Activity, ArrowLeft, BarChart3, Clock, Coins, Cpu, Download, GanttChartSquare, Radio, Shield, ShieldAlert, Wrench, XCircle,
+} from 'lucide-react';
+
+// Force dynamic rendering - this page uses client-side hooks and cannot be statically generated
+export const dynamic = 'force-dynamic';
+
+export default function OrchestrationDetailPage({ params }: { params: { id: string } }) {
+  const { data, isLoading, error } = useOrchestration(params.id);
+  const { events, status: streamStatus } = useOrchestrationEvents(params.id);
+  const orchestration = data?.data;
+  const [now, setNow] = useState(() => Date.now());
+  const [exporting, setExporting] = useState(false);
+
+  // Keep running bars growing between refetches
+  useEffect(() => {
+    if (orchestration?.status !== 'running') return;
+    const interval = setInterval(() => setNow(Date.now()), 5000);
+    return () => clearInterval(interval);
+  }, [orchestration?.status]);
+
+  const backLink = (
+    <Link
+      href="/orchestrations"
+      className="px-4 py-2 rounded-xl border-2 bg-slate-800/70 border-slate-600/50 text-slate-300 hover:border-slate-500 font-semibold text-sm flex items-center gap-2"
+    >
+      <ArrowLeft className="h-4 w-4" />
+      All runs
+    </Link>
+  );
+
+  // Bundles can be opened offline in the replay viewer
+  const exportBundle = async () => {
+    setExporting(true);
+    try {
+      const response = await ultraSecureApiClient.exportOrchestration(params.id);
+      if (!response.ok) throw await errorFromResponse(response.url, response);
+      saveBlob(await response.blob(), `orchestration-${params.id}.json`);
+    } catch (exportError) {
+      toast.error(`Failed to export orchestration: ${describeApiError(exportError)}`);
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const headerActions = (
+    <div className="flex items-center gap-3">
+      <button
+        type="button"
+        onClick={exportBundle}
+        disabled={exporting}
+        className="px-4 py-2 rounded-xl border-2 bg-slate-800/70 border-slate-600/50 text-slate-300 hover:border-slate-500 font-semibold text-sm flex items-center gap-2 disabled:opacity-50"
+      >
+        <Download className="h-4 w-4" />
+        {exporting ? 'Exporting...' : 'Export bundle'}
+      </button>
+      {backLink}
+    </div>
+  );
+
+  if (isLoading) {
+    return (
+      <DashboardShell title="Orchestration" description="Loading orchestration..." actions={backLink}>
+        <div className="space-y-4">
+          {[1, 2, 3].map(i => (
+            <div key={i} className="h-32 bg-slate-900/50 rounded-xl animate-pulse shimmer" />
+          ))}
+        </div>
+      </DashboardShell>
+    );
+  }
+
+  if (error || !orchestration) {
+    return (
+      <DashboardShell title="Orchestration" description={params.id} actions={backLink}>
+        <div className="p-6 bg-gradient-to-r from-red-500/20 to-red-500/10 border border-red-500/30 rounded-xl flex items-start gap-4">
+          <XCircle className="h-5 w-5 text-red-400 mt-1" />
+          <div>
+            <h4 className="text-lg font-semibold text-white">Unable to load orchestration</h4>
+            <p className="text-sm text-slate-300">{describeApiError(error, 'Orchestration not found.')}</p>
+          </div>
+        </div>
+      </DashboardShell>
+    );
+  }
+
+  const plan = orchestration.executionPlan;
+  const riskColor = plan.metadata.riskScore >= 0.7 ? 'text-red-300' : plan.metadata.riskScore >= 0.4 ? 'text-amber-300' : 'text-emerald-300';
+  const metrics = [
+    { label: 'Cost', value: formatCost(orchestration.metrics.cost), icon: <Coins className="h-5 w-5" />, color: 'text-amber-400' },
+    { label: 'Tokens Used', value: formatNumber(orchestration.metrics.tokensUsed), icon: <Cpu className="h-5 w-5" />, color: 'text-purple-400' },
+    { label: 'Tool Calls', value: formatNumber(orchestration.metrics.toolCalls), icon: <Wrench className="h-5 w-5" />, color: 'text-blue-400' },
+    { label: 'Duration', value: formatDuration(orchestration.metrics.duration), icon: <Clock className="h-5 w-5" />, color: 'text-emerald-400' },
+  ];
+
+  return (
+    <DashboardShell
+      title={orchestration.name}
+      description={
+        <div className="flex flex-wrap items-center gap-3">
+          <span>{orchestration.description}</span>
+          <OrchestrationStatusBadge status={orchestration.status} />
+        </div>
+      }
+      icon={<Activity className="h-7 w-7 text-blue-300" />}
+      actions={headerActions}
+    >
+      {/* Progress */}
+      <Card className="glass-effect border-slate-700/50 shadow-xl mb-6 fade-in">
+        <CardContent className="pt-6">
+          <div className="flex items-center justify-between text-sm text-slate-300 mb-2">
+            <span>Agent: <span className="text-white font-medium">{orchestration.agentName}</span></span>
+            <span>{orchestration.progress}% complete</span>
+          </div>
+          <div className="h-3 bg-slate-900/70 rounded-full overflow-hidden border border-slate-700/50">
+            <div
+              className="h-full bg-gradient-to-r from-blue-500 to-purple-500 transition-all"
+              style={{ width: `${orchestration.progress}%` }}
+            />
+          </div>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mt-4 text-xs text-slate-400">
+            <div>Created: <span className="text-slate-200">{formatDateTime(orchestration.createdAt)}</span></div>
+            <div>Started: <span className="text-slate-200">{formatDateTime(orchestration.startTime)}</span></div>
+            <div>Ended: <span className="text-slate-200">{formatDateTime(orchestration.endTime)}</span></div>
+            <div>ETA: <span className="text-slate-200">{formatDateTime(orchestration.estimatedCompletion)}</span></div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Metrics */}
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-6 fade-in">
+        {metrics.map(metric => (
+          <Card key={metric.label} className="glass-effect border-slate-700/50 shadow-xl card-glow">
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-3">
+              <CardTitle className="text-sm font-semibold text-slate-300 uppercase tracking-wider">{metric.label}</CardTitle>
+              <div className={`${metric.color} p-2 rounded-lg bg-slate-800/50`}>{metric.icon}</div>
+            </CardHeader>
+            <CardContent>
+              <div className="text-3xl font-extrabold text-white">{metric.value}</div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 mb-6">
+        {/* Supervisor Decision */}
+        <Card className="glass-effect border-slate-700/50 shadow-xl fade-in lg:col-span-1">
+          <CardHeader>
+            <div className="flex items-center gap-3 mb-2">
+              <div className="p-2 bg-gradient-to-br from-emerald-500/20 to-teal-500/20 rounded-lg border border-emerald-500/30">
+                <Shield className="h-5 w-5 text-emerald-400" />
+              </div>
+              <CardTitle className="text-xl font-bold">Supervisor Decision</CardTitle>
+            </div>
+            <CardDescription className="text-slate-300">
+              Policy {plan.metadata.policyVersion} · evaluated by {plan.metadata.evaluator}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex items-center justify-between p-4 bg-gradient-to-r from-slate-900/80 to-slate-800/80 rounded-lg border border-slate-700/50">
+              <span className="font-medium">Decision</span>
+              <div className="flex items-center gap-2">
+                <DecisionBadge decision={plan.decision} />
+                <Badge variant={plan.allowed ? 'success' : 'error'}>{plan.allowed ? 'Allowed' : 'Blocked'}</Badge>
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="p-4 bg-slate-900/60 rounded-lg border border-slate-700/50">
+                <div className="text-xs text-slate-400 uppercase tracking-wider">Risk Score</div>
+                <div className={`text-2xl font-bold ${riskColor}`}>{plan.metadata.riskScore.toFixed(2)}</div>
+              </div>
+              <div className="p-4 bg-slate-900/60 rounded-lg border border-slate-700/50">
+                <div className="text-xs text-slate-400 uppercase tracking-wider">Confidence</div>
+                <div className="text-2xl font-bold text-blue-300">{formatPercent(plan.metadata.confidence)}</div>
+              </div>
+            </div>
+            <div className="text-xs text-slate-400">Evaluated: {formatDateTime(plan.metadata.evaluatedAt)}</div>
+
+            {plan.reasonCodes.length > 0 && (
+              <div>
+                <div className="flex items-center gap-2 text-sm font-semibold text-amber-400 mb-2">
+                  <ShieldAlert className="h-4 w-4" />
+                  Reason Codes
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  {plan.reasonCodes.map(code => (
+                    <Badge key={code} variant="warning" className="font-mono">{code}</Badge>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {plan.gates.length > 0 && (
+              <div>
+                <div className="text-sm font-semibold text-slate-300 mb-2">Gates</div>
+                <div className="flex flex-wrap gap-2">
+                  {plan.gates.map(gate => (
+                    <Badge key={gate} variant="secondary" className="font-mono">{gate}</Badge>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <div className="grid grid-cols-1 gap-3">
+              <div>
+                <div className="text-sm font-semibold text-emerald-400 mb-2">Tool Allowlist</div>
+                <div className="flex flex-wrap gap-2">
+                  {plan.toolAllowlist.length > 0 ? plan.toolAllowlist.map(tool => (
+                    <Badge key={tool} variant="success" className="font-mono">{tool}</Badge>
+                  )) : <span className="text-xs text-slate-500">None</span>}
+                </div>
+              </div>
+              <div>
+                <div className="text-sm font-semibold text-red-400 mb-2">Tool Denylist</div>
+                <div className="flex flex-wrap gap-2">
+                  {plan.toolDenylist.length > 0 ? plan.toolDenylist.map(tool => (
+                    <Badge key={tool} variant="error" className="font-mono">{tool}</Badge>
+                  )) : <span className="text-xs text-slate-500">None</span>}
+                </div>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Execution Plan Timeline */}
+        <Card className="glass-effect border-slate-700/50 shadow-xl fade-in lg:col-span-2">
+          <CardHeader>
+            <div className="flex items-center gap-3 mb-2">
+              <div className="p-2 bg-gradient-to-br from-blue-500/20 to-purple-500/20 rounded-lg border border-blue-500/30">
+                <GanttChartSquare className="h-5 w-5 text-blue-400" />
+              </div>
+              <CardTitle className="text-xl font-bold">Execution Plan</CardTitle>
+            </div>
+            <CardDescription className="text-slate-300">
+              {plan.steps.length} {plan.steps.length === 1 ? 'step' : 'steps'} · plan {plan.id}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <StepTimeline steps={plan.steps} now={now} />
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Live Events */}
+      <Card className="glass-effect border-slate-700/50 shadow-xl fade-in">
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <div className="p-2 bg-gradient-to-br from-purple-500/20 to-pink-500/20 rounded-lg border border-purple-500/30">
+                <BarChart3 className="h-5 w-5 text-purple-400" />
+              </div>
+              <CardTitle className="text-xl font-bold">Live Events</CardTitle>
+            </div>
+            <Badge variant={streamStatus === 'open' ? 'success' : streamStatus === 'unauthorized' ? 'error' : 'warning'} className="flex items-center gap-1">
+              <Radio className="h-3 w-3" />
+              {streamStatus.toUpperCase()}
+            </Badge>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {events.length === 0 ? (
+            <div className="text-slate-400 text-sm p-4 bg-slate-900/50 rounded-lg border border-slate-700/50">
+              No events received since this page was opened.
+            </div>
+          ) : (
+            <div className="space-y-2 max-h-80 overflow-y-auto">
+              {[...events].reverse().map((event, idx) => (
+                <div key={`${event.data.correlationId}-${event.event}-${idx}`} className="flex items-center justify-between p-3 bg-slate-900/60 rounded-lg border border-slate-700/50 text-sm">
+                  <div className="flex items-center gap-3 min-w-0">
+                    <Badge variant="secondary" className="font-mono">{event.event}</Badge>
+                    <span className="text-slate-200 truncate">{describeEvent(event)}</span>
+                  </div>
+                  <span className="text-xs text-slate-400 flex-shrink-0 ml-3">{new Date(event.data.timestamp).toLocaleTimeString()}</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </DashboardShell>
+  );
+}
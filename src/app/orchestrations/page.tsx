@@ -0,0 +1,308 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { ValidationWarningsNotice } from '@/components/diagnostics/ValidationWarningsNotice';
+import { DashboardShell } from '@/components/layout/DashboardShell';
+import { OrchestrationStatusBadge } from '@/components/orchestrations/OrchestrationStatusBadge';
+import { useAgents, useBulkOrchestrationAction, useOrchestrations } from '@/lib/api/client';
+import { describeApiError } from '@/lib/api/errors';
+import { usePermission } from '@/lib/auth/session';
+import type { Orchestration } from '@/lib/schemas/api';
+import { toEndOfDay, toStartOfDay } from '@/lib/utils/dates';
+import { formatCost, formatDateTime, formatDuration } from '@/lib/utils/format';
+import {
+  Activity, ArrowDown, ArrowUp, ArrowUpDown, Ban, ChevronLeft, ChevronRight, Filter, History, Trash2, XCircle,
+} from 'lucide-react';
+
+// Force dynamic rendering - this page uses client-side hooks and cannot be statically generated
+export const dynamic = 'force-dynamic';
+
+type SortField = 'createdAt' | 'cost' | 'duration' | 'progress';
+type SortOrder = 'asc' | 'desc';
+
+const PAGE_SIZES = [10, 25, 50];
+const STATUSES: Orchestration['status'][] = ['pending', 'running', 'completed', 'failed', 'cancelled'];
+
+export default function OrchestrationsPage() {
+  const [status, setStatus] = useState('');
+  const [agentId, setAgentId] = useState('');
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [sortBy, setSortBy] = useState<SortField>('createdAt');
+  const [sortOrder, setSortOrder] = useState<SortOrder>('desc');
+  const [limit, setLimit] = useState(PAGE_SIZES[0]);
+  const [offset, setOffset] = useState(0);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+
+  const params = useMemo(() => ({
+    status: status || undefined,
+    agentId: agentId || undefined,
+    startDate: toStartOfDay(startDate),
+    endDate: toEndOfDay(endDate),
+    sortBy,
+    sortOrder,
+    limit,
+    offset,
+  }), [status, agentId, startDate, endDate, sortBy, sortOrder, limit, offset]);
+
+  const { data, isLoading, error } = useOrchestrations(params);
+  const { data: agentsData } = useAgents({ limit: 100 });
+  const bulkAction = useBulkOrchestrationAction();
+  const canCancel = usePermission('orchestrations:cancel');
+  const canDelete = usePermission('orchestrations:delete');
+
+  const orchestrations = data?.data.orchestrations ?? [];
+  const pagination = data?.data.pagination;
+
+  // Any filter change starts over from the first page with an empty selection
+  useEffect(() => {
+    setOffset(0);
+    setSelected(new Set());
+  }, [status, agentId, startDate, endDate, sortBy, sortOrder, limit]);
+
+  const toggleSort = (field: SortField) => {
+    if (sortBy === field) {
+      setSortOrder(sortOrder === 'asc' ? 'desc' : 'asc');
+    } else {
+      setSortBy(field);
+      setSortOrder('desc');
+    }
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id); else next.add(id);
+      return next;
+    });
+  };
+
+  const allOnPageSelected = orchestrations.length > 0 && orchestrations.every(o => selected.has(o.id));
+  const toggleAllOnPage = () => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      orchestrations.forEach(o => (allOnPageSelected ? next.delete(o.id) : next.add(o.id)));
+      return next;
+    });
+  };
+
+  const runBulkAction = (action: 'cancel' | 'delete') => {
+    const ids = Array.from(selected);
+    if (ids.length === 0) return;
+    if (action === 'delete' && !window.confirm(`Delete ${ids.length} orchestration(s)? This cannot be undone.`)) return;
+
+    bulkAction.mutate({ ids, action }, {
+      onSuccess: ({ failed }) => setSelected(new Set(failed)),
+    });
+  };
+
+  const sortIcon = (field: SortField) => {
+    if (sortBy !== field) return <ArrowUpDown className="h-3 w-3 opacity-50" />;
+    return sortOrder === 'asc' ? <ArrowUp className="h-3 w-3" /> : <ArrowDown className="h-3 w-3" />;
+  };
+
+  const sortableHeader = (field: SortField, label: string) => (
+    <th className="text-left p-4 text-slate-300 font-semibold">
+      <button onClick={() => toggleSort(field)} className="flex items-center gap-1 hover:text-white">
+        {label}
+        {sortIcon(field)}
+      </button>
+    </th>
+  );
+
+  const inputClass = 'px-3 py-2 bg-slate-900/70 border border-slate-700/60 rounded-lg text-sm text-slate-200 focus:outline-none focus:border-blue-500/60';
+
+  return (
+    <DashboardShell
+      title="Orchestrations"
+      description="Browse, filter and manage orchestration runs"
+      icon={<Activity className="h-7 w-7 text-blue-300" />}
+      actions={
+        <Link
+          href="/orchestrations/replay"
+          className="px-4 py-2 rounded-xl border-2 bg-slate-800/70 border-slate-600/50 text-slate-300 hover:border-slate-500 font-semibold text-sm flex items-center gap-2"
+        >
+          <History className="h-4 w-4" />
+          Replay a bundle
+        </Link>
+      }
+    >
+      {/* Filters */}
+      <Card className="glass-effect border-slate-700/50 shadow-xl mb-6 fade-in">
+        <CardHeader className="pb-4">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-gradient-to-br from-blue-500/20 to-cyan-500/20 rounded-lg border border-blue-500/30">
+              <Filter className="h-5 w-5 text-blue-400" />
+            </div>
+            <CardTitle className="text-xl font-bold">Filters</CardTitle>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+            <label className="flex flex-col gap-1 text-xs text-slate-400 uppercase tracking-wider">
+              Status
+              <select value={status} onChange={e => setStatus(e.target.value)} className={inputClass}>
+                <option value="">All statuses</option>
+                {STATUSES.map(s => <option key={s} value={s}>{s}</option>)}
+              </select>
+            </label>
+            <label className="flex flex-col gap-1 text-xs text-slate-400 uppercase tracking-wider">
+              Agent
+              <select value={agentId} onChange={e => setAgentId(e.target.value)} className={inputClass}>
+                <option value="">All agents</option>
+                {agentsData?.data.agents.map(agent => (
+                  <option key={agent.id} value={agent.id}>{agent.name}</option>
+                ))}
+              </select>
+            </label>
+            <label className="flex flex-col gap-1 text-xs text-slate-400 uppercase tracking-wider">
+              From
+              <input type="date" value={startDate} max={endDate || undefined} onChange={e => setStartDate(e.target.value)} className={inputClass} />
+            </label>
+            <label className="flex flex-col gap-1 text-xs text-slate-400 uppercase tracking-wider">
+              To
+              <input type="date" value={endDate} min={startDate || undefined} onChange={e => setEndDate(e.target.value)} className={inputClass} />
+            </label>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Table */}
+      <Card className="glass-effect border-slate-700/50 shadow-xl fade-in">
+        <CardHeader>
+          <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+            <div>
+              <CardTitle className="text-xl font-bold">Runs</CardTitle>
+              <CardDescription className="text-slate-300">
+                {pagination
+                  ? `Showing ${pagination.total === 0 ? 0 : pagination.offset + 1}-${pagination.offset + orchestrations.length} of ${pagination.total}`
+                  : 'Loading runs...'}
+              </CardDescription>
+            </div>
+            {(canCancel || canDelete) && <div className="flex items-center gap-3">
+              <span className="text-sm text-slate-400">{selected.size} selected</span>
+              {canCancel && <button
+                onClick={() => runBulkAction('cancel')}
+                disabled={selected.size === 0 || bulkAction.isPending}
+                className="px-4 py-2 rounded-lg border border-amber-500/40 bg-amber-500/20 text-amber-300 text-sm font-semibold flex items-center gap-2 disabled:opacity-40 disabled:cursor-not-allowed"
+              >
+                <Ban className="h-4 w-4" />
+                Cancel
+              </button>}
+              {canDelete && <button
+                onClick={() => runBulkAction('delete')}
+                disabled={selected.size === 0 || bulkAction.isPending}
+                className="px-4 py-2 rounded-lg border border-red-500/40 bg-red-500/20 text-red-300 text-sm font-semibold flex items-center gap-2 disabled:opacity-40 disabled:cursor-not-allowed"
+              >
+                <Trash2 className="h-4 w-4" />
+                Delete
+              </button>}
+            </div>}
+          </div>
+        </CardHeader>
+        <CardContent>
+          <ValidationWarningsNotice warnings={data?.warnings} />
+          {error ? (
+            <div className="p-6 bg-gradient-to-r from-red-500/20 to-red-500/10 border border-red-500/30 rounded-xl flex items-start gap-4">
+              <XCircle className="h-5 w-5 text-red-400 mt-1" />
+              <p className="text-sm text-slate-300">{describeApiError(error, 'Failed to load orchestrations.')}</p>
+            </div>
+          ) : isLoading ? (
+            <div className="space-y-2">
+              {[1, 2, 3, 4, 5].map(i => (
+                <div key={i} className="h-12 bg-slate-900/50 rounded animate-pulse shimmer" />
+              ))}
+            </div>
+          ) : (
+            <div className="overflow-x-auto rounded-lg border border-slate-700/50">
+              <table className="w-full">
+                <thead>
+                  <tr className="bg-gradient-to-r from-slate-900/80 to-slate-800/80 border-b border-slate-700/50">
+                    <th className="p-4 w-10">
+                      <input type="checkbox" checked={allOnPageSelected} onChange={toggleAllOnPage} aria-label="Select all on page" />
+                    </th>
+                    <th className="text-left p-4 text-slate-300 font-semibold">Name</th>
+                    <th className="text-left p-4 text-slate-300 font-semibold">Status</th>
+                    <th className="text-left p-4 text-slate-300 font-semibold">Agent</th>
+                    {sortableHeader('progress', 'Progress')}
+                    {sortableHeader('cost', 'Cost')}
+                    {sortableHeader('duration', 'Duration')}
+                    {sortableHeader('createdAt', 'Created')}
+                  </tr>
+                </thead>
+                <tbody>
+                  {orchestrations.length === 0 ? (
+                    <tr>
+                      <td colSpan={8} className="p-8 text-center text-slate-400">No orchestrations match these filters.</td>
+                    </tr>
+                  ) : orchestrations.map(orchestration => (
+                    <tr key={orchestration.id} className="border-b border-slate-800/50 hover:bg-slate-900/30 transition-colors">
+                      <td className="p-4">
+                        <input
+                          type="checkbox"
+                          checked={selected.has(orchestration.id)}
+                          onChange={() => toggleSelected(orchestration.id)}
+                          aria-label={`Select ${orchestration.name}`}
+                        />
+                      </td>
+                      <td className="p-4">
+                        <Link href={`/orchestrations/${orchestration.id}`} className="font-medium text-white hover:text-blue-300">
+                          {orchestration.name}
+                        </Link>
+                        <div className="text-xs text-slate-500 font-mono">{orchestration.id}</div>
+                      </td>
+                      <td className="p-4"><OrchestrationStatusBadge status={orchestration.status} /></td>
+                      <td className="p-4 text-slate-300">{orchestration.agentName}</td>
+                      <td className="p-4">
+                        <div className="flex items-center gap-2">
+                          <div className="w-24 h-2 bg-slate-900/70 rounded-full overflow-hidden">
+                            <div className="h-full bg-gradient-to-r from-blue-500 to-purple-500" style={{ width: `${orchestration.progress}%` }} />
+                          </div>
+                          <span className="text-xs text-slate-400">{orchestration.progress}%</span>
+                        </div>
+                      </td>
+                      <td className="p-4 text-slate-300">{formatCost(orchestration.metrics.cost)}</td>
+                      <td className="p-4 text-slate-300">{formatDuration(orchestration.metrics.duration)}</td>
+                      <td className="p-4 text-slate-400 text-sm">{formatDateTime(orchestration.createdAt)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {/* Pagination */}
+          <div className="flex items-center justify-between mt-4">
+            <label className="flex items-center gap-2 text-sm text-slate-400">
+              Rows per page
+              <select value={limit} onChange={e => setLimit(Number(e.target.value))} className={inputClass}>
+                {PAGE_SIZES.map(size => <option key={size} value={size}>{size}</option>)}
+              </select>
+            </label>
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => setOffset(Math.max(0, offset - limit))}
+                disabled={offset === 0}
+                className="p-2 rounded-lg border border-slate-700/60 bg-slate-800/70 text-slate-300 disabled:opacity-40 disabled:cursor-not-allowed"
+                aria-label="Previous page"
+              >
+                <ChevronLeft className="h-4 w-4" />
+              </button>
+              <span className="text-sm text-slate-400">Page {Math.floor(offset / limit) + 1}</span>
+              <button
+                onClick={() => setOffset(offset + limit)}
+                disabled={!pagination?.hasMore}
+                className="p-2 rounded-lg border border-slate-700/60 bg-slate-800/70 text-slate-300 disabled:opacity-40 disabled:cursor-not-allowed"
+                aria-label="Next page"
+              >
+                <ChevronRight className="h-4 w-4" />
+              </button>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+    </DashboardShell>
+  );
+}
@@ -0,0 +1,133 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { DashboardShell } from '@/components/layout/DashboardShell';
+import { OrchestrationStatusBadge } from '@/components/orchestrations/OrchestrationStatusBadge';
+import { ReplayViewer } from '@/components/orchestrations/ReplayViewer';
+import { parseOrchestrationBundle, type BundleImport } from '@/lib/orchestrations/bundle';
+import { cn } from '@/lib/utils/cn';
+import { formatCost, formatDateTime, formatDuration } from '@/lib/utils/format';
+import { AlertTriangle, ArrowLeft, FileUp, History, XCircle } from 'lucide-react';
+
+// Force dynamic rendering - this page uses client-side hooks and cannot be statically generated
+export const dynamic = 'force-dynamic';
+
+export default function OrchestrationReplayPage() {
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [result, setResult] = useState<BundleImport | null>(null);
+  const [dragging, setDragging] = useState(false);
+
+  const load = async (file: File) => {
+    setFileName(file.name);
+    setResult(parseOrchestrationBundle(await file.text()));
+  };
+
+  const bundle = result?.bundle;
+  const orchestration = bundle?.orchestration;
+
+  const backLink = (
+    <Link
+      href="/orchestrations"
+      className="px-4 py-2 rounded-xl border-2 bg-slate-800/70 border-slate-600/50 text-slate-300 hover:border-slate-500 font-semibold text-sm flex items-center gap-2"
+    >
+      <ArrowLeft className="h-4 w-4" />
+      All runs
+    </Link>
+  );
+
+  return (
+    <DashboardShell
+      title="Replay"
+      description="Open an exported orchestration bundle and step through it offline"
+      icon={<History className="h-7 w-7 text-blue-300" />}
+      actions={backLink}
+    >
+      <label
+        onDragOver={event => {
+          event.preventDefault();
+          setDragging(true);
+        }}
+        onDragLeave={() => setDragging(false)}
+        onDrop={event => {
+          event.preventDefault();
+          setDragging(false);
+          const file = event.dataTransfer.files[0];
+          if (file) load(file);
+        }}
+        className={cn(
+          'mb-6 p-8 rounded-xl border-2 border-dashed flex flex-col items-center justify-center gap-2 cursor-pointer transition-all',
+          dragging ? 'border-blue-400/70 bg-blue-500/10' : 'border-slate-600/60 hover:border-blue-500/60'
+        )}
+      >
+        <FileUp className="h-8 w-8 text-slate-400" />
+        <span className="text-slate-200 font-semibold">{fileName ?? 'Drop a bundle here or click to choose a file'}</span>
+        <span className="text-xs text-slate-500">JSON export from an orchestration&apos;s &quot;Export bundle&quot; action</span>
+        <input
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={event => {
+            const file = event.target.files?.[0];
+            if (file) load(file);
+            event.target.value = '';
+          }}
+        />
+      </label>
+
+      {result && result.issues.length > 0 && (
+        <div
+          className={cn(
+            'mb-6 p-6 rounded-xl flex items-start gap-4 border',
+            bundle
+              ? 'bg-gradient-to-r from-amber-500/20 to-amber-500/10 border-amber-500/30'
+              : 'bg-gradient-to-r from-red-500/20 to-red-500/10 border-red-500/30'
+          )}
+        >
+          {bundle ? <AlertTriangle className="h-5 w-5 text-amber-400 mt-1" /> : <XCircle className="h-5 w-5 text-red-400 mt-1" />}
+          <div className="min-w-0">
+            <h4 className="text-lg font-semibold text-white">
+              {bundle ? 'Bundle imported with problems - invalid events were left out' : 'This file is not a valid orchestration bundle'}
+            </h4>
+            <ul className="mt-2 space-y-1 text-sm max-h-48 overflow-y-auto">
+              {result.issues.map((issue, idx) => (
+                <li key={idx} className="flex gap-2">
+                  <span className="font-mono text-xs text-slate-400 mt-0.5 shrink-0">{issue.path}</span>
+                  <span className={issue.severity === 'error' ? 'text-red-200' : 'text-amber-200'}>{issue.message}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        </div>
+      )}
+
+      {bundle && orchestration && (
+        <Card className="glass-effect border-slate-700/50 shadow-xl fade-in">
+          <CardHeader>
+            <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+              <div>
+                <div className="flex items-center gap-3">
+                  <CardTitle className="text-xl font-bold">{orchestration.name}</CardTitle>
+                  <OrchestrationStatusBadge status={orchestration.status} />
+                </div>
+                <CardDescription className="text-slate-300 mt-1">
+                  {orchestration.agentName} · {formatDuration(orchestration.metrics.duration)} · {formatCost(orchestration.metrics.cost)} ·{' '}
+                  {bundle.events.length} events
+                </CardDescription>
+              </div>
+              <div className="text-xs text-slate-400 text-right">
+                <div className="font-mono">{orchestration.id}</div>
+                <div>Export {bundle.exportId} · schema v{bundle.schemaVersion}</div>
+                <div>Generated {formatDateTime(bundle.generatedAt)}</div>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <ReplayViewer bundle={bundle} />
+          </CardContent>
+        </Card>
+      )}
+    </DashboardShell>
+  );
+}
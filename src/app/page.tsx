@@ -6,7 +6,30 @@ import { useState, useEffect, useCallback, useMemo } from 'react';
 export const dynamic = 'force-dynamic';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { ultraSecureApiClient, useOverview, useAgents, useOrchestrations, usePlugins } from '@/lib/api/client';
+import { ContractDriftPanel } from '@/components/diagnostics/ContractDriftPanel';
+import { UptimePanel } from '@/components/diagnostics/UptimePanel';
+import { AlertsPanel } from '@/components/diagnostics/AlertsPanel';
+import { LatencyPanel, LatencySparkline } from '@/components/diagnostics/LatencyCharts';
+import { MetricsExplorer } from '@/components/diagnostics/MetricsExplorer';
+import { DashboardNav } from '@/components/layout/DashboardShell';
+import {
+  connectionErrorProblem,
+  deriveGlobalStatus,
+  healthCheckStatus,
+  readyCheckStatus,
+  type CheckStatus,
+  type EndpointCheck,
+  type PluginStatus,
+  type Problem,
+  type Severity,
+  type SystemStatus,
+} from '@/lib/diagnostics/problems';
+import { diagnosticRules } from '@/lib/diagnostics/rules';
+import { healthHistory, toHealthSample } from '@/lib/diagnostics/history';
+import { alertManager } from '@/lib/diagnostics/alerts';
+import { LATENCY_WINDOW_MS, latencySeries } from '@/lib/diagnostics/latency';
+import { useHealthHistory } from '@/lib/diagnostics/useHealthHistory';
+import { ultraSecureApiClient, useCircuitBreakers, useOverview, useAgents, useOrchestrations, usePlugins } from '@/lib/api/client';
 import { 
   AlertCircle, CheckCircle2, XCircle, Clock, Database, Plug, Activity, Server, Settings, 
   AlertTriangle, Sparkles, TrendingUp, Zap, Shield, Brain, Cpu, HardDrive, Network, 
@@ -15,40 +38,6 @@ import {
 } from 'lucide-react';
 
 // Types
-type SystemStatus = 'operational' | 'degraded' | 'critical' | 'down';
-type CheckStatus = 'success' | 'warning' | 'error' | 'loading';
-type Severity = 'critical' | 'warning' | 'info' | 'success';
-
-interface EndpointCheck {
-  name: string;
-  path: string;
-  status: CheckStatus;
-  latency?: number;
-  error?: string;
-  lastChecked?: Date;
-}
-
-interface PluginStatus {
-  name: string;
-  id?: string;
-  available: boolean;
-  status?: 'healthy' | 'degraded' | 'critical' | 'loading';
-  error?: string;
-  details?: any;
-}
-
-interface Problem {
-  id: string;
-  severity: Severity;
-  title: string;
-  description: string;
-  component: string;
-  detectedAt: Date;
-  solution: string;
-  steps: string[];
-  related?: string[];
-}
-
 interface SystemDiagnostics {
   globalStatus: SystemStatus;
   healthStatus: CheckStatus;
@@ -89,12 +78,15 @@ export default function HomePage() {
   const [lastChecked, setLastChecked] = useState<Date | null>(null);
   const [refreshKey, setRefreshKey] = useState(0);
   const [autoRefresh, setAutoRefresh] = useState(true);
+  const latencyHistory = useHealthHistory(60 * 60 * 1000);
 
   // React Query hooks
   const { data: overview, isLoading: overviewLoading } = useOverview();
   const { data: agentsData, isLoading: agentsLoading } = useAgents({ limit: 10 });
   const { data: orchestrationsData, isLoading: orchestrationsLoading } = useOrchestrations({ limit: 10 });
   const { data: pluginsData, isLoading: pluginsLoading } = usePlugins();
+  const circuits = useCircuitBreakers();
+  const trippedCircuits = circuits.filter(circuit => circuit.state !== 'closed');
 
   const checkEndpoint = async (name: string, path: string): Promise<EndpointCheck> => {
     const startTime = Date.now();
@@ -133,229 +125,10 @@ export default function HomePage() {
     }
   };
 
-  const detectProblems = (healthData: any, readyData: any, plugins: PluginStatus[], endpoints: EndpointCheck[]): Problem[] => {
-    const problems: Problem[] = [];
-
-    // Health check failures
-    if (!healthData || healthData.status !== 'healthy') {
-      problems.push({
-        id: 'health-failure',
-        severity: 'critical',
-        title: 'Health Check Failed',
-        description: 'The system health endpoint is not responding correctly. This indicates core system issues.',
-        component: 'Core System',
-        detectedAt: new Date(),
-        solution: 'Restart the API service and check system logs for errors.',
-        steps: [
-          'Check Railway logs for the API service',
-          'Verify database connectivity',
-          'Check Redis connection status',
-          'Restart the API service if needed',
-          'Monitor health endpoint for recovery'
-        ],
-      });
-    }
-
-    // Readiness check failures
-    // Check if readyData exists and what status it indicates
-    const isReady = readyData?.ready === true || readyData?.status === 'ready';
-    const isNotReady = readyData?.ready === false || readyData?.status === 'not_ready';
-    
-    if (!isReady) {
-      // If we have explicit not_ready status, it's a warning (system starting up)
-      // If readyData is missing or error, it's critical
-      const severity = isNotReady ? 'warning' : 'critical';
-      problems.push({
-        id: 'readiness-failure',
-        severity,
-        title: 'System Not Ready',
-        description: isNotReady 
-          ? 'The system readiness check indicates dependencies are initializing. This is normal during startup.'
-          : 'The system readiness check indicates dependencies are not fully initialized or the check failed.',
-        component: 'System Initialization',
-        detectedAt: new Date(),
-        solution: isNotReady
-          ? 'Wait for dependencies to finish initializing. This usually takes 1-2 minutes after deployment.'
-          : 'Wait for dependencies to initialize or check dependency health.',
-        steps: isNotReady ? [
-          'Wait 1-2 minutes for initialization to complete',
-          'Monitor readiness endpoint: GET /ready',
-          'Check Railway logs for initialization progress',
-          'Verify database connection is established',
-          'Ensure all plugins are loaded successfully'
-        ] : [
-          'Check database migration status',
-          'Verify all required plugins are loaded',
-          'Check external service connectivity',
-          'Review initialization logs',
-          'Wait for automatic recovery (usually 1-2 minutes)'
-        ],
-      });
-    }
-
-    // Database connectivity issues
-    if (healthData?.checks?.database === false) {
-      problems.push({
-        id: 'database-connection',
-        severity: 'critical',
-        title: 'Database Connection Failed',
-        description: 'The system cannot connect to the PostgreSQL database.',
-        component: 'Database',
-        detectedAt: new Date(),
-        solution: 'Check database service status and connection string.',
-        steps: [
-          'Verify PostgreSQL service is running in Railway',
-          'Check DATABASE_URL environment variable',
-          'Verify database credentials are correct',
-          'Check network connectivity between services',
-          'Review database service logs'
-        ],
-        related: ['readiness-failure'],
-      });
-    }
-
-    // Redis connectivity issues
-    if (healthData?.checks?.redis === false) {
-      problems.push({
-        id: 'redis-connection',
-        severity: 'warning',
-        title: 'Redis Cache Unavailable',
-        description: 'The system cannot connect to Redis cache. Performance may be degraded.',
-        component: 'Cache',
-        detectedAt: new Date(),
-        solution: 'Check Redis service status. System will work without cache but with reduced performance.',
-        steps: [
-          'Verify Redis service is running in Railway',
-          'Check REDIS_URL environment variable',
-          'Verify Redis credentials',
-          'System will continue operating without cache',
-          'Check Redis service logs for details'
-        ],
-      });
-    }
-
-    // Missing critical plugins
-    // Check for plugins with flexible matching (store-postgres, supervisor-postgres, memory-stm-db, etc.)
-    const criticalPlugins = [
-      { name: 'store', patterns: ['store', 'store-postgres', 'database-postgres'] },
-      { name: 'supervisor', patterns: ['supervisor', 'supervisor-postgres'] },
-      { name: 'memory', patterns: ['memory', 'memory-stm', 'memory-stm-db'] }
-    ];
-    
-    const missingPlugins: string[] = [];
-    const foundPluginNames = plugins.map(p => (p.name || p.id || '').toLowerCase());
-    
-    criticalPlugins.forEach(({ name, patterns }) => {
-      const found = patterns.some(pattern => 
-        foundPluginNames.some(foundName => 
-          foundName.includes(pattern.toLowerCase())
-        )
-      );
-      if (!found) {
-        missingPlugins.push(name);
-      }
-    });
-
-    if (missingPlugins.length > 0 && plugins.length > 0) {
-      // Only report as critical if we successfully fetched plugins but some are missing
-      problems.push({
-        id: 'missing-plugins',
-        severity: 'critical',
-        title: `Missing Critical Plugins: ${missingPlugins.join(', ')}`,
-        description: `Required plugins are not available: ${missingPlugins.join(', ')}. Core functionality may be impaired.`,
-        component: 'Plugins',
-        detectedAt: new Date(),
-        solution: 'Ensure all required plugins are properly installed and initialized.',
-        steps: [
-          'Check plugin installation in package.json',
-          'Verify plugins are loaded during startup',
-          'Check plugin initialization logs',
-          'Restart API service to reload plugins',
-          'Verify plugin configuration is correct',
-          `Available plugins: ${foundPluginNames.join(', ') || 'None detected'}`
-        ],
-      });
-    } else if (missingPlugins.length > 0 && plugins.length === 0) {
-      // If we couldn't fetch plugins at all, it might be a different issue
-      // Don't add this as a separate problem since it's likely covered by readiness check
-    }
-
-    // Endpoint failures
-    const failedEndpoints = endpoints.filter(e => e.status === 'error');
-    if (failedEndpoints.length > 0) {
-      problems.push({
-        id: 'endpoint-failures',
-        severity: failedEndpoints.length === endpoints.length ? 'critical' : 'warning',
-        title: `${failedEndpoints.length} Endpoint(s) Unreachable`,
-        description: `The following endpoints are not responding: ${failedEndpoints.map(e => e.name).join(', ')}`,
-        component: 'API Surface',
-        detectedAt: new Date(),
-        solution: 'Check endpoint implementation and server logs for errors.',
-        steps: [
-          'Review API server logs for errors',
-          'Check endpoint route definitions',
-          'Verify middleware configuration',
-          'Test endpoints individually',
-          'Check for CORS or network issues'
-        ],
-      });
-    }
-
-    // High latency warnings - Only warn if latency is unusually high (>3000ms) 
-    // or if there's significant variance between endpoints (indicates API issue, not network)
-    const LATENCY_THRESHOLD = 3000; // 3 seconds - more reasonable for health checks
-    const LATENCY_VARIANCE_THRESHOLD = 500; // If endpoints vary by >500ms, may indicate API issues
-    
-    const slowEndpoints = endpoints.filter(e => e.latency && e.latency > LATENCY_THRESHOLD);
-    const allLatencies = endpoints.filter(e => e.latency && e.status === 'success').map(e => e.latency!);
-    
-    // Calculate variance to detect if it's network latency (all endpoints slow) vs API issues (variable latency)
-    let hasHighVariance = false;
-    if (allLatencies.length > 1) {
-      const avgLatency = allLatencies.reduce((a, b) => a + b, 0) / allLatencies.length;
-      const variance = allLatencies.reduce((sum, lat) => sum + Math.pow(lat - avgLatency, 2), 0) / allLatencies.length;
-      const stdDev = Math.sqrt(variance);
-      hasHighVariance = stdDev > LATENCY_VARIANCE_THRESHOLD;
-    }
-    
-    // Only show warning if:
-    // 1. Some endpoints exceed threshold AND there's high variance (API issue), OR
-    // 2. All endpoints exceed threshold significantly (>5000ms - definitely a problem)
-    const maxLatency = allLatencies.length > 0 ? Math.max(...allLatencies) : 0;
-    const shouldWarn = (slowEndpoints.length > 0 && hasHighVariance) || maxLatency > 5000;
-    
-    if (shouldWarn && slowEndpoints.length > 0) {
-      problems.push({
-        id: 'high-latency',
-        severity: maxLatency > 5000 ? 'critical' : 'warning',
-        title: hasHighVariance 
-          ? 'Inconsistent API Response Latency' 
-          : 'High API Response Latency',
-        description: hasHighVariance
-          ? `Endpoint response times vary significantly, indicating potential API performance issues: ${slowEndpoints.map(e => `${e.name} (${e.latency}ms)`).join(', ')}`
-          : `All endpoints are responding slowly (${Math.round(maxLatency)}ms average), likely due to network latency or system load: ${slowEndpoints.map(e => `${e.name} (${e.latency}ms)`).join(', ')}`,
-        component: 'Performance',
-        detectedAt: new Date(),
-        solution: hasHighVariance
-          ? 'Investigate specific slow endpoints for bottlenecks (database queries, external API calls, etc.)'
-          : 'Check network connectivity, system resources, or consider if this is expected latency for your deployment region.',
-        steps: hasHighVariance ? [
-          'Review logs for the slowest endpoints',
-          'Check database query performance for those endpoints',
-          'Review endpoint implementation for bottlenecks',
-          'Check system resource usage (CPU, Memory)',
-          'Consider adding caching for frequently accessed data'
-        ] : [
-          'Verify network connectivity between dashboard and API',
-          'Check if this latency is expected for your deployment region',
-          'Monitor system resource usage (CPU, Memory)',
-          'Check Railway deployment logs for performance issues',
-          'Consider geographic proximity of services'
-        ],
-      });
-    }
-
-    return problems;
+  // Every run goes into the persisted history behind the uptime panel, and past the alert manager
+  const recordRun = (run: Parameters<typeof toHealthSample>[0]) => {
+    healthHistory.record(toHealthSample(run)).catch(error => console.error('Failed to record health history:', error));
+    alertManager.process(run);
   };
 
   const fetchDiagnostics = useCallback(async () => {
@@ -374,9 +147,7 @@ export default function HomePage() {
 
       // 1. Process health check result
       const healthData = healthResult.status === 'fulfilled' ? healthResult.value : null;
-      const healthStatus: CheckStatus = 
-        healthData?.status === 'healthy' ? 'success' :
-        healthData?.status === 'unhealthy' ? 'error' : 'error';
+      const healthStatus = healthCheckStatus(healthData);
 
       if (healthStatus === 'error') {
         insights.push('Health endpoint is failing. The system may be down or unreachable.');
@@ -386,9 +157,7 @@ export default function HomePage() {
 
       // 2. Process ready check result
       const readyData = readyResult.status === 'fulfilled' ? readyResult.value : null;
-      const readyStatus: CheckStatus = 
-        readyData?.status === 'ready' ? 'success' :
-        readyData?.status === 'not_ready' ? 'warning' : 'error';
+      const readyStatus = readyCheckStatus(readyData);
 
       if (readyStatus === 'error') {
         insights.push('Ready endpoint is unreachable. Cannot determine if system is ready.');
@@ -398,17 +167,7 @@ export default function HomePage() {
         insights.push('System is ready and accepting requests.');
       }
 
-      // 3. Determine global status
-      let globalStatus: SystemStatus = 'down';
-      if (healthStatus === 'error') {
-        globalStatus = 'down';
-      } else if (readyStatus === 'error' || readyStatus === 'warning') {
-        globalStatus = 'degraded';
-      } else {
-        globalStatus = 'operational';
-      }
-
-      // 4. Process plugins result
+      // 3. Process plugins result
       const pluginStatuses: PluginStatus[] = [];
       const pluginsData = pluginsResult.status === 'fulfilled' ? pluginsResult.value : null;
       if (pluginsData?.status === 'available' && pluginsData.plugins) {
@@ -424,11 +183,11 @@ export default function HomePage() {
         insights.push('Unable to check plugin status. Plugin endpoint may be unavailable.');
       }
 
-      // 5. Process metrics result
+      // 4. Process metrics result
       const metricsData = metricsResult.status === 'fulfilled' ? metricsResult.value : null;
       const metricsAvailable = metricsData?.status === 'available' || false;
 
-      // 6. Check additional endpoints in parallel (already fetched health/ready above)
+      // 5. Check additional endpoints in parallel (already fetched health/ready above)
       const endpointsToCheck: { name: string; path: string }[] = [
         { name: 'Root', path: '/' },
         { name: 'Health', path: '/health' },
@@ -444,16 +203,20 @@ export default function HomePage() {
         endpointsToCheck.map(ep => checkEndpoint(ep.name, ep.path))
       );
 
-      // 7. Detect problems
-      const detectedProblems = detectProblems(
-        healthData?.data,
-        readyData?.data,
-        pluginStatuses,
-        endpointChecks
-      );
+      // 6. Detect problems, then derive the global status from them
+      const history = await healthHistory.since(Date.now() - LATENCY_WINDOW_MS).catch(() => []);
+      const detectedProblems = diagnosticRules.run({
+        health: { status: healthStatus, latency: healthData?.latency, data: healthData?.data },
+        ready: { status: readyStatus, latency: readyData?.latency, data: readyData?.data },
+        plugins: pluginStatuses,
+        endpoints: endpointChecks,
+        metrics: { available: metricsAvailable, latency: (metricsData as { latency?: number } | null)?.latency },
+        history,
+      });
       problems.push(...detectedProblems);
+      const globalStatus = deriveGlobalStatus(healthStatus, readyStatus, problems);
 
-      // 8. Extract additional info
+      // 7. Extract additional info
       const uptime = healthData?.data?.uptime;
       const version = healthData?.data?.version;
 
@@ -472,30 +235,18 @@ export default function HomePage() {
         version,
       });
 
+      recordRun({ globalStatus, healthStatus, readyStatus, endpoints: endpointChecks, problems });
       setLastChecked(new Date());
     } catch (error) {
+      const problem = connectionErrorProblem();
       setDiagnostics((prev: SystemDiagnostics) => ({
         ...prev,
         globalStatus: 'down',
         healthStatus: 'error',
         readyStatus: 'error',
-        problems: [{
-          id: 'connection-error',
-          severity: 'critical',
-          title: 'Connection Error',
-          description: 'Failed to connect to the API. Check network connectivity and API base URL configuration.',
-          component: 'Network',
-          detectedAt: new Date(),
-          solution: 'Verify API base URL is correct and service is running.',
-          steps: [
-            'Check NEXT_PUBLIC_API_BASE_URL environment variable',
-            'Verify API service is deployed and running',
-            'Check network connectivity',
-            'Review API service logs in Railway',
-            'Test API endpoint directly in browser'
-          ],
-        }],
+        problems: [problem],
       }));
+      recordRun({ globalStatus: 'down', healthStatus: 'error', readyStatus: 'error', endpoints: [], problems: [problem] });
     } finally {
       setLoading(false);
     }
@@ -636,6 +387,8 @@ export default function HomePage() {
       </div>
 
       <div className="container mx-auto px-4 py-8 max-w-7xl relative z-10">
+        <DashboardNav />
+
         {/* Header */}
         <div className="mb-8 fade-in">
           <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-6 mb-6">
@@ -830,7 +583,7 @@ export default function HomePage() {
                 <div>
                   <CardTitle className="text-2xl font-bold">Intelligent Problem Detection</CardTitle>
                   <CardDescription className="text-slate-300">
-                    {diagnostics.problems.length} {diagnostics.problems.length === 1 ? 'issue' : 'issues'} detected with solutions
+                    {diagnostics.problems.length} {diagnostics.problems.length === 1 ? 'issue' : 'issues'} detected with solutions ({diagnosticRules.list().length} rules checked)
                   </CardDescription>
                 </div>
               </div>
@@ -884,6 +637,21 @@ export default function HomePage() {
           </Card>
         )}
 
+        {/* Alerts raised by the runs above */}
+        <AlertsPanel />
+
+        {/* Uptime against the SLO, from the recorded history */}
+        <UptimePanel />
+
+        {/* Endpoint latency percentiles over time */}
+        <LatencyPanel />
+
+        {/* What the backend exposes on /metrics */}
+        <MetricsExplorer />
+
+        {/* Contract Drift - responses that no longer match our schemas */}
+        <ContractDriftPanel />
+
         {/* System Components Grid */}
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-6">
           {/* Core Runtime Health */}
@@ -1093,6 +861,7 @@ export default function HomePage() {
                         <th className="text-left p-4 text-slate-300 font-semibold">Path</th>
                         <th className="text-left p-4 text-slate-300 font-semibold">Status</th>
                         <th className="text-left p-4 text-slate-300 font-semibold">Latency</th>
+                        <th className="text-left p-4 text-slate-300 font-semibold">Trend (1h)</th>
                       </tr>
                     </thead>
                     <tbody>
@@ -1114,12 +883,45 @@ export default function HomePage() {
                               </span>
                             ) : '—'}
                           </td>
+                          <td className="p-4">
+                            <LatencySparkline points={latencySeries(latencyHistory, endpoint.path)} />
+                          </td>
                         </tr>
                       ))}
                     </tbody>
                   </table>
                 </div>
               )}
+
+              {/* Circuit breakers - client-side view of endpoints that keep failing */}
+              <div className="mt-4">
+                <div className="text-sm font-semibold text-slate-300 mb-2">Circuit Breakers</div>
+                {trippedCircuits.length === 0 ? (
+                  <p className="text-sm text-slate-400">
+                    {circuits.length === 0 ? 'No API calls made yet.' : `All ${circuits.length} circuits closed.`}
+                  </p>
+                ) : (
+                  <div className="space-y-2">
+                    {trippedCircuits.map(circuit => (
+                      <div key={circuit.endpoint} className="p-3 rounded-lg border border-red-500/30 bg-red-500/10 flex items-center justify-between gap-3">
+                        <div className="min-w-0">
+                          <div className="font-mono text-sm text-slate-200 truncate">{circuit.endpoint}</div>
+                          <div className="text-xs text-slate-400">
+                            {circuit.consecutiveFailures} consecutive failures
+                            {circuit.lastError && ` · ${circuit.lastError}`}
+                            {circuit.retryAt && ` · next attempt ${new Date(circuit.retryAt).toLocaleTimeString()}`}
+                          </div>
+                        </div>
+                        {circuit.state === 'open' ? (
+                          <Badge variant="error">Open</Badge>
+                        ) : (
+                          <Badge variant="warning">Half-open</Badge>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
             </CardContent>
           </Card>
         </div>
@@ -0,0 +1,347 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { DashboardShell } from '@/components/layout/DashboardShell';
+import { PolicyStatusBadge } from '@/components/policies/PolicyStatusBadge';
+import { formatConditionValue } from '@/components/policies/RuleBuilder';
+import { usePolicy, usePolicyVersions } from '@/lib/api/client';
+import { describeApiError } from '@/lib/api/errors';
+import { diffPolicies, type ConditionChange, type RuleChange } from '@/lib/policies/diff';
+import type { PolicyCondition, PolicyRule, PolicyVersion } from '@/lib/schemas/api';
+import { cn } from '@/lib/utils/cn';
+import { formatDateTime, formatDuration, formatNumber, formatPercent } from '@/lib/utils/format';
+import { ArrowLeft, GitCompare, History, TrendingDown, TrendingUp, XCircle } from 'lucide-react';
+
+// Force dynamic rendering - this page uses client-side hooks and cannot be statically generated
+export const dynamic = 'force-dynamic';
+
+const selectClass = 'px-3 py-2 bg-slate-900/70 border border-slate-700/60 rounded-lg text-sm text-slate-200 focus:outline-none focus:border-blue-500/60';
+
+const describeCondition = (condition: PolicyCondition) =>
+  `${condition.field} ${condition.operator} ${formatConditionValue(condition.value)}`;
+
+// Signed percentage-point change; `higherIsWorse` picks the colour
+function RateDelta({ from, to, higherIsWorse }: { from: number; to: number; higherIsWorse: boolean }) {
+  const points = (to - from) * 100;
+  if (Math.abs(points) < 0.05) return <span className="text-sm text-slate-400">no change</span>;
+
+  const worse = higherIsWorse ? points > 0 : points < 0;
+  const Icon = points > 0 ? TrendingUp : TrendingDown;
+  return (
+    <span className={cn('text-sm font-semibold flex items-center gap-1', worse ? 'text-red-300' : 'text-emerald-300')}>
+      <Icon className="h-4 w-4" />
+      {points > 0 ? '+' : ''}{points.toFixed(1)} pp
+    </span>
+  );
+}
+
+function RuleSummary({ rule, tone }: { rule: PolicyRule; tone?: 'added' | 'removed' }) {
+  return (
+    <div
+      className={cn(
+        'p-3 rounded-lg border text-sm',
+        tone === 'added' && 'bg-emerald-500/10 border-emerald-500/30',
+        tone === 'removed' && 'bg-red-500/10 border-red-500/30 line-through decoration-red-400/60',
+        !tone && 'bg-slate-950/50 border-slate-700/50'
+      )}
+    >
+      <div className="flex items-center gap-2 mb-1">
+        <span className="font-semibold text-white">{rule.name}</span>
+        <Badge variant="outline" className="text-xs">{rule.action.toUpperCase()}</Badge>
+        <span className="text-xs text-slate-400">priority {rule.priority}</span>
+        {!rule.enabled && <span className="text-xs text-slate-500">disabled</span>}
+      </div>
+      <ul className="text-xs font-mono text-slate-300 space-y-0.5">
+        {rule.conditions.map((condition, idx) => <li key={idx}>{describeCondition(condition)}</li>)}
+      </ul>
+    </div>
+  );
+}
+
+function ConditionChanges({ changes }: { changes: ConditionChange[] }) {
+  return (
+    <ul className="text-xs font-mono space-y-0.5">
+      {changes.map((change, idx) => (
+        <li key={idx}>
+          {change.kind === 'added' && <span className="text-emerald-300">+ {describeCondition(change.condition)}</span>}
+          {change.kind === 'removed' && <span className="text-red-300">- {describeCondition(change.condition)}</span>}
+          {change.kind === 'changed' && (
+            <span className="text-amber-300">
+              ~ {change.to.field} {change.to.operator} {formatConditionValue(change.from.value)} → {formatConditionValue(change.to.value)}
+            </span>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+function RuleChangeRow({ change }: { change: RuleChange }) {
+  if (change.kind === 'added') {
+    return (
+      <div className="grid grid-cols-2 gap-4">
+        <div className="p-3 rounded-lg border border-dashed border-slate-700/50 text-xs text-slate-500 flex items-center">Not present</div>
+        <RuleSummary rule={change.rule} tone="added" />
+      </div>
+    );
+  }
+  if (change.kind === 'removed') {
+    return (
+      <div className="grid grid-cols-2 gap-4">
+        <RuleSummary rule={change.rule} tone="removed" />
+        <div className="p-3 rounded-lg border border-dashed border-slate-700/50 text-xs text-slate-500 flex items-center">Removed</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-2 gap-4">
+        <RuleSummary rule={change.from} />
+        <RuleSummary rule={change.to} />
+      </div>
+      <div className="ml-2 pl-3 border-l-2 border-amber-500/40 space-y-1">
+        {change.moved && (
+          <div className="text-xs text-blue-300">
+            Reordered: position {change.fromPosition + 1} → {change.toPosition + 1}
+          </div>
+        )}
+        {change.fields.map(field => (
+          <div key={field.field} className="text-xs text-amber-200">
+            {field.field}: <span className="font-mono">{formatConditionValue(field.from)}</span> →{' '}
+            <span className="font-mono">{formatConditionValue(field.to)}</span>
+          </div>
+        ))}
+        {change.conditions.length > 0 && <ConditionChanges changes={change.conditions} />}
+      </div>
+    </div>
+  );
+}
+
+export default function PolicyHistoryPage({ params }: { params: { id: string } }) {
+  const { data: policyData } = usePolicy(params.id);
+  const { data, isLoading, error } = usePolicyVersions(params.id);
+  const policy = policyData?.data;
+
+  // Newest first; the live policy is included even if the history endpoint lags behind
+  const versions = useMemo(() => {
+    const list: PolicyVersion[] = [...(data?.data.versions ?? [])];
+    if (policy && !list.some(version => version.version === policy.version)) list.push(policy);
+    return list.sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime());
+  }, [data, policy]);
+
+  const [baseVersion, setBaseVersion] = useState('');
+  const [compareVersion, setCompareVersion] = useState('');
+
+  // Default to the most recent edit: previous version against the latest
+  useEffect(() => {
+    if (versions.length === 0) return;
+    if (!compareVersion) setCompareVersion(versions[0].version);
+    if (!baseVersion) setBaseVersion(versions[Math.min(1, versions.length - 1)].version);
+  }, [versions, baseVersion, compareVersion]);
+
+  const base = versions.find(version => version.version === baseVersion);
+  const compare = versions.find(version => version.version === compareVersion);
+  const diff = useMemo(() => (base && compare ? diffPolicies(base, compare) : null), [base, compare]);
+
+  const backLink = (
+    <Link
+      href={`/policies/${params.id}`}
+      className="px-4 py-2 rounded-xl border-2 bg-slate-800/70 border-slate-600/50 text-slate-300 hover:border-slate-500 font-semibold text-sm flex items-center gap-2"
+    >
+      <ArrowLeft className="h-4 w-4" />
+      Back to policy
+    </Link>
+  );
+
+  return (
+    <DashboardShell
+      title={policy ? `${policy.name} · History` : 'Policy History'}
+      description="Every saved revision, with rule changes and their effect on decisions"
+      icon={<History className="h-7 w-7 text-emerald-300" />}
+      actions={backLink}
+    >
+      {error ? (
+        <div className="p-6 bg-gradient-to-r from-red-500/20 to-red-500/10 border border-red-500/30 rounded-xl flex items-start gap-4">
+          <XCircle className="h-5 w-5 text-red-400 mt-1" />
+          <div>
+            <h4 className="text-lg font-semibold text-white">Unable to load version history</h4>
+            <p className="text-sm text-slate-300">{describeApiError(error)}</p>
+          </div>
+        </div>
+      ) : isLoading ? (
+        <div className="space-y-4">
+          {[1, 2].map(i => (
+            <div key={i} className="h-40 bg-slate-900/50 rounded-xl animate-pulse shimmer" />
+          ))}
+        </div>
+      ) : (
+        <>
+          <Card className="glass-effect border-slate-700/50 shadow-xl mb-6 fade-in">
+            <CardHeader>
+              <div className="flex items-center gap-3">
+                <div className="p-2 bg-gradient-to-br from-emerald-500/20 to-teal-500/20 rounded-lg border border-emerald-500/30">
+                  <History className="h-5 w-5 text-emerald-400" />
+                </div>
+                <div>
+                  <CardTitle className="text-xl font-bold">Versions</CardTitle>
+                  <CardDescription className="text-slate-300">{versions.length} revisions, newest first</CardDescription>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent>
+              <div className="overflow-x-auto rounded-lg border border-slate-700/50">
+                <table className="w-full">
+                  <thead>
+                    <tr className="bg-gradient-to-r from-slate-900/80 to-slate-800/80 border-b border-slate-700/50">
+                      <th className="text-left p-4 text-slate-300 font-semibold">Version</th>
+                      <th className="text-left p-4 text-slate-300 font-semibold">Saved</th>
+                      <th className="text-left p-4 text-slate-300 font-semibold">Author</th>
+                      <th className="text-left p-4 text-slate-300 font-semibold">Rules</th>
+                      <th className="text-left p-4 text-slate-300 font-semibold">Denial Rate</th>
+                      <th className="text-left p-4 text-slate-300 font-semibold">Approval Rate</th>
+                      <th className="text-left p-4 text-slate-300 font-semibold">Compare</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {versions.length === 0 ? (
+                      <tr>
+                        <td colSpan={7} className="p-8 text-center text-slate-400">No revisions recorded.</td>
+                      </tr>
+                    ) : versions.map((version, index) => {
+                      const previous = versions[index + 1];
+                      return (
+                        <tr
+                          key={version.version}
+                          className={cn(
+                            'border-b border-slate-800/50 hover:bg-slate-900/30 transition-colors',
+                            (version.version === baseVersion || version.version === compareVersion) && 'bg-blue-500/5'
+                          )}
+                        >
+                          <td className="p-4">
+                            <div className="flex items-center gap-2">
+                              <span className="font-mono text-white">v{version.version}</span>
+                              <PolicyStatusBadge status={version.status} />
+                            </div>
+                            {version.changeNote && <div className="text-xs text-slate-400 mt-1">{version.changeNote}</div>}
+                          </td>
+                          <td className="p-4 text-slate-400 text-sm">{formatDateTime(version.updatedAt)}</td>
+                          <td className="p-4 text-slate-300 text-sm">{version.changedBy ?? '—'}</td>
+                          <td className="p-4 text-slate-300">{version.rules.length}</td>
+                          <td className="p-4">
+                            <div className="text-slate-300">{formatPercent(version.metrics.denialRate, 1)}</div>
+                            {previous && <RateDelta from={previous.metrics.denialRate} to={version.metrics.denialRate} higherIsWorse />}
+                          </td>
+                          <td className="p-4">
+                            <div className="text-slate-300">{formatPercent(version.metrics.approvalRate, 1)}</div>
+                            {previous && <RateDelta from={previous.metrics.approvalRate} to={version.metrics.approvalRate} higherIsWorse={false} />}
+                          </td>
+                          <td className="p-4">
+                            {previous && (
+                              <button
+                                type="button"
+                                onClick={() => {
+                                  setBaseVersion(previous.version);
+                                  setCompareVersion(version.version);
+                                }}
+                                className="text-sm text-blue-300 hover:text-blue-200"
+                              >
+                                vs v{previous.version}
+                              </button>
+                            )}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card className="glass-effect border-slate-700/50 shadow-xl fade-in">
+            <CardHeader>
+              <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+                <div className="flex items-center gap-3">
+                  <div className="p-2 bg-gradient-to-br from-blue-500/20 to-purple-500/20 rounded-lg border border-blue-500/30">
+                    <GitCompare className="h-5 w-5 text-blue-400" />
+                  </div>
+                  <div>
+                    <CardTitle className="text-xl font-bold">Diff</CardTitle>
+                    <CardDescription className="text-slate-300">
+                      {diff
+                        ? `${diff.rules.length} rule changes, ${diff.unchangedRules} unchanged`
+                        : 'Pick two versions to compare'}
+                    </CardDescription>
+                  </div>
+                </div>
+                <div className="flex items-center gap-2 text-sm text-slate-400">
+                  <select value={baseVersion} onChange={e => setBaseVersion(e.target.value)} className={selectClass}>
+                    {versions.map(version => <option key={version.version} value={version.version}>v{version.version}</option>)}
+                  </select>
+                  →
+                  <select value={compareVersion} onChange={e => setCompareVersion(e.target.value)} className={selectClass}>
+                    {versions.map(version => <option key={version.version} value={version.version}>v{version.version}</option>)}
+                  </select>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent>
+              {diff && (
+                <div className="space-y-6">
+                  <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+                    <div className="p-4 bg-slate-900/60 rounded-xl border border-slate-700/50">
+                      <div className="text-xs text-slate-400 uppercase tracking-wider mb-1">Denial Rate</div>
+                      <div className="text-lg font-bold text-white">
+                        {formatPercent(diff.metrics.denialRate.from, 1)} → {formatPercent(diff.metrics.denialRate.to, 1)}
+                      </div>
+                      <RateDelta from={diff.metrics.denialRate.from} to={diff.metrics.denialRate.to} higherIsWorse />
+                    </div>
+                    <div className="p-4 bg-slate-900/60 rounded-xl border border-slate-700/50">
+                      <div className="text-xs text-slate-400 uppercase tracking-wider mb-1">Approval Rate</div>
+                      <div className="text-lg font-bold text-white">
+                        {formatPercent(diff.metrics.approvalRate.from, 1)} → {formatPercent(diff.metrics.approvalRate.to, 1)}
+                      </div>
+                      <RateDelta from={diff.metrics.approvalRate.from} to={diff.metrics.approvalRate.to} higherIsWorse={false} />
+                    </div>
+                    <div className="p-4 bg-slate-900/60 rounded-xl border border-slate-700/50">
+                      <div className="text-xs text-slate-400 uppercase tracking-wider mb-1">Decisions</div>
+                      <div className="text-lg font-bold text-white">
+                        {formatNumber(diff.metrics.decisionsMade.from)} → {formatNumber(diff.metrics.decisionsMade.to)}
+                      </div>
+                    </div>
+                    <div className="p-4 bg-slate-900/60 rounded-xl border border-slate-700/50">
+                      <div className="text-xs text-slate-400 uppercase tracking-wider mb-1">Avg Decision Time</div>
+                      <div className="text-lg font-bold text-white">
+                        {formatDuration(diff.metrics.averageDecisionTime.from)} → {formatDuration(diff.metrics.averageDecisionTime.to)}
+                      </div>
+                    </div>
+                  </div>
+
+                  <div className="grid grid-cols-2 gap-4 text-xs text-slate-400 uppercase tracking-wider">
+                    <div>v{diff.fromVersion}</div>
+                    <div>v{diff.toVersion}</div>
+                  </div>
+                  {diff.rules.length === 0 ? (
+                    <div className="text-slate-400 text-sm p-4 bg-slate-900/50 rounded-lg border border-slate-700/50">
+                      No rule changes between these versions.
+                    </div>
+                  ) : (
+                    <div className="space-y-4">
+                      {diff.rules.map(change => (
+                        <RuleChangeRow key={`${change.kind}-${change.kind === 'modified' ? change.to.id : change.rule.id}`} change={change} />
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </DashboardShell>
+  );
+}
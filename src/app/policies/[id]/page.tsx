@@ -0,0 +1,181 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { DashboardShell } from '@/components/layout/DashboardShell';
+import { PolicyStatusBadge } from '@/components/policies/PolicyStatusBadge';
+import { PolicyTestPanel } from '@/components/policies/PolicyTestPanel';
+import { RuleBuilder } from '@/components/policies/RuleBuilder';
+import { usePolicy, useUpdatePolicy } from '@/lib/api/client';
+import { describeApiError } from '@/lib/api/errors';
+import { usePermission } from '@/lib/auth/session';
+import type { PolicyRule, PolicyTestResult } from '@/lib/schemas/api';
+import { formatDateTime, formatDuration, formatNumber, formatPercent } from '@/lib/utils/format';
+import { ArrowLeft, FlaskConical, History, ListChecks, RotateCcw, Save, Scale, XCircle } from 'lucide-react';
+
+// Force dynamic rendering - this page uses client-side hooks and cannot be statically generated
+export const dynamic = 'force-dynamic';
+
+export default function PolicyWorkspacePage({ params }: { params: { id: string } }) {
+  const { data, isLoading, error } = usePolicy(params.id);
+  const updatePolicy = useUpdatePolicy();
+  const canEdit = usePermission('policies:edit');
+  const policy = data?.data;
+  const [draftRules, setDraftRules] = useState<PolicyRule[]>([]);
+  const [testResult, setTestResult] = useState<PolicyTestResult | null>(null);
+
+  // Reset the draft whenever a new version of the policy is loaded
+  useEffect(() => {
+    if (policy) setDraftRules(policy.rules);
+  }, [policy]);
+
+  const dirty = !!policy && JSON.stringify(draftRules) !== JSON.stringify(policy.rules);
+
+  const backLink = (
+    <Link
+      href="/policies"
+      className="px-4 py-2 rounded-xl border-2 bg-slate-800/70 border-slate-600/50 text-slate-300 hover:border-slate-500 font-semibold text-sm flex items-center gap-2"
+    >
+      <ArrowLeft className="h-4 w-4" />
+      All policies
+    </Link>
+  );
+
+  const headerActions = (
+    <div className="flex items-center gap-3">
+      <Link
+        href={`/policies/${params.id}/history`}
+        className="px-4 py-2 rounded-xl border-2 bg-slate-800/70 border-slate-600/50 text-slate-300 hover:border-slate-500 font-semibold text-sm flex items-center gap-2"
+      >
+        <History className="h-4 w-4" />
+        History
+      </Link>
+      {backLink}
+    </div>
+  );
+
+  if (isLoading) {
+    return (
+      <DashboardShell title="Policy" description="Loading policy..." actions={backLink}>
+        <div className="space-y-4">
+          {[1, 2].map(i => (
+            <div key={i} className="h-40 bg-slate-900/50 rounded-xl animate-pulse shimmer" />
+          ))}
+        </div>
+      </DashboardShell>
+    );
+  }
+
+  if (error || !policy) {
+    return (
+      <DashboardShell title="Policy" description={params.id} actions={backLink}>
+        <div className="p-6 bg-gradient-to-r from-red-500/20 to-red-500/10 border border-red-500/30 rounded-xl flex items-start gap-4">
+          <XCircle className="h-5 w-5 text-red-400 mt-1" />
+          <div>
+            <h4 className="text-lg font-semibold text-white">Unable to load policy</h4>
+            <p className="text-sm text-slate-300">{describeApiError(error, 'Policy not found.')}</p>
+          </div>
+        </div>
+      </DashboardShell>
+    );
+  }
+
+  const metrics = [
+    { label: 'Decisions Made', value: formatNumber(policy.metrics.decisionsMade) },
+    { label: 'Avg Decision Time', value: formatDuration(policy.metrics.averageDecisionTime) },
+    { label: 'Denial Rate', value: formatPercent(policy.metrics.denialRate, 1) },
+    { label: 'Approval Rate', value: formatPercent(policy.metrics.approvalRate, 1) },
+  ];
+
+  return (
+    <DashboardShell
+      title={policy.name}
+      description={
+        <div className="flex flex-wrap items-center gap-3">
+          <span>{policy.description}</span>
+          <PolicyStatusBadge status={policy.status} />
+          <span className="text-xs text-slate-400">v{policy.version} · updated {formatDateTime(policy.updatedAt)}</span>
+        </div>
+      }
+      icon={<Scale className="h-7 w-7 text-emerald-300" />}
+      actions={headerActions}
+    >
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-6 mb-6 fade-in">
+        {metrics.map(metric => (
+          <Card key={metric.label} className="glass-effect border-slate-700/50 shadow-xl card-glow">
+            <CardHeader className="pb-3">
+              <CardTitle className="text-sm font-semibold text-slate-300 uppercase tracking-wider">{metric.label}</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="text-3xl font-extrabold text-white">{metric.value}</div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <Card className="glass-effect border-slate-700/50 shadow-xl mb-6 fade-in">
+        <CardHeader>
+          <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+            <div className="flex items-center gap-3">
+              <div className="p-2 bg-gradient-to-br from-blue-500/20 to-purple-500/20 rounded-lg border border-blue-500/30">
+                <ListChecks className="h-5 w-5 text-blue-400" />
+              </div>
+              <div>
+                <CardTitle className="text-xl font-bold">Rules</CardTitle>
+                <CardDescription className="text-slate-300">
+                  Evaluated top to bottom; the first enabled rule whose conditions all match decides
+                </CardDescription>
+              </div>
+            </div>
+            {canEdit ? <div className="flex items-center gap-3">
+              {dirty && <span className="text-sm text-amber-300">Unsaved changes</span>}
+              <button
+                type="button"
+                onClick={() => setDraftRules(policy.rules)}
+                disabled={!dirty}
+                className="px-4 py-2 rounded-lg border border-slate-600/50 bg-slate-800/70 text-slate-300 text-sm font-semibold flex items-center gap-2 disabled:opacity-40 disabled:cursor-not-allowed"
+              >
+                <RotateCcw className="h-4 w-4" />
+                Reset
+              </button>
+              <button
+                type="button"
+                onClick={() => updatePolicy.mutate({ id: policy.id, updates: { rules: draftRules } })}
+                disabled={!dirty || updatePolicy.isPending}
+                className="px-4 py-2 bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-500 hover:to-purple-500 disabled:from-slate-700 disabled:to-slate-700 disabled:cursor-not-allowed text-white font-bold rounded-lg text-sm flex items-center gap-2"
+              >
+                <Save className="h-4 w-4" />
+                {updatePolicy.isPending ? 'Saving...' : 'Save'}
+              </button>
+            </div> : (
+              <span className="text-sm text-slate-400">Read only - edits are not saved</span>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent>
+          <RuleBuilder rules={draftRules} onChange={setDraftRules} readOnly={!canEdit} highlightedRuleId={testResult?.matchedRule?.id} />
+        </CardContent>
+      </Card>
+
+      <Card className="glass-effect border-slate-700/50 shadow-xl fade-in">
+        <CardHeader>
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-gradient-to-br from-purple-500/20 to-pink-500/20 rounded-lg border border-purple-500/30">
+              <FlaskConical className="h-5 w-5 text-purple-400" />
+            </div>
+            <div>
+              <CardTitle className="text-xl font-bold">Dry Run</CardTitle>
+              <CardDescription className="text-slate-300">
+                See which rule fires for a sample intent - instantly for the draft, on demand against the server
+              </CardDescription>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <PolicyTestPanel policy={policy} draftRules={draftRules} onLocalResult={setTestResult} />
+        </CardContent>
+      </Card>
+    </DashboardShell>
+  );
+}
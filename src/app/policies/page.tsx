@@ -0,0 +1,96 @@
+'use client';
+
+import Link from 'next/link';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { ValidationWarningsNotice } from '@/components/diagnostics/ValidationWarningsNotice';
+import { DashboardShell } from '@/components/layout/DashboardShell';
+import { PolicyStatusBadge } from '@/components/policies/PolicyStatusBadge';
+import { usePolicies } from '@/lib/api/client';
+import { describeApiError } from '@/lib/api/errors';
+import { formatDateTime, formatDuration, formatNumber, formatPercent } from '@/lib/utils/format';
+import { Scale, ShieldCheck, XCircle } from 'lucide-react';
+
+// Force dynamic rendering - this page uses client-side hooks and cannot be statically generated
+export const dynamic = 'force-dynamic';
+
+export default function PoliciesPage() {
+  const { data, isLoading, error } = usePolicies();
+  const policies = [...(data?.data.policies ?? [])].sort((a, b) => b.priority - a.priority);
+
+  return (
+    <DashboardShell
+      title="Policies"
+      description="Supervisor rules that allow, deny or gate agent actions"
+      icon={<Scale className="h-7 w-7 text-emerald-300" />}
+    >
+      <Card className="glass-effect border-slate-700/50 shadow-xl fade-in">
+        <CardHeader>
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-gradient-to-br from-emerald-500/20 to-teal-500/20 rounded-lg border border-emerald-500/30">
+              <ShieldCheck className="h-5 w-5 text-emerald-400" />
+            </div>
+            <div>
+              <CardTitle className="text-xl font-bold">Policy Set</CardTitle>
+              <CardDescription className="text-slate-300">
+                {isLoading ? 'Loading policies...' : `${policies.length} policies, highest priority first`}
+              </CardDescription>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <ValidationWarningsNotice warnings={data?.warnings} />
+          {error ? (
+            <div className="p-6 bg-gradient-to-r from-red-500/20 to-red-500/10 border border-red-500/30 rounded-xl flex items-start gap-4">
+              <XCircle className="h-5 w-5 text-red-400 mt-1" />
+              <p className="text-sm text-slate-300">{describeApiError(error, 'Failed to load policies.')}</p>
+            </div>
+          ) : isLoading ? (
+            <div className="space-y-2">
+              {[1, 2, 3].map(i => (
+                <div key={i} className="h-12 bg-slate-900/50 rounded animate-pulse shimmer" />
+              ))}
+            </div>
+          ) : (
+            <div className="overflow-x-auto rounded-lg border border-slate-700/50">
+              <table className="w-full">
+                <thead>
+                  <tr className="bg-gradient-to-r from-slate-900/80 to-slate-800/80 border-b border-slate-700/50">
+                    <th className="text-left p-4 text-slate-300 font-semibold">Policy</th>
+                    <th className="text-left p-4 text-slate-300 font-semibold">Status</th>
+                    <th className="text-left p-4 text-slate-300 font-semibold">Priority</th>
+                    <th className="text-left p-4 text-slate-300 font-semibold">Rules</th>
+                    <th className="text-left p-4 text-slate-300 font-semibold">Decisions</th>
+                    <th className="text-left p-4 text-slate-300 font-semibold">Denial Rate</th>
+                    <th className="text-left p-4 text-slate-300 font-semibold">Avg Decision</th>
+                    <th className="text-left p-4 text-slate-300 font-semibold">Updated</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {policies.length === 0 ? (
+                    <tr>
+                      <td colSpan={8} className="p-8 text-center text-slate-400">No policies defined.</td>
+                    </tr>
+                  ) : policies.map(policy => (
+                    <tr key={policy.id} className="border-b border-slate-800/50 hover:bg-slate-900/30 transition-colors">
+                      <td className="p-4">
+                        <Link href={`/policies/${policy.id}`} className="font-medium text-white hover:text-blue-300">{policy.name}</Link>
+                        <div className="text-xs text-slate-500">v{policy.version}</div>
+                      </td>
+                      <td className="p-4"><PolicyStatusBadge status={policy.status} /></td>
+                      <td className="p-4 text-slate-300">{policy.priority}</td>
+                      <td className="p-4 text-slate-300">{policy.rules.filter(r => r.enabled).length} / {policy.rules.length}</td>
+                      <td className="p-4 text-slate-300">{formatNumber(policy.metrics.decisionsMade)}</td>
+                      <td className="p-4 text-slate-300">{formatPercent(policy.metrics.denialRate, 1)}</td>
+                      <td className="p-4 text-slate-300">{formatDuration(policy.metrics.averageDecisionTime)}</td>
+                      <td className="p-4 text-slate-400 text-sm">{formatDateTime(policy.updatedAt)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </DashboardShell>
+  );
+}
@@ -0,0 +1,200 @@
+import { useState } from 'react';
+import { usePlugins } from '@/lib/api/client';
+import { AgentInputSchema, type AgentInput, type AgentProfile } from '@/lib/schemas/api';
+import { ToolPicker } from './ToolPicker';
+
+interface AgentFormProps {
+  initial?: AgentProfile;
+  submitLabel: string;
+  isSubmitting?: boolean;
+  onSubmit: (input: AgentInput) => void;
+  onCancel?: () => void;
+}
+
+const DEFAULT_INPUT: AgentInput = {
+  name: '',
+  type: '',
+  behaviorPreset: 'balanced',
+  capabilities: [],
+  permissions: [],
+  riskProfile: {
+    maxCost: 10,
+    maxExecutionTime: 300000,
+    allowedTools: [],
+    forbiddenTools: [],
+    autonomyLevel: 2,
+  },
+};
+
+const toInput = (agent: AgentProfile): AgentInput => ({
+  name: agent.name,
+  type: agent.type,
+  behaviorPreset: agent.behaviorPreset,
+  capabilities: agent.capabilities,
+  permissions: agent.permissions,
+  riskProfile: agent.riskProfile,
+});
+
+const splitList = (value: string) => value.split(',').map(item => item.trim()).filter(Boolean);
+
+const AUTONOMY_LABELS: Record<number, string> = {
+  1: 'Every action needs approval',
+  2: 'Risky actions need approval',
+  3: 'Supervised autonomy',
+  4: 'High autonomy',
+  5: 'Fully autonomous',
+};
+
+const inputClass = 'w-full px-3 py-2 bg-slate-900/70 border border-slate-700/60 rounded-lg text-sm text-slate-200 focus:outline-none focus:border-blue-500/60';
+const labelClass = 'flex flex-col gap-1 text-xs text-slate-400 uppercase tracking-wider';
+
+export function AgentForm({ initial, submitLabel, isSubmitting, onSubmit, onCancel }: AgentFormProps) {
+  const [input, setInput] = useState<AgentInput>(() => (initial ? toInput(initial) : DEFAULT_INPUT));
+  // Free-text list fields are kept as typed so commas and spaces don't jump around while editing
+  const [capabilities, setCapabilities] = useState(input.capabilities.join(', '));
+  const [permissions, setPermissions] = useState(input.permissions.join(', '));
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const { data: pluginsData, isLoading: pluginsLoading } = usePlugins();
+
+  const setRisk = <K extends keyof AgentInput['riskProfile']>(key: K, value: AgentInput['riskProfile'][K]) =>
+    setInput(prev => ({ ...prev, riskProfile: { ...prev.riskProfile, [key]: value } }));
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    const parsed = AgentInputSchema.safeParse({
+      ...input,
+      capabilities: splitList(capabilities),
+      permissions: splitList(permissions),
+    });
+
+    if (!parsed.success) {
+      const fieldErrors: Record<string, string> = {};
+      parsed.error.issues.forEach(issue => {
+        const key = issue.path.join('.');
+        if (!fieldErrors[key]) fieldErrors[key] = issue.message;
+      });
+      setErrors(fieldErrors);
+      return;
+    }
+
+    setErrors({});
+    onSubmit(parsed.data);
+  };
+
+  const fieldError = (path: string) =>
+    errors[path] ? <span className="text-xs normal-case tracking-normal text-red-300">{errors[path]}</span> : null;
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6" noValidate>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <label className={labelClass}>
+          Name
+          <input value={input.name} onChange={e => setInput({ ...input, name: e.target.value })} className={inputClass} />
+          {fieldError('name')}
+        </label>
+        <label className={labelClass}>
+          Type
+          <input value={input.type} onChange={e => setInput({ ...input, type: e.target.value })} placeholder="e.g. coder, researcher" className={inputClass} />
+          {fieldError('type')}
+        </label>
+        <label className={labelClass}>
+          Behavior Preset
+          <input value={input.behaviorPreset} onChange={e => setInput({ ...input, behaviorPreset: e.target.value })} className={inputClass} />
+          {fieldError('behaviorPreset')}
+        </label>
+        <label className={`${labelClass} md:col-span-3`}>
+          Capabilities (comma separated)
+          <input value={capabilities} onChange={e => setCapabilities(e.target.value)} className={inputClass} />
+          {fieldError('capabilities')}
+        </label>
+        <label className={`${labelClass} md:col-span-3`}>
+          Permissions (comma separated)
+          <input value={permissions} onChange={e => setPermissions(e.target.value)} className={inputClass} />
+          {fieldError('permissions')}
+        </label>
+      </div>
+
+      <div>
+        <h4 className="text-lg font-semibold text-white mb-3">Risk Profile</h4>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <label className={labelClass}>
+            Max Cost (USD)
+            <input
+              type="number"
+              min={0}
+              step="0.01"
+              value={input.riskProfile.maxCost}
+              onChange={e => setRisk('maxCost', e.target.valueAsNumber)}
+              className={inputClass}
+            />
+            {fieldError('riskProfile.maxCost')}
+          </label>
+          <label className={labelClass}>
+            Max Execution Time (ms)
+            <input
+              type="number"
+              min={1}
+              step={1000}
+              value={input.riskProfile.maxExecutionTime}
+              onChange={e => setRisk('maxExecutionTime', e.target.valueAsNumber)}
+              className={inputClass}
+            />
+            {fieldError('riskProfile.maxExecutionTime')}
+          </label>
+          <label className={labelClass}>
+            Autonomy Level: {input.riskProfile.autonomyLevel}
+            <input
+              type="range"
+              min={1}
+              max={5}
+              step={1}
+              value={input.riskProfile.autonomyLevel}
+              onChange={e => setRisk('autonomyLevel', Number(e.target.value))}
+              className="accent-blue-500 mt-2"
+            />
+            <span className="text-xs normal-case tracking-normal text-slate-300">{AUTONOMY_LABELS[input.riskProfile.autonomyLevel]}</span>
+          </label>
+        </div>
+      </div>
+
+      <div>
+        <h4 className="text-lg font-semibold text-white mb-1">Tools</h4>
+        <p className="text-sm text-slate-400 mb-3">
+          {input.riskProfile.allowedTools.length} allowed · {input.riskProfile.forbiddenTools.length} forbidden
+        </p>
+        {pluginsLoading ? (
+          <div className="h-24 bg-slate-900/50 rounded-lg animate-pulse shimmer" />
+        ) : (
+          <ToolPicker
+            plugins={pluginsData?.data.plugins ?? []}
+            allowed={input.riskProfile.allowedTools}
+            forbidden={input.riskProfile.forbiddenTools}
+            onChange={(allowedTools, forbiddenTools) =>
+              setInput(prev => ({ ...prev, riskProfile: { ...prev.riskProfile, allowedTools, forbiddenTools } }))
+            }
+          />
+        )}
+        {fieldError('riskProfile.forbiddenTools')}
+      </div>
+
+      <div className="flex items-center justify-end gap-3">
+        {onCancel && (
+          <button
+            type="button"
+            onClick={onCancel}
+            className="px-4 py-2 rounded-lg border border-slate-600/50 bg-slate-800/70 text-slate-300 text-sm font-semibold hover:border-slate-500"
+          >
+            Cancel
+          </button>
+        )}
+        <button
+          type="submit"
+          disabled={isSubmitting}
+          className="px-5 py-2 bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-500 hover:to-purple-500 disabled:from-slate-700 disabled:to-slate-700 disabled:cursor-not-allowed text-white font-bold rounded-lg text-sm"
+        >
+          {isSubmitting ? 'Saving...' : submitLabel}
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,17 @@
+import { Badge, type BadgeProps } from '@/components/ui/badge';
+import type { AgentProfile } from '@/lib/schemas/api';
+
+const STATUS_VARIANTS: Record<AgentProfile['status'], BadgeProps['variant']> = {
+  active: 'success',
+  inactive: 'secondary',
+  maintenance: 'warning',
+  error: 'error',
+};
+
+export function AgentStatusBadge({ status, className }: { status: AgentProfile['status']; className?: string }) {
+  return (
+    <Badge variant={STATUS_VARIANTS[status]} className={className}>
+      {status.toUpperCase()}
+    </Badge>
+  );
+}
@@ -0,0 +1,95 @@
+import { Badge } from '@/components/ui/badge';
+import type { Plugin } from '@/lib/schemas/api';
+import { cn } from '@/lib/utils/cn';
+
+type ToolRule = 'allow' | 'neutral' | 'deny';
+
+interface ToolPickerProps {
+  plugins: Plugin[];
+  allowed: string[];
+  forbidden: string[];
+  onChange: (allowed: string[], forbidden: string[]) => void;
+  disabled?: boolean;
+}
+
+const SAFETY_VARIANTS = {
+  safe: 'success',
+  caution: 'warning',
+  restricted: 'error',
+} as const;
+
+const RULE_STYLES: Record<ToolRule, string> = {
+  allow: 'bg-emerald-500/25 border-emerald-500/50 text-emerald-200',
+  neutral: 'bg-slate-700/50 border-slate-500/50 text-slate-200',
+  deny: 'bg-red-500/25 border-red-500/50 text-red-200',
+};
+
+/**
+ * Allow/deny picker over the installed plugins.
+ * Tools referenced by the agent but no longer installed stay listed so they can be removed.
+ */
+export function ToolPicker({ plugins, allowed, forbidden, onChange, disabled }: ToolPickerProps) {
+  const knownIds = new Set(plugins.map(p => p.id));
+  const orphaned = Array.from(new Set([...allowed, ...forbidden])).filter(id => !knownIds.has(id));
+
+  const ruleFor = (id: string): ToolRule =>
+    allowed.includes(id) ? 'allow' : forbidden.includes(id) ? 'deny' : 'neutral';
+
+  const setRule = (id: string, rule: ToolRule) => {
+    const nextAllowed = allowed.filter(tool => tool !== id);
+    const nextForbidden = forbidden.filter(tool => tool !== id);
+    if (rule === 'allow') nextAllowed.push(id);
+    if (rule === 'deny') nextForbidden.push(id);
+    onChange(nextAllowed, nextForbidden);
+  };
+
+  const row = (id: string, label: React.ReactNode, meta?: React.ReactNode) => (
+    <div key={id} className="flex items-center justify-between gap-3 p-3 bg-slate-900/60 rounded-lg border border-slate-700/50">
+      <div className="min-w-0">
+        <div className="text-sm font-medium text-white truncate">{label}</div>
+        <div className="text-xs text-slate-500 font-mono truncate">{id}</div>
+        {meta}
+      </div>
+      <div className="flex rounded-lg overflow-hidden border border-slate-700/60 flex-shrink-0">
+        {(['allow', 'neutral', 'deny'] as ToolRule[]).map(rule => (
+          <button
+            key={rule}
+            type="button"
+            disabled={disabled}
+            onClick={() => setRule(id, rule)}
+            className={cn(
+              'px-3 py-1 text-xs font-semibold border-l first:border-l-0 border-slate-700/60 capitalize disabled:cursor-not-allowed',
+              ruleFor(id) === rule ? RULE_STYLES[rule] : 'text-slate-500 hover:text-slate-300'
+            )}
+          >
+            {rule === 'neutral' ? 'Default' : rule}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+
+  if (plugins.length === 0 && orphaned.length === 0) {
+    return (
+      <div className="text-slate-400 text-sm p-4 bg-slate-900/50 rounded-lg border border-slate-700/50">
+        No plugins available. Check API connectivity.
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2 max-h-96 overflow-y-auto pr-1">
+      {plugins.map(plugin =>
+        row(
+          plugin.id,
+          plugin.name,
+          <div className="flex items-center gap-2 mt-1">
+            <Badge variant="secondary">{plugin.category}</Badge>
+            <Badge variant={SAFETY_VARIANTS[plugin.safetyLevel]}>{plugin.safetyLevel}</Badge>
+          </div>
+        )
+      )}
+      {orphaned.map(id => row(id, <span className="text-amber-300">Unknown plugin</span>))}
+    </div>
+  );
+}
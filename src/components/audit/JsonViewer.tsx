@@ -0,0 +1,61 @@
+import { useState } from 'react';
+import { ChevronDown, ChevronRight } from 'lucide-react';
+
+function Primitive({ value }: { value: unknown }) {
+  if (value === null) return <span className="text-slate-500">null</span>;
+  if (typeof value === 'string') return <span className="text-emerald-300">&quot;{value}&quot;</span>;
+  if (typeof value === 'number') return <span className="text-blue-300">{value}</span>;
+  if (typeof value === 'boolean') return <span className="text-purple-300">{String(value)}</span>;
+  return <span className="text-slate-400">{String(value)}</span>;
+}
+
+function JsonNode({ name, value, depth, defaultExpandDepth }: { name?: string; value: unknown; depth: number; defaultExpandDepth: number }) {
+  const [open, setOpen] = useState(depth < defaultExpandDepth);
+  const isArray = Array.isArray(value);
+  const isObject = typeof value === 'object' && value !== null;
+  const label = name !== undefined && <span className="text-slate-300">{name}: </span>;
+
+  if (!isObject) {
+    return (
+      <div className="pl-4">
+        {label}
+        <Primitive value={value} />
+      </div>
+    );
+  }
+
+  const entries = isArray ? (value as unknown[]).map((item, i) => [String(i), item] as const) : Object.entries(value as object);
+  const [openBracket, closeBracket] = isArray ? ['[', ']'] : ['{', '}'];
+
+  return (
+    <div className={depth > 0 ? 'pl-4' : undefined}>
+      <button type="button" onClick={() => setOpen(!open)} className="inline-flex items-center text-left hover:text-white">
+        {open ? <ChevronDown className="h-3 w-3 text-slate-500" /> : <ChevronRight className="h-3 w-3 text-slate-500" />}
+        {label}
+        <span className="text-slate-500">
+          {openBracket}
+          {!open && ` ${entries.length} ${isArray ? 'items' : 'keys'} ${closeBracket}`}
+        </span>
+      </button>
+      {open && (
+        <>
+          {entries.map(([key, child]) => (
+            <JsonNode key={key} name={key} value={child} depth={depth + 1} defaultExpandDepth={defaultExpandDepth} />
+          ))}
+          <div className="pl-4 text-slate-500">{closeBracket}</div>
+        </>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Collapsible JSON tree. Nodes deeper than `defaultExpandDepth` start collapsed.
+ */
+export function JsonViewer({ value, defaultExpandDepth = 2 }: { value: unknown; defaultExpandDepth?: number }) {
+  return (
+    <div className="p-3 bg-slate-950/70 rounded-lg border border-slate-700/50 text-xs font-mono overflow-x-auto">
+      <JsonNode value={value} depth={0} defaultExpandDepth={defaultExpandDepth} />
+    </div>
+  );
+}
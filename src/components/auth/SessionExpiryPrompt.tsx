@@ -0,0 +1,75 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Clock } from 'lucide-react';
+import { describeApiError } from '@/lib/api/errors';
+import { useSession } from '@/lib/auth/session';
+
+const formatCountdown = (ms: number) => {
+  const seconds = Math.max(0, Math.ceil(ms / 1000));
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+// Shown while the session is inside its expiry warning window
+export function SessionExpiryPrompt() {
+  const { session, expiring, extend, signOut } = useSession();
+  const [now, setNow] = useState(() => Date.now());
+  const [extending, setExtending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!expiring) return;
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [expiring]);
+
+  if (!session || !expiring) return null;
+
+  const staySignedIn = async () => {
+    setExtending(true);
+    setError(null);
+    try {
+      await extend();
+    } catch (extendError) {
+      setError(describeApiError(extendError, 'Could not extend the session'));
+    } finally {
+      setExtending(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-950/70 backdrop-blur-sm">
+      <div role="alertdialog" aria-labelledby="session-expiry-title" className="w-full max-w-md p-6 glass-effect border border-amber-500/40 rounded-2xl shadow-2xl">
+        <div className="flex items-center gap-3 mb-3">
+          <div className="p-2 bg-gradient-to-br from-amber-500/20 to-orange-500/20 rounded-lg border border-amber-500/30">
+            <Clock className="h-5 w-5 text-amber-400" />
+          </div>
+          <h2 id="session-expiry-title" className="text-xl font-bold text-white">Your session is about to expire</h2>
+        </div>
+        <p className="text-slate-300 text-sm mb-1">
+          You will be signed out in <span className="font-mono font-bold text-amber-300">{formatCountdown(new Date(session.expiresAt).getTime() - now)}</span>.
+        </p>
+        <p className="text-slate-400 text-sm mb-5">Unsaved edits on this page will be lost.</p>
+        {error && <p className="text-sm text-red-300 mb-3">{error}</p>}
+        <div className="flex justify-end gap-3">
+          <button
+            type="button"
+            onClick={() => signOut()}
+            className="px-4 py-2 rounded-lg border border-slate-600/50 bg-slate-800/70 text-slate-300 text-sm font-semibold"
+          >
+            Sign out
+          </button>
+          <button
+            type="button"
+            onClick={staySignedIn}
+            disabled={extending}
+            className="px-4 py-2 bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-500 hover:to-purple-500 disabled:from-slate-700 disabled:to-slate-700 text-white font-bold rounded-lg text-sm"
+          >
+            {extending ? 'Extending...' : 'Stay signed in'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
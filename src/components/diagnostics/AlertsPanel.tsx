@@ -0,0 +1,171 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { alertManager, emptyAlertState, type AlertSeverity, type AlertState } from '@/lib/diagnostics/alerts';
+import { formatDateTime, formatDuration } from '@/lib/utils/format';
+import { cn } from '@/lib/utils/cn';
+import { Bell, BellOff, BellRing, Trash2 } from 'lucide-react';
+
+const SNOOZE_OPTIONS = [
+  { label: '15 min', ms: 15 * 60 * 1000 },
+  { label: '1 hour', ms: 60 * 60 * 1000 },
+  { label: '4 hours', ms: 4 * 60 * 60 * 1000 },
+];
+
+const SEVERITY_BADGES: Record<AlertSeverity, 'error' | 'warning' | 'success'> = {
+  critical: 'error',
+  warning: 'warning',
+  success: 'success',
+};
+
+// Live alert state, pushed by the manager whenever it changes; empty until mounted since it lives in localStorage
+function useAlertState(): AlertState {
+  const [state, setState] = useState<AlertState>(emptyAlertState);
+
+  useEffect(() => {
+    setState(alertManager.getState());
+    return alertManager.subscribe(setState);
+  }, []);
+
+  return state;
+}
+
+function useNotificationPermission(notifications: boolean): NotificationPermission | 'unsupported' {
+  const [permission, setPermission] = useState<NotificationPermission | 'unsupported'>('default');
+
+  useEffect(() => {
+    setPermission(typeof Notification === 'undefined' ? 'unsupported' : Notification.permission);
+  }, [notifications]);
+
+  return permission;
+}
+
+// Alerts raised by the diagnostics runs on this page, with notification and snooze controls
+export function AlertsPanel() {
+  const state = useAlertState();
+  const permission = useNotificationPermission(state.notifications);
+  const [now, setNow] = useState(() => Date.now());
+
+  // Snooze countdowns only need minute precision
+  useEffect(() => {
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 60000);
+    return () => clearInterval(interval);
+  }, [state]);
+
+  const snoozedAll = state.snoozedUntil !== null && state.snoozedUntil > now;
+  const snoozedKeys = Object.entries(state.snoozedKeys).filter(([, until]) => until > now);
+  const notificationsOn = state.notifications && permission === 'granted';
+
+  return (
+    <Card className="glass-effect border-slate-700/50 shadow-xl mb-6 fade-in">
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4 flex-wrap">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-gradient-to-br from-rose-500/20 to-orange-500/20 rounded-lg border border-rose-500/30">
+              <BellRing className="h-5 w-5 text-rose-400" />
+            </div>
+            <div>
+              <CardTitle className="text-xl font-bold">Alerts</CardTitle>
+              <CardDescription className="text-slate-300">
+                {snoozedAll
+                  ? `All alerts snoozed for another ${formatDuration(state.snoozedUntil! - now)}`
+                  : 'Raised when the status worsens or a new problem appears; repeats within 15 minutes are held back'}
+              </CardDescription>
+            </div>
+          </div>
+          <div className="flex items-center gap-2 flex-wrap">
+            <button
+              type="button"
+              disabled={permission === 'unsupported' || permission === 'denied'}
+              onClick={() => alertManager.setNotifications(!notificationsOn)}
+              title={permission === 'denied' ? 'Notifications are blocked in the browser settings for this site' : undefined}
+              className={cn(
+                'px-3 py-1.5 rounded-lg text-sm border flex items-center gap-2 transition-all disabled:opacity-50 disabled:cursor-not-allowed',
+                notificationsOn
+                  ? 'bg-emerald-500/10 text-emerald-300 border-emerald-500/30'
+                  : 'bg-slate-900/50 text-slate-300 border-slate-700/50 hover:text-white'
+              )}
+            >
+              {notificationsOn ? <Bell className="h-4 w-4" /> : <BellOff className="h-4 w-4" />}
+              {permission === 'denied' ? 'Notifications blocked' : notificationsOn ? 'Desktop notifications on' : 'Enable desktop notifications'}
+            </button>
+            {snoozedAll || snoozedKeys.length > 0 ? (
+              <button
+                type="button"
+                onClick={() => alertManager.unsnooze()}
+                className="px-3 py-1.5 rounded-lg text-sm border bg-amber-500/10 text-amber-300 border-amber-500/30"
+              >
+                Unsnooze{snoozedAll ? '' : ` (${snoozedKeys.length})`}
+              </button>
+            ) : (
+              <select
+                value=""
+                onChange={(event) => event.target.value && alertManager.snoozeAll(Number(event.target.value))}
+                className="bg-slate-900/70 border border-slate-700/50 rounded-lg px-2 py-1.5 text-sm text-slate-300"
+              >
+                <option value="">Snooze all…</option>
+                {SNOOZE_OPTIONS.map(option => (
+                  <option key={option.ms} value={option.ms}>{option.label}</option>
+                ))}
+              </select>
+            )}
+            {state.history.length > 0 && (
+              <button
+                type="button"
+                onClick={() => alertManager.clearHistory()}
+                className="text-sm text-slate-400 hover:text-white flex items-center gap-1"
+              >
+                <Trash2 className="h-4 w-4" />
+                Clear
+              </button>
+            )}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {state.history.length === 0 ? (
+          <p className="text-sm text-slate-400">No alerts yet.</p>
+        ) : (
+          <ul className="space-y-2 max-h-96 overflow-y-auto pr-1">
+            {state.history.map(alert => {
+              const keySnoozed = (state.snoozedKeys[alert.key] ?? 0) > now;
+              return (
+                <li
+                  key={alert.id}
+                  className={cn(
+                    'flex items-start justify-between gap-4 p-3 rounded-lg border text-sm',
+                    alert.suppressed ? 'bg-slate-900/30 border-slate-800/50 opacity-70' : 'bg-slate-900/50 border-slate-700/50'
+                  )}
+                >
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <Badge variant={SEVERITY_BADGES[alert.severity]}>{alert.kind === 'recovery' ? 'RECOVERED' : alert.severity.toUpperCase()}</Badge>
+                      <span className="font-semibold text-white">{alert.title}</span>
+                      {alert.suppressed && <Badge variant="outline">{alert.suppressed === 'snoozed' ? 'snoozed' : 'repeat'}</Badge>}
+                    </div>
+                    <div className="text-slate-400 mt-1">{alert.description}</div>
+                  </div>
+                  <div className="flex flex-col items-end gap-1 shrink-0">
+                    <span className="text-xs text-slate-500">{formatDateTime(new Date(alert.timestamp))}</span>
+                    {alert.kind !== 'recovery' && (
+                      <button
+                        type="button"
+                        onClick={() => keySnoozed ? alertManager.unsnooze(alert.key) : alertManager.snoozeKey(alert.key, 60 * 60 * 1000)}
+                        className="text-xs text-slate-400 hover:text-white"
+                      >
+                        {keySnoozed ? 'Unsnooze' : 'Snooze 1h'}
+                      </button>
+                    )}
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
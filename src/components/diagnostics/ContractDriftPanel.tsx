@@ -0,0 +1,119 @@
+'use client';
+
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { ultraSecureApiClient, useContractViolations } from '@/lib/api/client';
+import type { ContractViolation } from '@/lib/api/contract';
+import { ChevronDown, ChevronRight, FileWarning, Trash2 } from 'lucide-react';
+
+function ViolationRow({ violation }: { violation: ContractViolation }) {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <>
+      <tr onClick={() => setOpen(!open)} className="border-b border-slate-800/50 hover:bg-slate-900/30 transition-colors cursor-pointer align-top">
+        <td className="p-4">
+          {open ? <ChevronDown className="h-4 w-4 text-slate-400" /> : <ChevronRight className="h-4 w-4 text-slate-400" />}
+        </td>
+        <td className="p-4 font-mono text-sm text-slate-200">{violation.endpoint}</td>
+        <td className="p-4 font-mono text-sm text-slate-300">{violation.schemaName}</td>
+        <td className="p-4">
+          <div className="flex flex-wrap gap-1">
+            {violation.issues.slice(0, 4).map(issue => (
+              <Badge key={issue.path} variant="warning" className="font-mono">{issue.path}</Badge>
+            ))}
+            {violation.issues.length > 4 && <Badge variant="outline">+{violation.issues.length - 4}</Badge>}
+          </div>
+        </td>
+        <td className="p-4 text-right font-bold text-white">{violation.count}</td>
+        <td className="p-4 text-sm text-slate-400 whitespace-nowrap">{new Date(violation.firstSeen).toLocaleTimeString()}</td>
+        <td className="p-4 text-sm text-slate-400 whitespace-nowrap">{new Date(violation.lastSeen).toLocaleTimeString()}</td>
+      </tr>
+      {open && (
+        <tr className="border-b border-slate-800/50 bg-slate-950/40">
+          <td />
+          <td colSpan={6} className="p-4 space-y-3">
+            <ul className="space-y-1 text-sm">
+              {violation.issues.map(issue => (
+                <li key={issue.path} className="flex flex-wrap gap-2">
+                  <span className="font-mono text-amber-300">{issue.path}</span>
+                  <span className="text-slate-300">{issue.message}</span>
+                  {issue.received !== undefined && <span className="font-mono text-xs text-slate-500">received {issue.received}</span>}
+                </li>
+              ))}
+            </ul>
+            <div>
+              <div className="text-xs text-slate-400 uppercase tracking-wider mb-1">Last payload (HTTP {violation.lastStatus})</div>
+              <pre className="text-xs text-slate-200 bg-slate-950/70 border border-slate-700/50 rounded-lg p-3 max-h-64 overflow-auto">
+                {violation.sample}
+              </pre>
+            </div>
+          </td>
+        </tr>
+      )}
+    </>
+  );
+}
+
+// Responses that did not match the dashboard's schemas during this session
+export function ContractDriftPanel() {
+  const violations = useContractViolations();
+  const total = violations.reduce((sum, violation) => sum + violation.count, 0);
+
+  return (
+    <Card className="glass-effect border-slate-700/50 shadow-xl mb-6 fade-in">
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-gradient-to-br from-amber-500/20 to-orange-500/20 rounded-lg border border-amber-500/30">
+              <FileWarning className="h-5 w-5 text-amber-400" />
+            </div>
+            <div>
+              <CardTitle className="text-xl font-bold">Contract Drift</CardTitle>
+              <CardDescription className="text-slate-300">
+                {violations.length === 0
+                  ? 'Every API response so far matched the expected schema'
+                  : `${violations.length} distinct ${violations.length === 1 ? 'mismatch' : 'mismatches'}, ${total} failed ${total === 1 ? 'response' : 'responses'}`}
+              </CardDescription>
+            </div>
+          </div>
+          {violations.length > 0 && (
+            <button
+              type="button"
+              onClick={() => ultraSecureApiClient.clearContractViolations()}
+              className="text-sm text-slate-400 hover:text-white flex items-center gap-1"
+            >
+              <Trash2 className="h-4 w-4" />
+              Clear
+            </button>
+          )}
+        </div>
+      </CardHeader>
+      {violations.length > 0 && (
+        <CardContent>
+          <div className="overflow-x-auto rounded-lg border border-slate-700/50">
+            <table className="w-full">
+              <thead>
+                <tr className="bg-gradient-to-r from-slate-900/80 to-slate-800/80 border-b border-slate-700/50">
+                  <th className="w-10" />
+                  <th className="text-left p-4 text-slate-300 font-semibold">Endpoint</th>
+                  <th className="text-left p-4 text-slate-300 font-semibold">Schema</th>
+                  <th className="text-left p-4 text-slate-300 font-semibold">Failing paths</th>
+                  <th className="text-right p-4 text-slate-300 font-semibold">Count</th>
+                  <th className="text-left p-4 text-slate-300 font-semibold">First seen</th>
+                  <th className="text-left p-4 text-slate-300 font-semibold">Last seen</th>
+                </tr>
+              </thead>
+              <tbody>
+                {violations.map(violation => (
+                  <ViolationRow key={violation.id} violation={violation} />
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </CardContent>
+      )}
+    </Card>
+  );
+}
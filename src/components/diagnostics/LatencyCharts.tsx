@@ -0,0 +1,259 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { useHealthHistory } from '@/lib/diagnostics/useHealthHistory';
+import {
+  LATENCY_WINDOW_MS,
+  latencySeries,
+  latencyStats,
+  percentileBands,
+  type LatencyPoint,
+} from '@/lib/diagnostics/latency';
+import { LATENCY_CRITICAL, LATENCY_THRESHOLD } from '@/lib/diagnostics/problems';
+import { formatDateTime } from '@/lib/utils/format';
+import { cn } from '@/lib/utils/cn';
+import { Activity } from 'lucide-react';
+
+const WIDTH = 720;
+const HEIGHT = 240;
+const PADDING = 32;
+const BUCKETS = 48;
+
+const SPARK_WIDTH = 120;
+const SPARK_HEIGHT = 28;
+
+const RANGES = [
+  { key: '1h', label: '1 hour', ms: 60 * 60 * 1000 },
+  { key: '24h', label: '24 hours', ms: 24 * 60 * 60 * 1000 },
+  { key: '7d', label: '7 days', ms: 7 * 24 * 60 * 60 * 1000 },
+] as const;
+
+type RangeKey = typeof RANGES[number]['key'];
+
+const BAND_COLORS = { p50: '#34d399', p95: '#fbbf24', p99: '#f87171' };
+
+function latencyColor(latency: number): string {
+  return latency < 200 ? 'text-emerald-400' : latency < 500 ? 'text-amber-400' : 'text-red-400';
+}
+
+// Path through the defined points only; gaps (empty buckets) break the line
+function linePath(points: ({ x: number; y: number } | null)[]): string {
+  let path = '';
+  let drawing = false;
+  points.forEach(point => {
+    if (!point) {
+      drawing = false;
+      return;
+    }
+    path += `${drawing ? 'L' : 'M'}${point.x.toFixed(1)},${point.y.toFixed(1)} `;
+    drawing = true;
+  });
+  return path.trim();
+}
+
+/**
+ * Inline trend of one endpoint's recent checks, for table cells. Failed checks are marked red.
+ */
+export function LatencySparkline({ points }: { points: LatencyPoint[] }) {
+  if (points.length < 2) {
+    return <span className="text-slate-500 text-xs">Not enough data</span>;
+  }
+
+  const max = Math.max(...points.map(point => point.latency), 1);
+  const [first, last] = [points[0].timestamp, points[points.length - 1].timestamp];
+  const x = (timestamp: number) => (last === first ? SPARK_WIDTH / 2 : ((timestamp - first) / (last - first)) * SPARK_WIDTH);
+  const y = (latency: number) => SPARK_HEIGHT - 2 - (latency / max) * (SPARK_HEIGHT - 4);
+
+  return (
+    <svg width={SPARK_WIDTH} height={SPARK_HEIGHT} className="overflow-visible">
+      <path
+        d={linePath(points.map(point => ({ x: x(point.timestamp), y: y(point.latency) })))}
+        fill="none"
+        stroke="#60a5fa"
+        strokeWidth={1.5}
+      />
+      {points.filter(point => !point.ok).map(point => (
+        <circle key={point.timestamp} cx={x(point.timestamp)} cy={y(point.latency)} r={2} fill="#f87171" />
+      ))}
+    </svg>
+  );
+}
+
+/**
+ * Per-endpoint p50/p95/p99 over time from the recorded diagnostics runs, with the latency
+ * thresholds the high-latency rule uses drawn in for reference.
+ */
+export function LatencyPanel() {
+  const [range, setRange] = useState<RangeKey>('1h');
+  const rangeMs = RANGES.find(option => option.key === range)!.ms;
+  const samples = useHealthHistory(RANGES[RANGES.length - 1].ms);
+
+  const endpoints = useMemo(() => {
+    const byPath = new Map<string, string>();
+    samples.forEach(sample => sample.endpoints.forEach(endpoint => byPath.set(endpoint.path, endpoint.name)));
+    return Array.from(byPath, ([path, name]) => ({ path, name }));
+  }, [samples]);
+
+  const [selected, setSelected] = useState<string | null>(null);
+  const path = selected ?? endpoints[0]?.path ?? null;
+
+  const chart = useMemo(() => {
+    if (!path) return null;
+    const to = samples.length > 0 ? Math.max(Date.now(), samples[samples.length - 1].timestamp) : Date.now();
+    const from = to - rangeMs;
+    const points = latencySeries(samples, path).filter(point => point.timestamp >= from);
+    const recent = points.filter(point => point.timestamp >= to - LATENCY_WINDOW_MS).map(point => point.latency);
+
+    return {
+      from,
+      to,
+      points,
+      bands: percentileBands(points, from, to, BUCKETS),
+      overall: latencyStats(points.map(point => point.latency)),
+      rolling: latencyStats(recent),
+    };
+  }, [samples, path, rangeMs]);
+
+  const maxLatency = chart
+    ? Math.max(LATENCY_THRESHOLD * 1.1, ...chart.bands.map(bucket => bucket.p99 ?? 0))
+    : LATENCY_THRESHOLD;
+  const x = (timestamp: number) =>
+    chart ? PADDING + ((timestamp - chart.from) / (chart.to - chart.from)) * (WIDTH - PADDING * 2) : 0;
+  // SVG y grows downwards
+  const y = (latency: number) => HEIGHT - PADDING - (Math.min(latency, maxLatency) / maxLatency) * (HEIGHT - PADDING * 2);
+
+  const band = (key: 'p50' | 'p95' | 'p99') =>
+    linePath(chart?.bands.map(bucket => (bucket[key] === undefined ? null : { x: x((bucket.start + bucket.end) / 2), y: y(bucket[key]!) })) ?? []);
+
+  // Shaded area between p50 and p99 over consecutive buckets with data
+  const area = chart?.bands
+    .filter(bucket => bucket.p50 !== undefined)
+    .map(bucket => {
+      const left = x(bucket.start);
+      const right = x(bucket.end);
+      return (
+        <rect
+          key={bucket.start}
+          x={left}
+          y={y(bucket.p99!)}
+          width={Math.max(1, right - left)}
+          height={Math.max(1, y(bucket.p50!) - y(bucket.p99!))}
+          fill="#60a5fa"
+          fillOpacity={0.12}
+        />
+      );
+    });
+
+  return (
+    <Card className="glass-effect border-slate-700/50 shadow-xl mb-6 fade-in">
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4 flex-wrap">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-gradient-to-br from-blue-500/20 to-cyan-500/20 rounded-lg border border-blue-500/30">
+              <Activity className="h-5 w-5 text-blue-400" />
+            </div>
+            <div>
+              <CardTitle className="text-xl font-bold">Endpoint Latency</CardTitle>
+              <CardDescription className="text-slate-300">
+                p50, p95 and p99 of the recorded checks; the high-latency rule judges the last{' '}
+                {LATENCY_WINDOW_MS / 60000} minutes
+              </CardDescription>
+            </div>
+          </div>
+          <div className="flex items-center gap-1">
+            {RANGES.map(option => (
+              <button
+                key={option.key}
+                type="button"
+                onClick={() => setRange(option.key)}
+                className={cn(
+                  'px-3 py-1 rounded-lg text-sm transition-all',
+                  option.key === range ? 'bg-blue-500/20 text-blue-300 border border-blue-500/30' : 'text-slate-400 hover:text-white'
+                )}
+              >
+                {option.key}
+              </button>
+            ))}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {endpoints.length === 0 || !chart ? (
+          <div className="text-slate-400 text-sm p-4 bg-slate-900/50 rounded-lg border border-slate-700/50">
+            No latency recorded yet - history builds up while this page is open.
+          </div>
+        ) : (
+          <>
+            <div className="flex flex-wrap gap-2">
+              {endpoints.map(endpoint => (
+                <button
+                  key={endpoint.path}
+                  type="button"
+                  onClick={() => setSelected(endpoint.path)}
+                  className={cn(
+                    'px-3 py-1.5 rounded-lg text-sm font-mono border transition-all',
+                    endpoint.path === path
+                      ? 'bg-slate-800 text-white border-slate-600'
+                      : 'bg-slate-900/50 text-slate-400 border-slate-700/50 hover:text-white'
+                  )}
+                >
+                  {endpoint.path}
+                </button>
+              ))}
+            </div>
+
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              {(['p50', 'p95', 'p99'] as const).map(key => (
+                <div key={key} className="p-3 bg-slate-900/50 rounded-lg border border-slate-700/50">
+                  <div className="text-xs text-slate-400 mb-1">{key} · {RANGES.find(option => option.key === range)!.label}</div>
+                  <div className={cn('text-xl font-bold', chart.overall ? latencyColor(chart.overall[key]) : 'text-slate-500')}>
+                    {chart.overall ? `${Math.round(chart.overall[key])}ms` : '—'}
+                  </div>
+                </div>
+              ))}
+              <div className="p-3 bg-slate-900/50 rounded-lg border border-slate-700/50">
+                <div className="text-xs text-slate-400 mb-1">p50 · last {LATENCY_WINDOW_MS / 60000} min</div>
+                <div className="flex items-center gap-2">
+                  <span className={cn('text-xl font-bold', chart.rolling ? latencyColor(chart.rolling.p50) : 'text-slate-500')}>
+                    {chart.rolling ? `${Math.round(chart.rolling.p50)}ms` : '—'}
+                  </span>
+                  {chart.rolling && chart.rolling.p50 > LATENCY_THRESHOLD && <Badge variant="warning">SLOW</Badge>}
+                </div>
+              </div>
+            </div>
+
+            <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto bg-slate-950/50 rounded-lg border border-slate-700/50">
+              {area}
+              {[LATENCY_THRESHOLD, LATENCY_CRITICAL].filter(limit => limit <= maxLatency).map(limit => (
+                <g key={limit}>
+                  <line x1={PADDING} x2={WIDTH - PADDING} y1={y(limit)} y2={y(limit)} stroke="#f87171" strokeOpacity={0.5} strokeDasharray="4 4" />
+                  <text x={WIDTH - PADDING} y={y(limit) - 4} textAnchor="end" fontSize={10} fill="#f87171">
+                    {limit}ms
+                  </text>
+                </g>
+              ))}
+              {(['p99', 'p95', 'p50'] as const).map(key => (
+                <path key={key} d={band(key)} fill="none" stroke={BAND_COLORS[key]} strokeWidth={key === 'p50' ? 2 : 1.5} />
+              ))}
+              <text x={PADDING} y={PADDING - 12} fontSize={10} fill="#94a3b8">{Math.round(maxLatency)}ms</text>
+              <text x={PADDING} y={HEIGHT - 10} fontSize={10} fill="#94a3b8">{formatDateTime(new Date(chart.from))}</text>
+              <text x={WIDTH - PADDING} y={HEIGHT - 10} textAnchor="end" fontSize={10} fill="#94a3b8">now</text>
+            </svg>
+
+            <div className="flex flex-wrap items-center gap-4 text-xs text-slate-400">
+              {(Object.keys(BAND_COLORS) as (keyof typeof BAND_COLORS)[]).map(key => (
+                <span key={key} className="flex items-center gap-1.5">
+                  <span className="h-0.5 w-4" style={{ backgroundColor: BAND_COLORS[key] }} />
+                  {key}
+                </span>
+              ))}
+              <span>{chart.points.length} checks in range</span>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,350 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { useMetrics } from '@/lib/api/client';
+import {
+  bucketIncrease,
+  counterIncrease,
+  familySeries,
+  histogramQuantile,
+  parsePrometheus,
+  type HistogramBucket,
+  type MetricFamily,
+  type MetricSeries,
+  type MetricType,
+  type ParseError,
+} from '@/lib/metrics/prometheus';
+import { formatDuration } from '@/lib/utils/format';
+import { cn } from '@/lib/utils/cn';
+import { BarChart3, Search } from 'lucide-react';
+
+const REFRESH_MS = 15000;
+const MAX_SNAPSHOTS = 40; // 10 minutes at the refresh interval
+const QUANTILES = [0.5, 0.95, 0.99];
+
+const WIDTH = 640;
+const HEIGHT = 160;
+const PADDING = 16;
+
+const TYPE_BADGES: Record<MetricType, 'success' | 'warning' | 'error' | 'outline'> = {
+  counter: 'success',
+  gauge: 'warning',
+  histogram: 'error',
+  summary: 'error',
+  untyped: 'outline',
+};
+
+interface Snapshot {
+  timestamp: number;
+  families: Map<string, { family: MetricFamily; series: Map<string, MetricSeries> }>;
+}
+
+function snapshotOf(families: MetricFamily[], timestamp: number): Snapshot {
+  return {
+    timestamp,
+    families: new Map(families.map(family => [
+      family.name,
+      { family, series: new Map(familySeries(family).map(series => [series.key, series])) },
+    ])),
+  };
+}
+
+// Change between two scrapes: increase for counters and observation counts, plain difference for gauges
+function delta(type: MetricType, previous: MetricSeries, current: MetricSeries): number | null {
+  switch (type) {
+    case 'counter':
+      return previous.value === undefined || current.value === undefined ? null : counterIncrease(previous.value, current.value);
+    case 'histogram':
+    case 'summary':
+      return previous.count === undefined || current.count === undefined ? null : counterIncrease(previous.count, current.count);
+    default:
+      return previous.value === undefined || current.value === undefined ? null : current.value - previous.value;
+  }
+}
+
+function formatValue(value?: number | null): string {
+  if (value === undefined || value === null || Number.isNaN(value)) return '—';
+  if (!Number.isFinite(value)) return value > 0 ? '+Inf' : '-Inf';
+  if (value !== 0 && Math.abs(value) < 1) return value.toPrecision(3);
+  return value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+}
+
+// Bucket bounds in seconds read better as durations
+function formatQuantile(family: MetricFamily, value: number): string {
+  return family.name.endsWith('_seconds') && Number.isFinite(value) ? formatDuration(value * 1000) : formatValue(value);
+}
+
+// 0.95 -> p95, 0.999 -> p99.9
+function quantileLabel(quantile: number): string {
+  return `p${Number((quantile * 100).toFixed(2))}`;
+}
+
+function labelText(series: MetricSeries): string {
+  const entries = Object.entries(series.labels);
+  return entries.length === 0 ? '(no labels)' : entries.map(([name, value]) => `${name}="${value}"`).join(', ');
+}
+
+function Quantiles({ family, current, previous }: { family: MetricFamily; current: MetricSeries; previous?: MetricSeries }) {
+  if (family.type === 'summary') {
+    return (
+      <span>
+        {current.quantiles?.map(({ quantile, value }) => `${quantileLabel(quantile)} ${formatQuantile(family, value)}`).join(' · ') ?? '—'}
+      </span>
+    );
+  }
+
+  if (!current.buckets) return <span>—</span>;
+  const recent = previous?.buckets ? bucketIncrease(previous.buckets, current.buckets) : null;
+  const describe = (buckets: HistogramBucket[]) =>
+    QUANTILES.map(q => {
+      const value = histogramQuantile(q, buckets);
+      return `${quantileLabel(q)} ${Number.isNaN(value) ? '—' : formatQuantile(family, value)}`;
+    }).join(' · ');
+
+  return (
+    <div className="space-y-0.5">
+      <div>{describe(current.buckets)}</div>
+      {recent && recent[recent.length - 1]?.count > 0 && (
+        <div className="text-xs text-slate-500">since last refresh: {describe(recent)}</div>
+      )}
+    </div>
+  );
+}
+
+// Per-refresh deltas of one series as bars around a zero line
+function DeltaChart({ points }: { points: { timestamp: number; delta: number }[] }) {
+  if (points.length === 0) {
+    return (
+      <div className="text-slate-400 text-sm p-4 bg-slate-900/50 rounded-lg border border-slate-700/50">
+        Deltas appear after the next refresh.
+      </div>
+    );
+  }
+
+  const max = Math.max(...points.map(point => Math.abs(point.delta)), 1);
+  const hasNegative = points.some(point => point.delta < 0);
+  const zero = hasNegative ? HEIGHT / 2 : HEIGHT - PADDING;
+  const scale = (zero - PADDING) / max;
+  const slot = (WIDTH - PADDING * 2) / MAX_SNAPSHOTS;
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto bg-slate-950/50 rounded-lg border border-slate-700/50">
+      <line x1={PADDING} x2={WIDTH - PADDING} y1={zero} y2={zero} stroke="#475569" />
+      {points.map((point, index) => {
+        const height = Math.abs(point.delta) * scale;
+        // Newest bar on the right
+        const x = WIDTH - PADDING - (points.length - index) * slot;
+        return (
+          <rect
+            key={point.timestamp}
+            x={x + 1}
+            y={point.delta >= 0 ? zero - height : zero}
+            width={Math.max(1, slot - 2)}
+            height={Math.max(point.delta === 0 ? 0 : 1, height)}
+            fill={point.delta >= 0 ? '#60a5fa' : '#f87171'}
+            fillOpacity={0.8}
+          >
+            <title>{`${new Date(point.timestamp).toLocaleTimeString()}: ${point.delta >= 0 ? '+' : ''}${formatValue(point.delta)}`}</title>
+          </rect>
+        );
+      })}
+      <text x={PADDING} y={PADDING - 4} fontSize={10} fill="#94a3b8">{formatValue(max)}</text>
+    </svg>
+  );
+}
+
+/**
+ * Browses what the backend exposes on `/metrics`: metric families, their current values, and how
+ * much each series changed between refreshes. Snapshots only live as long as the page does.
+ */
+export function MetricsExplorer() {
+  const { data: text, error, dataUpdatedAt } = useMetrics(REFRESH_MS);
+  const [snapshots, setSnapshots] = useState<Snapshot[]>([]);
+  const [parseErrors, setParseErrors] = useState<ParseError[]>([]);
+  const [query, setQuery] = useState('');
+  const [selectedFamily, setSelectedFamily] = useState<string | null>(null);
+  const [selectedSeries, setSelectedSeries] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (text === undefined) return;
+    const parsed = parsePrometheus(text);
+    setParseErrors(parsed.errors);
+    setSnapshots(previous => [...previous, snapshotOf(parsed.families, dataUpdatedAt)].slice(-MAX_SNAPSHOTS));
+  }, [text, dataUpdatedAt]);
+
+  const latest = snapshots[snapshots.length - 1];
+  const previous = snapshots[snapshots.length - 2];
+
+  const families = useMemo(() => {
+    const all = latest ? Array.from(latest.families.values()).map(entry => entry.family) : [];
+    const needle = query.trim().toLowerCase();
+    return needle
+      ? all.filter(family => family.name.toLowerCase().includes(needle) || family.help?.toLowerCase().includes(needle))
+      : all;
+  }, [latest, query]);
+
+  const current = latest?.families.get(selectedFamily ?? families[0]?.name ?? '');
+  const family = current?.family;
+  const series = current ? Array.from(current.series.values()) : [];
+  const seriesKey = selectedSeries && current?.series.has(selectedSeries) ? selectedSeries : series[0]?.key;
+  const elapsedSeconds = latest && previous ? (latest.timestamp - previous.timestamp) / 1000 : null;
+
+  const deltas = useMemo(() => {
+    if (!family || !seriesKey) return [];
+    return snapshots.slice(1).flatMap((snapshot, index) => {
+      const before = snapshots[index].families.get(family.name)?.series.get(seriesKey);
+      const after = snapshot.families.get(family.name)?.series.get(seriesKey);
+      const change = before && after ? delta(family.type, before, after) : null;
+      return change === null ? [] : [{ timestamp: snapshot.timestamp, delta: change }];
+    });
+  }, [snapshots, family, seriesKey]);
+
+  return (
+    <Card className="glass-effect border-slate-700/50 shadow-xl mb-6 fade-in">
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4 flex-wrap">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-gradient-to-br from-violet-500/20 to-fuchsia-500/20 rounded-lg border border-violet-500/30">
+              <BarChart3 className="h-5 w-5 text-violet-400" />
+            </div>
+            <div>
+              <CardTitle className="text-xl font-bold">Metrics Explorer</CardTitle>
+              <CardDescription className="text-slate-300">
+                {latest
+                  ? `${latest.families.size} metric families from /metrics, refreshed every ${REFRESH_MS / 1000}s`
+                  : 'Prometheus metrics exposed by the backend'}
+              </CardDescription>
+            </div>
+          </div>
+          <label className="flex items-center gap-2 bg-slate-900/70 border border-slate-700/50 rounded-lg px-3 py-1.5">
+            <Search className="h-4 w-4 text-slate-400" />
+            <input
+              value={query}
+              onChange={event => setQuery(event.target.value)}
+              placeholder="Filter metrics"
+              className="bg-transparent text-sm text-white placeholder:text-slate-500 focus:outline-none"
+            />
+          </label>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && !latest ? (
+          <div className="text-slate-400 text-sm p-4 bg-slate-900/50 rounded-lg border border-slate-700/50">
+            /metrics is not available on this backend ({error.message}).
+          </div>
+        ) : !latest ? (
+          <div className="h-32 bg-slate-900/50 rounded animate-pulse shimmer" />
+        ) : (
+          <>
+            {parseErrors.length > 0 && (
+              <div className="text-sm p-3 bg-amber-500/10 rounded-lg border border-amber-500/30 text-amber-300">
+                {parseErrors.length} {parseErrors.length === 1 ? 'line' : 'lines'} could not be parsed:{' '}
+                {parseErrors.slice(0, 3).map(entry => `line ${entry.line}: ${entry.message}`).join('; ')}
+              </div>
+            )}
+
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+              <ul className="space-y-1 max-h-[28rem] overflow-y-auto pr-1">
+                {families.length === 0 && <li className="text-sm text-slate-400 p-2">No metrics match.</li>}
+                {families.map(entry => (
+                  <li key={entry.name}>
+                    <button
+                      type="button"
+                      onClick={() => {
+                        setSelectedFamily(entry.name);
+                        setSelectedSeries(null);
+                      }}
+                      className={cn(
+                        'w-full text-left p-2 rounded-lg border transition-all',
+                        entry.name === family?.name
+                          ? 'bg-slate-800 border-slate-600'
+                          : 'bg-slate-900/50 border-slate-700/50 hover:border-slate-600'
+                      )}
+                    >
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="font-mono text-sm text-white truncate">{entry.name}</span>
+                        <Badge variant={TYPE_BADGES[entry.type]}>{entry.type}</Badge>
+                      </div>
+                      {entry.help && <div className="text-xs text-slate-400 truncate mt-0.5">{entry.help}</div>}
+                    </button>
+                  </li>
+                ))}
+              </ul>
+
+              {family && (
+                <div className="lg:col-span-2 space-y-4 min-w-0">
+                  <div>
+                    <div className="font-mono text-white">{family.name}</div>
+                    {family.help && <div className="text-sm text-slate-400">{family.help}</div>}
+                  </div>
+
+                  <div className="overflow-x-auto rounded-lg border border-slate-700/50">
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="bg-gradient-to-r from-slate-900/80 to-slate-800/80 border-b border-slate-700/50">
+                          <th className="text-left p-3 text-slate-300 font-semibold">Labels</th>
+                          <th className="text-right p-3 text-slate-300 font-semibold">
+                            {family.type === 'histogram' || family.type === 'summary' ? 'Count' : 'Value'}
+                          </th>
+                          <th className="text-right p-3 text-slate-300 font-semibold">Δ</th>
+                          {(family.type === 'counter' || family.type === 'histogram' || family.type === 'summary') && (
+                            <th className="text-right p-3 text-slate-300 font-semibold">Rate</th>
+                          )}
+                          {(family.type === 'histogram' || family.type === 'summary') && (
+                            <th className="text-left p-3 text-slate-300 font-semibold">Quantiles</th>
+                          )}
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {series.map(entry => {
+                          const before = previous?.families.get(family.name)?.series.get(entry.key);
+                          const change = before ? delta(family.type, before, entry) : null;
+                          const aggregate = family.type === 'histogram' || family.type === 'summary';
+                          return (
+                            <tr
+                              key={entry.key}
+                              onClick={() => setSelectedSeries(entry.key)}
+                              className={cn(
+                                'border-b border-slate-800/50 cursor-pointer transition-colors',
+                                entry.key === seriesKey ? 'bg-slate-800/60' : 'hover:bg-slate-900/30'
+                              )}
+                            >
+                              <td className="p-3 font-mono text-xs text-slate-300 break-all">{labelText(entry)}</td>
+                              <td className="p-3 text-right text-white">{formatValue(aggregate ? entry.count : entry.value)}</td>
+                              <td className={cn('p-3 text-right', change && change < 0 ? 'text-red-400' : 'text-slate-300')}>
+                                {change === null ? '—' : `${change >= 0 ? '+' : ''}${formatValue(change)}`}
+                              </td>
+                              {(family.type === 'counter' || aggregate) && (
+                                <td className="p-3 text-right text-slate-300">
+                                  {change === null || !elapsedSeconds ? '—' : `${formatValue(change / elapsedSeconds)}/s`}
+                                </td>
+                              )}
+                              {aggregate && (
+                                <td className="p-3 text-slate-300">
+                                  <Quantiles family={family} current={entry} previous={before} />
+                                </td>
+                              )}
+                            </tr>
+                          );
+                        })}
+                      </tbody>
+                    </table>
+                  </div>
+
+                  <div>
+                    <div className="text-sm font-semibold text-slate-300 mb-2">
+                      Change per refresh{series.length > 1 && seriesKey ? ` · ${labelText(current!.series.get(seriesKey)!)}` : ''}
+                    </div>
+                    <DeltaChart points={deltas} />
+                  </div>
+                </div>
+              )}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,180 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { healthHistory } from '@/lib/diagnostics/history';
+import { useHealthHistory } from '@/lib/diagnostics/useHealthHistory';
+import {
+  DEFAULT_SLO_TARGET,
+  SLO_WINDOWS,
+  MAX_SAMPLE_SPAN,
+  findOutages,
+  statusTimeline,
+  uptimeReport,
+  type TimelineSlot,
+  type UptimeReport,
+} from '@/lib/diagnostics/slo';
+import { formatDateTime, formatDuration, formatPercent } from '@/lib/utils/format';
+import { Target, Trash2 } from 'lucide-react';
+
+const SLO_STORAGE_KEY = 'dashboard_uptime_slo';
+const LONGEST_WINDOW = SLO_WINDOWS[SLO_WINDOWS.length - 1].ms;
+const TIMELINE_SLOTS = 96; // 15 minutes each over 24h
+
+const SLOT_COLORS: Record<TimelineSlot, string> = {
+  up: 'bg-emerald-500/70',
+  degraded: 'bg-amber-500/70',
+  down: 'bg-red-500/80',
+  unknown: 'bg-slate-700/50',
+};
+
+function useSloTarget(): [number, (target: number) => void] {
+  const [target, setTarget] = useState(DEFAULT_SLO_TARGET);
+
+  useEffect(() => {
+    const stored = Number(localStorage.getItem(SLO_STORAGE_KEY));
+    if (stored > 0 && stored < 100) setTarget(stored);
+  }, []);
+
+  const update = (next: number) => {
+    setTarget(next);
+    localStorage.setItem(SLO_STORAGE_KEY, String(next));
+  };
+
+  return [target, update];
+}
+
+function WindowCard({ label, report, target }: { label: string; report: UptimeReport; target: number }) {
+  const met = report.uptime !== null && report.uptime * 100 >= target;
+  const remaining = report.budgetRemaining;
+
+  return (
+    <div className="p-4 bg-slate-900/50 rounded-xl border border-slate-700/50">
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-sm text-slate-400">{label}</span>
+        {report.uptime !== null && <Badge variant={met ? 'success' : 'error'}>{met ? 'SLO met' : 'SLO breached'}</Badge>}
+      </div>
+      <div className="text-3xl font-bold text-white mb-1">{formatPercent(report.uptime, 3)}</div>
+      <div className="text-xs text-slate-400 mb-3">
+        {formatDuration(report.downtimeMs)} down · watched {formatPercent(report.coverage, 0)} of the window
+      </div>
+      <div className="flex items-center justify-between text-xs text-slate-400 mb-1">
+        <span>Error budget left</span>
+        <span className={remaining !== null && remaining < 0 ? 'text-red-400' : 'text-slate-300'}>{formatPercent(remaining, 0)}</span>
+      </div>
+      <div className="h-2 bg-slate-800 rounded-full overflow-hidden mb-2">
+        <div
+          className={`h-full ${remaining === null ? '' : remaining > 0.5 ? 'bg-emerald-500' : remaining > 0 ? 'bg-amber-500' : 'bg-red-500'}`}
+          style={{ width: `${Math.max(0, Math.min(1, remaining ?? 0)) * 100}%` }}
+        />
+      </div>
+      <div className="text-xs text-slate-400">
+        Burn rate <span className={report.burnRate !== null && report.burnRate > 1 ? 'text-red-400 font-semibold' : 'text-slate-300'}>
+          {report.burnRate === null ? '—' : `${report.burnRate.toFixed(2)}x`}
+        </span>
+      </div>
+    </div>
+  );
+}
+
+// Uptime against the SLO target, from the diagnostics runs recorded in this browser
+export function UptimePanel() {
+  const samples = useHealthHistory(LONGEST_WINDOW + MAX_SAMPLE_SPAN);
+  const [target, setTarget] = useSloTarget();
+  const [now, setNow] = useState(() => Date.now());
+
+  // Recompute when new samples arrive; windows slide with the clock
+  useEffect(() => setNow(Date.now()), [samples]);
+
+  const reports = useMemo(
+    () => SLO_WINDOWS.map(window => ({ ...window, report: uptimeReport(samples, window.ms, target, now) })),
+    [samples, target, now]
+  );
+  const timeline = useMemo(() => statusTimeline(samples, now - SLO_WINDOWS[0].ms, now, TIMELINE_SLOTS), [samples, now]);
+  const outages = useMemo(() => findOutages(samples, now - LONGEST_WINDOW, now).slice(0, 5), [samples, now]);
+
+  return (
+    <Card className="glass-effect border-slate-700/50 shadow-xl mb-6 fade-in">
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4 flex-wrap">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-gradient-to-br from-emerald-500/20 to-teal-500/20 rounded-lg border border-emerald-500/30">
+              <Target className="h-5 w-5 text-emerald-400" />
+            </div>
+            <div>
+              <CardTitle className="text-xl font-bold">Uptime & SLO</CardTitle>
+              <CardDescription className="text-slate-300">
+                {samples.length === 0
+                  ? 'No checks recorded yet - history builds up while this page is open'
+                  : `${samples.length} checks recorded in this browser; time with the page closed is not counted`}
+              </CardDescription>
+            </div>
+          </div>
+          <div className="flex items-center gap-4">
+            <label className="flex items-center gap-2 text-sm text-slate-300">
+              SLO target
+              <input
+                type="number"
+                min={90}
+                max={99.999}
+                step={0.1}
+                value={target}
+                onChange={(event) => {
+                  const next = Number(event.target.value);
+                  if (next > 0 && next < 100) setTarget(next);
+                }}
+                className="w-24 bg-slate-900/70 border border-slate-700/50 rounded-lg px-2 py-1 text-white text-right"
+              />
+              %
+            </label>
+            {samples.length > 0 && (
+              <button
+                type="button"
+                onClick={() => healthHistory.clear()}
+                className="text-sm text-slate-400 hover:text-white flex items-center gap-1"
+              >
+                <Trash2 className="h-4 w-4" />
+                Clear
+              </button>
+            )}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          {reports.map(({ key, label, report }) => (
+            <WindowCard key={key} label={label} report={report} target={target} />
+          ))}
+        </div>
+
+        <div>
+          <div className="flex items-center justify-between text-xs text-slate-400 mb-2">
+            <span>24 hours ago</span>
+            <span>now</span>
+          </div>
+          <div className="flex gap-px h-6">
+            {timeline.map((slot, idx) => (
+              <div key={idx} className={`flex-1 rounded-sm ${SLOT_COLORS[slot]}`} title={slot} />
+            ))}
+          </div>
+        </div>
+
+        {outages.length > 0 && (
+          <div>
+            <div className="text-sm font-semibold text-slate-300 mb-2">Recent outages</div>
+            <ul className="space-y-2">
+              {outages.map(outage => (
+                <li key={outage.start} className="flex items-center justify-between gap-4 p-3 bg-slate-900/50 rounded-lg border border-slate-700/50 text-sm">
+                  <span className="text-slate-300">{formatDateTime(new Date(outage.start))}</span>
+                  <span className="text-slate-400">{formatDuration(outage.end - outage.start)}</span>
+                  <Badge variant="error">{outage.ongoing ? 'ONGOING' : outage.status.toUpperCase()}</Badge>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,42 @@
+'use client';
+
+import { useState } from 'react';
+import type { ValidationWarning } from '@/lib/schemas/api';
+import { AlertTriangle } from 'lucide-react';
+
+// Shown above a table when lenient validation had to patch or drop records from the response
+export function ValidationWarningsNotice({ warnings }: { warnings?: ValidationWarning[] }) {
+  const [open, setOpen] = useState(false);
+  if (!warnings || warnings.length === 0) return null;
+
+  const dropped = warnings.filter(warning => warning.action === 'dropped').length;
+  const patched = warnings.length - dropped;
+  const summary = [
+    dropped > 0 && `${dropped} ${dropped === 1 ? 'record' : 'records'} left out`,
+    patched > 0 && `${patched} ${patched === 1 ? 'field' : 'fields'} filled with defaults`,
+  ].filter(Boolean).join(', ');
+
+  return (
+    <div className="mb-4 p-3 bg-gradient-to-r from-amber-500/20 to-amber-500/10 border border-amber-500/30 rounded-lg text-sm">
+      <div className="flex items-start gap-2">
+        <AlertTriangle className="h-4 w-4 text-amber-400 mt-0.5 shrink-0" />
+        <div className="flex-1 text-amber-200">
+          The API returned data that does not match the expected format: {summary}.{' '}
+          <button type="button" onClick={() => setOpen(!open)} className="underline underline-offset-2 hover:text-white">
+            {open ? 'Hide details' : 'Show details'}
+          </button>
+        </div>
+      </div>
+      {open && (
+        <ul className="mt-2 ml-6 space-y-1 max-h-40 overflow-y-auto">
+          {warnings.map((warning, idx) => (
+            <li key={idx} className="flex gap-2">
+              <span className="font-mono text-xs text-slate-400 mt-0.5 shrink-0">{warning.path}</span>
+              <span className="text-slate-300">{warning.message}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
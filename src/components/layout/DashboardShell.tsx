@@ -0,0 +1,109 @@
+'use client';
+
+import * as React from 'react';
+import Link from 'next/link';
+import { usePathname } from 'next/navigation';
+import { Activity, LogIn, LogOut, Sparkles } from 'lucide-react';
+import { ROLE_LABELS } from '@/lib/auth/permissions';
+import { useSession } from '@/lib/auth/session';
+import { cn } from '@/lib/utils/cn';
+
+const NAV_ITEMS: { href: string; label: string }[] = [
+  { href: '/', label: 'System Status' },
+  { href: '/orchestrations', label: 'Orchestrations' },
+  { href: '/approvals', label: 'Approvals' },
+  { href: '/agents', label: 'Agents' },
+  { href: '/policies', label: 'Policies' },
+  { href: '/memory', label: 'Memory' },
+  { href: '/audit', label: 'Audit' },
+  { href: '/compliance', label: 'Compliance' },
+];
+
+export function DashboardNav() {
+  const pathname = usePathname();
+  const { user, loading, signOut } = useSession();
+
+  return (
+    <nav className="flex flex-wrap items-center gap-2 mb-8">
+      <div className="flex items-center gap-2 mr-4 text-slate-200 font-bold">
+        <Sparkles className="h-5 w-5 text-blue-300" />
+        AI Execution Platform
+      </div>
+      {NAV_ITEMS.map((item) => {
+        const active = item.href === '/' ? pathname === '/' : pathname?.startsWith(item.href);
+        return (
+          <Link
+            key={item.href}
+            href={item.href}
+            className={cn(
+              'px-3 py-1.5 rounded-lg border text-sm font-medium transition-all',
+              active
+                ? 'bg-blue-500/20 border-blue-500/40 text-blue-200'
+                : 'bg-slate-800/50 border-slate-700/50 text-slate-400 hover:text-slate-200 hover:border-slate-500'
+            )}
+          >
+            {item.label}
+          </Link>
+        );
+      })}
+      <div className="ml-auto flex items-center gap-3 text-sm">
+        {loading ? null : user ? (
+          <>
+            <span className="text-slate-300">
+              {user.name}
+              <span className="ml-2 px-2 py-0.5 rounded-md bg-slate-800/70 border border-slate-700/50 text-xs text-slate-400">{ROLE_LABELS[user.role]}</span>
+            </span>
+            <button type="button" onClick={() => signOut()} className="text-slate-400 hover:text-white flex items-center gap-1" aria-label="Sign out">
+              <LogOut className="h-4 w-4" />
+            </button>
+          </>
+        ) : (
+          <Link href="/login" className="text-slate-400 hover:text-white flex items-center gap-1">
+            <LogIn className="h-4 w-4" />
+            Sign in
+          </Link>
+        )}
+      </div>
+    </nav>
+  );
+}
+
+interface DashboardShellProps {
+  title: string;
+  description?: React.ReactNode;
+  icon?: React.ReactNode;
+  actions?: React.ReactNode;
+  children: React.ReactNode;
+}
+
+export function DashboardShell({ title, description, icon, actions, children }: DashboardShellProps) {
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-950 via-slate-900 to-slate-950 text-white relative overflow-hidden">
+      <div className="absolute inset-0 overflow-hidden pointer-events-none">
+        <div className="absolute -top-40 -right-40 w-96 h-96 bg-blue-500/10 rounded-full blur-3xl"></div>
+        <div className="absolute -bottom-40 -left-40 w-96 h-96 bg-purple-500/10 rounded-full blur-3xl"></div>
+      </div>
+
+      <div className="container mx-auto px-4 py-8 max-w-7xl relative z-10">
+        <DashboardNav />
+
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4 mb-8 fade-in">
+          <div className="flex items-center gap-4 min-w-0">
+            <div className="p-3 bg-gradient-to-br from-blue-500/30 to-purple-500/30 rounded-xl border border-blue-500/40 flex-shrink-0">
+              {icon ?? <Activity className="h-7 w-7 text-blue-300" />}
+            </div>
+            <div className="min-w-0">
+              <h1 className="text-3xl md:text-4xl font-extrabold bg-gradient-to-r from-white via-blue-200 to-purple-200 bg-clip-text text-transparent truncate">
+                {title}
+              </h1>
+              {description && <div className="text-slate-300 mt-1">{description}</div>}
+            </div>
+          </div>
+          {actions && <div className="flex items-center gap-3 flex-shrink-0">{actions}</div>}
+        </div>
+
+        {children}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,94 @@
+import { useMemo } from 'react';
+import { projectEmbeddings } from '@/lib/memory/projection';
+import type { Memory } from '@/lib/schemas/api';
+import { cn } from '@/lib/utils/cn';
+
+export const MEMORY_TYPE_COLORS: Record<Memory['type'], string> = {
+  conversation: '#60a5fa',
+  knowledge: '#34d399',
+  policy: '#f472b6',
+  procedure: '#fbbf24',
+};
+
+const WIDTH = 640;
+const HEIGHT = 360;
+const PADDING = 24;
+
+interface EmbeddingScatterProps {
+  memories: Memory[];
+  isStale: (memory: Memory) => boolean;
+  selectedId?: string | null;
+  onSelect?: (id: string) => void;
+}
+
+/**
+ * PCA scatter of memory embeddings. Point size follows importance; stale memories are drawn hollow.
+ */
+export function EmbeddingScatter({ memories, isStale, selectedId, onSelect }: EmbeddingScatterProps) {
+  const projection = useMemo(
+    () => projectEmbeddings(memories.map(memory => ({ id: memory.id, embedding: memory.metadata.embedding }))),
+    [memories]
+  );
+  const byId = useMemo(() => new Map(memories.map(memory => [memory.id, memory])), [memories]);
+
+  if (projection.points.length < 2) {
+    return (
+      <div className="text-slate-400 text-sm p-4 bg-slate-900/50 rounded-lg border border-slate-700/50">
+        Not enough memories with embeddings to plot ({projection.points.length} of {memories.length}).
+      </div>
+    );
+  }
+
+  const xs = projection.points.map(point => point.x);
+  const ys = projection.points.map(point => point.y);
+  const [minX, maxX, minY, maxY] = [Math.min(...xs), Math.max(...xs), Math.min(...ys), Math.max(...ys)];
+  const scale = (value: number, min: number, max: number, size: number) =>
+    max === min ? size / 2 : PADDING + ((value - min) / (max - min)) * (size - PADDING * 2);
+
+  return (
+    <div className="space-y-3">
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto bg-slate-950/50 rounded-lg border border-slate-700/50">
+        {projection.points.map(point => {
+          const memory = byId.get(point.id)!;
+          const stale = isStale(memory);
+          const color = MEMORY_TYPE_COLORS[memory.type];
+          return (
+            <circle
+              key={point.id}
+              cx={scale(point.x, minX, maxX, WIDTH)}
+              // SVG y grows downwards
+              cy={HEIGHT - scale(point.y, minY, maxY, HEIGHT)}
+              r={3 + memory.importance * 6}
+              fill={stale ? 'transparent' : color}
+              fillOpacity={0.75}
+              stroke={point.id === selectedId ? '#ffffff' : color}
+              strokeWidth={point.id === selectedId ? 2.5 : 1.5}
+              strokeDasharray={stale ? '2 2' : undefined}
+              className={cn('transition-all', onSelect && 'cursor-pointer')}
+              onClick={() => onSelect?.(point.id)}
+            >
+              <title>{`${memory.content.summary}\n${memory.type} · importance ${memory.importance.toFixed(2)}${stale ? ' · stale' : ''}`}</title>
+            </circle>
+          );
+        })}
+      </svg>
+
+      <div className="flex flex-wrap items-center gap-4 text-xs text-slate-400">
+        {(Object.keys(MEMORY_TYPE_COLORS) as Memory['type'][]).map(type => (
+          <span key={type} className="flex items-center gap-1.5">
+            <span className="h-2.5 w-2.5 rounded-full" style={{ backgroundColor: MEMORY_TYPE_COLORS[type] }} />
+            {type}
+          </span>
+        ))}
+        <span className="flex items-center gap-1.5">
+          <span className="h-2.5 w-2.5 rounded-full border border-dashed border-slate-400" />
+          stale
+        </span>
+        <span className="ml-auto">
+          PC1 {(projection.explainedVariance[0] * 100).toFixed(1)}% · PC2 {(projection.explainedVariance[1] * 100).toFixed(1)}% of variance
+          {projection.skipped.length > 0 && ` · ${projection.skipped.length} without usable embedding`}
+        </span>
+      </div>
+    </div>
+  );
+}
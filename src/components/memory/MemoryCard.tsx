@@ -0,0 +1,78 @@
+import { Badge } from '@/components/ui/badge';
+import type { Memory } from '@/lib/schemas/api';
+import { cn } from '@/lib/utils/cn';
+import { formatDateTime, formatNumber } from '@/lib/utils/format';
+import { MEMORY_TYPE_COLORS } from './EmbeddingScatter';
+
+interface MemoryCardProps {
+  memory: Memory;
+  stale?: boolean;
+  selected?: boolean;
+  // Search relevance, when the card is a search hit
+  score?: number;
+  highlights?: string[];
+  onTagClick?: (tag: string) => void;
+  onSelect?: () => void;
+}
+
+export function MemoryCard({ memory, stale, selected, score, highlights, onTagClick, onSelect }: MemoryCardProps) {
+  return (
+    <div
+      onClick={onSelect}
+      className={cn(
+        'p-5 bg-slate-900/60 rounded-xl border-2 border-slate-700/50 transition-all',
+        onSelect && 'cursor-pointer hover:border-slate-500/60',
+        selected && 'border-blue-400/70 shadow-lg shadow-blue-500/20',
+        stale && 'opacity-70'
+      )}
+    >
+      <div className="flex flex-wrap items-center gap-2 mb-2">
+        <span className="h-2.5 w-2.5 rounded-full" style={{ backgroundColor: MEMORY_TYPE_COLORS[memory.type] }} />
+        <span className="text-xs font-semibold text-slate-300 uppercase tracking-wider">{memory.type}</span>
+        {stale && <Badge variant="warning">STALE</Badge>}
+        {score !== undefined && <Badge variant="outline">score {score.toFixed(3)}</Badge>}
+        <span className="ml-auto text-xs text-slate-500">{memory.source.type} · {memory.source.id}</span>
+      </div>
+
+      <p className="text-white font-medium mb-2">{memory.content.summary}</p>
+      {memory.content.keyPoints.length > 0 && (
+        <ul className="list-disc ml-5 text-sm text-slate-300 space-y-0.5 mb-3">
+          {memory.content.keyPoints.map((point, idx) => <li key={idx}>{point}</li>)}
+        </ul>
+      )}
+      {highlights && highlights.length > 0 && (
+        <div className="text-xs text-blue-200 bg-blue-500/10 border border-blue-500/20 rounded-lg p-2 mb-3 space-y-1">
+          {highlights.map((highlight, idx) => <div key={idx}>…{highlight}…</div>)}
+        </div>
+      )}
+
+      <div className="flex items-center gap-3 mb-3">
+        <span className="text-xs text-slate-400 w-20">Importance</span>
+        <div className="flex-1 h-1.5 bg-slate-800 rounded-full overflow-hidden">
+          <div className="h-full bg-gradient-to-r from-blue-500 to-purple-500" style={{ width: `${memory.importance * 100}%` }} />
+        </div>
+        <span className="text-xs text-slate-300 w-10 text-right">{memory.importance.toFixed(2)}</span>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        {memory.tags.map(tag => (
+          <button
+            key={tag}
+            type="button"
+            onClick={event => {
+              event.stopPropagation();
+              onTagClick?.(tag);
+            }}
+            className="px-2 py-0.5 text-xs rounded-md bg-slate-800/70 border border-slate-700/50 text-slate-300 hover:border-blue-500/50"
+          >
+            #{tag}
+          </button>
+        ))}
+        <span className="ml-auto text-xs text-slate-500">
+          {formatNumber(memory.metadata.tokens)} tokens · {formatDateTime(memory.createdAt)}
+          {memory.expiresAt && ` · expires ${formatDateTime(memory.expiresAt)}`}
+        </span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,38 @@
+import { Badge, type BadgeProps } from '@/components/ui/badge';
+import type { ExecutionPlan, Orchestration, OrchestrationStep } from '@/lib/schemas/api';
+
+type OrchestrationStatus = Orchestration['status'];
+type StepStatus = OrchestrationStep['status'];
+type Decision = ExecutionPlan['decision'];
+
+const STATUS_VARIANTS: Record<OrchestrationStatus | StepStatus, BadgeProps['variant']> = {
+  pending: 'secondary',
+  running: 'default',
+  completed: 'success',
+  failed: 'error',
+  cancelled: 'outline',
+  waiting_approval: 'warning',
+};
+
+const DECISION_VARIANTS: Record<Decision, BadgeProps['variant']> = {
+  allow: 'success',
+  deny: 'error',
+  ask: 'warning',
+  autofix: 'default',
+};
+
+export function OrchestrationStatusBadge({ status, className }: { status: OrchestrationStatus | StepStatus; className?: string }) {
+  return (
+    <Badge variant={STATUS_VARIANTS[status]} className={className}>
+      {status.replace('_', ' ').toUpperCase()}
+    </Badge>
+  );
+}
+
+export function DecisionBadge({ decision, className }: { decision: Decision; className?: string }) {
+  return (
+    <Badge variant={DECISION_VARIANTS[decision]} className={className}>
+      {decision.toUpperCase()}
+    </Badge>
+  );
+}
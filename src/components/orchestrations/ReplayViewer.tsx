@@ -0,0 +1,150 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Pause, Play, SkipBack, SkipForward } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { JsonViewer } from '@/components/audit/JsonViewer';
+import { findCounterpart, stepsAt, summarizeReplay, type ImportedBundle } from '@/lib/orchestrations/bundle';
+import { describeEvent } from '@/lib/orchestrations/events';
+import { cn } from '@/lib/utils/cn';
+import { formatDuration, formatNumber } from '@/lib/utils/format';
+import { StepTimeline } from './StepTimeline';
+
+const PLAYBACK_INTERVAL_MS = 800;
+
+const EVENT_COLORS: Record<string, string> = {
+  ToolRequested: 'border-blue-500/40 text-blue-200',
+  ToolExecuted: 'border-emerald-500/40 text-emerald-200',
+  LLMRequested: 'border-purple-500/40 text-purple-200',
+  LLMResponded: 'border-pink-500/40 text-pink-200',
+};
+
+/**
+ * Step through a bundled run event by event. The step timeline and running totals
+ * reflect the state of the run at the selected event.
+ */
+export function ReplayViewer({ bundle }: { bundle: ImportedBundle }) {
+  const { events, orchestration } = bundle;
+  const [cursor, setCursor] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const lastIndex = events.length - 1;
+
+  useEffect(() => {
+    setCursor(0);
+    setPlaying(false);
+  }, [bundle]);
+
+  useEffect(() => {
+    if (!playing) return;
+    if (cursor >= lastIndex) {
+      setPlaying(false);
+      return;
+    }
+    const timeout = setTimeout(() => setCursor(c => Math.min(c + 1, lastIndex)), PLAYBACK_INTERVAL_MS);
+    return () => clearTimeout(timeout);
+  }, [playing, cursor, lastIndex]);
+
+  const current = events[cursor];
+  const startTime = events.length > 0 ? new Date(events[0].data.timestamp).getTime() : 0;
+  const cursorTime = current ? new Date(current.data.timestamp).getTime() : startTime;
+  const summary = useMemo(() => summarizeReplay(events, cursor), [events, cursor]);
+  const steps = useMemo(() => stepsAt(orchestration.executionPlan.steps, cursorTime), [orchestration, cursorTime]);
+  const counterpart = current ? findCounterpart(events.slice(0, cursor + 1), current) : undefined;
+
+  if (events.length === 0) {
+    return (
+      <div className="text-slate-400 text-sm p-4 bg-slate-900/50 rounded-lg border border-slate-700/50">
+        This bundle contains no events to replay.
+      </div>
+    );
+  }
+
+  const buttonClass = 'p-2 rounded-lg border border-slate-600/50 bg-slate-800/70 text-slate-300 hover:border-slate-500 disabled:opacity-40';
+
+  return (
+    <div className="space-y-6">
+      <div className="p-4 bg-slate-900/60 rounded-xl border border-slate-700/50 space-y-3">
+        <div className="flex items-center gap-3">
+          <button type="button" onClick={() => setCursor(c => Math.max(c - 1, 0))} disabled={cursor === 0} className={buttonClass} aria-label="Previous event">
+            <SkipBack className="h-4 w-4" />
+          </button>
+          <button
+            type="button"
+            onClick={() => {
+              if (cursor >= lastIndex) setCursor(0);
+              setPlaying(!playing);
+            }}
+            className={buttonClass}
+            aria-label={playing ? 'Pause' : 'Play'}
+          >
+            {playing ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+          </button>
+          <button type="button" onClick={() => setCursor(c => Math.min(c + 1, lastIndex))} disabled={cursor === lastIndex} className={buttonClass} aria-label="Next event">
+            <SkipForward className="h-4 w-4" />
+          </button>
+          <input
+            type="range"
+            min={0}
+            max={lastIndex}
+            value={cursor}
+            onChange={e => {
+              setPlaying(false);
+              setCursor(Number(e.target.value));
+            }}
+            className="flex-1"
+          />
+          <span className="text-sm text-slate-300 font-mono w-24 text-right">
+            {cursor + 1} / {events.length}
+          </span>
+        </div>
+        <div className="flex flex-wrap items-center gap-4 text-xs text-slate-400">
+          <span>{new Date(cursorTime).toLocaleString()}</span>
+          <span>T+{formatDuration(cursorTime - startTime)}</span>
+          <span>{summary.toolCalls} tool calls ({summary.toolFailures} failed)</span>
+          <span>{summary.llmCalls} LLM calls</span>
+          <span>{formatNumber(summary.tokens)} tokens</span>
+          {summary.pending.length > 0 && <span className="text-amber-300">{summary.pending.length} awaiting result</span>}
+        </div>
+      </div>
+
+      <StepTimeline steps={steps} now={cursorTime} />
+
+      <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+        <div className="space-y-1 max-h-[32rem] overflow-y-auto pr-1">
+          {events.map((event, index) => (
+            <button
+              key={`${event.data.correlationId}-${event.event}-${index}`}
+              type="button"
+              onClick={() => {
+                setPlaying(false);
+                setCursor(index);
+              }}
+              className={cn(
+                'w-full flex items-center gap-3 p-2 rounded-lg border text-left text-sm transition-all',
+                index === cursor ? 'bg-blue-500/10 border-blue-400/60' : 'bg-slate-900/40 border-slate-700/40 hover:border-slate-500/60',
+                index > cursor && 'opacity-40'
+              )}
+            >
+              <span className="text-xs text-slate-500 font-mono w-20 shrink-0">
+                +{formatDuration(new Date(event.data.timestamp).getTime() - startTime)}
+              </span>
+              <Badge variant="outline" className={cn('font-mono shrink-0', EVENT_COLORS[event.event])}>{event.event}</Badge>
+              <span className="text-slate-200 truncate">{describeEvent(event)}</span>
+            </button>
+          ))}
+        </div>
+
+        <div className="space-y-4">
+          <div>
+            <div className="text-xs text-slate-400 uppercase tracking-wider mb-2">{current.event}</div>
+            <JsonViewer value={current.data} />
+          </div>
+          {counterpart && (
+            <div>
+              <div className="text-xs text-slate-400 uppercase tracking-wider mb-2">Matching {counterpart.event}</div>
+              <JsonViewer value={counterpart.data} defaultExpandDepth={1} />
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
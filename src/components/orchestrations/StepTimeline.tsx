@@ -0,0 +1,124 @@
+import { useMemo } from 'react';
+import { Bot, GitBranch, ShieldCheck, Wrench } from 'lucide-react';
+import type { OrchestrationStep } from '@/lib/schemas/api';
+import { formatDuration } from '@/lib/utils/format';
+import { OrchestrationStatusBadge } from './OrchestrationStatusBadge';
+
+const BAR_COLORS: Record<OrchestrationStep['status'], string> = {
+  pending: 'bg-slate-500/40 border-slate-400/40',
+  running: 'bg-blue-500/50 border-blue-400/60 animate-pulse',
+  completed: 'bg-emerald-500/50 border-emerald-400/60',
+  failed: 'bg-red-500/50 border-red-400/60',
+  waiting_approval: 'bg-amber-500/50 border-amber-400/60 animate-pulse',
+};
+
+const TYPE_ICONS: Record<OrchestrationStep['type'], React.ReactNode> = {
+  llm_request: <Bot className="h-4 w-4 text-purple-300" />,
+  tool_request: <Wrench className="h-4 w-4 text-blue-300" />,
+  condition: <GitBranch className="h-4 w-4 text-cyan-300" />,
+  approval: <ShieldCheck className="h-4 w-4 text-amber-300" />,
+};
+
+interface TimelineRow {
+  step: OrchestrationStep;
+  start?: number;
+  end?: number;
+}
+
+interface StepTimelineProps {
+  steps: OrchestrationStep[];
+  // Reference time for steps that are still running
+  now?: number;
+}
+
+/**
+ * Gantt-style view of execution plan steps.
+ * Steps that have not started yet are listed without a bar.
+ */
+export function StepTimeline({ steps, now = Date.now() }: StepTimelineProps) {
+  const { rows, rangeStart, rangeEnd } = useMemo(() => {
+    const rows: TimelineRow[] = steps.map((step) => {
+      const start = step.startTime ? new Date(step.startTime).getTime() : undefined;
+      const end = step.endTime
+        ? new Date(step.endTime).getTime()
+        : start !== undefined && (step.status === 'running' || step.status === 'waiting_approval')
+          ? now
+          : start;
+      return { step, start, end };
+    });
+
+    const starts = rows.filter(r => r.start !== undefined).map(r => r.start!);
+    const ends = rows.filter(r => r.end !== undefined).map(r => r.end!);
+
+    return {
+      rows,
+      rangeStart: starts.length > 0 ? Math.min(...starts) : 0,
+      rangeEnd: ends.length > 0 ? Math.max(...ends) : 0,
+    };
+  }, [steps, now]);
+
+  if (steps.length === 0) {
+    return (
+      <div className="text-slate-400 text-sm p-4 bg-slate-900/50 rounded-lg border border-slate-700/50">
+        This execution plan has no steps.
+      </div>
+    );
+  }
+
+  const span = Math.max(rangeEnd - rangeStart, 1);
+  const ticks = [0, 0.25, 0.5, 0.75, 1];
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-[minmax(0,16rem)_1fr] gap-4 text-xs text-slate-400">
+        <div />
+        <div className="relative h-4">
+          {ticks.map(tick => (
+            <span
+              key={tick}
+              className="absolute -translate-x-1/2 first:translate-x-0 last:-translate-x-full"
+              style={{ left: `${tick * 100}%` }}
+            >
+              +{formatDuration(span * tick)}
+            </span>
+          ))}
+        </div>
+      </div>
+
+      {rows.map(({ step, start, end }) => {
+        const hasBar = start !== undefined && end !== undefined;
+        const left = hasBar ? ((start - rangeStart) / span) * 100 : 0;
+        const width = hasBar ? Math.max(((end - start) / span) * 100, 0.75) : 0;
+
+        return (
+          <div key={step.id} className="grid grid-cols-[minmax(0,16rem)_1fr] gap-4 items-center">
+            <div className="flex items-center gap-2 min-w-0">
+              {TYPE_ICONS[step.type]}
+              <div className="min-w-0">
+                <div className="text-sm font-medium text-white truncate">{step.name}</div>
+                <div className="text-xs text-slate-400 truncate">{step.agentName}</div>
+              </div>
+            </div>
+            <div className="relative h-9 bg-slate-900/60 rounded-lg border border-slate-700/50">
+              {ticks.slice(1, -1).map(tick => (
+                <div key={tick} className="absolute top-0 bottom-0 border-l border-slate-700/40" style={{ left: `${tick * 100}%` }} />
+              ))}
+              {hasBar ? (
+                <div
+                  className={`absolute top-1.5 bottom-1.5 rounded-md border ${BAR_COLORS[step.status]}`}
+                  style={{ left: `${left}%`, width: `${Math.min(width, 100 - left)}%` }}
+                  title={`${step.name}: ${formatDuration(end - start)} (${step.progress}%)`}
+                />
+              ) : (
+                <div className="absolute inset-0 flex items-center px-3 text-xs text-slate-500">Not started</div>
+              )}
+              <div className="absolute right-2 top-1/2 -translate-y-1/2">
+                <OrchestrationStatusBadge status={step.status} />
+              </div>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,16 @@
+import { Badge, type BadgeProps } from '@/components/ui/badge';
+import type { Policy } from '@/lib/schemas/api';
+
+const STATUS_VARIANTS: Record<Policy['status'], BadgeProps['variant']> = {
+  active: 'success',
+  inactive: 'secondary',
+  draft: 'warning',
+};
+
+export function PolicyStatusBadge({ status, className }: { status: Policy['status']; className?: string }) {
+  return (
+    <Badge variant={STATUS_VARIANTS[status]} className={className}>
+      {status.toUpperCase()}
+    </Badge>
+  );
+}
@@ -0,0 +1,216 @@
+import { useEffect, useMemo, useState } from 'react';
+import { AlertTriangle, CheckCircle2, Cloud, FlaskConical, Laptop, MinusCircle, Play, XCircle } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { DecisionBadge } from '@/components/orchestrations/OrchestrationStatusBadge';
+import { useTestPolicy } from '@/lib/api/client';
+import { detectPolicyDrift, evaluatePolicy, type PolicyEvaluation } from '@/lib/policies/evaluate';
+import type { Policy, PolicyRule, PolicyTestResult } from '@/lib/schemas/api';
+import { formatConditionValue } from './RuleBuilder';
+
+const SAMPLE_INTENT = JSON.stringify({ tool: 'filesystem.write', path: '/etc/hosts', estimatedCost: 0.02 }, null, 2);
+const SAMPLE_CONTEXT = JSON.stringify({ environment: 'production', user: { role: 'operator' } }, null, 2);
+
+const parseJson = (label: string, value: string): { value?: Record<string, any>; error?: string } => {
+  if (!value.trim()) return { value: {} };
+  try {
+    const parsed = JSON.parse(value);
+    if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+      return { error: `${label} must be a JSON object` };
+    }
+    return { value: parsed };
+  } catch (error) {
+    return { error: `${label} is not valid JSON: ${error instanceof Error ? error.message : error}` };
+  }
+};
+
+function ResultView({ result, ruleNames }: { result: PolicyTestResult; ruleNames: Map<string, string> }) {
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-3">
+        <span className="font-semibold text-white">Decision</span>
+        <DecisionBadge decision={result.decision} />
+        <Badge variant={result.allowed ? 'success' : 'error'}>{result.allowed ? 'Allowed' : 'Blocked'}</Badge>
+        {result.durationMs !== undefined && <span className="text-xs text-slate-400">{result.durationMs}ms</span>}
+      </div>
+
+      <div className="text-sm text-slate-300">
+        {result.matchedRule ? (
+          <>Fired rule <span className="font-semibold text-white">{result.matchedRule.name}</span> (priority {result.matchedRule.priority})</>
+        ) : (
+          'No rule matched - the policy default applied.'
+        )}
+      </div>
+
+      {result.reasonCodes.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {result.reasonCodes.map(code => <Badge key={code} variant="warning" className="font-mono">{code}</Badge>)}
+        </div>
+      )}
+
+      <div className="space-y-2">
+        {result.evaluatedRules.map(evaluated => {
+          // Local traces also record disabled and unreached rules
+          const trace = evaluated as Partial<PolicyEvaluation['evaluatedRules'][number]>;
+          const inactive = trace.enabled === false || trace.reached === false;
+          return (
+            <div key={evaluated.ruleId} className={`p-3 bg-slate-950/50 rounded-lg border border-slate-700/50 ${inactive ? 'opacity-50' : ''}`}>
+              <div className="flex items-center gap-2 text-sm">
+                {evaluated.matched ? (
+                  <CheckCircle2 className="h-4 w-4 text-emerald-400" />
+                ) : inactive ? (
+                  <MinusCircle className="h-4 w-4 text-slate-500" />
+                ) : (
+                  <XCircle className="h-4 w-4 text-slate-500" />
+                )}
+                <span className={evaluated.matched ? 'text-white font-medium' : 'text-slate-400'}>
+                  {trace.ruleName ?? ruleNames.get(evaluated.ruleId) ?? evaluated.ruleId}
+                </span>
+                {trace.enabled === false && <span className="text-xs text-slate-500">disabled</span>}
+                {trace.enabled !== false && trace.reached === false && <span className="text-xs text-slate-500">not reached</span>}
+              </div>
+              {evaluated.conditions && evaluated.conditions.length > 0 && (
+                <ul className="mt-2 ml-6 space-y-1 text-xs font-mono">
+                  {evaluated.conditions.map((condition, idx) => (
+                    <li key={idx} className={condition.passed ? 'text-emerald-300' : 'text-red-300'}>
+                      {condition.field} {condition.operator} {formatConditionValue(condition.expected)}
+                      <span className="text-slate-500"> (actual: {formatConditionValue(condition.actual) || 'undefined'})</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+interface PolicyTestPanelProps {
+  policy: Policy;
+  // Unsaved rules from the editor - evaluated locally on every keystroke
+  draftRules: PolicyRule[];
+  onLocalResult?: (result: PolicyEvaluation | null) => void;
+}
+
+/**
+ * Dry-run a sample intent. The draft is evaluated locally and instantly;
+ * the server run uses the saved policy and is cross-checked against a local run of the same version.
+ */
+export function PolicyTestPanel({ policy, draftRules, onLocalResult }: PolicyTestPanelProps) {
+  const [intent, setIntent] = useState(SAMPLE_INTENT);
+  const [context, setContext] = useState(SAMPLE_CONTEXT);
+  const testPolicy = useTestPolicy();
+  const serverResult = testPolicy.data?.data;
+  const ruleNames = new Map(policy.rules.map(rule => [rule.id, rule.name]));
+
+  const parsed = useMemo(() => {
+    const parsedIntent = parseJson('Intent', intent);
+    const parsedContext = parseJson('Context', context);
+    return {
+      error: parsedIntent.error ?? parsedContext.error,
+      input: { intent: parsedIntent.value ?? {}, context: parsedContext.value },
+    };
+  }, [intent, context]);
+
+  const localResult = useMemo(
+    () => (parsed.error ? null : evaluatePolicy({ ...policy, rules: draftRules }, parsed.input)),
+    [policy, draftRules, parsed]
+  );
+
+  useEffect(() => {
+    onLocalResult?.(localResult);
+  }, [localResult, onLocalResult]);
+
+  // Drift compares like with like: the saved rules and the input the server actually ran,
+  // not whatever has been typed since
+  const serverInput = testPolicy.variables?.data;
+  const drift = useMemo(() => {
+    if (!serverResult || !serverInput) return [];
+    return detectPolicyDrift(evaluatePolicy(policy, serverInput), serverResult);
+  }, [serverResult, serverInput, policy]);
+
+  const run = () => {
+    if (parsed.error) return;
+    testPolicy.mutate({ id: policy.id, data: parsed.input });
+  };
+
+  const textareaClass = 'w-full h-40 px-3 py-2 bg-slate-950/70 border border-slate-700/60 rounded-lg text-xs font-mono text-slate-200 focus:outline-none focus:border-blue-500/60';
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <label className="flex flex-col gap-1 text-xs text-slate-400 uppercase tracking-wider">
+          Intent
+          <textarea value={intent} onChange={e => setIntent(e.target.value)} className={textareaClass} spellCheck={false} />
+        </label>
+        <label className="flex flex-col gap-1 text-xs text-slate-400 uppercase tracking-wider">
+          Context
+          <textarea value={context} onChange={e => setContext(e.target.value)} className={textareaClass} spellCheck={false} />
+        </label>
+      </div>
+      {parsed.error && <p className="text-sm text-red-300">{parsed.error}</p>}
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+        <div className="p-5 bg-slate-900/60 rounded-xl border border-slate-700/50">
+          <div className="flex items-center gap-2 mb-4 text-sm font-semibold text-blue-300">
+            <Laptop className="h-4 w-4" />
+            Local evaluation (draft)
+          </div>
+          {localResult ? (
+            <ResultView result={localResult} ruleNames={ruleNames} />
+          ) : (
+            <p className="text-sm text-slate-400">Fix the input above to evaluate.</p>
+          )}
+        </div>
+
+        <div className="p-5 bg-slate-900/60 rounded-xl border border-slate-700/50">
+          <div className="flex items-center justify-between mb-4">
+            <div className="flex items-center gap-2 text-sm font-semibold text-purple-300">
+              <Cloud className="h-4 w-4" />
+              Server dry-run (saved)
+            </div>
+            <button
+              type="button"
+              onClick={run}
+              disabled={!!parsed.error || testPolicy.isPending}
+              className="px-4 py-1.5 bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-500 hover:to-purple-500 disabled:from-slate-700 disabled:to-slate-700 text-white font-bold rounded-lg text-sm flex items-center gap-2"
+            >
+              <Play className="h-4 w-4" />
+              {testPolicy.isPending ? 'Running...' : 'Run'}
+            </button>
+          </div>
+
+          {serverResult ? (
+            <div className="space-y-4 fade-in">
+              {drift.length > 0 ? (
+                <div className="p-3 bg-gradient-to-r from-amber-500/20 to-amber-500/10 border border-amber-500/30 rounded-lg text-sm text-amber-200">
+                  <div className="flex items-center gap-2 font-semibold mb-1">
+                    <AlertTriangle className="h-4 w-4" />
+                    Server and local evaluation disagree
+                  </div>
+                  <ul className="text-xs font-mono space-y-0.5">
+                    {drift.map(d => (
+                      <li key={d.field}>{d.field}: local {String(d.local)} · server {String(d.server)}</li>
+                    ))}
+                  </ul>
+                </div>
+              ) : (
+                <div className="flex items-center gap-2 text-xs text-emerald-300">
+                  <CheckCircle2 className="h-4 w-4" />
+                  Matches local evaluation of the saved policy
+                </div>
+              )}
+              <ResultView result={serverResult} ruleNames={ruleNames} />
+            </div>
+          ) : (
+            <div className="flex items-center gap-2 text-sm text-slate-400">
+              <FlaskConical className="h-4 w-4" />
+              Run to compare with the supervisor.
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,281 @@
+import { useEffect, useState } from 'react';
+import { ArrowDown, ArrowUp, Plus, Trash2 } from 'lucide-react';
+import { orderRules } from '@/lib/policies/evaluate';
+import type { PolicyCondition, PolicyRule } from '@/lib/schemas/api';
+import { cn } from '@/lib/utils/cn';
+
+const OPERATORS: { value: PolicyCondition['operator']; label: string }[] = [
+  { value: 'equals', label: 'equals' },
+  { value: 'contains', label: 'contains' },
+  { value: 'matches', label: 'matches (regex)' },
+  { value: 'gt', label: 'greater than' },
+  { value: 'lt', label: 'less than' },
+  { value: 'in', label: 'in list' },
+  { value: 'not_in', label: 'not in list' },
+];
+
+const ACTIONS: PolicyRule['action'][] = ['allow', 'deny', 'ask', 'autofix'];
+
+const ACTION_STYLES: Record<PolicyRule['action'], string> = {
+  allow: 'border-emerald-500/40',
+  deny: 'border-red-500/40',
+  ask: 'border-amber-500/40',
+  autofix: 'border-blue-500/40',
+};
+
+const inputClass = 'px-3 py-2 bg-slate-900/70 border border-slate-700/60 rounded-lg text-sm text-slate-200 focus:outline-none focus:border-blue-500/60 disabled:opacity-60';
+
+// Turn the text typed into a condition value into the type the operator compares against
+export function parseConditionValue(operator: PolicyCondition['operator'], raw: string): unknown {
+  const trimmed = raw.trim();
+  if (operator === 'in' || operator === 'not_in') {
+    return trimmed ? trimmed.split(',').map(item => parseScalar(item.trim())) : [];
+  }
+  if (operator === 'gt' || operator === 'lt') {
+    const number = Number(trimmed);
+    return trimmed !== '' && !Number.isNaN(number) ? number : trimmed;
+  }
+  if (operator === 'equals') return parseScalar(trimmed);
+  return raw;
+}
+
+function parseScalar(value: string): unknown {
+  if (value === 'true') return true;
+  if (value === 'false') return false;
+  if (value === 'null') return null;
+  if (value !== '' && !Number.isNaN(Number(value))) return Number(value);
+  return value;
+}
+
+export function formatConditionValue(value: unknown): string {
+  if (Array.isArray(value)) return value.map(item => String(item)).join(', ');
+  if (value === undefined) return '';
+  if (typeof value === 'object' && value !== null) return JSON.stringify(value);
+  return String(value);
+}
+
+function ConditionRow({
+  condition,
+  onChange,
+  onRemove,
+  readOnly,
+}: {
+  condition: PolicyCondition;
+  onChange: (condition: PolicyCondition) => void;
+  onRemove: () => void;
+  readOnly?: boolean;
+}) {
+  // Keep the raw text while typing; parse on blur so list separators are not swallowed
+  const [raw, setRaw] = useState(formatConditionValue(condition.value));
+
+  useEffect(() => {
+    setRaw(formatConditionValue(condition.value));
+  }, [condition.value]);
+
+  return (
+    <div className="grid grid-cols-[1fr_auto_1fr_auto] gap-2 items-center">
+      <input
+        value={condition.field}
+        onChange={e => onChange({ ...condition, field: e.target.value })}
+        placeholder="intent.tool"
+        disabled={readOnly}
+        className={cn(inputClass, 'font-mono')}
+      />
+      <select
+        value={condition.operator}
+        onChange={e => {
+          const operator = e.target.value as PolicyCondition['operator'];
+          onChange({ ...condition, operator, value: parseConditionValue(operator, raw) });
+        }}
+        disabled={readOnly}
+        className={inputClass}
+      >
+        {OPERATORS.map(op => <option key={op.value} value={op.value}>{op.label}</option>)}
+      </select>
+      <input
+        value={raw}
+        onChange={e => setRaw(e.target.value)}
+        onBlur={() => onChange({ ...condition, value: parseConditionValue(condition.operator, raw) })}
+        placeholder={condition.operator === 'in' || condition.operator === 'not_in' ? 'a, b, c' : 'value'}
+        disabled={readOnly}
+        className={cn(inputClass, 'font-mono')}
+      />
+      <button
+        type="button"
+        onClick={onRemove}
+        disabled={readOnly}
+        className="p-2 text-slate-500 hover:text-red-400 disabled:opacity-40"
+        aria-label="Remove condition"
+      >
+        <Trash2 className="h-4 w-4" />
+      </button>
+    </div>
+  );
+}
+
+interface RuleBuilderProps {
+  rules: PolicyRule[];
+  onChange: (rules: PolicyRule[]) => void;
+  readOnly?: boolean;
+  // Rule to highlight, e.g. the one that fired in a dry-run
+  highlightedRuleId?: string | null;
+}
+
+/**
+ * Visual editor for policy rules.
+ * Rules are shown in evaluation order: highest priority first, all conditions must hold (AND).
+ */
+export function RuleBuilder({ rules, onChange, readOnly, highlightedRuleId }: RuleBuilderProps) {
+  // Same ordering the evaluator uses, so the editor lists rules in the order they are checked
+  const ordered = orderRules(rules);
+
+  const updateRule = (id: string, patch: Partial<PolicyRule>) =>
+    onChange(rules.map(rule => (rule.id === id ? { ...rule, ...patch } : rule)));
+
+  const removeRule = (id: string) => onChange(rules.filter(rule => rule.id !== id));
+
+  const addRule = () => {
+    const topPriority = ordered.length > 0 ? ordered[0].priority : 0;
+    onChange([
+      ...rules,
+      {
+        id: `rule-${Date.now().toString(36)}`,
+        name: 'New rule',
+        description: '',
+        priority: topPriority + 10,
+        enabled: true,
+        action: 'ask',
+        conditions: [{ field: '', operator: 'equals', value: '' }],
+        parameters: {},
+      },
+    ]);
+  };
+
+  // Moving a rule swaps its priority with its neighbour in evaluation order
+  const moveRule = (index: number, direction: -1 | 1) => {
+    const neighbour = ordered[index + direction];
+    const rule = ordered[index];
+    if (!neighbour) return;
+
+    const rulePriority = rule.priority === neighbour.priority ? rule.priority - direction : neighbour.priority;
+    onChange(rules.map(r => {
+      if (r.id === rule.id) return { ...r, priority: rulePriority };
+      if (r.id === neighbour.id) return { ...r, priority: rule.priority };
+      return r;
+    }));
+  };
+
+  const updateCondition = (rule: PolicyRule, index: number, condition: PolicyCondition) =>
+    updateRule(rule.id, { conditions: rule.conditions.map((c, i) => (i === index ? condition : c)) });
+
+  return (
+    <div className="space-y-4">
+      {ordered.length === 0 && (
+        <div className="text-slate-400 text-sm p-4 bg-slate-900/50 rounded-lg border border-slate-700/50">
+          This policy has no rules.
+        </div>
+      )}
+
+      {ordered.map((rule, index) => (
+        <div
+          key={rule.id}
+          className={cn(
+            'p-5 bg-slate-900/60 rounded-xl border-2 transition-all',
+            ACTION_STYLES[rule.action],
+            !rule.enabled && 'opacity-60',
+            highlightedRuleId === rule.id && 'ring-2 ring-blue-400 shadow-lg shadow-blue-500/20'
+          )}
+        >
+          <div className="flex flex-col lg:flex-row lg:items-center gap-3 mb-4">
+            <div className="flex items-center gap-1">
+              <button type="button" onClick={() => moveRule(index, -1)} disabled={readOnly || index === 0} className="p-1 text-slate-400 hover:text-white disabled:opacity-30" aria-label="Move up">
+                <ArrowUp className="h-4 w-4" />
+              </button>
+              <button type="button" onClick={() => moveRule(index, 1)} disabled={readOnly || index === ordered.length - 1} className="p-1 text-slate-400 hover:text-white disabled:opacity-30" aria-label="Move down">
+                <ArrowDown className="h-4 w-4" />
+              </button>
+            </div>
+            <input
+              value={rule.name}
+              onChange={e => updateRule(rule.id, { name: e.target.value })}
+              disabled={readOnly}
+              className={cn(inputClass, 'flex-1 font-semibold')}
+            />
+            <label className="flex items-center gap-2 text-xs text-slate-400">
+              Priority
+              <input
+                type="number"
+                value={rule.priority}
+                onChange={e => updateRule(rule.id, { priority: Number.isNaN(e.target.valueAsNumber) ? 0 : e.target.valueAsNumber })}
+                disabled={readOnly}
+                className={cn(inputClass, 'w-24')}
+              />
+            </label>
+            <select
+              value={rule.action}
+              onChange={e => updateRule(rule.id, { action: e.target.value as PolicyRule['action'] })}
+              disabled={readOnly}
+              className={inputClass}
+            >
+              {ACTIONS.map(action => <option key={action} value={action}>{action.toUpperCase()}</option>)}
+            </select>
+            <label className="flex items-center gap-2 text-sm text-slate-300">
+              <input
+                type="checkbox"
+                checked={rule.enabled}
+                onChange={e => updateRule(rule.id, { enabled: e.target.checked })}
+                disabled={readOnly}
+              />
+              Enabled
+            </label>
+            <button type="button" onClick={() => removeRule(rule.id)} disabled={readOnly} className="p-2 text-slate-500 hover:text-red-400 disabled:opacity-40" aria-label="Remove rule">
+              <Trash2 className="h-4 w-4" />
+            </button>
+          </div>
+
+          <input
+            value={rule.description}
+            onChange={e => updateRule(rule.id, { description: e.target.value })}
+            placeholder="Description"
+            disabled={readOnly}
+            className={cn(inputClass, 'w-full mb-4')}
+          />
+
+          <div className="text-xs text-slate-400 uppercase tracking-wider mb-2">When all of</div>
+          <div className="space-y-2">
+            {rule.conditions.map((condition, conditionIndex) => (
+              <ConditionRow
+                key={conditionIndex}
+                condition={condition}
+                readOnly={readOnly}
+                onChange={c => updateCondition(rule, conditionIndex, c)}
+                onRemove={() => updateRule(rule.id, { conditions: rule.conditions.filter((_, i) => i !== conditionIndex) })}
+              />
+            ))}
+          </div>
+          {!readOnly && (
+            <button
+              type="button"
+              onClick={() => updateRule(rule.id, { conditions: [...rule.conditions, { field: '', operator: 'equals', value: '' }] })}
+              className="mt-3 text-sm text-blue-300 hover:text-blue-200 flex items-center gap-1"
+            >
+              <Plus className="h-4 w-4" />
+              Add condition
+            </button>
+          )}
+        </div>
+      ))}
+
+      {!readOnly && (
+        <button
+          type="button"
+          onClick={addRule}
+          className="w-full p-4 rounded-xl border-2 border-dashed border-slate-600/60 text-slate-300 hover:border-blue-500/60 hover:text-blue-200 flex items-center justify-center gap-2 text-sm font-semibold"
+        >
+          <Plus className="h-4 w-4" />
+          Add rule
+        </button>
+      )}
+    </div>
+  );
+}
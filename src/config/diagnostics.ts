@@ -0,0 +1,31 @@
+import type { CustomDiagnosticRule } from '@/lib/diagnostics/rules';
+import declarativeRules from './diagnostics.rules.json';
+
+/**
+ * Team-specific diagnostic rules, checked on the status page next to the built-in ones.
+ *
+ * Declarative rules go in diagnostics.rules.json, e.g.
+ *
+ *   {
+ *     "id": "llm-gateway-degraded",
+ *     "input": "plugins",
+ *     "conditions": [
+ *       { "field": "name", "operator": "equals", "value": "llm-gateway" },
+ *       { "field": "status", "operator": "equals", "value": "degraded" }
+ *     ],
+ *     "problem": { "severity": "warning", "title": "{{name}} is degraded", "description": "LLM calls may fail or be slow." }
+ *   }
+ *
+ *   {
+ *     "id": "slow-ready",
+ *     "input": "ready",
+ *     "conditions": [{ "field": "latency", "operator": "gt", "value": 2000 }],
+ *     "problem": { "severity": "critical", "title": "Readiness check took {{latency}}ms", "description": "..." }
+ *   }
+ *
+ * Rules that need code are added below as `DiagnosticRule` objects (see `defineRule` in
+ * src/lib/diagnostics/problems.ts). A rule with the id of a built-in replaces it.
+ */
+export const customDiagnosticRules: CustomDiagnosticRule[] = [
+  ...(declarativeRules as CustomDiagnosticRule[]),
+];
@@ -0,0 +1,11 @@
+/**
+ * Next.js server startup hook. Starts the scheduled diagnostics when webhooks are configured;
+ * see src/lib/diagnostics/scheduler.ts.
+ */
+export async function register() {
+  // Node only: the edge runtime has no timers that outlive a request, nor crypto HMAC
+  if (process.env.NEXT_RUNTIME === 'nodejs' && process.env.DIAGNOSTICS_WEBHOOKS) {
+    const { startDiagnosticsScheduler } = await import('./lib/diagnostics/scheduler');
+    startDiagnosticsScheduler();
+  }
+}
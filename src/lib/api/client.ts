@@ -1,9 +1,12 @@
-import { QueryClient, QueryFunction, useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { QueryClient, QueryFunction, useInfiniteQuery, useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { toast } from 'sonner';
 import { z } from 'zod';
+import { useEffect, useState } from 'react';
 
 // Import all schemas
 import {
+  AuthSessionResponseSchema,
+  AuthSessionSchema,
   OverviewResponseSchema,
   OrchestrationsResponseSchema,
   OrchestrationResponseSchema,
@@ -12,29 +15,70 @@ import {
   AgentProfileSchema,
   PoliciesResponseSchema,
   PolicyResponseSchema,
+  PolicyTestResponseSchema,
+  PolicyVersionsResponseSchema,
   MemoryResponseSchema,
+  MemorySearchResponseSchema,
   PluginsResponseSchema,
   PluginSchema,
   AuditResponseSchema,
+  ComplianceExportResponseSchema,
+  ApprovalsResponseSchema,
+  ApprovalResponseSchema,
   SettingsResponseSchema,
   WebSocketEventSchema,
   ApiResponseSchema,
   ApiResponse,
+  type AuthSession,
   type OverviewStats,
   type Orchestration,
   type AgentProfile,
+  type AgentInput,
   type Policy,
+  type PolicyTestResult,
+  type PolicyVersion,
   type Memory,
+  type MemorySearchResult,
   type Plugin,
   type AuditEntry,
+  type ComplianceExport,
+  type ApprovalRequest,
+  type ApprovalDecision,
   type WebSocketEvent,
 } from '@/lib/schemas/api';
+import { ContractMonitor, schemaName, type ContractViolation } from './contract';
+import { VALIDATION_MODES, lenientParse, type ValidationMode } from './validation';
+import {
+  NetworkError,
+  TimeoutError,
+  ValidationError,
+  describeApiError,
+  errorFromResponse,
+} from './errors';
+import {
+  CircuitBreakerRegistry,
+  IDEMPOTENT_METHODS,
+  RETRYABLE_STATUSES,
+  backoffDelay,
+  endpointKey,
+  parseRetryAfter,
+  sleep,
+  type CircuitBreakerOptions,
+  type CircuitSnapshot,
+} from './resilience';
 
 // Configuration
 interface ApiConfig {
   baseUrl: string;
   timeout: number;
   retries: number;
+  // Backoff for the first retry; doubles per attempt up to retryMaxDelay
+  retryBaseDelay: number;
+  // Also the longest Retry-After we are willing to wait - longer ones fail immediately
+  retryMaxDelay: number;
+  circuitBreaker: CircuitBreakerOptions;
+  // How response schema mismatches are handled - see lib/api/validation
+  validation: ValidationMode;
   headers: Record<string, string>;
 }
 
@@ -47,22 +91,46 @@ const getBaseUrl = (): string => {
   return envUrl.replace(/\/$/, '').replace(/\/api$/, '');
 };
 
+const getValidationMode = (): ValidationMode => {
+  // @ts-ignore - Next.js makes NEXT_PUBLIC_* available in browser
+  const envMode = process.env.NEXT_PUBLIC_API_VALIDATION_MODE as ValidationMode | undefined;
+  return envMode && VALIDATION_MODES.includes(envMode) ? envMode : 'strict';
+};
+
 // Default configuration
 const DEFAULT_CONFIG: ApiConfig = {
   baseUrl: `${getBaseUrl()}/api`, // API endpoints are under /api
   timeout: 8000, // Reduced from 10s to 8s (health checks should be fast with caching)
   retries: 2, // Reduced retries for faster failure detection
+  retryBaseDelay: 300,
+  retryMaxDelay: 5000,
+  circuitBreaker: {
+    failureThreshold: 5,
+    resetTimeout: 30000,
+  },
+  validation: getValidationMode(),
   headers: {
     'Content-Type': 'application/json',
   },
 };
 
+const TOKEN_STORAGE_KEY = 'ai-execution-token';
+const SESSION_STORAGE_KEY = 'ai-execution-session';
+
+type UnauthorizedListener = (url: string) => void;
+type AuthTokenListener = (token: string | null) => void;
+
 class UltraSecureApiClient {
   private config: ApiConfig;
   private authToken: string | null = null;
+  private unauthorizedListeners = new Set<UnauthorizedListener>();
+  private authTokenListeners = new Set<AuthTokenListener>();
+  private circuits: CircuitBreakerRegistry;
+  private contracts = new ContractMonitor();
 
   constructor(config: Partial<ApiConfig> = {}) {
     this.config = { ...DEFAULT_CONFIG, ...config };
+    this.circuits = new CircuitBreakerRegistry(this.config.circuitBreaker);
     this.loadTokenFromStorage();
   }
 
@@ -70,27 +138,77 @@ class UltraSecureApiClient {
   private loadTokenFromStorage(): void {
     if (typeof window === 'undefined') return;
 
-    const token = sessionStorage.getItem('ai-execution-token');
+    const token = sessionStorage.getItem(TOKEN_STORAGE_KEY);
     if (token) {
       this.setAuthToken(token);
     }
   }
 
   public setAuthToken(token: string): void {
+    const changed = token !== this.authToken;
     this.authToken = token;
     
     if (typeof window !== 'undefined') {
       // Store in sessionStorage for security (not localStorage)
-      sessionStorage.setItem('ai-execution-token', token);
+      sessionStorage.setItem(TOKEN_STORAGE_KEY, token);
     }
+
+    if (changed) this.authTokenListeners.forEach(listener => listener(token));
   }
 
   public clearAuthToken(): void {
+    const changed = this.authToken !== null;
     this.authToken = null;
     
     if (typeof window !== 'undefined') {
-      sessionStorage.removeItem('ai-execution-token');
+      sessionStorage.removeItem(TOKEN_STORAGE_KEY);
+      sessionStorage.removeItem(SESSION_STORAGE_KEY);
     }
+
+    if (changed) this.authTokenListeners.forEach(listener => listener(null));
+  }
+
+  // Session details (user, expiry) are kept next to the token so a reload stays signed in
+  public getStoredSession(): AuthSession | null {
+    if (typeof window === 'undefined') return null;
+
+    const stored = sessionStorage.getItem(SESSION_STORAGE_KEY);
+    if (!stored) return null;
+
+    try {
+      const parsed = AuthSessionSchema.safeParse(JSON.parse(stored));
+      return parsed.success ? parsed.data : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private storeSession(session: AuthSession): void {
+    this.setAuthToken(session.token);
+
+    if (typeof window !== 'undefined') {
+      sessionStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(session));
+    }
+  }
+
+  // Called with the request URL whenever an authenticated endpoint answers 401
+  public onUnauthorized(listener: UnauthorizedListener): () => void {
+    this.unauthorizedListeners.add(listener);
+    return () => {
+      this.unauthorizedListeners.delete(listener);
+    };
+  }
+
+  public getAuthToken(): string | null {
+    return this.authToken;
+  }
+
+  // Called after sign-in, token refresh and sign-out, for connections that authenticate once
+  public onAuthTokenChange(listener: AuthTokenListener): () => void {
+    this.authTokenListeners.add(listener);
+    return () => {
+      this.authTokenListeners.delete(listener);
+    };
   }
 
   private getHeaders(additionalHeaders: Record<string, string> = {}): Record<string, string> {
@@ -106,56 +224,157 @@ class UltraSecureApiClient {
     return headers;
   }
 
-  // Ultra-secure fetch with timeout and retries
-  private async ultraSecureFetch<T>(
-    url: string,
-    options: RequestInit = {},
-    schema: any // Zod schema for response validation
-  ): Promise<T> {
+  // Circuit breaker state per endpoint, for the diagnostics page
+  public getCircuits(): CircuitSnapshot[] {
+    return this.circuits.snapshot();
+  }
+
+  public onCircuitChange(listener: (circuits: CircuitSnapshot[]) => void): () => void {
+    return this.circuits.subscribe(listener);
+  }
+
+  public getValidationMode(): ValidationMode {
+    return this.config.validation;
+  }
+
+  public setValidationMode(mode: ValidationMode): void {
+    this.config.validation = mode;
+  }
+
+  // Responses that failed schema validation, deduplicated - see ContractMonitor
+  public getContractViolations(): ContractViolation[] {
+    return this.contracts.list();
+  }
+
+  public onContractViolation(listener: (violations: ContractViolation[]) => void): () => void {
+    return this.contracts.subscribe(listener);
+  }
+
+  public clearContractViolations(): void {
+    this.contracts.clear();
+  }
+
+  // Single attempt with timeout; aborts surface as a timeout error
+  private async fetchWithTimeout(url: string, options: RequestInit): Promise<Response> {
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), this.config.timeout);
 
     try {
-      const response = await fetch(url, {
+      return await fetch(url, {
         ...options,
         headers: this.getHeaders(options.headers as Record<string, string>),
         signal: controller.signal,
       });
-
+    } catch (error) {
+      if (error instanceof Error && error.name === 'AbortError') {
+        throw new TimeoutError(url, this.config.timeout);
+      }
+      throw new NetworkError(url, error);
+    } finally {
       clearTimeout(timeoutId);
+    }
+  }
+
+  // Ultra-secure fetch with timeout and retries
+  private async ultraSecureFetch<T>(
+    url: string,
+    options: RequestInit = {},
+    schema: any // Zod schema for response validation
+  ): Promise<T> {
+    const method = (options.method ?? 'GET').toUpperCase();
+    // Only idempotent requests are safe to send twice
+    const maxRetries = IDEMPOTENT_METHODS.has(method) ? this.config.retries : 0;
+    const breaker = this.circuits.get(endpointKey(method, url));
+    const backoff = (attempt: number) => backoffDelay(attempt, this.config.retryBaseDelay, this.config.retryMaxDelay);
+
+    for (let attempt = 0; ; attempt++) {
+      // Fails fast with CircuitOpenError while the endpoint is known to be down
+      breaker.acquire();
+
+      let response: Response;
+      try {
+        response = await this.fetchWithTimeout(url, options);
+      } catch (error) {
+        // Network failure or timeout - the endpoint never answered
+        breaker.recordFailure((error as Error).message);
+        this.circuits.notify();
+        if (attempt < maxRetries && !breaker.isOpen) {
+          await sleep(backoff(attempt));
+          continue;
+        }
+        throw error;
+      }
 
       if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+        // A bad password on the auth endpoints is not an expired session
+        if (response.status === 401 && !url.startsWith(`${this.config.baseUrl}/auth/`)) {
+          this.unauthorizedListeners.forEach(listener => listener(url));
+        }
+
+        if (response.status >= 500) {
+          breaker.recordFailure(`HTTP ${response.status}`);
+          this.circuits.notify();
+        } else if (response.status === 429) {
+          // Rate limited: the endpoint is up, just busy
+          breaker.release();
+        } else if (breaker.recordSuccess()) {
+          this.circuits.notify();
+        }
+
+        if (attempt < maxRetries && RETRYABLE_STATUSES.has(response.status) && !breaker.isOpen) {
+          const retryAfter = response.status === 429 || response.status === 503
+            ? parseRetryAfter(response.headers.get('Retry-After'))
+            : null;
+          // Waiting longer than retryMaxDelay would hang the page - give up instead
+          if (retryAfter === null || retryAfter <= this.config.retryMaxDelay) {
+            await sleep(retryAfter ?? backoff(attempt));
+            continue;
+          }
+        }
+
+        throw await errorFromResponse(url, response);
       }
 
+      if (breaker.recordSuccess()) this.circuits.notify();
+
       // Parse response as text first
       const responseText = await response.text();
-      
-      try {
-        const jsonData = JSON.parse(responseText);
-        
-        // CRITICAL: Validate response with Zod schema
-        const validatedData = schema.parse(jsonData);
-        
-        return validatedData as T;
-      } catch (validationError) {
-        console.error('API Response Validation Failed:', {
-          url,
+
+      const contractFailure = (payload: unknown, issues: ValidationError['issues']) => {
+        this.contracts.record({
+          endpoint: breaker.endpoint,
+          schemaName: schemaName(schema),
           status: response.status,
-          response: responseText,
-          validationError,
+          issues,
+          payload,
+          rawBody: responseText,
         });
-        
-        throw new Error(`Invalid API response format: ${validationError}`);
-      }
-    } catch (error) {
-      clearTimeout(timeoutId);
-      
-      if (error instanceof Error && error.name === 'AbortError') {
-        throw new Error(`Request timeout after ${this.config.timeout}ms`);
+        return new ValidationError(url, response.status, issues, responseText);
+      };
+
+      let jsonData: unknown;
+      try {
+        jsonData = JSON.parse(responseText);
+      } catch {
+        throw contractFailure(undefined, []);
       }
-      
-      throw error;
+
+      if (this.config.validation === 'off') return jsonData as T;
+
+      // CRITICAL: Validate response with Zod schema
+      const result = schema.safeParse(jsonData);
+      if (result.success) return result.data as T;
+
+      // The drift is recorded even when lenient mode can repair the response
+      const validationError = contractFailure(jsonData, result.error.issues);
+      if (this.config.validation === 'strict') throw validationError;
+
+      const repaired = lenientParse(schema, jsonData);
+      if (!repaired.success) throw validationError;
+
+      // Warnings ride along on the envelope so pages can say what was left out
+      const data = repaired.data as T;
+      return (data && typeof data === 'object' ? { ...data, warnings: repaired.warnings } : data) as T;
     }
   }
 
@@ -164,6 +383,15 @@ class UltraSecureApiClient {
     return this.config.baseUrl.replace(/\/api$/, '');
   }
 
+  // Get WebSocket URL for the live event stream
+  public getWebSocketUrl(): string {
+    // @ts-ignore - Next.js makes NEXT_PUBLIC_* available in browser
+    const envUrl = process.env.NEXT_PUBLIC_WS_URL;
+    if (envUrl) return envUrl.replace(/\/$/, '');
+
+    return `${this.getRootUrl().replace(/^http/, 'ws')}/ws`;
+  }
+
   // Health Check with CORS diagnostics and timeout
   public async healthCheck(): Promise<{ status: 'healthy' | 'unhealthy' | 'error'; cors: boolean; timestamp: string; data?: any; latency?: number }> {
     const startTime = Date.now();
@@ -288,6 +516,21 @@ class UltraSecureApiClient {
     }
   }
 
+  // Raw Prometheus exposition from /metrics; parse with parsePrometheus
+  public async getMetrics(): Promise<string> {
+    const rootUrl = this.getRootUrl();
+    const response = await fetch(`${rootUrl}/metrics`, {
+      method: 'GET',
+      headers: this.getHeaders({ Accept: 'text/plain' }),
+    });
+
+    if (!response.ok) {
+      throw await errorFromResponse(`${rootUrl}/metrics`, response);
+    }
+
+    return response.text();
+  }
+
   // Check plugins endpoint
   public async checkPlugins(): Promise<{ status: 'available' | 'error'; plugins?: any[]; timestamp: string }> {
     try {
@@ -315,7 +558,7 @@ class UltraSecureApiClient {
       });
 
       if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+        throw await errorFromResponse(`${rootUrl}/`, response);
       }
 
       const data = await response.json();
@@ -347,12 +590,22 @@ class UltraSecureApiClient {
   // Orchestration endpoints
   public async getOrchestrations(params: {
     status?: string;
+    agentId?: string;
+    startDate?: string;
+    endDate?: string;
+    sortBy?: 'createdAt' | 'cost' | 'duration' | 'progress';
+    sortOrder?: 'asc' | 'desc';
     limit?: number;
     offset?: number;
   } = {}): Promise<ApiResponse<{ orchestrations: Orchestration[]; pagination: any }>> {
     const searchParams = new URLSearchParams();
     
     if (params.status) searchParams.append('status', params.status);
+    if (params.agentId) searchParams.append('agentId', params.agentId);
+    if (params.startDate) searchParams.append('startDate', params.startDate);
+    if (params.endDate) searchParams.append('endDate', params.endDate);
+    if (params.sortBy) searchParams.append('sortBy', params.sortBy);
+    if (params.sortOrder) searchParams.append('sortOrder', params.sortOrder);
     if (params.limit) searchParams.append('limit', params.limit.toString());
     if (params.offset) searchParams.append('offset', params.offset.toString());
 
@@ -448,6 +701,7 @@ class UltraSecureApiClient {
     behaviorPreset?: string;
     capabilities?: string[];
     permissions?: string[];
+    riskProfile?: AgentInput['riskProfile'];
   }): Promise<ApiResponse<AgentProfile>> {
     return this.ultraSecureFetch<ApiResponse<AgentProfile>>(
       `${this.config.baseUrl}/agents`,
@@ -459,6 +713,17 @@ class UltraSecureApiClient {
     );
   }
 
+  public async updateAgent(id: string, updates: Partial<AgentInput>): Promise<ApiResponse<AgentProfile>> {
+    return this.ultraSecureFetch<ApiResponse<AgentProfile>>(
+      `${this.config.baseUrl}/agents/${id}`,
+      {
+        method: 'PATCH',
+        body: JSON.stringify(updates),
+      },
+      AgentResponseSchema
+    );
+  }
+
   public async cloneAgent(
     id: string,
     data: {
@@ -496,17 +761,73 @@ class UltraSecureApiClient {
     );
   }
 
+  public async updatePolicy(
+    id: string,
+    updates: Partial<Pick<Policy, 'name' | 'description' | 'status' | 'priority' | 'rules'>>
+  ): Promise<ApiResponse<Policy>> {
+    return this.ultraSecureFetch<ApiResponse<Policy>>(
+      `${this.config.baseUrl}/policies/${id}`,
+      {
+        method: 'PATCH',
+        body: JSON.stringify(updates),
+      },
+      PolicyResponseSchema
+    );
+  }
+
+  public async getPolicyVersions(id: string): Promise<ApiResponse<{ versions: PolicyVersion[] }>> {
+    return this.ultraSecureFetch<ApiResponse<{ versions: PolicyVersion[] }>>(
+      `${this.config.baseUrl}/policies/${id}/versions`,
+      { method: 'GET' },
+      PolicyVersionsResponseSchema
+    );
+  }
+
   public async testPolicy(id: string, data: {
     intent: Record<string, any>;
     context?: Record<string, any>;
-  }): Promise<ApiResponse<any>> {
-    return this.ultraSecureFetch<ApiResponse<any>>(
+  }): Promise<ApiResponse<PolicyTestResult>> {
+    return this.ultraSecureFetch<ApiResponse<PolicyTestResult>>(
       `${this.config.baseUrl}/policies/${id}/test`,
       {
         method: 'POST',
         body: JSON.stringify(data),
       },
-      ApiResponseSchema(z.any())
+      PolicyTestResponseSchema
+    );
+  }
+
+  // Approval endpoints
+  public async getApprovals(params: {
+    status?: 'pending' | 'approved' | 'rejected';
+    orchestrationId?: string;
+    limit?: number;
+    offset?: number;
+  } = {}): Promise<ApiResponse<{ approvals: ApprovalRequest[]; pagination: any }>> {
+    const searchParams = new URLSearchParams();
+    
+    if (params.status) searchParams.append('status', params.status);
+    if (params.orchestrationId) searchParams.append('orchestrationId', params.orchestrationId);
+    if (params.limit) searchParams.append('limit', params.limit.toString());
+    if (params.offset) searchParams.append('offset', params.offset.toString());
+
+    const url = `${this.config.baseUrl}/approvals${searchParams.toString() ? `?${searchParams}` : ''}`;
+    
+    return this.ultraSecureFetch<ApiResponse<{ approvals: ApprovalRequest[]; pagination: any }>>(
+      url,
+      { method: 'GET' },
+      ApprovalsResponseSchema
+    );
+  }
+
+  public async decideApproval(id: string, data: ApprovalDecision): Promise<ApiResponse<ApprovalRequest>> {
+    return this.ultraSecureFetch<ApiResponse<ApprovalRequest>>(
+      `${this.config.baseUrl}/approvals/${id}/decision`,
+      {
+        method: 'POST',
+        body: JSON.stringify(data),
+      },
+      ApprovalResponseSchema
     );
   }
 
@@ -539,16 +860,20 @@ class UltraSecureApiClient {
 
   public async searchMemory(data: {
     query: string;
-    filters?: Record<string, any>;
+    filters?: {
+      type?: Memory['type'];
+      tags?: string[];
+      minImportance?: number;
+    };
     limit?: number;
-  }): Promise<ApiResponse<any>> {
-    return this.ultraSecureFetch<ApiResponse<any>>(
+  }): Promise<ApiResponse<MemorySearchResult>> {
+    return this.ultraSecureFetch<ApiResponse<MemorySearchResult>>(
       `${this.config.baseUrl}/memory/search`,
       {
         method: 'POST',
         body: JSON.stringify(data),
       },
-      ApiResponseSchema(z.any())
+      MemorySearchResponseSchema
     );
   }
 
@@ -571,6 +896,8 @@ class UltraSecureApiClient {
 
   // Audit endpoints
   public async getAudit(params: {
+    type?: string;
+    level?: AuditEntry['level'];
     startDate?: string;
     endDate?: string;
     agentId?: string;
@@ -580,6 +907,8 @@ class UltraSecureApiClient {
   } = {}): Promise<ApiResponse<{ entries: AuditEntry[]; pagination: any }>> {
     const searchParams = new URLSearchParams();
     
+    if (params.type) searchParams.append('type', params.type);
+    if (params.level) searchParams.append('level', params.level);
     if (params.startDate) searchParams.append('startDate', params.startDate);
     if (params.endDate) searchParams.append('endDate', params.endDate);
     if (params.agentId) searchParams.append('agentId', params.agentId);
@@ -598,23 +927,82 @@ class UltraSecureApiClient {
 
   public async exportAudit(params: {
     format?: 'json' | 'csv';
+    type?: string;
+    level?: AuditEntry['level'];
     startDate?: string;
     endDate?: string;
-  } = {}): Promise<Response> {
+    agentId?: string;
+    orchestrationId?: string;
+  } = {}, signal?: AbortSignal): Promise<Response> {
     const searchParams = new URLSearchParams();
     
     if (params.format) searchParams.append('format', params.format);
+    if (params.type) searchParams.append('type', params.type);
+    if (params.level) searchParams.append('level', params.level);
     if (params.startDate) searchParams.append('startDate', params.startDate);
     if (params.endDate) searchParams.append('endDate', params.endDate);
+    if (params.agentId) searchParams.append('agentId', params.agentId);
+    if (params.orchestrationId) searchParams.append('orchestrationId', params.orchestrationId);
 
     const url = `${this.config.baseUrl}/audit/export?${searchParams}`;
     
     return fetch(url, {
       method: 'GET',
       headers: this.getHeaders(),
+      signal,
     });
   }
 
+  // Read an audit export chunk by chunk; `total` is null when the server does not send Content-Length
+  public async streamAuditExport(
+    params: Parameters<UltraSecureApiClient['exportAudit']>[0],
+    onProgress?: (progress: { received: number; total: number | null }) => void,
+    signal?: AbortSignal
+  ): Promise<Blob> {
+    const response = await this.exportAudit(params, signal);
+
+    if (!response.ok) {
+      throw await errorFromResponse(response.url, response);
+    }
+
+    const contentLength = Number(response.headers.get('Content-Length'));
+    const total = Number.isFinite(contentLength) && contentLength > 0 ? contentLength : null;
+    const type = response.headers.get('Content-Type') ?? (params?.format === 'csv' ? 'text/csv' : 'application/json');
+
+    if (!response.body) {
+      const blob = await response.blob();
+      onProgress?.({ received: blob.size, total: blob.size });
+      return blob;
+    }
+
+    const reader = response.body.getReader();
+    const chunks: BlobPart[] = [];
+    let received = 0;
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      chunks.push(value);
+      received += value.length;
+      onProgress?.({ received, total });
+    }
+
+    return new Blob(chunks, { type });
+  }
+
+  // Compliance endpoints
+  // Only the export envelope is validated here; the report payload is verified separately so issues can be shown
+  public async requestComplianceReport(dateRange: { start: string; end: string }): Promise<ApiResponse<ComplianceExport>> {
+    return this.ultraSecureFetch<ApiResponse<ComplianceExport>>(
+      `${this.config.baseUrl}/compliance/reports`,
+      {
+        method: 'POST',
+        body: JSON.stringify({ type: 'compliance_report', format: 'json', dateRange }),
+      },
+      ComplianceExportResponseSchema
+    );
+  }
+
   // Settings endpoints
   public async getSettings(): Promise<ApiResponse<Record<string, any>>> {
     return this.ultraSecureFetch<ApiResponse<Record<string, any>>>(
@@ -643,6 +1031,42 @@ class UltraSecureApiClient {
     });
   }
 
+  // Auth endpoints
+  public async login(credentials: { email: string; password: string }): Promise<ApiResponse<AuthSession>> {
+    const response = await this.ultraSecureFetch<ApiResponse<AuthSession>>(
+      `${this.config.baseUrl}/auth/login`,
+      {
+        method: 'POST',
+        body: JSON.stringify(credentials),
+      },
+      AuthSessionResponseSchema
+    );
+    this.storeSession(response.data);
+    return response;
+  }
+
+  public async refreshSession(): Promise<ApiResponse<AuthSession>> {
+    const response = await this.ultraSecureFetch<ApiResponse<AuthSession>>(
+      `${this.config.baseUrl}/auth/refresh`,
+      { method: 'POST' },
+      AuthSessionResponseSchema
+    );
+    this.storeSession(response.data);
+    return response;
+  }
+
+  public async logout(): Promise<void> {
+    try {
+      await fetch(`${this.config.baseUrl}/auth/logout`, {
+        method: 'POST',
+        headers: this.getHeaders(),
+      });
+    } finally {
+      // Signing out locally must not depend on the server being reachable
+      this.clearAuthToken();
+    }
+  }
+
   // Get current user (if available)
   public async getCurrentUser(): Promise<ApiResponse<any>> {
     return this.ultraSecureFetch<ApiResponse<any>>(
@@ -706,6 +1130,22 @@ export function usePolicies() {
   });
 }
 
+export function usePolicy(id: string) {
+  return useQuery({
+    queryKey: ['policy', id],
+    queryFn: () => ultraSecureApiClient.getPolicy(id),
+    enabled: !!id,
+  });
+}
+
+export function usePolicyVersions(id: string) {
+  return useQuery({
+    queryKey: ['policy', id, 'versions'],
+    queryFn: () => ultraSecureApiClient.getPolicyVersions(id),
+    enabled: !!id,
+  });
+}
+
 export function useMemory(params?: Parameters<typeof ultraSecureApiClient.getMemory>[0]) {
   return useQuery({
     queryKey: ['memory', params],
@@ -713,6 +1153,14 @@ export function useMemory(params?: Parameters<typeof ultraSecureApiClient.getMem
   });
 }
 
+export function useMemorySearch(params: Parameters<typeof ultraSecureApiClient.searchMemory>[0]) {
+  return useQuery({
+    queryKey: ['memory', 'search', params],
+    queryFn: () => ultraSecureApiClient.searchMemory(params),
+    enabled: params.query.trim().length > 0,
+  });
+}
+
 export function usePlugins() {
   return useQuery({
     queryKey: ['plugins'],
@@ -727,6 +1175,37 @@ export function useAudit(params?: Parameters<typeof ultraSecureApiClient.getAudi
   });
 }
 
+export function useInfiniteAudit(params: Omit<NonNullable<Parameters<typeof ultraSecureApiClient.getAudit>[0]>, 'offset'> = {}) {
+  const limit = params.limit ?? 50;
+
+  return useInfiniteQuery({
+    queryKey: ['audit', 'infinite', params],
+    queryFn: ({ pageParam }) => ultraSecureApiClient.getAudit({ ...params, limit, offset: pageParam }),
+    initialPageParam: 0,
+    getNextPageParam: (lastPage) => {
+      const { pagination } = lastPage.data;
+      return pagination.hasMore ? pagination.offset + pagination.limit : undefined;
+    },
+  });
+}
+
+export function useApprovals(params?: Parameters<typeof ultraSecureApiClient.getApprovals>[0]) {
+  return useQuery({
+    queryKey: ['approvals', params],
+    queryFn: () => ultraSecureApiClient.getApprovals(params),
+    refetchInterval: 10000, // Pending gates stall runs - keep the inbox fresh
+  });
+}
+
+export function useMetrics(refetchInterval = 15000) {
+  return useQuery({
+    queryKey: ['metrics'],
+    queryFn: () => ultraSecureApiClient.getMetrics(),
+    refetchInterval,
+    retry: false, // Optional endpoint - a missing exporter should not be hammered
+  });
+}
+
 export function useSettings() {
   return useQuery({
     queryKey: ['settings'],
@@ -734,19 +1213,44 @@ export function useSettings() {
   });
 }
 
+// Live circuit breaker state - not a query, the client pushes changes as they happen
+export function useCircuitBreakers(): CircuitSnapshot[] {
+  const [circuits, setCircuits] = useState<CircuitSnapshot[]>(() => ultraSecureApiClient.getCircuits());
+
+  useEffect(() => {
+    setCircuits(ultraSecureApiClient.getCircuits());
+    return ultraSecureApiClient.onCircuitChange(setCircuits);
+  }, []);
+
+  return circuits;
+}
+
+// Live contract drift, pushed by the client whenever a response fails validation
+export function useContractViolations(): ContractViolation[] {
+  const [violations, setViolations] = useState<ContractViolation[]>(() => ultraSecureApiClient.getContractViolations());
+
+  useEffect(() => {
+    setViolations(ultraSecureApiClient.getContractViolations());
+    return ultraSecureApiClient.onContractViolation(setViolations);
+  }, []);
+
+  return violations;
+}
+
 // Mutation hooks
 export function useCreateOrchestration() {
   const queryClient = useQueryClient();
   
   return useMutation({
-    mutationFn: ultraSecureApiClient.createOrchestration,
+    mutationFn: (data: Parameters<typeof ultraSecureApiClient.createOrchestration>[0]) =>
+      ultraSecureApiClient.createOrchestration(data),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['orchestrations'] });
       queryClient.invalidateQueries({ queryKey: ['overview'] });
       toast.success('Orchestration created successfully');
     },
     onError: (error) => {
-      toast.error(`Failed to create orchestration: ${error.message}`);
+      toast.error(`Failed to create orchestration: ${describeApiError(error)}`);
     },
   });
 }
@@ -764,7 +1268,62 @@ export function useUpdateOrchestration() {
       toast.success('Orchestration updated successfully');
     },
     onError: (error) => {
-      toast.error(`Failed to update orchestration: ${error.message}`);
+      toast.error(`Failed to update orchestration: ${describeApiError(error)}`);
+    },
+  });
+}
+
+export function useDecideApproval() {
+  const queryClient = useQueryClient();
+  
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: ApprovalDecision }) =>
+      ultraSecureApiClient.decideApproval(id, data),
+    onSuccess: (response, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['approvals'] });
+      queryClient.invalidateQueries({ queryKey: ['audit'] });
+      queryClient.invalidateQueries({ queryKey: ['orchestrations'] });
+      queryClient.invalidateQueries({ queryKey: ['orchestration', response.data.orchestrationId] });
+      toast.success(variables.data.decision === 'approve' ? 'Step approved' : 'Step rejected');
+    },
+    onError: (error) => {
+      toast.error(`Failed to record decision: ${describeApiError(error)}`);
+    },
+  });
+}
+
+export function useUpdatePolicy() {
+  const queryClient = useQueryClient();
+  
+  return useMutation({
+    mutationFn: ({ id, updates }: { id: string; updates: Parameters<typeof ultraSecureApiClient.updatePolicy>[1] }) =>
+      ultraSecureApiClient.updatePolicy(id, updates),
+    onSuccess: (data, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['policies'] });
+      queryClient.invalidateQueries({ queryKey: ['policy', variables.id] });
+      toast.success('Policy saved successfully');
+    },
+    onError: (error) => {
+      toast.error(`Failed to save policy: ${describeApiError(error)}`);
+    },
+  });
+}
+
+export function useTestPolicy() {
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: Parameters<typeof ultraSecureApiClient.testPolicy>[1] }) =>
+      ultraSecureApiClient.testPolicy(id, data),
+    onError: (error) => {
+      toast.error(`Policy dry-run failed: ${describeApiError(error)}`);
+    },
+  });
+}
+
+export function useComplianceReport() {
+  return useMutation({
+    mutationFn: (dateRange: { start: string; end: string }) => ultraSecureApiClient.requestComplianceReport(dateRange),
+    onError: (error) => {
+      toast.error(`Failed to generate compliance report: ${describeApiError(error)}`);
     },
   });
 }
@@ -773,13 +1332,31 @@ export function useCreateAgent() {
   const queryClient = useQueryClient();
   
   return useMutation({
-    mutationFn: ultraSecureApiClient.createAgent,
+    mutationFn: (data: Parameters<typeof ultraSecureApiClient.createAgent>[0]) =>
+      ultraSecureApiClient.createAgent(data),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['agents'] });
       toast.success('Agent created successfully');
     },
     onError: (error) => {
-      toast.error(`Failed to create agent: ${error.message}`);
+      toast.error(`Failed to create agent: ${describeApiError(error)}`);
+    },
+  });
+}
+
+export function useUpdateAgent() {
+  const queryClient = useQueryClient();
+  
+  return useMutation({
+    mutationFn: ({ id, updates }: { id: string; updates: Partial<AgentInput> }) =>
+      ultraSecureApiClient.updateAgent(id, updates),
+    onSuccess: (data, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['agents'] });
+      queryClient.invalidateQueries({ queryKey: ['agent', variables.id] });
+      toast.success('Agent updated successfully');
+    },
+    onError: (error) => {
+      toast.error(`Failed to update agent: ${describeApiError(error)}`);
     },
   });
 }
@@ -795,7 +1372,42 @@ export function useCloneAgent() {
       toast.success('Agent cloned successfully');
     },
     onError: (error) => {
-      toast.error(`Failed to clone agent: ${error.message}`);
+      toast.error(`Failed to clone agent: ${describeApiError(error)}`);
+    },
+  });
+}
+
+export function useBulkOrchestrationAction() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ ids, action }: { ids: string[]; action: 'cancel' | 'delete' }) => {
+      const results = await Promise.allSettled(
+        ids.map(id =>
+          action === 'cancel'
+            ? ultraSecureApiClient.updateOrchestration(id, { status: 'cancelled' })
+            : ultraSecureApiClient.deleteOrchestration(id)
+        )
+      );
+      return {
+        succeeded: ids.filter((_, idx) => results[idx].status === 'fulfilled'),
+        failed: ids.filter((_, idx) => results[idx].status === 'rejected'),
+      };
+    },
+    onSuccess: ({ succeeded, failed }, { ids, action }) => {
+      queryClient.invalidateQueries({ queryKey: ['orchestrations'] });
+      queryClient.invalidateQueries({ queryKey: ['overview'] });
+      ids.forEach(id => queryClient.invalidateQueries({ queryKey: ['orchestration', id] }));
+
+      const verb = action === 'cancel' ? 'cancelled' : 'deleted';
+      if (failed.length === 0) {
+        toast.success(`${succeeded.length} orchestration(s) ${verb}`);
+      } else {
+        toast.error(`${succeeded.length} orchestration(s) ${verb}, ${failed.length} failed`);
+      }
+    },
+    onError: (error) => {
+      toast.error(`Bulk action failed: ${describeApiError(error)}`);
     },
   });
-}
\ No newline at end of file
+}
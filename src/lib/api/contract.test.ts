@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import type { ZodIssue } from 'zod';
+import { ContractMonitor, redactSecrets } from './contract';
+
+const issue = (path: (string | number)[]): ZodIssue =>
+  ({ code: 'invalid_type', expected: 'string', received: 'number', path, message: 'Expected string, received number' });
+
+function record(endpoint: string, payload: unknown, rawBody = JSON.stringify(payload), path: (string | number)[] = ['data', 'user', 'name']) {
+  const monitor = new ContractMonitor();
+  monitor.record({ endpoint, schemaName: 'LoginResponseSchema', status: 200, issues: payload === undefined ? [] : [issue(path)], payload, rawBody }, 0);
+  return monitor.list()[0];
+}
+
+describe('redactSecrets', () => {
+  it.each([
+    ['token', { accessToken: 'abc', refresh_token: 'def', user: 'ann' }, { accessToken: '[redacted]', refresh_token: '[redacted]', user: 'ann' }],
+    ['password', { password: 'hunter2', new_password: 'hunter3' }, { password: '[redacted]', new_password: '[redacted]' }],
+    ['secret', { clientSecret: 's3cret' }, { clientSecret: '[redacted]' }],
+    ['authorization', { headers: { Authorization: 'Bearer abc' } }, { headers: { Authorization: '[redacted]' } }],
+    ['api key', { apiKey: 'k', 'api-key': 'k' }, { apiKey: '[redacted]', 'api-key': '[redacted]' }],
+    ['nested in lists', { sessions: [{ id: 1, token: 'abc' }] }, { sessions: [{ id: 1, token: '[redacted]' }] }],
+    ['token counts are not secrets', { tokensUsed: 1200, usage: { tokens: 80 } }, { tokensUsed: 1200, usage: { tokens: 80 } }],
+  ])('%s', (_, input, expected) => {
+    expect(redactSecrets(input)).toEqual(expected);
+  });
+
+  it.each([null, undefined, 'token', 42])('leaves %j as is', value => {
+    expect(redactSecrets(value)).toBe(value);
+  });
+});
+
+describe('ContractMonitor', () => {
+  const login = { success: true, data: { accessToken: 'eyJhbGciOi', user: { name: 42, password: 'hunter2' } } };
+
+  it('stores JSON samples with secrets redacted', () => {
+    const violation = record('POST /auth/login', login);
+    expect(violation.sample).not.toContain('eyJhbGciOi');
+    expect(violation.sample).not.toContain('hunter2');
+    expect(JSON.parse(violation.sample)).toEqual({ success: true, data: { accessToken: '[redacted]', user: { name: 42, password: '[redacted]' } } });
+  });
+
+  it('redacts the received value at a sensitive path', () => {
+    expect(record('POST /auth/login', login, undefined, ['data', 'accessToken']).issues[0].received).toBe('"[redacted]"');
+  });
+
+  it.each([
+    ['auth endpoint', 'POST /auth/refresh', '(not stored for auth endpoints)'],
+    ['other endpoint', 'GET /agents', 'token=abc'],
+  ])('keeps non-JSON bodies only outside auth: %s', (_, endpoint, sample) => {
+    expect(record(endpoint, undefined, 'token=abc').sample).toBe(sample);
+  });
+});
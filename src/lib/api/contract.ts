@@ -0,0 +1,171 @@
+import type { ZodIssue } from 'zod';
+import * as apiSchemas from '@/lib/schemas/api';
+import { formatIssuePath } from './errors';
+
+/**
+ * Contract monitoring: every response that fails schema validation is recorded here,
+ * deduplicated by endpoint, schema and the set of failing paths.
+ *
+ * A new entry usually means the backend shipped a field change the dashboard does not know yet.
+ */
+
+export interface ContractIssue {
+  path: string;
+  code: string;
+  message: string;
+  // JSON of the value found at the path, truncated
+  received?: string;
+}
+
+export interface ContractViolation {
+  id: string;
+  endpoint: string;
+  schemaName: string;
+  issues: ContractIssue[];
+  count: number;
+  firstSeen: number;
+  lastSeen: number;
+  lastStatus: number;
+  // Most recent offending body, with secrets redacted and truncated
+  sample: string;
+}
+
+const MAX_VIOLATIONS = 50;
+const MAX_SAMPLE_LENGTH = 4000;
+const MAX_RECEIVED_LENGTH = 200;
+
+// Exported schemas are named after their export; inline ones fall back to a generic label
+const SCHEMA_NAMES = new Map<unknown, string>(
+  Object.entries(apiSchemas)
+    .filter(([name]) => name.endsWith('Schema'))
+    .map(([name, schema]) => [schema, name])
+);
+
+export function schemaName(schema: unknown): string {
+  return SCHEMA_NAMES.get(schema) ?? 'inline schema';
+}
+
+const truncate = (text: string, max: number) => (text.length > max ? `${text.slice(0, max)}…` : text);
+
+// Keys whose values are never stored: samples are shown as-is in the contract drift panel.
+// Matched on the end of the key, so accessToken and client_secret are redacted but tokensUsed is not.
+const SENSITIVE_KEY = /(token|password|passwd|secret|authorization|apikey|cookie|credentials?)$/;
+
+const isSensitiveKey = (key: string) => SENSITIVE_KEY.test(key.toLowerCase().replace(/[^a-z]/g, ''));
+
+export function redactSecrets(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(redactSecrets);
+  if (value === null || typeof value !== 'object') return value;
+  return Object.fromEntries(
+    Object.entries(value).map(([key, child]) => [key, isSensitiveKey(key) ? '[redacted]' : redactSecrets(child)])
+  );
+}
+
+function valueAt(payload: unknown, path: (string | number)[]): unknown {
+  let current = payload;
+  for (const key of path) {
+    if (current === null || typeof current !== 'object') return undefined;
+    current = (current as Record<string | number, unknown>)[key];
+  }
+  return current;
+}
+
+function describeReceived(value: unknown): string | undefined {
+  if (value === undefined) return undefined;
+  return truncate(JSON.stringify(value) ?? String(value), MAX_RECEIVED_LENGTH);
+}
+
+type ContractListener = (violations: ContractViolation[]) => void;
+
+export class ContractMonitor {
+  private violations = new Map<string, ContractViolation>();
+  private listeners = new Set<ContractListener>();
+
+  /**
+   * Records one failed validation. `payload` is the parsed body, or undefined when it was not JSON.
+   * JSON bodies are stored with secrets redacted; `rawBody` is only kept when the body is not JSON.
+   */
+  record(params: {
+    endpoint: string;
+    schemaName: string;
+    status: number;
+    issues: ZodIssue[];
+    payload: unknown;
+    rawBody: string;
+  }, now = Date.now()): void {
+    const payload = redactSecrets(params.payload);
+    // A body that is not JSON cannot be redacted, so auth endpoints keep none
+    const sample = payload !== undefined
+      ? truncate(JSON.stringify(payload), MAX_SAMPLE_LENGTH)
+      : /^\w+ \/auth\//.test(params.endpoint) ? '(not stored for auth endpoints)' : truncate(params.rawBody, MAX_SAMPLE_LENGTH);
+    const issues: ContractIssue[] = params.issues.length > 0
+      ? params.issues.map(issue => ({
+          path: formatIssuePath(issue.path),
+          code: issue.code,
+          message: issue.message,
+          received: describeReceived(valueAt(payload, issue.path)),
+        }))
+      : [{ path: '(root)', code: 'invalid_json', message: 'Body is not JSON' }];
+
+    // Same endpoint and schema failing on the same paths is the same drift
+    const signature = issues.map(issue => `${issue.path}:${issue.code}`).sort().join('|');
+    const id = `${params.endpoint} ${params.schemaName} ${signature}`;
+
+    const existing = this.violations.get(id);
+    if (existing) {
+      this.violations.set(id, {
+        ...existing,
+        issues,
+        count: existing.count + 1,
+        lastSeen: now,
+        lastStatus: params.status,
+        sample,
+      });
+    } else {
+      this.violations.set(id, {
+        id,
+        endpoint: params.endpoint,
+        schemaName: params.schemaName,
+        issues,
+        count: 1,
+        firstSeen: now,
+        lastSeen: now,
+        lastStatus: params.status,
+        sample,
+      });
+      this.evict();
+    }
+
+    this.notify();
+  }
+
+  // Newest first
+  list(): ContractViolation[] {
+    return Array.from(this.violations.values()).sort((a, b) => b.lastSeen - a.lastSeen);
+  }
+
+  clear(): void {
+    this.violations.clear();
+    this.notify();
+  }
+
+  subscribe(listener: ContractListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Drops the entries seen least recently once the cap is reached
+  private evict(): void {
+    if (this.violations.size <= MAX_VIOLATIONS) return;
+    const stalest = this.list().slice(MAX_VIOLATIONS);
+    stalest.forEach(violation => this.violations.delete(violation.id));
+  }
+
+  private notify(): void {
+    if (this.listeners.size === 0) return;
+    const violations = this.list();
+    this.listeners.forEach(listener => listener(violations));
+  }
+}
@@ -0,0 +1,162 @@
+import type { ZodIssue } from 'zod';
+import { ApiErrorBodySchema, type ApiErrorBody } from '@/lib/schemas/api';
+
+/**
+ * Errors thrown by the API client.
+ *
+ * Every failure is one of the classes below, discriminated by `kind`, so hooks and pages can
+ * switch on what went wrong instead of parsing messages. `message` stays a readable one-liner
+ * for logs; use `describeApiError` for text shown to operators.
+ */
+
+export type ApiErrorKind = 'network' | 'timeout' | 'http' | 'auth' | 'validation' | 'circuit_open';
+
+abstract class BaseApiError extends Error {
+  abstract readonly kind: ApiErrorKind;
+  // Whether sending the same request again might succeed
+  abstract readonly retryable: boolean;
+
+  constructor(message: string, readonly url: string) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+// The request never got an answer - DNS, CORS, connection refused, offline
+export class NetworkError extends BaseApiError {
+  readonly kind = 'network' as const;
+  readonly retryable = true;
+
+  constructor(url: string, readonly cause: unknown) {
+    super(`Network error: ${cause instanceof Error ? cause.message : String(cause)}`, url);
+  }
+}
+
+export class TimeoutError extends BaseApiError {
+  readonly kind = 'timeout' as const;
+  readonly retryable = true;
+
+  constructor(url: string, readonly timeoutMs: number) {
+    super(`Request timeout after ${timeoutMs}ms`, url);
+  }
+}
+
+// Non-2xx answer other than 401/403; `body` is the parsed error body when the server sent JSON
+export class HttpError extends BaseApiError {
+  readonly kind = 'http' as const;
+
+  constructor(
+    url: string,
+    readonly status: number,
+    readonly statusText: string,
+    readonly body: ApiErrorBody | null,
+    readonly rawBody: string
+  ) {
+    super(`HTTP ${status}: ${serverMessage(body) ?? statusText}`, url);
+  }
+
+  get retryable(): boolean {
+    return this.status >= 500 || this.status === 408 || this.status === 429;
+  }
+}
+
+// 401 (no or expired session) and 403 (signed in, but not allowed)
+export class AuthError extends BaseApiError {
+  readonly kind = 'auth' as const;
+  readonly retryable = false;
+
+  constructor(url: string, readonly status: 401 | 403, readonly body: ApiErrorBody | null) {
+    super(`HTTP ${status}: ${serverMessage(body) ?? (status === 401 ? 'Unauthorized' : 'Forbidden')}`, url);
+  }
+}
+
+// The server answered 2xx with something that does not match the schema (or is not JSON at all)
+export class ValidationError extends BaseApiError {
+  readonly kind = 'validation' as const;
+  readonly retryable = false;
+
+  constructor(url: string, readonly status: number, readonly issues: ZodIssue[], readonly rawBody: string) {
+    super(
+      issues.length > 0
+        ? `Invalid API response format at ${formatIssuePath(issues[0].path)}: ${issues[0].message}`
+        : 'Invalid API response format: body is not JSON',
+      url
+    );
+  }
+}
+
+// Thrown without a request being sent while the endpoint's circuit breaker is open
+export class CircuitOpenError extends BaseApiError {
+  readonly kind = 'circuit_open' as const;
+  readonly retryable = false;
+
+  constructor(readonly endpoint: string, readonly retryAt: number) {
+    super(`Circuit open for ${endpoint} - retrying in ${Math.max(0, Math.ceil((retryAt - Date.now()) / 1000))}s`, endpoint);
+  }
+}
+
+export type ApiError = NetworkError | TimeoutError | HttpError | AuthError | ValidationError | CircuitOpenError;
+
+export function isApiError(error: unknown): error is ApiError {
+  return error instanceof BaseApiError;
+}
+
+export function formatIssuePath(path: (string | number)[]): string {
+  return path.length > 0 ? path.join('.') : '(root)';
+}
+
+function serverMessage(body: ApiErrorBody | null): string | undefined {
+  return body?.error ?? body?.message;
+}
+
+// Turns a non-2xx response into the matching error, keeping whatever body the server sent
+export async function errorFromResponse(url: string, response: Response): Promise<HttpError | AuthError> {
+  let rawBody = '';
+  let body: ApiErrorBody | null = null;
+
+  try {
+    rawBody = await response.text();
+    const parsed = ApiErrorBodySchema.safeParse(JSON.parse(rawBody));
+    if (parsed.success) body = parsed.data;
+  } catch {
+    // Empty or non-JSON body - the status is all we have
+  }
+
+  if (response.status === 401 || response.status === 403) {
+    return new AuthError(url, response.status, body);
+  }
+  return new HttpError(url, response.status, response.statusText, body, rawBody);
+}
+
+// Operator-facing text for any thrown value
+export function describeApiError(error: unknown, fallback = 'Unknown error'): string {
+  if (!isApiError(error)) {
+    return error instanceof Error ? error.message : fallback;
+  }
+
+  switch (error.kind) {
+    case 'network':
+      return 'Cannot reach the API. Check your connection and the configured API base URL.';
+    case 'timeout':
+      return `The API did not answer within ${Math.round(error.timeoutMs / 1000)}s.`;
+    case 'auth':
+      return error.status === 401
+        ? 'Your session has expired. Sign in again to continue.'
+        : serverMessage(error.body) ?? 'Your role is not allowed to do this.';
+    case 'http': {
+      const detail = serverMessage(error.body);
+      if (error.status === 404) return detail ?? 'Not found.';
+      if (error.status === 429) return 'The API is rate limiting requests. Try again in a moment.';
+      if (error.status >= 500) return `The API failed with HTTP ${error.status}${detail ? `: ${detail}` : '.'}`;
+      return `${detail ?? error.statusText} (HTTP ${error.status})`;
+    }
+    case 'validation': {
+      if (error.issues.length === 0) return 'The API answered with something that is not JSON.';
+      const [first, ...rest] = error.issues;
+      const more = rest.length > 0 ? ` (+${rest.length} more)` : '';
+      return `The API answered in an unexpected format at ${formatIssuePath(first.path)}: ${first.message}${more}`;
+    }
+    case 'circuit_open':
+      return `${error.endpoint} keeps failing - requests are paused until ${new Date(error.retryAt).toLocaleTimeString()}.`;
+  }
+}
@@ -0,0 +1,105 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ultraSecureApiClient } from './client';
+import { orchestrationEventStream } from './realtime';
+
+class FakeSocket {
+  static readonly CONNECTING = 0;
+  static readonly OPEN = 1;
+  static readonly CLOSING = 2;
+  static readonly CLOSED = 3;
+  static instances: FakeSocket[] = [];
+
+  readyState = FakeSocket.CONNECTING;
+  sent: Record<string, unknown>[] = [];
+  onopen: (() => void) | null = null;
+  onclose: ((event: { code: number }) => void) | null = null;
+  onmessage: ((event: { data: unknown }) => void) | null = null;
+  onerror: (() => void) | null = null;
+
+  constructor(readonly url: string) {
+    FakeSocket.instances.push(this);
+  }
+
+  send(data: string) {
+    this.sent.push(JSON.parse(data));
+  }
+
+  close() {
+    this.readyState = FakeSocket.CLOSED;
+  }
+
+  open() {
+    this.readyState = FakeSocket.OPEN;
+    this.onopen?.();
+  }
+
+  // Closed by the server
+  drop(code: number) {
+    this.readyState = FakeSocket.CLOSED;
+    this.onclose?.({ code });
+  }
+}
+
+const latest = () => FakeSocket.instances[FakeSocket.instances.length - 1];
+const authFrames = (socket: FakeSocket) => socket.sent.filter(frame => frame.type === 'authenticate');
+
+describe('orchestrationEventStream', () => {
+  let unsubscribe: () => void;
+
+  beforeEach(() => {
+    FakeSocket.instances = [];
+    vi.stubGlobal('window', {});
+    vi.stubGlobal('sessionStorage', { setItem: () => {}, removeItem: () => {} });
+    vi.stubGlobal('WebSocket', FakeSocket);
+    ultraSecureApiClient.setAuthToken('token-1');
+    unsubscribe = orchestrationEventStream.subscribe('orch_0001', () => {});
+    latest().open();
+  });
+
+  afterEach(() => {
+    unsubscribe();
+    ultraSecureApiClient.clearAuthToken();
+    vi.unstubAllGlobals();
+  });
+
+  it('authenticates and subscribes when the socket opens', () => {
+    expect(latest().sent).toEqual([
+      { type: 'authenticate', token: 'Bearer token-1' },
+      { type: 'subscribe', orchestrationId: 'orch_0001' },
+    ]);
+    expect(orchestrationEventStream.getStatus()).toBe('open');
+  });
+
+  it('re-authenticates the open socket when the token is refreshed', () => {
+    ultraSecureApiClient.setAuthToken('token-2');
+    expect(FakeSocket.instances).toHaveLength(1);
+    expect(authFrames(latest()).map(frame => frame.token)).toEqual(['Bearer token-1', 'Bearer token-2']);
+  });
+
+  it('does not re-send an unchanged token', () => {
+    ultraSecureApiClient.setAuthToken('token-1');
+    expect(authFrames(latest())).toHaveLength(1);
+  });
+
+  it('reconnects without a token after sign-out', () => {
+    const first = latest();
+    ultraSecureApiClient.clearAuthToken();
+
+    expect(first.readyState).toBe(FakeSocket.CLOSED);
+    expect(FakeSocket.instances).toHaveLength(2);
+    latest().open();
+    expect(latest().sent).toEqual([{ type: 'subscribe', orchestrationId: 'orch_0001' }]);
+  });
+
+  it('stays unauthorized after a rejected token until the next sign-in', () => {
+    latest().drop(4001);
+    expect(orchestrationEventStream.getStatus()).toBe('unauthorized');
+    expect(FakeSocket.instances).toHaveLength(1);
+
+    ultraSecureApiClient.setAuthToken('token-2');
+    expect(orchestrationEventStream.getStatus()).toBe('connecting');
+    latest().open();
+    expect(authFrames(latest())).toEqual([{ type: 'authenticate', token: 'Bearer token-2' }]);
+    expect(orchestrationEventStream.getStatus()).toBe('open');
+  });
+});
@@ -0,0 +1,309 @@
+import { useEffect, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+
+import { ultraSecureApiClient } from '@/lib/api/client';
+import {
+  OrchestrationEventSchema,
+  WebSocketEventSchema,
+  type OrchestrationEvent,
+} from '@/lib/schemas/api';
+
+// Configuration
+export type StreamStatus = 'idle' | 'connecting' | 'open' | 'reconnecting' | 'unauthorized' | 'closed';
+
+interface StreamConfig {
+  initialBackoff: number;
+  maxBackoff: number;
+  maxBufferedEvents: number;
+}
+
+type EventListener = (event: OrchestrationEvent) => void;
+type StatusListener = (status: StreamStatus) => void;
+
+const DEFAULT_STREAM_CONFIG: StreamConfig = {
+  initialBackoff: 1000,
+  maxBackoff: 30000,
+  maxBufferedEvents: 200,
+};
+
+// Close code the API uses when the bearer token is rejected
+const UNAUTHORIZED_CLOSE_CODE = 4001;
+
+// All subscribers, regardless of orchestration
+const ALL_ORCHESTRATIONS = '*';
+
+class OrchestrationEventStream {
+  private config: StreamConfig;
+  private socket: WebSocket | null = null;
+  private status: StreamStatus = 'idle';
+  private attempts = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private listeners = new Map<string, Set<EventListener>>();
+  private statusListeners = new Set<StatusListener>();
+
+  constructor(config: Partial<StreamConfig> = {}) {
+    this.config = { ...DEFAULT_STREAM_CONFIG, ...config };
+    ultraSecureApiClient.onAuthTokenChange(token => this.handleTokenChange(token));
+  }
+
+  public getConfig(): StreamConfig {
+    return this.config;
+  }
+
+  public getStatus(): StreamStatus {
+    return this.status;
+  }
+
+  // Connection lifecycle
+  public connect(): void {
+    if (typeof window === 'undefined' || typeof WebSocket === 'undefined') return;
+    if (this.socket && this.socket.readyState <= WebSocket.OPEN) return;
+
+    this.setStatus(this.attempts > 0 ? 'reconnecting' : 'connecting');
+
+    const socket = new WebSocket(ultraSecureApiClient.getWebSocketUrl());
+    this.socket = socket;
+
+    socket.onopen = () => {
+      this.attempts = 0;
+      this.authenticate();
+      this.listeners.forEach((_, orchestrationId) => this.sendSubscribe(orchestrationId));
+      this.setStatus('open');
+    };
+
+    socket.onmessage = (message) => this.handleMessage(message.data);
+
+    socket.onclose = (closeEvent) => {
+      if (this.socket !== socket) return;
+      this.socket = null;
+
+      // Stays down until the token changes - retrying with the rejected one cannot succeed
+      if (closeEvent.code === UNAUTHORIZED_CLOSE_CODE) {
+        this.attempts = 0;
+        this.setStatus('unauthorized');
+        return;
+      }
+
+      if (this.listeners.size > 0) {
+        this.scheduleReconnect();
+      } else {
+        this.setStatus('closed');
+      }
+    };
+
+    socket.onerror = () => {
+      // onclose always follows onerror, reconnection is handled there
+    };
+  }
+
+  public disconnect(): void {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+
+    const socket = this.socket;
+    this.socket = null;
+    this.attempts = 0;
+    socket?.close(1000, 'Client disconnect');
+    this.setStatus('closed');
+  }
+
+  // Subscriptions - pass null to receive events for every orchestration
+  public subscribe(orchestrationId: string | null, listener: EventListener): () => void {
+    const key = orchestrationId ?? ALL_ORCHESTRATIONS;
+    const existing = this.listeners.get(key);
+
+    if (existing) {
+      existing.add(listener);
+    } else {
+      this.listeners.set(key, new Set([listener]));
+      this.sendSubscribe(key);
+    }
+
+    this.connect();
+
+    return () => {
+      const set = this.listeners.get(key);
+      if (!set) return;
+
+      set.delete(listener);
+      if (set.size === 0) {
+        this.listeners.delete(key);
+        this.send({ type: 'unsubscribe', orchestrationId: key });
+      }
+
+      if (this.listeners.size === 0) {
+        this.disconnect();
+      }
+    };
+  }
+
+  public onStatusChange(listener: StatusListener): () => void {
+    this.statusListeners.add(listener);
+    return () => {
+      this.statusListeners.delete(listener);
+    };
+  }
+
+  private setStatus(status: StreamStatus): void {
+    if (this.status === status) return;
+    this.status = status;
+    this.statusListeners.forEach(listener => listener(status));
+  }
+
+  // Exponential backoff with jitter, capped at maxBackoff
+  private scheduleReconnect(): void {
+    if (this.reconnectTimer) return;
+
+    const exponential = Math.min(this.config.maxBackoff, this.config.initialBackoff * 2 ** this.attempts);
+    const delay = Math.round(exponential / 2 + Math.random() * (exponential / 2));
+    this.attempts += 1;
+    this.setStatus('reconnecting');
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connect();
+    }, delay);
+  }
+
+  // The socket keeps the identity it authenticated with, so follow sign-in, refresh and sign-out
+  private handleTokenChange(token: string | null): void {
+    if (this.listeners.size === 0) return;
+
+    if (this.status === 'unauthorized') {
+      if (token) this.connect();
+      return;
+    }
+
+    if (!token) {
+      // There is no frame to drop an identity; start over on a fresh, unauthenticated socket
+      const socket = this.socket;
+      this.socket = null;
+      socket?.close(1000, 'Signed out');
+      if (socket) this.connect();
+      return;
+    }
+
+    // A socket still connecting sends the current token once it opens
+    this.authenticate();
+  }
+
+  // Browsers cannot set headers on a WebSocket handshake, so the bearer token is sent as the first frame
+  private authenticate(): void {
+    const token = ultraSecureApiClient.getAuthToken();
+    if (token) {
+      this.send({ type: 'authenticate', token: `Bearer ${token}` });
+    }
+  }
+
+  private sendSubscribe(orchestrationId: string): void {
+    this.send({ type: 'subscribe', orchestrationId });
+  }
+
+  private send(payload: Record<string, unknown>): void {
+    if (this.socket?.readyState === WebSocket.OPEN) {
+      this.socket.send(JSON.stringify(payload));
+    }
+  }
+
+  // CRITICAL: Every frame is validated before it reaches subscribers
+  private handleMessage(raw: unknown): void {
+    if (typeof raw !== 'string') return;
+
+    let frame: unknown;
+    try {
+      frame = JSON.parse(raw);
+    } catch {
+      console.error('WebSocket frame is not valid JSON:', raw);
+      return;
+    }
+
+    const event = this.parseEvent(frame);
+    if (!event) return;
+
+    this.dispatch(event.data.orchestrationId, event);
+    this.dispatch(ALL_ORCHESTRATIONS, event);
+  }
+
+  private parseEvent(frame: unknown): OrchestrationEvent | null {
+    const direct = OrchestrationEventSchema.safeParse(frame);
+    if (direct.success) return direct.data;
+
+    // Events may also arrive wrapped in the generic envelope ({ type, data, timestamp, source })
+    const envelope = WebSocketEventSchema.safeParse(frame);
+    if (envelope.success) {
+      const unwrapped = OrchestrationEventSchema.safeParse({
+        event: envelope.data.type,
+        data: envelope.data.data,
+      });
+      if (unwrapped.success) return unwrapped.data;
+
+      // Valid envelope carrying a non-orchestration event (heartbeat, ack, ...)
+      if (!['ToolRequested', 'ToolExecuted', 'LLMRequested', 'LLMResponded'].includes(envelope.data.type)) {
+        return null;
+      }
+    }
+
+    console.error('WebSocket Event Validation Failed:', {
+      frame,
+      validationError: direct.error,
+    });
+    return null;
+  }
+
+  private dispatch(key: string, event: OrchestrationEvent): void {
+    this.listeners.get(key)?.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('WebSocket event listener failed:', error);
+      }
+    });
+  }
+}
+
+// Create singleton instance
+export const orchestrationEventStream = new OrchestrationEventStream();
+
+// React hooks
+export function useEventStreamStatus(): StreamStatus {
+  const [status, setStatus] = useState<StreamStatus>(orchestrationEventStream.getStatus());
+
+  useEffect(() => {
+    setStatus(orchestrationEventStream.getStatus());
+    return orchestrationEventStream.onStatusChange(setStatus);
+  }, []);
+
+  return status;
+}
+
+// Pass null to follow every orchestration, undefined to stay disconnected
+export function useOrchestrationEvents(orchestrationId?: string | null) {
+  const queryClient = useQueryClient();
+  const status = useEventStreamStatus();
+  const [events, setEvents] = useState<OrchestrationEvent[]>([]);
+
+  useEffect(() => {
+    setEvents([]);
+    if (orchestrationId === undefined) return;
+
+    const { maxBufferedEvents } = orchestrationEventStream.getConfig();
+
+    return orchestrationEventStream.subscribe(orchestrationId, (event) => {
+      setEvents(prev => [...prev, event].slice(-maxBufferedEvents));
+
+      // Completed work changes progress, metrics and cost - refresh the cached orchestration
+      if (event.event === 'ToolExecuted' || event.event === 'LLMResponded') {
+        queryClient.invalidateQueries({ queryKey: ['orchestration', event.data.orchestrationId] });
+        queryClient.invalidateQueries({ queryKey: ['orchestrations'] });
+      }
+    });
+  }, [orchestrationId, queryClient]);
+
+  return {
+    events,
+    lastEvent: events.length > 0 ? events[events.length - 1] : undefined,
+    status,
+  };
+}
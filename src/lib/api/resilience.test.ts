@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest';
+import { CircuitOpenError } from './errors';
+import { CircuitBreakerRegistry, endpointKey, parseRetryAfter } from './resilience';
+
+const NOW = Date.parse('2026-01-01T12:00:00Z');
+
+function breaker() {
+  return new CircuitBreakerRegistry({ failureThreshold: 3, resetTimeout: 30_000 }).get('GET /agents');
+}
+
+// A breaker that has just tripped at NOW
+function tripped() {
+  const circuit = breaker();
+  for (let attempt = 0; attempt < 3; attempt++) circuit.recordFailure('HTTP 503', NOW);
+  return circuit;
+}
+
+describe('endpointKey', () => {
+  it.each([
+    ['GET', 'http://localhost:3001/api/orchestrations/orch_0001', 'GET /orchestrations/:id'],
+    ['get', 'http://localhost:3001/api/agents/agent_001/clone', 'GET /agents/:id/clone'],
+    ['GET', '/api/orchestrations/42?include=steps', 'GET /orchestrations/:id'],
+    ['DELETE', '/api/memory/3f2b8c1e-9a4d-4e2b-8f6a-1c2d3e4f5a6b', 'DELETE /memory/:id'],
+    ['POST', '/api/approvals/req_8f3k2j9x/decide', 'POST /approvals/:id/decide'],
+    ['GET', '/api/v2/plugins/s3', 'GET /v2/plugins/s3'],
+    ['POST', '/api/auth/oauth2/callback', 'POST /auth/oauth2/callback'],
+    ['GET', '/api/plugins/store_v2', 'GET /plugins/store_v2'],
+    ['GET', '/api/policies', 'GET /policies'],
+  ])('%s %s -> %s', (method, url, key) => {
+    expect(endpointKey(method, url)).toBe(key);
+  });
+});
+
+describe('parseRetryAfter', () => {
+  it.each([
+    ['delta-seconds', '120', 120_000],
+    ['delta-seconds with spaces', ' 5 ', 5_000],
+    ['zero', '0', 0],
+    ['an HTTP date', 'Thu, 01 Jan 2026 12:00:30 GMT', 30_000],
+    ['an HTTP date in the past', 'Thu, 01 Jan 2026 11:00:00 GMT', 0],
+    ['garbage', 'soon', null],
+    ['negative seconds', '-5', null],
+    ['no header', null, null],
+    ['an empty header', '', null],
+  ])('%s', (_, header, expected) => {
+    expect(parseRetryAfter(header, NOW)).toBe(expected);
+  });
+});
+
+describe('CircuitBreaker', () => {
+  it('stays closed below the failure threshold', () => {
+    const circuit = breaker();
+    circuit.recordFailure('HTTP 503', NOW);
+    circuit.recordFailure('HTTP 503', NOW);
+    expect(circuit.snapshot()).toMatchObject({ state: 'closed', consecutiveFailures: 2 });
+    expect(() => circuit.acquire(NOW)).not.toThrow();
+  });
+
+  it('trips at the failure threshold', () => {
+    expect(tripped().snapshot()).toMatchObject({ state: 'open', consecutiveFailures: 3, openedAt: NOW, retryAt: NOW + 30_000, lastError: 'HTTP 503' });
+  });
+
+  it('counts only consecutive failures', () => {
+    const circuit = breaker();
+    circuit.recordFailure('HTTP 503', NOW);
+    circuit.recordFailure('HTTP 503', NOW);
+    expect(circuit.recordSuccess()).toBe(true);
+    circuit.recordFailure('HTTP 503', NOW);
+    expect(circuit.snapshot()).toMatchObject({ state: 'closed', consecutiveFailures: 1 });
+  });
+
+  it('fails fast until the reset timeout has passed', () => {
+    const circuit = tripped();
+    expect(() => circuit.acquire(NOW + 29_999)).toThrow(CircuitOpenError);
+    expect(circuit.isOpen).toBe(true);
+    expect(() => circuit.acquire(NOW + 30_000)).not.toThrow();
+    expect(circuit.snapshot().state).toBe('half_open');
+  });
+
+  it('lets a single trial request through while half-open', () => {
+    const circuit = tripped();
+    circuit.acquire(NOW + 30_000);
+    expect(() => circuit.acquire(NOW + 30_001)).toThrow(CircuitOpenError);
+  });
+
+  it('closes again after a successful trial', () => {
+    const circuit = tripped();
+    circuit.acquire(NOW + 30_000);
+    expect(circuit.recordSuccess()).toBe(true);
+    expect(circuit.snapshot()).toEqual({ endpoint: 'GET /agents', state: 'closed', consecutiveFailures: 0 });
+    expect(() => circuit.acquire(NOW + 30_001)).not.toThrow();
+  });
+
+  it('re-opens from a failed trial without waiting for the threshold', () => {
+    const circuit = tripped();
+    circuit.acquire(NOW + 30_000);
+    circuit.recordFailure('Network error', NOW + 31_000);
+    expect(circuit.snapshot()).toMatchObject({ state: 'open', openedAt: NOW + 31_000, retryAt: NOW + 61_000, lastError: 'Network error' });
+    expect(() => circuit.acquire(NOW + 60_999)).toThrow(CircuitOpenError);
+  });
+
+  // A 429 says nothing about whether the endpoint is healthy
+  it('frees the trial slot on release without closing the breaker', () => {
+    const circuit = tripped();
+    circuit.acquire(NOW + 30_000);
+    circuit.release();
+    expect(circuit.snapshot()).toMatchObject({ state: 'half_open', consecutiveFailures: 3 });
+    expect(() => circuit.acquire(NOW + 30_001)).not.toThrow();
+  });
+
+  it('reports no change for a success on a healthy breaker', () => {
+    expect(breaker().recordSuccess()).toBe(false);
+  });
+});
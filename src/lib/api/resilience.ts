@@ -0,0 +1,177 @@
+import { CircuitOpenError } from './errors';
+
+/**
+ * Retry and circuit-breaker helpers for the API client.
+ *
+ * Retries back off exponentially with full jitter so a fleet of dashboards does not hammer a
+ * recovering backend in lockstep. Circuit breakers are kept per endpoint (method + path with
+ * ids collapsed) and fail fast while an endpoint keeps failing.
+ */
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface CircuitBreakerOptions {
+  // Consecutive failures that trip the breaker
+  failureThreshold: number;
+  // How long the breaker stays open before letting a trial request through
+  resetTimeout: number;
+}
+
+export interface CircuitSnapshot {
+  endpoint: string;
+  state: CircuitState;
+  consecutiveFailures: number;
+  openedAt?: number;
+  // When an open breaker will let the next trial request through
+  retryAt?: number;
+  lastError?: string;
+}
+
+export const IDEMPOTENT_METHODS = new Set(['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE']);
+
+// Statuses worth another attempt - everything else is the caller's problem
+export const RETRYABLE_STATUSES = new Set([408, 429, 502, 503, 504]);
+
+// Full jitter: a random delay between 0 and the capped exponential step
+export function backoffDelay(attempt: number, baseDelay: number, maxDelay: number): number {
+  const ceiling = Math.min(maxDelay, baseDelay * 2 ** attempt);
+  return Math.round(Math.random() * ceiling);
+}
+
+// Retry-After is either delta-seconds or an HTTP date; returns milliseconds to wait
+export function parseRetryAfter(header: string | null, now = Date.now()): number | null {
+  if (!header) return null;
+  const value = header.trim();
+
+  if (/^\d+$/.test(value)) return Number(value) * 1000;
+  // HTTP dates always name the month; Date.parse would read '-5' as a year
+  if (!/[a-z]/i.test(value)) return null;
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - now);
+}
+
+// Numeric ids, UUIDs and prefixed ids (agent_001, req_8f3k2j9x); not version or name segments like v2, s3 or oauth2
+const ID_SEGMENT = /^(\d+|[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}|[a-z]+_(\d+|(?=[a-z]*\d)[0-9a-z]{8,}))$/i;
+
+// Collapse ids so /orchestrations/orch_0001 and /orchestrations/orch_0002 share a breaker
+export function endpointKey(method: string, url: string): string {
+  let path = url;
+  try {
+    path = new URL(url).pathname;
+  } catch {
+    path = url.split('?')[0];
+  }
+  const normalized = path
+    .split('/')
+    .map(segment => (ID_SEGMENT.test(segment) ? ':id' : segment))
+    .join('/');
+  return `${method.toUpperCase()} ${normalized.replace(/^\/api(?=\/)/, '')}`;
+}
+
+export const sleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private openedAt?: number;
+  private lastError?: string;
+  private trialInFlight = false;
+
+  constructor(readonly endpoint: string, private readonly options: CircuitBreakerOptions) {}
+
+  get isOpen(): boolean {
+    return this.state === 'open';
+  }
+
+  // Throws while open; moves to half-open once the reset timeout has passed
+  acquire(now = Date.now()): void {
+    if (this.state === 'open') {
+      const retryAt = (this.openedAt ?? now) + this.options.resetTimeout;
+      if (now < retryAt) throw new CircuitOpenError(this.endpoint, retryAt);
+      this.state = 'half_open';
+    }
+
+    if (this.state === 'half_open') {
+      // One trial request at a time decides whether the endpoint is back
+      if (this.trialInFlight) throw new CircuitOpenError(this.endpoint, now + this.options.resetTimeout);
+      this.trialInFlight = true;
+    }
+  }
+
+  // Returns whether anything changed, so healthy traffic does not spam listeners
+  recordSuccess(): boolean {
+    const changed = this.state !== 'closed' || this.consecutiveFailures > 0;
+    this.state = 'closed';
+    this.consecutiveFailures = 0;
+    this.openedAt = undefined;
+    this.lastError = undefined;
+    this.trialInFlight = false;
+    return changed;
+  }
+
+  recordFailure(message: string, now = Date.now()): void {
+    this.consecutiveFailures += 1;
+    this.lastError = message;
+    this.trialInFlight = false;
+
+    if (this.state === 'half_open' || this.consecutiveFailures >= this.options.failureThreshold) {
+      this.state = 'open';
+      this.openedAt = now;
+    }
+  }
+
+  // A request that ended without telling us anything about the endpoint (e.g. a 4xx)
+  release(): void {
+    this.trialInFlight = false;
+  }
+
+  snapshot(): CircuitSnapshot {
+    return {
+      endpoint: this.endpoint,
+      state: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      openedAt: this.openedAt,
+      retryAt: this.state === 'open' && this.openedAt !== undefined ? this.openedAt + this.options.resetTimeout : undefined,
+      lastError: this.lastError,
+    };
+  }
+}
+
+type CircuitListener = (circuits: CircuitSnapshot[]) => void;
+
+export class CircuitBreakerRegistry {
+  private breakers = new Map<string, CircuitBreaker>();
+  private listeners = new Set<CircuitListener>();
+
+  constructor(private readonly options: CircuitBreakerOptions) {}
+
+  get(endpoint: string): CircuitBreaker {
+    let breaker = this.breakers.get(endpoint);
+    if (!breaker) {
+      breaker = new CircuitBreaker(endpoint, this.options);
+      this.breakers.set(endpoint, breaker);
+    }
+    return breaker;
+  }
+
+  snapshot(): CircuitSnapshot[] {
+    return Array.from(this.breakers.values())
+      .map(breaker => breaker.snapshot())
+      .sort((a, b) => a.endpoint.localeCompare(b.endpoint));
+  }
+
+  subscribe(listener: CircuitListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Called after every state-changing record so the diagnostics page stays current
+  notify(): void {
+    if (this.listeners.size === 0) return;
+    const circuits = this.snapshot();
+    this.listeners.forEach(listener => listener(circuits));
+  }
+}
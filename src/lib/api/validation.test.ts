@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { z } from 'zod';
+import { lenientParse } from './validation';
+
+const PlanSchema = z.object({
+  id: z.string(),
+  note: z.string(),
+  tags: z.array(z.string()),
+  allowed: z.boolean(),
+  riskScore: z.number(),
+  reviewer: z.string().optional(),
+});
+
+const ListSchema = z.object({ success: z.boolean(), data: z.array(PlanSchema) });
+
+const plan = (overrides: Record<string, unknown> = {}) => ({
+  id: 'plan_001',
+  note: 'ok',
+  tags: ['prod'],
+  allowed: true,
+  riskScore: 0.82,
+  ...overrides,
+});
+
+describe('lenientParse', () => {
+  it('passes valid input through without warnings', () => {
+    expect(lenientParse(ListSchema, { success: true, data: [plan()] })).toEqual({ success: true, data: { success: true, data: [plan()] }, warnings: [] });
+  });
+
+  it.each([
+    ['a missing string', { note: undefined }, { note: '' }],
+    ['a null list', { tags: null }, { tags: [] }],
+    ['a null optional field', { reviewer: null }, {}],
+  ])('patches %s', (_, broken, patched) => {
+    const result = lenientParse(ListSchema, { success: true, data: [plan(broken)] });
+    expect(result).toMatchObject({ success: true, data: { data: [{ ...plan(), ...patched }] } });
+    if (result.success) expect(result.warnings.map(({ action }) => action)).toEqual(['patched']);
+  });
+
+  // A made-up 0 risk score would show as low risk; a made-up `allowed: false` as a decision
+  it.each([
+    ['a missing number', { riskScore: undefined }],
+    ['a null number', { riskScore: null }],
+    ['a missing boolean', { allowed: undefined }],
+    ['a wrongly typed field', { riskScore: 'high' }],
+  ])('drops a list item with %s instead of inventing a value', (_, broken) => {
+    const result = lenientParse(ListSchema, { success: true, data: [plan({ id: 'plan_bad', ...broken }), plan()] });
+    expect(result).toMatchObject({ success: true, data: { data: [plan()] }, warnings: [{ path: 'data.0', action: 'dropped' }] });
+  });
+
+  it('fails like strict mode when the broken field is outside any list', () => {
+    const result = lenientParse(PlanSchema, plan({ riskScore: undefined }));
+    expect(result.success).toBe(false);
+    if (!result.success) expect(result.issues[0].path).toEqual(['riskScore']);
+  });
+
+  it('does not modify its input', () => {
+    const input = { success: true, data: [plan({ note: null })] };
+    lenientParse(ListSchema, input);
+    expect(input.data[0].note).toBeNull();
+  });
+});
@@ -0,0 +1,155 @@
+import { z, type ZodIssue, type ZodTypeAny } from 'zod';
+import type { ValidationWarning } from '@/lib/schemas/api';
+import { formatIssuePath } from './errors';
+
+/**
+ * Response validation modes for the API client.
+ *
+ * - strict: any schema mismatch fails the whole request
+ * - lenient: missing/null fields are patched with safe defaults and list items that still do not
+ *   fit are dropped, so one bad record does not blank a table; what was changed is reported as warnings.
+ *   Numbers and booleans (risk scores, costs, allowed flags) are never made up: a record missing one
+ *   is dropped instead
+ * - off: responses are passed through unchecked
+ */
+
+export type ValidationMode = 'strict' | 'lenient' | 'off';
+
+export const VALIDATION_MODES: ValidationMode[] = ['strict', 'lenient', 'off'];
+
+export type LenientResult<T> =
+  | { success: true; data: T; warnings: ValidationWarning[] }
+  | { success: false; issues: ZodIssue[] };
+
+// Each pass fixes what the previous parse reported; nested problems can need a few
+const MAX_PASSES = 5;
+
+// Wrappers that do not change which values are valid at a path
+function unwrap(schema: ZodTypeAny): ZodTypeAny {
+  if (schema instanceof z.ZodEffects) return unwrap(schema.innerType());
+  if (schema instanceof z.ZodLazy) return unwrap(schema.schema);
+  if (schema instanceof z.ZodBranded) return unwrap(schema.unwrap());
+  if (schema instanceof z.ZodCatch) return unwrap(schema.removeCatch());
+  if (schema instanceof z.ZodPipeline) return unwrap(schema._def.in);
+  return schema;
+}
+
+function childSchema(schema: ZodTypeAny, key: string | number): ZodTypeAny | undefined {
+  const inner = unwrap(schema);
+  if (inner instanceof z.ZodOptional || inner instanceof z.ZodNullable) return childSchema(inner.unwrap(), key);
+  if (inner instanceof z.ZodDefault) return childSchema(inner.removeDefault(), key);
+  if (inner instanceof z.ZodObject) return inner.shape[key];
+  if (inner instanceof z.ZodArray) return inner.element;
+  if (inner instanceof z.ZodRecord) return inner.valueSchema;
+  if (inner instanceof z.ZodTuple) return inner.items[Number(key)];
+  // Unions have no single child schema - items under them are dropped, never patched
+  return undefined;
+}
+
+function schemaAt(schema: ZodTypeAny, path: (string | number)[]): ZodTypeAny | undefined {
+  let current: ZodTypeAny | undefined = schema;
+  for (const key of path) {
+    if (!current) return undefined;
+    current = childSchema(current, key);
+  }
+  return current;
+}
+
+// A value that is valid for the schema and carries no meaning, or `none` when there is no such value.
+// Any number or boolean means something - a risk score of 0 reads as "safe" - so they have none.
+const none = Symbol('none');
+
+function safeDefault(schema: ZodTypeAny): unknown {
+  const inner = unwrap(schema);
+  if (inner instanceof z.ZodDefault) return inner._def.defaultValue();
+  if (inner instanceof z.ZodOptional) return undefined;
+  if (inner instanceof z.ZodNullable) return null;
+  if (inner instanceof z.ZodString) return inner.isDatetime || inner.isEmail || inner.isURL || inner.isUUID || (inner.minLength ?? 0) > 0 ? none : '';
+  if (inner instanceof z.ZodArray) return (inner._def.minLength?.value ?? 0) > 0 ? none : [];
+  if (inner instanceof z.ZodRecord) return {};
+  if (inner instanceof z.ZodAny || inner instanceof z.ZodUnknown) return null;
+  return none;
+}
+
+function getAt(data: unknown, path: (string | number)[]): unknown {
+  let current = data;
+  for (const key of path) {
+    if (current === null || typeof current !== 'object') return undefined;
+    current = (current as Record<string | number, unknown>)[key];
+  }
+  return current;
+}
+
+function setAt(data: unknown, path: (string | number)[], value: unknown): void {
+  const parent = getAt(data, path.slice(0, -1)) as Record<string | number, unknown>;
+  const key = path[path.length - 1];
+  if (value === undefined) delete parent[key];
+  else parent[key] = value;
+}
+
+// Deepest array element containing the path, e.g. data.orchestrations.3 for data.orchestrations.3.metrics.cost
+function enclosingItem(data: unknown, path: (string | number)[]): (string | number)[] | null {
+  for (let i = path.length - 1; i >= 0; i--) {
+    if (typeof path[i] === 'number' && Array.isArray(getAt(data, path.slice(0, i)))) {
+      return path.slice(0, i + 1);
+    }
+  }
+  return null;
+}
+
+/**
+ * Validates `input` against `schema`, repairing what it can. Missing or null fields get a
+ * safe default once; anything else invalid inside a list drops that list item. Problems outside
+ * any list (e.g. a broken envelope) cannot be repaired and fail like strict mode.
+ */
+export function lenientParse<T>(schema: z.ZodType<T>, input: unknown): LenientResult<T> {
+  const data = structuredClone(input);
+  const warnings: ValidationWarning[] = [];
+  const patched = new Set<string>();
+  let firstIssues: ZodIssue[] | null = null;
+
+  for (let pass = 0; pass < MAX_PASSES; pass++) {
+    const result = schema.safeParse(data);
+    if (result.success) return { success: true, data: result.data, warnings };
+
+    const issues = result.error.issues;
+    firstIssues ??= issues;
+    const drops = new Map<string, (string | number)[]>();
+
+    for (const issue of issues) {
+      const path = issue.path;
+      const key = formatIssuePath(path);
+      const current = getAt(data, path);
+      const fieldSchema = schemaAt(schema, path);
+
+      if ((current === null || current === undefined) && fieldSchema && !patched.has(key)) {
+        const fallback = safeDefault(fieldSchema);
+        if (fallback !== none) {
+          setAt(data, path, fallback);
+          patched.add(key);
+          warnings.push({ path: key, action: 'patched', message: `${issue.message}; replaced with ${JSON.stringify(fallback) ?? 'undefined'}` });
+          continue;
+        }
+      }
+
+      const item = enclosingItem(data, path);
+      if (!item) return { success: false, issues: firstIssues };
+      drops.set(formatIssuePath(item), item);
+    }
+
+    // Deepest lists first, then from the back, so the remaining paths stay valid
+    Array.from(drops.entries())
+      .sort(([, a], [, b]) => b.length - a.length || (b[b.length - 1] as number) - (a[a.length - 1] as number))
+      .forEach(([key, item]) => {
+        const list = getAt(data, item.slice(0, -1)) as unknown[];
+        list.splice(item[item.length - 1] as number, 1);
+        const reason = issues.find(issue => {
+          const issuePath = formatIssuePath(issue.path);
+          return issuePath === key || issuePath.startsWith(`${key}.`);
+        });
+        warnings.push({ path: key, action: 'dropped', message: reason ? `${formatIssuePath(reason.path)}: ${reason.message}` : 'Invalid item' });
+      });
+  }
+
+  return { success: false, issues: firstIssues ?? [] };
+}
@@ -0,0 +1,52 @@
+import type { User } from '@/lib/schemas/api';
+
+/**
+ * Role-based permissions for the dashboard UI.
+ *
+ * These only decide what the UI offers; the API enforces the same rules on its side.
+ * Auditors and viewers are read-only - auditors can additionally pull exports and reports.
+ */
+
+export type Role = User['role'];
+
+export type Permission =
+  | 'orchestrations:create'
+  | 'orchestrations:cancel'
+  | 'orchestrations:delete'
+  | 'approvals:decide'
+  | 'agents:edit'
+  | 'policies:edit'
+  | 'settings:edit'
+  | 'audit:export'
+  | 'compliance:generate';
+
+const OPERATOR_PERMISSIONS: Permission[] = [
+  'orchestrations:create',
+  'orchestrations:cancel',
+  'orchestrations:delete',
+  'approvals:decide',
+  'agents:edit',
+  'policies:edit',
+  'audit:export',
+  'compliance:generate',
+];
+
+const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  owner: [...OPERATOR_PERMISSIONS, 'settings:edit'],
+  admin: [...OPERATOR_PERMISSIONS, 'settings:edit'],
+  operator: OPERATOR_PERMISSIONS,
+  auditor: ['audit:export', 'compliance:generate'],
+  viewer: [],
+};
+
+export function hasPermission(role: Role, permission: Permission): boolean {
+  return ROLE_PERMISSIONS[role].includes(permission);
+}
+
+export const ROLE_LABELS: Record<Role, string> = {
+  owner: 'Owner',
+  admin: 'Admin',
+  operator: 'Operator',
+  auditor: 'Auditor',
+  viewer: 'Viewer',
+};
@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { safeRedirectTarget } from './redirect';
+
+const ORIGIN = 'https://dashboard.example.com';
+
+describe('safeRedirectTarget', () => {
+  it.each([
+    ['/orchestrations/orch_0001', '/orchestrations/orch_0001'],
+    ['/audit?type=user_action#top', '/audit?type=user_action#top'],
+    [null, '/'],
+    ['', '/'],
+    // Protocol-relative: another host
+    ['//evil.com', '/'],
+    ['//evil.com/login', '/'],
+    // Browsers treat a backslash like a slash, so these are protocol-relative too
+    ['/\\evil.com', '/'],
+    ['/%5Cevil.com', '/%5Cevil.com'],
+    ['\\\\evil.com', '/'],
+    ['https://evil.com/', '/'],
+    ['javascript:alert(1)', '/'],
+    ['orchestrations', '/'],
+  ])('%j -> %s', (next, expected) => {
+    expect(safeRedirectTarget(next, ORIGIN)).toBe(expected);
+  });
+});
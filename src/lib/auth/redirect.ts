@@ -0,0 +1,15 @@
+/**
+ * Where to send the user after signing in. Only paths on the dashboard's own origin are
+ * accepted: `//evil.com` and `/\evil.com` look like paths but browsers resolve both off-site.
+ */
+export function safeRedirectTarget(next: string | null, origin: string): string {
+  if (!next || !next.startsWith('/') || next.includes('\\')) return '/';
+
+  let url: URL;
+  try {
+    url = new URL(next, origin);
+  } catch {
+    return '/';
+  }
+  return url.origin === origin ? `${url.pathname}${url.search}${url.hash}` : '/';
+}
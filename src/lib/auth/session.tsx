@@ -0,0 +1,139 @@
+import { createContext, useCallback, useContext, useEffect, useMemo, useState, type ReactNode } from 'react';
+import { useRouter } from 'next/navigation';
+import { useQueryClient } from '@tanstack/react-query';
+import { ultraSecureApiClient } from '@/lib/api/client';
+import type { AuthSession, User } from '@/lib/schemas/api';
+import { hasPermission, type Permission } from './permissions';
+
+// How long before expiry the "stay signed in" prompt appears
+export const EXPIRY_WARNING_MS = 5 * 60 * 1000;
+// setTimeout overflows above ~24.8 days
+const MAX_TIMER_MS = 2 ** 31 - 1;
+
+export type SignOutReason = 'signed_out' | 'expired' | 'unauthorized';
+
+interface SessionContextValue {
+  session: AuthSession | null;
+  user: User | null;
+  // True until the stored session has been read on the client
+  loading: boolean;
+  // True once the session is inside the warning window
+  expiring: boolean;
+  signIn: (credentials: { email: string; password: string }) => Promise<AuthSession>;
+  signOut: (reason?: SignOutReason) => Promise<void>;
+  extend: () => Promise<void>;
+  can: (permission: Permission) => boolean;
+}
+
+const SessionContext = createContext<SessionContextValue | null>(null);
+
+const loginUrl = (reason: SignOutReason) => {
+  const next = `${window.location.pathname}${window.location.search}`;
+  const params = new URLSearchParams({ reason });
+  if (next !== '/' && !next.startsWith('/login')) params.set('next', next);
+  return `/login?${params}`;
+};
+
+/**
+ * Holds the signed-in session, warns before it expires and sends the user to /login
+ * when it lapses or any API call answers 401.
+ */
+export function SessionProvider({ children }: { children: ReactNode }) {
+  const router = useRouter();
+  const queryClient = useQueryClient();
+  const [session, setSession] = useState<AuthSession | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [expiring, setExpiring] = useState(false);
+
+  useEffect(() => {
+    setSession(ultraSecureApiClient.getStoredSession());
+    setLoading(false);
+  }, []);
+
+  const endSession = useCallback((reason: SignOutReason) => {
+    ultraSecureApiClient.clearAuthToken();
+    setSession(null);
+    setExpiring(false);
+    // Cached data belongs to the previous user
+    queryClient.clear();
+    if (reason !== 'signed_out' || window.location.pathname !== '/login') {
+      router.replace(loginUrl(reason));
+    }
+  }, [queryClient, router]);
+
+  // Route guard: any 401 from the API ends the session
+  useEffect(() => {
+    return ultraSecureApiClient.onUnauthorized(() => {
+      if (window.location.pathname !== '/login') endSession('unauthorized');
+    });
+  }, [endSession]);
+
+  useEffect(() => {
+    if (!session) return;
+
+    const remaining = new Date(session.expiresAt).getTime() - Date.now();
+    if (remaining <= 0) {
+      endSession('expired');
+      return;
+    }
+
+    setExpiring(remaining <= EXPIRY_WARNING_MS);
+    const warnTimer = setTimeout(() => setExpiring(true), Math.min(Math.max(remaining - EXPIRY_WARNING_MS, 0), MAX_TIMER_MS));
+    const expireTimer = remaining <= MAX_TIMER_MS ? setTimeout(() => endSession('expired'), remaining) : undefined;
+
+    return () => {
+      clearTimeout(warnTimer);
+      clearTimeout(expireTimer);
+    };
+  }, [session, endSession]);
+
+  const signIn = useCallback(async (credentials: { email: string; password: string }) => {
+    const response = await ultraSecureApiClient.login(credentials);
+    queryClient.clear();
+    setSession(response.data);
+    return response.data;
+  }, [queryClient]);
+
+  const signOut = useCallback(async (reason: SignOutReason = 'signed_out') => {
+    try {
+      await ultraSecureApiClient.logout();
+    } catch {
+      // Already cleared locally
+    }
+    endSession(reason);
+  }, [endSession]);
+
+  const extend = useCallback(async () => {
+    const response = await ultraSecureApiClient.refreshSession();
+    setSession(response.data);
+  }, []);
+
+  // Without a session the API is the only authority - the UI does not guess a role
+  const can = useCallback(
+    (permission: Permission) => (session ? hasPermission(session.user.role, permission) : true),
+    [session]
+  );
+
+  const value = useMemo<SessionContextValue>(() => ({
+    session,
+    user: session?.user ?? null,
+    loading,
+    expiring,
+    signIn,
+    signOut,
+    extend,
+    can,
+  }), [session, loading, expiring, signIn, signOut, extend, can]);
+
+  return <SessionContext.Provider value={value}>{children}</SessionContext.Provider>;
+}
+
+export function useSession(): SessionContextValue {
+  const context = useContext(SessionContext);
+  if (!context) throw new Error('useSession must be used inside <SessionProvider>');
+  return context;
+}
+
+export function usePermission(permission: Permission): boolean {
+  return useSession().can(permission);
+}
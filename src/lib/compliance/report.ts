@@ -0,0 +1,168 @@
+import { ComplianceReportSchema, type ComplianceReport } from '@/lib/schemas/api';
+
+/**
+ * Verification and rendering of `compliance_report` exports.
+ *
+ * The schema check is strict; everything after it is a consistency check auditors would otherwise
+ * do by hand (totals add up, records fall inside the reported range) and is reported as a warning.
+ */
+
+// Major versions of the report payload this dashboard knows how to read
+export const SUPPORTED_SCHEMA_VERSIONS = ['1'];
+
+export interface VerificationIssue {
+  severity: 'error' | 'warning';
+  path: string;
+  message: string;
+}
+
+export interface ComplianceVerification {
+  valid: boolean;
+  report: ComplianceReport | null;
+  issues: VerificationIssue[];
+}
+
+export function verifyComplianceReport(raw: unknown, requested?: { start: string; end: string }): ComplianceVerification {
+  const parsed = ComplianceReportSchema.safeParse(raw);
+
+  if (!parsed.success) {
+    return {
+      valid: false,
+      report: null,
+      issues: parsed.error.issues.map(issue => ({
+        severity: 'error',
+        path: issue.path.join('.') || '(root)',
+        message: issue.message,
+      })),
+    };
+  }
+
+  const report = parsed.data;
+  const issues: VerificationIssue[] = [];
+  const warn = (path: string, message: string) => issues.push({ severity: 'warning', path, message });
+
+  const major = report.schemaVersion.split('.')[0];
+  if (!SUPPORTED_SCHEMA_VERSIONS.includes(major)) {
+    warn('schemaVersion', `Schema version ${report.schemaVersion} is newer than this dashboard supports`);
+  }
+
+  const start = new Date(report.dateRange.start).getTime();
+  const end = new Date(report.dateRange.end).getTime();
+  if (start > end) {
+    issues.push({ severity: 'error', path: 'dateRange', message: 'Range starts after it ends' });
+  }
+  // Compare instants, not strings - the server may normalise the ISO format
+  if (requested && (start !== new Date(requested.start).getTime() || end !== new Date(requested.end).getTime())) {
+    warn('dateRange', `Report covers ${report.dateRange.start} – ${report.dateRange.end}, not the requested range`);
+  }
+
+  const outside = (timestamp: string) => {
+    const time = new Date(timestamp).getTime();
+    return time < start || time > end;
+  };
+  const { summary, decisionsByPolicy, violations, approvals } = report.data;
+  violations.forEach((violation, i) => {
+    if (outside(violation.timestamp)) warn(`data.violations.${i}.timestamp`, 'Violation falls outside the report range');
+  });
+  approvals.forEach((approval, i) => {
+    if (outside(approval.resolvedAt)) warn(`data.approvals.${i}.resolvedAt`, 'Approval was resolved outside the report range');
+  });
+
+  decisionsByPolicy.forEach((policy, i) => {
+    if (policy.allow + policy.deny + policy.ask + policy.autofix !== policy.total) {
+      warn(`data.decisionsByPolicy.${i}.total`, `Decision counts for ${policy.policyName} do not add up to ${policy.total}`);
+    }
+  });
+  const policyTotal = decisionsByPolicy.reduce((sum, policy) => sum + policy.total, 0);
+  if (policyTotal !== summary.totalDecisions) {
+    warn('data.summary.totalDecisions', `Summary reports ${summary.totalDecisions} decisions, policies account for ${policyTotal}`);
+  }
+  if (summary.violations !== violations.length) {
+    warn('data.summary.violations', `Summary reports ${summary.violations} violations, ${violations.length} are listed`);
+  }
+  if (summary.approvals !== approvals.length) {
+    warn('data.summary.approvals', `Summary reports ${summary.approvals} approvals, ${approvals.length} are listed`);
+  }
+
+  return { valid: !issues.some(issue => issue.severity === 'error'), report, issues };
+}
+
+const escapeHtml = (value: unknown) =>
+  String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const formatDate = (value: string) => new Date(value).toLocaleString();
+
+const table = (headers: string[], rows: unknown[][], empty: string) =>
+  rows.length === 0
+    ? `<p class="empty">${escapeHtml(empty)}</p>`
+    : `<table><thead><tr>${headers.map(h => `<th>${escapeHtml(h)}</th>`).join('')}</tr></thead><tbody>${rows
+        .map(row => `<tr>${row.map(cell => `<td>${escapeHtml(cell)}</td>`).join('')}</tr>`)
+        .join('')}</tbody></table>`;
+
+// Standalone, print-friendly HTML document; no external assets so it survives being emailed or archived
+export function renderComplianceReportHtml(report: ComplianceReport): string {
+  const { summary, decisionsByPolicy, violations, approvals } = report.data;
+  const range = `${formatDate(report.dateRange.start)} – ${formatDate(report.dateRange.end)}`;
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Compliance Report ${escapeHtml(report.exportId)}</title>
+<style>
+  body { font-family: system-ui, -apple-system, sans-serif; color: #0f172a; margin: 2rem; font-size: 12px; }
+  h1 { font-size: 20px; margin-bottom: 0; }
+  h2 { font-size: 15px; margin-top: 2rem; border-bottom: 1px solid #cbd5e1; padding-bottom: 4px; }
+  .meta { color: #475569; margin-top: 4px; }
+  .summary { display: grid; grid-template-columns: repeat(6, 1fr); gap: 8px; margin-top: 1rem; }
+  .summary div { border: 1px solid #cbd5e1; border-radius: 6px; padding: 8px; }
+  .summary strong { display: block; font-size: 18px; }
+  table { width: 100%; border-collapse: collapse; margin-top: 8px; }
+  th, td { text-align: left; padding: 4px 6px; border-bottom: 1px solid #e2e8f0; vertical-align: top; }
+  th { background: #f1f5f9; }
+  .empty { color: #64748b; font-style: italic; }
+  @media print { body { margin: 0; } h2 { break-after: avoid; } tr { break-inside: avoid; } }
+</style>
+</head>
+<body>
+<h1>Compliance Report</h1>
+<div class="meta">${escapeHtml(range)} · generated ${escapeHtml(formatDate(report.generatedAt))} · export ${escapeHtml(report.exportId)} · schema v${escapeHtml(report.schemaVersion)}</div>
+
+<div class="summary">
+  <div>Decisions<strong>${summary.totalDecisions}</strong></div>
+  <div>Allowed<strong>${summary.allowed}</strong></div>
+  <div>Denied<strong>${summary.denied}</strong></div>
+  <div>Escalated<strong>${summary.escalated}</strong></div>
+  <div>Violations<strong>${summary.violations}</strong></div>
+  <div>Approvals<strong>${summary.approvals}</strong></div>
+</div>
+
+<h2>Decisions by Policy</h2>
+${table(
+  ['Policy', 'Total', 'Allow', 'Deny', 'Ask', 'Autofix'],
+  decisionsByPolicy.map(p => [p.policyName, p.total, p.allow, p.deny, p.ask, p.autofix]),
+  'No policy decisions in this period.'
+)}
+
+<h2>Violations</h2>
+${table(
+  ['Time', 'Level', 'Policy', 'Agent', 'Orchestration', 'Message'],
+  violations.map(v => [formatDate(v.timestamp), v.level.toUpperCase(), v.policyName ?? v.policyId ?? '—', v.agentId ?? '—', v.orchestrationId ?? '—', v.message]),
+  'No violations in this period.'
+)}
+
+<h2>Approvals</h2>
+${table(
+  ['Resolved', 'Outcome', 'Approver', 'Orchestration', 'Step', 'Justification'],
+  approvals.map(a => [formatDate(a.resolvedAt), a.status.toUpperCase(), a.approverName, a.orchestrationId, a.stepName ?? '—', a.justification ?? '—']),
+  'No approvals in this period.'
+)}
+</body>
+</html>
+`;
+}
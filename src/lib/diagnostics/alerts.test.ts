@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { detectAlerts, type ObservedRun, type ObservedState } from './alerts';
+import type { Severity, SystemStatus } from './problems';
+
+const run = (globalStatus: SystemStatus, problems: Record<string, Severity> = {}): ObservedRun => ({
+  globalStatus,
+  problems: Object.entries(problems).map(([id, severity]) => ({ id, severity, title: id, description: `${id} description` })),
+});
+
+const state = (globalStatus: SystemStatus, problems: Record<string, Severity> = {}): ObservedState => ({ globalStatus, problems });
+
+describe('detectAlerts', () => {
+  it.each<[string, ObservedState | null, ObservedRun, string[]]>([
+    ['first run, all clear', null, run('operational'), []],
+    ['first run with an outage', null, run('down', { 'health-failure': 'critical' }), ['status:down', 'problem:health-failure:critical']],
+    ['nothing changed', state('degraded', { redis: 'warning' }), run('degraded', { redis: 'warning' }), []],
+    ['status got worse', state('degraded'), run('critical'), ['status:critical']],
+    ['status got better but not operational', state('down'), run('degraded'), []],
+    ['recovery', state('critical', { db: 'critical' }), run('operational'), ['status:operational']],
+    ['new problem', state('degraded', { redis: 'warning' }), run('degraded', { redis: 'warning', latency: 'warning' }), ['problem:latency:warning']],
+    ['info problems never alert', state('operational'), run('operational', { hint: 'info' }), []],
+    ['warning escalating to critical', state('degraded', { endpoints: 'warning' }), run('degraded', { endpoints: 'critical' }), ['problem:endpoints:critical']],
+    ['info escalating to warning', state('operational', { latency: 'info' }), run('degraded', { latency: 'warning' }), ['status:degraded', 'problem:latency:warning']],
+    ['critical easing to warning', state('critical', { endpoints: 'critical' }), run('critical', { endpoints: 'warning' }), []],
+  ])('%s', (_, previous, current, keys) => {
+    expect(detectAlerts(previous, current).map(alert => alert.key)).toEqual(keys);
+  });
+
+  it('says when a problem escalated', () => {
+    const [alert] = detectAlerts(state('degraded', { endpoints: 'warning' }), run('degraded', { endpoints: 'critical' }));
+    expect(alert).toMatchObject({ kind: 'problem', severity: 'critical', description: 'Escalated from warning to critical. endpoints description' });
+  });
+});
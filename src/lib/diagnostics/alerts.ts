@@ -0,0 +1,255 @@
+import { toast } from 'sonner';
+import type { Problem, Severity, SystemStatus } from './problems';
+
+/**
+ * Alerts for diagnostics runs that got worse: the global status moving away from operational,
+ * a problem id that was not there on the previous run, or a problem escalating from warning to
+ * critical. Recoveries back to operational are announced too.
+ *
+ * Each alert has a key (`status:<status>` or `problem:<id>:<severity>`), so an escalation is not
+ * deduped or snoozed along with the warning before it. A key that fired within
+ * DEDUPE_MS is recorded but not delivered again, and keys can be snoozed one by one or all at
+ * once. Delivery is a toast, plus a browser Notification when enabled, which is what reaches
+ * someone with the dashboard in a background tab. State lives in localStorage so a reload does
+ * not re-announce an outage that was already announced.
+ */
+
+export type AlertSeverity = Extract<Severity, 'critical' | 'warning' | 'success'>;
+
+export interface AlertCandidate {
+  key: string;
+  kind: 'status' | 'problem' | 'recovery';
+  severity: AlertSeverity;
+  title: string;
+  description: string;
+}
+
+export interface Alert extends AlertCandidate {
+  id: string;
+  timestamp: number;
+  // Why it was recorded without being delivered
+  suppressed?: 'duplicate' | 'snoozed';
+}
+
+export interface ObservedRun {
+  globalStatus: SystemStatus;
+  problems: Pick<Problem, 'id' | 'severity' | 'title' | 'description'>[];
+}
+
+export const DEDUPE_MS = 15 * 60 * 1000;
+export const MAX_ALERT_HISTORY = 200;
+
+const STATUS_RANK: Record<SystemStatus, number> = { operational: 0, degraded: 1, critical: 2, down: 3 };
+
+const STATUS_ALERTS: Record<Exclude<SystemStatus, 'operational'>, { severity: AlertSeverity; title: string }> = {
+  degraded: { severity: 'warning', title: 'System degraded' },
+  critical: { severity: 'critical', title: 'System critical' },
+  down: { severity: 'critical', title: 'System down' },
+};
+
+// Info problems are context, not something to wake anyone for
+const SEVERITY_RANK: Partial<Record<Severity, number>> = { warning: 1, critical: 2 };
+
+const severityRank = (severity: Severity | undefined) => (severity && SEVERITY_RANK[severity]) || 0;
+
+// What the previous run is remembered as
+export interface ObservedState {
+  globalStatus: SystemStatus;
+  // Severity per problem id
+  problems: Record<string, Severity>;
+}
+
+const observedState = (run: ObservedRun): ObservedState => ({
+  globalStatus: run.globalStatus,
+  problems: Object.fromEntries(run.problems.map(problem => [problem.id, problem.severity])),
+});
+
+// What changed for the worse (or recovered) between two runs; no previous run counts as all clear
+export function detectAlerts(previous: ObservedState | null, current: ObservedRun): AlertCandidate[] {
+  const before: ObservedState = previous ?? { globalStatus: 'operational', problems: {} };
+  const alerts: AlertCandidate[] = [];
+
+  if (current.globalStatus !== before.globalStatus) {
+    if (current.globalStatus === 'operational') {
+      alerts.push({
+        key: 'status:operational',
+        kind: 'recovery',
+        severity: 'success',
+        title: 'System recovered',
+        description: `All systems operational again after being ${before.globalStatus}.`,
+      });
+    } else if (STATUS_RANK[current.globalStatus] > STATUS_RANK[before.globalStatus]) {
+      const { severity, title } = STATUS_ALERTS[current.globalStatus];
+      alerts.push({
+        key: `status:${current.globalStatus}`,
+        kind: 'status',
+        severity,
+        title,
+        description: `Status changed from ${before.globalStatus} to ${current.globalStatus}.`,
+      });
+    }
+  }
+
+  current.problems.forEach(problem => {
+    const earlier = before.problems[problem.id];
+    if (severityRank(problem.severity) <= severityRank(earlier)) return;
+
+    alerts.push({
+      key: `problem:${problem.id}:${problem.severity}`,
+      kind: 'problem',
+      severity: problem.severity as AlertSeverity,
+      title: problem.title,
+      description: severityRank(earlier) > 0 ? `Escalated from ${earlier} to ${problem.severity}. ${problem.description}` : problem.description,
+    });
+  });
+
+  return alerts;
+}
+
+export interface AlertState {
+  history: Alert[];
+  // Last delivery per key, for dedupe
+  lastDelivered: Record<string, number>;
+  snoozedUntil: number | null;
+  snoozedKeys: Record<string, number>;
+  notifications: boolean;
+  last: ObservedState | null;
+}
+
+const STORAGE_KEY = 'dashboard_alerts';
+
+export const emptyAlertState = (): AlertState => ({
+  history: [],
+  lastDelivered: {},
+  snoozedUntil: null,
+  snoozedKeys: {},
+  notifications: false,
+  last: null,
+});
+
+type AlertListener = (state: AlertState) => void;
+
+export class AlertManager {
+  private state: AlertState | null = null;
+  private listeners = new Set<AlertListener>();
+
+  public getState(): AlertState {
+    if (!this.state) {
+      this.state = emptyAlertState();
+      if (typeof localStorage !== 'undefined') {
+        try {
+          this.state = { ...this.state, ...JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}') };
+        } catch {
+          // Corrupt state only costs the history
+        }
+      }
+    }
+    return this.state!;
+  }
+
+  private update(changes: Partial<AlertState>): void {
+    this.state = { ...this.getState(), ...changes };
+    if (typeof localStorage !== 'undefined') localStorage.setItem(STORAGE_KEY, JSON.stringify(this.state));
+    this.listeners.forEach(listener => listener(this.state!));
+  }
+
+  public isSnoozed(key: string, now = Date.now()): boolean {
+    const { snoozedUntil, snoozedKeys } = this.getState();
+    return (snoozedUntil !== null && snoozedUntil > now) || (snoozedKeys[key] ?? 0) > now;
+  }
+
+  // Compare a finished run with the one before it and deliver whatever got worse
+  public process(run: ObservedRun, now = Date.now()): Alert[] {
+    const state = this.getState();
+    const lastDelivered = { ...state.lastDelivered };
+
+    const alerts: Alert[] = detectAlerts(state.last, run).map(candidate => {
+      const alert: Alert = { ...candidate, id: `${candidate.key}@${now}`, timestamp: now };
+      if (this.isSnoozed(candidate.key, now)) {
+        alert.suppressed = 'snoozed';
+      } else if (now - (lastDelivered[candidate.key] ?? 0) < DEDUPE_MS) {
+        alert.suppressed = 'duplicate';
+      } else {
+        lastDelivered[candidate.key] = now;
+      }
+      return alert;
+    });
+
+    // Drop expired dedupe and snooze entries so the stored state does not grow forever
+    const live = (entries: Record<string, number>, cutoff: number) =>
+      Object.fromEntries(Object.entries(entries).filter(([, at]) => at > cutoff));
+
+    this.update({
+      history: [...[...alerts].reverse(), ...state.history].slice(0, MAX_ALERT_HISTORY),
+      lastDelivered: live(lastDelivered, now - DEDUPE_MS),
+      snoozedKeys: live(state.snoozedKeys, now),
+      last: observedState(run),
+    });
+
+    alerts.filter(alert => !alert.suppressed).forEach(alert => this.deliver(alert));
+    return alerts;
+  }
+
+  private deliver(alert: Alert): void {
+    // Outage toasts stay up until dismissed; a recovery clears them
+    if (alert.kind === 'recovery') Object.keys(STATUS_ALERTS).forEach(status => toast.dismiss(`status:${status}`));
+
+    const show = alert.severity === 'critical' ? toast.error : alert.severity === 'warning' ? toast.warning : toast.success;
+    show(alert.title, {
+      id: alert.key,
+      description: alert.description,
+      duration: alert.severity === 'critical' ? Infinity : 10000,
+      action: alert.kind === 'recovery' ? undefined : { label: 'Snooze 1h', onClick: () => this.snoozeKey(alert.key, 60 * 60 * 1000) },
+    });
+
+    if (this.getState().notifications && typeof Notification !== 'undefined' && Notification.permission === 'granted') {
+      // Same tag replaces an earlier notification for the key instead of stacking
+      const notification = new Notification(alert.title, { body: alert.description, tag: alert.key });
+      notification.onclick = () => {
+        window.focus();
+        notification.close();
+      };
+    }
+  }
+
+  // Asks for permission when turning on; resolves to whether notifications are now on
+  public async setNotifications(enabled: boolean): Promise<boolean> {
+    if (enabled) {
+      if (typeof Notification === 'undefined') return false;
+      const permission = Notification.permission === 'default' ? await Notification.requestPermission() : Notification.permission;
+      enabled = permission === 'granted';
+    }
+    this.update({ notifications: enabled });
+    return enabled;
+  }
+
+  public snoozeAll(durationMs: number): void {
+    this.update({ snoozedUntil: Date.now() + durationMs });
+  }
+
+  public snoozeKey(key: string, durationMs: number): void {
+    this.update({ snoozedKeys: { ...this.getState().snoozedKeys, [key]: Date.now() + durationMs } });
+  }
+
+  public unsnooze(key?: string): void {
+    if (key) {
+      const { [key]: _, ...rest } = this.getState().snoozedKeys;
+      this.update({ snoozedKeys: rest });
+    } else {
+      this.update({ snoozedUntil: null, snoozedKeys: {} });
+    }
+  }
+
+  public clearHistory(): void {
+    this.update({ history: [] });
+  }
+
+  public subscribe(listener: AlertListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+}
+
+export const alertManager = new AlertManager();
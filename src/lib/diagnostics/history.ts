@@ -0,0 +1,132 @@
+import type { CheckStatus, EndpointCheck, Problem, Severity, SystemStatus } from './problems';
+
+/**
+ * Rolling history of diagnostics runs, kept in IndexedDB so it survives reloads and closed tabs.
+ *
+ * One sample per run of the status page checks, keyed by its timestamp. Samples older than
+ * RETENTION_MS are pruned on write. Where IndexedDB is unavailable (server render, some private
+ * windows) samples are kept in memory for the session instead.
+ */
+
+export interface HealthSample {
+  timestamp: number;
+  globalStatus: SystemStatus;
+  healthStatus: CheckStatus;
+  readyStatus: CheckStatus;
+  endpoints: { name: string; path: string; status: CheckStatus; latency?: number }[];
+  problems: { id: string; severity: Severity; title: string }[];
+}
+
+// Only what the uptime views need, so a month of samples stays small
+export function toHealthSample(run: {
+  globalStatus: SystemStatus;
+  healthStatus: CheckStatus;
+  readyStatus: CheckStatus;
+  endpoints: EndpointCheck[];
+  problems: Problem[];
+}, timestamp = Date.now()): HealthSample {
+  return {
+    timestamp,
+    globalStatus: run.globalStatus,
+    healthStatus: run.healthStatus,
+    readyStatus: run.readyStatus,
+    endpoints: run.endpoints.map(({ name, path, status, latency }) => ({ name, path, status, latency })),
+    problems: run.problems.map(({ id, severity, title }) => ({ id, severity, title })),
+  };
+}
+
+export const RETENTION_MS = 31 * 24 * 60 * 60 * 1000;
+
+const DB_NAME = 'dashboard-diagnostics';
+const DB_VERSION = 1;
+const STORE = 'health-history';
+
+type HistoryListener = () => void;
+
+// IDBRequest and IDBTransaction only speak in callbacks
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function completed(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+export class HealthHistory {
+  private db: Promise<IDBDatabase | null> | null = null;
+  private memory: HealthSample[] = [];
+  private listeners = new Set<HistoryListener>();
+
+  private open(): Promise<IDBDatabase | null> {
+    if (!this.db) {
+      this.db = new Promise(resolve => {
+        if (typeof indexedDB === 'undefined') {
+          resolve(null);
+          return;
+        }
+
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(STORE, { keyPath: 'timestamp' });
+        };
+        request.onsuccess = () => resolve(request.result);
+        // Blocked or denied storage falls back to memory rather than failing the page
+        request.onerror = () => resolve(null);
+      });
+    }
+    return this.db;
+  }
+
+  async record(sample: HealthSample): Promise<void> {
+    const db = await this.open();
+    const cutoff = sample.timestamp - RETENTION_MS;
+
+    if (db) {
+      const transaction = db.transaction(STORE, 'readwrite');
+      const store = transaction.objectStore(STORE);
+      store.put(sample);
+      store.delete(IDBKeyRange.upperBound(cutoff, true));
+      await completed(transaction);
+    } else {
+      this.memory = [...this.memory.filter(existing => existing.timestamp >= cutoff), sample];
+    }
+
+    this.listeners.forEach(listener => listener());
+  }
+
+  // Oldest first
+  async since(from: number): Promise<HealthSample[]> {
+    const db = await this.open();
+    if (!db) return this.memory.filter(sample => sample.timestamp >= from);
+
+    const store = db.transaction(STORE, 'readonly').objectStore(STORE);
+    return promisify(store.getAll(IDBKeyRange.lowerBound(from)) as IDBRequest<HealthSample[]>);
+  }
+
+  async clear(): Promise<void> {
+    const db = await this.open();
+    if (db) {
+      const transaction = db.transaction(STORE, 'readwrite');
+      transaction.objectStore(STORE).clear();
+      await completed(transaction);
+    }
+    this.memory = [];
+    this.listeners.forEach(listener => listener());
+  }
+
+  subscribe(listener: HistoryListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+}
+
+export const healthHistory = new HealthHistory();
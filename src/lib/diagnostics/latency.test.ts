@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import type { HealthSample } from './history';
+import type { EndpointCheck } from './problems';
+import { LATENCY_WINDOW_MS, MIN_LATENCY_SAMPLES, percentile, percentileBands, rollingLatency, type LatencyPoint } from './latency';
+
+const NOW = Date.parse('2026-01-01T12:00:00Z');
+const MINUTE = 60_000;
+
+describe('percentile', () => {
+  it.each<[string, number[], number, number]>([
+    ['a single value', [42], 99, 42],
+    ['p50 between two values', [100, 300], 50, 200],
+    ['p0 is the minimum', [5, 1, 3], 0, 1],
+    ['p100 is the maximum', [5, 1, 3], 100, 5],
+    ['an exact rank', [10, 20, 30, 40, 50], 25, 20],
+    ['between ranks', [10, 20, 30, 40], 50, 25],
+    ['unsorted input', [40, 10, 30, 20], 75, 32.5],
+    ['p95 of 1..100', Array.from({ length: 100 }, (_, index) => index + 1), 95, 95.05],
+  ])('%s', (_, values, p, expected) => {
+    expect(percentile(values, p)).toBeCloseTo(expected, 10);
+  });
+
+  it('is NaN without values', () => {
+    expect(percentile([], 50)).toBeNaN();
+  });
+
+  it('does not sort its input in place', () => {
+    const values = [3, 1, 2];
+    percentile(values, 50);
+    expect(values).toEqual([3, 1, 2]);
+  });
+});
+
+describe('percentileBands', () => {
+  const point = (timestamp: number, latency: number): LatencyPoint => ({ timestamp, latency, ok: true });
+
+  it('puts each point in the bucket covering [start, end)', () => {
+    const bands = percentileBands([point(0, 100), point(249, 300), point(250, 50), point(999, 70), point(1000, 9000), point(-1, 9000)], 0, 1000, 4);
+
+    expect(bands).toEqual([
+      { start: 0, end: 250, count: 2, p50: 200, p95: 290, p99: 298 },
+      { start: 250, end: 500, count: 1, p50: 50, p95: 50, p99: 50 },
+      { start: 500, end: 750 },
+      { start: 750, end: 1000, count: 1, p50: 70, p95: 70, p99: 70 },
+    ]);
+  });
+
+  it('returns empty buckets without points', () => {
+    expect(percentileBands([], 0, 60, 3)).toEqual([{ start: 0, end: 20 }, { start: 20, end: 40 }, { start: 40, end: 60 }]);
+  });
+});
+
+describe('rollingLatency', () => {
+  // One earlier run per [minutes before NOW, latency], checking the Health endpoint
+  function history(...runs: [number, number | undefined][]): HealthSample[] {
+    return runs.map(([minutesAgo, latency]) => ({
+      timestamp: NOW - minutesAgo * MINUTE,
+      globalStatus: 'operational',
+      healthStatus: 'success',
+      readyStatus: 'success',
+      endpoints: [{ name: 'Health', path: '/health', status: 'success', latency }],
+      problems: [],
+    }));
+  }
+
+  const current = (latency?: number): EndpointCheck[] => [{ name: 'Health', path: '/health', status: 'success', latency }];
+
+  it.each<[string, HealthSample[], number | undefined, number[] | null]>([
+    [`${MIN_LATENCY_SAMPLES} checks including the current one`, history([2, 100], [1, 200]), 300, [100, 200, 300]],
+    ['too few checks to judge', history([1, 200]), 300, null],
+    ['no checks at all', [], undefined, null],
+    ['a current check without a latency', history([3, 100], [2, 200], [1, 300]), undefined, [100, 200, 300]],
+    ['earlier checks without a latency', history([3, 100], [2, undefined], [1, 300]), 400, [100, 300, 400]],
+    ['a run exactly at the window start counts', history([LATENCY_WINDOW_MS / MINUTE, 100], [1, 200]), 300, [100, 200, 300]],
+    ['a run older than the window does not', history([LATENCY_WINDOW_MS / MINUTE + 1, 100], [1, 200]), 300, null],
+    // The current run is passed in separately; a history entry stamped now would count it twice
+    ['a run stamped now does not', history([0, 100], [1, 200]), 300, null],
+    ['a run in the future does not', history([-1, 100], [1, 200]), 300, null],
+  ])('%s', (_, runs, latency, latencies) => {
+    const [found] = rollingLatency(runs, current(latency), NOW);
+    expect(found?.latencies ?? null).toEqual(latencies);
+  });
+
+  it('reports percentiles per endpoint', () => {
+    expect(rollingLatency(history([2, 100], [1, 300]), current(200), NOW)).toEqual([
+      { name: 'Health', path: '/health', latencies: [100, 300, 200], count: 3, p50: 200, p95: 290, p99: 298 },
+    ]);
+  });
+
+  it('only counts checks of the same path', () => {
+    const ready: EndpointCheck = { name: 'Ready', path: '/ready', status: 'success', latency: 50 };
+    const found = rollingLatency(history([2, 100], [1, 200]), [...current(300), ready], NOW);
+    expect(found.map(({ path }) => path)).toEqual(['/health']);
+  });
+
+  it('uses a custom window', () => {
+    expect(rollingLatency(history([20, 100], [15, 200]), current(300), NOW, 30 * MINUTE)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,92 @@
+import type { HealthSample } from './history';
+import type { EndpointCheck } from './problems';
+
+/**
+ * Latency statistics over the recorded endpoint checks.
+ *
+ * Percentiles use linear interpolation between closest ranks, so p50 of [100, 300] is 200.
+ */
+
+// The high-latency rule looks at this much history, and only once an endpoint has enough checks in it
+export const LATENCY_WINDOW_MS = 10 * 60 * 1000;
+export const MIN_LATENCY_SAMPLES = 3;
+
+export interface LatencyPoint {
+  timestamp: number;
+  latency: number;
+  ok: boolean;
+}
+
+export interface LatencyStats {
+  count: number;
+  p50: number;
+  p95: number;
+  p99: number;
+}
+
+export interface LatencyBucket extends Partial<LatencyStats> {
+  start: number;
+  end: number;
+}
+
+export function percentile(values: number[], p: number): number {
+  if (values.length === 0) return NaN;
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = (p / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
+
+export function latencyStats(values: number[]): LatencyStats | null {
+  if (values.length === 0) return null;
+  return { count: values.length, p50: percentile(values, 50), p95: percentile(values, 95), p99: percentile(values, 99) };
+}
+
+// Oldest first; checks that never got a response time are left out
+export function latencySeries(samples: HealthSample[], path: string): LatencyPoint[] {
+  return samples
+    .flatMap(sample => sample.endpoints
+      .filter(endpoint => endpoint.path === path && typeof endpoint.latency === 'number')
+      .map(endpoint => ({ timestamp: sample.timestamp, latency: endpoint.latency!, ok: endpoint.status === 'success' })))
+    .sort((a, b) => a.timestamp - b.timestamp);
+}
+
+// [from, to) cut into equal buckets with the percentiles of the points in each; empty buckets have no stats
+export function percentileBands(points: LatencyPoint[], from: number, to: number, buckets: number): LatencyBucket[] {
+  const size = (to - from) / buckets;
+  const values: number[][] = Array.from({ length: buckets }, () => []);
+
+  points.forEach(point => {
+    const index = Math.floor((point.timestamp - from) / size);
+    if (index >= 0 && index < buckets) values[index].push(point.latency);
+  });
+
+  return values.map((bucket, index) => ({
+    start: from + index * size,
+    end: from + (index + 1) * size,
+    ...latencyStats(bucket),
+  }));
+}
+
+/**
+ * Per-endpoint stats over the recent window, counting the current run's checks too. Endpoints
+ * with fewer than MIN_LATENCY_SAMPLES checks are left out: too little data to judge.
+ */
+export function rollingLatency(
+  history: HealthSample[],
+  current: EndpointCheck[],
+  now = Date.now(),
+  windowMs = LATENCY_WINDOW_MS
+): (LatencyStats & { name: string; path: string; latencies: number[] })[] {
+  const recent = history.filter(sample => sample.timestamp >= now - windowMs && sample.timestamp < now);
+
+  return current
+    .map(endpoint => {
+      const latencies = latencySeries(recent, endpoint.path).map(point => point.latency);
+      if (typeof endpoint.latency === 'number') latencies.push(endpoint.latency);
+      return { name: endpoint.name, path: endpoint.path, latencies, stats: latencyStats(latencies) };
+    })
+    .filter(entry => entry.stats !== null && entry.stats.count >= MIN_LATENCY_SAMPLES)
+    .map(({ stats, ...entry }) => ({ ...entry, ...stats! }));
+}
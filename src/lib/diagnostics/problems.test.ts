@@ -0,0 +1,251 @@
+import { describe, expect, it } from 'vitest';
+import type { HealthSample } from './history';
+import {
+  builtInRules,
+  connectionErrorProblem,
+  deriveGlobalStatus,
+  healthCheckStatus,
+  readyCheckStatus,
+  type CheckStatus,
+  type DiagnosticContext,
+  type EndpointCheck,
+  type Problem,
+  type Severity,
+  type SystemStatus,
+} from './problems';
+
+const NOW = new Date('2026-01-01T12:00:00Z');
+
+function context(overrides: Partial<DiagnosticContext> = {}): DiagnosticContext {
+  return {
+    health: { status: 'success', data: { status: 'healthy', checks: { database: true, redis: true } } },
+    ready: { status: 'success', data: { ready: true } },
+    plugins: [],
+    endpoints: [],
+    metrics: { available: true },
+    history: [],
+    ...overrides,
+  };
+}
+
+function run(ruleId: string, overrides: Partial<DiagnosticContext>): Problem[] {
+  const rule = builtInRules.find(candidate => candidate.id === ruleId);
+  if (!rule) throw new Error(`No built-in rule ${ruleId}`);
+  return rule.evaluate(context(overrides), NOW);
+}
+
+// [severity, title] per problem, or [] for none
+const summary = (problems: Problem[]) => problems.map(problem => [problem.severity, problem.title]);
+
+const endpoint = (name: string, status: CheckStatus = 'success', latency = 100): EndpointCheck =>
+  ({ name, path: `/${name.toLowerCase()}`, status, latency });
+
+// One earlier run per latency, a minute apart, ending a minute before NOW
+function history(latencies: number[], name = 'Health'): HealthSample[] {
+  return latencies.map((latency, index) => ({
+    timestamp: NOW.getTime() - (latencies.length - index) * 60_000,
+    globalStatus: 'operational',
+    healthStatus: 'success',
+    readyStatus: 'success',
+    endpoints: [{ name, path: `/${name.toLowerCase()}`, status: 'success', latency }],
+    problems: [],
+  }));
+}
+
+const problem = (severity: Severity): Problem => ({
+  id: `test-${severity}`,
+  severity,
+  title: severity,
+  description: '',
+  component: 'Test',
+  detectedAt: NOW,
+  solution: '',
+  steps: [],
+});
+
+describe('built-in rules', () => {
+  it('has the seven rules in listing order', () => {
+    expect(builtInRules.map(rule => rule.id)).toEqual([
+      'health-failure',
+      'readiness-failure',
+      'database-connection',
+      'redis-connection',
+      'missing-plugins',
+      'endpoint-failures',
+      'high-latency',
+    ]);
+  });
+
+  describe('health-failure', () => {
+    it.each([
+      ['healthy body', { status: 'success', data: { status: 'healthy' } }, []],
+      ['unhealthy body', { status: 'error', data: { status: 'unhealthy' } }, [['critical', 'Health Check Failed']]],
+      ['no body (request failed)', { status: 'error' }, [['critical', 'Health Check Failed']]],
+      ['non-JSON body', { status: 'success', data: null }, [['critical', 'Health Check Failed']]],
+    ] as const)('%s', (_, health, expected) => {
+      expect(summary(run('health-failure', { health }))).toEqual(expected);
+    });
+  });
+
+  describe('readiness-failure', () => {
+    it.each([
+      ['ready: true', { ready: true }, []],
+      ['status ready', { status: 'ready' }, []],
+      ['ready: false means starting up', { ready: false }, [['warning', 'System Not Ready']]],
+      ['status not_ready means starting up', { status: 'not_ready' }, [['warning', 'System Not Ready']]],
+      ['no body means the check failed', undefined, [['critical', 'System Not Ready']]],
+      ['unrecognised body', { status: 'booting' }, [['critical', 'System Not Ready']]],
+    ] as const)('%s', (_, data, expected) => {
+      expect(summary(run('readiness-failure', { ready: { status: 'success', data } }))).toEqual(expected);
+    });
+  });
+
+  describe('database-connection', () => {
+    it.each([
+      ['database up', { database: true }, []],
+      ['database not reported', {}, []],
+      ['database down', { database: false }, [['critical', 'Database Connection Failed']]],
+    ] as const)('%s', (_, checks, expected) => {
+      expect(summary(run('database-connection', { health: { status: 'success', data: { status: 'healthy', checks } } }))).toEqual(expected);
+    });
+
+    it('points at the readiness problem it usually causes', () => {
+      const [found] = run('database-connection', { health: { status: 'success', data: { checks: { database: false } } } });
+      expect(found.related).toEqual(['readiness-failure']);
+    });
+  });
+
+  describe('redis-connection', () => {
+    it.each([
+      ['redis up', { redis: true }, []],
+      ['redis not reported', {}, []],
+      ['redis down', { redis: false }, [['warning', 'Redis Cache Unavailable']]],
+    ] as const)('%s', (_, checks, expected) => {
+      expect(summary(run('redis-connection', { health: { status: 'success', data: { status: 'healthy', checks } } }))).toEqual(expected);
+    });
+  });
+
+  describe('missing-plugins', () => {
+    const plugin = (name: string) => ({ name, available: true });
+
+    it.each([
+      ['no plugin list (fetch failed)', [], []],
+      ['all present', ['store', 'supervisor', 'memory'], []],
+      ['variants count', ['store-postgres', 'supervisor-postgres', 'memory-stm-db'], []],
+      ['matched case-insensitively', ['Store', 'SUPERVISOR', 'Memory'], []],
+      ['one missing', ['store', 'memory'], [['critical', 'Missing Critical Plugins: supervisor']]],
+      ['all missing', ['analytics'], [['critical', 'Missing Critical Plugins: store, supervisor, memory']]],
+    ] as const)('%s', (_, names, expected) => {
+      expect(summary(run('missing-plugins', { plugins: names.map(plugin) }))).toEqual(expected);
+    });
+
+    it('falls back to the plugin id when it has no name', () => {
+      const plugins = [{ name: '', id: 'store', available: true }, plugin('supervisor'), plugin('memory')];
+      expect(run('missing-plugins', { plugins })).toEqual([]);
+    });
+  });
+
+  describe('endpoint-failures', () => {
+    it.each([
+      ['all answering', ['success', 'success', 'success'], []],
+      ['one of three down', ['success', 'error', 'success'], [['warning', '1 Endpoint(s) Unreachable']]],
+      ['two of three down', ['error', 'error', 'success'], [['warning', '2 Endpoint(s) Unreachable']]],
+      ['all down', ['error', 'error', 'error'], [['critical', '3 Endpoint(s) Unreachable']]],
+      ['warnings are not failures', ['warning', 'success', 'success'], []],
+    ] as const)('%s', (_, statuses, expected) => {
+      const endpoints = statuses.map((status, index) => endpoint(['Root', 'Health', 'Ready'][index], status));
+      expect(summary(run('endpoint-failures', { endpoints }))).toEqual(expected);
+    });
+
+    it('names the failing endpoints', () => {
+      const [found] = run('endpoint-failures', { endpoints: [endpoint('Root'), endpoint('Ready', 'error')] });
+      expect(found.description).toContain('Ready');
+      expect(found.description).not.toContain('Root');
+    });
+  });
+
+  describe('high-latency', () => {
+    it.each([
+      ['one slow check with no history', [], 6000, []],
+      ['too few checks to judge', [4000], 4000, []],
+      ['one slow check among fast ones', [100, 120, 90, 110, 100], 6000, []],
+      ['all fast', [100, 120, 90], 110, []],
+      ['sustained slow median', [4000, 3500, 3800], 3900, [['warning', 'High API Response Latency']]],
+      ['sustained median over the critical threshold', [6000, 5500, 7000], 6500, [['critical', 'High API Response Latency']]],
+      ['repeated slow checks among fast ones', [100, 4000, 100, 100], 4000, [['warning', 'Inconsistent API Response Latency']]],
+    ] as const)('%s', (_, earlier, current, expected) => {
+      const problems = run('high-latency', { endpoints: [endpoint('Health', 'success', current)], history: history([...earlier]) });
+      expect(summary(problems)).toEqual(expected);
+    });
+
+    it('ignores runs older than the rolling window', () => {
+      const stale = history([9000, 9000, 9000]).map(sample => ({ ...sample, timestamp: sample.timestamp - 60 * 60_000 }));
+      expect(run('high-latency', { endpoints: [endpoint('Health', 'success', 100)], history: stale })).toEqual([]);
+    });
+
+    it('only looks at the history of the same endpoint', () => {
+      const problems = run('high-latency', { endpoints: [endpoint('Health', 'success', 4000)], history: history([4000, 4000], 'Ready') });
+      expect(problems).toEqual([]);
+    });
+  });
+});
+
+describe('connectionErrorProblem', () => {
+  it('is a critical network problem stamped with the given time', () => {
+    const found = connectionErrorProblem(NOW);
+    expect(found).toMatchObject({ id: 'connection-error', severity: 'critical', component: 'Network', detectedAt: NOW });
+    expect(found.steps.length).toBeGreaterThan(0);
+  });
+});
+
+describe('healthCheckStatus', () => {
+  it.each([
+    [{ status: 'healthy' }, 'success'],
+    [{ status: 'unhealthy' }, 'error'],
+    [{ status: 'error' }, 'error'],
+    [null, 'error'],
+  ] as const)('%j -> %s', (result, expected) => {
+    expect(healthCheckStatus(result)).toBe(expected);
+  });
+});
+
+describe('readyCheckStatus', () => {
+  it.each([
+    [{ status: 'ready' }, 'success'],
+    [{ status: 'not_ready' }, 'warning'],
+    [{ status: 'error' }, 'error'],
+    [null, 'error'],
+  ] as const)('%j -> %s', (result, expected) => {
+    expect(readyCheckStatus(result)).toBe(expected);
+  });
+});
+
+describe('deriveGlobalStatus', () => {
+  it.each<[string, CheckStatus, CheckStatus, Severity[], SystemStatus]>([
+    ['everything passing', 'success', 'success', [], 'operational'],
+    ['info problems only', 'success', 'success', ['info', 'success'], 'operational'],
+    ['health failing', 'error', 'success', [], 'down'],
+    ['health failing outranks everything else', 'error', 'error', ['critical'], 'down'],
+    ['critical problem with health answering', 'success', 'success', ['critical'], 'critical'],
+    ['critical outranks warnings', 'success', 'success', ['warning', 'critical'], 'critical'],
+    ['critical with readiness failing', 'success', 'error', ['critical'], 'critical'],
+    ['warning problem', 'success', 'success', ['warning'], 'degraded'],
+  ])('%s', (_, health, ready, severities, expected) => {
+    expect(deriveGlobalStatus(health, ready, severities.map(problem))).toBe(expected);
+  });
+
+  // A backend that answers /health but reports failing dependencies must never show as operational
+  describe('degraded backend is never operational', () => {
+    it.each<[string, CheckStatus, Severity[], SystemStatus]>([
+      ['readiness not ready, no problems detected', 'warning', [], 'degraded'],
+      ['readiness check failed, no problems detected', 'error', [], 'degraded'],
+      ['readiness still loading', 'loading', [], 'degraded'],
+      ['ready, but redis down', 'success', ['warning'], 'degraded'],
+      ['ready, but database down', 'success', ['critical'], 'critical'],
+    ])('%s', (_, ready, severities, expected) => {
+      const status = deriveGlobalStatus('success', ready, severities.map(problem));
+      expect(status).not.toBe('operational');
+      expect(status).toBe(expected);
+    });
+  });
+});
@@ -0,0 +1,383 @@
+import type { HealthSample } from './history';
+import { rollingLatency } from './latency';
+
+/**
+ * Problem detection for the system status page.
+ *
+ * Pure: takes what the health, readiness, plugin, endpoint and metrics checks returned, plus
+ * the recent history of earlier runs, and derives the problems and the global status from it,
+ * so the rules can be reasoned about (and exercised) without rendering the page or reaching a
+ * backend. The rules here are the built-in ones; `rules.ts` runs them alongside custom rules
+ * from the diagnostics config.
+ */
+
+export type SystemStatus = 'operational' | 'degraded' | 'critical' | 'down';
+export type CheckStatus = 'success' | 'warning' | 'error' | 'loading';
+export type Severity = 'critical' | 'warning' | 'info' | 'success';
+
+export interface EndpointCheck {
+  name: string;
+  path: string;
+  status: CheckStatus;
+  latency?: number;
+  error?: string;
+  lastChecked?: Date;
+}
+
+export interface PluginStatus {
+  name: string;
+  id?: string;
+  available: boolean;
+  status?: 'healthy' | 'degraded' | 'critical' | 'loading';
+  error?: string;
+  details?: any;
+}
+
+export interface Problem {
+  id: string;
+  severity: Severity;
+  title: string;
+  description: string;
+  component: string;
+  detectedAt: Date;
+  solution: string;
+  steps: string[];
+  related?: string[];
+}
+
+export interface CheckResult {
+  status: CheckStatus;
+  latency?: number;
+  // Response body; undefined when the request failed or did not return JSON
+  data?: any;
+}
+
+// Everything a rule can look at, collected once per diagnostics run
+export interface DiagnosticContext {
+  health: CheckResult;
+  ready: CheckResult;
+  plugins: PluginStatus[];
+  endpoints: EndpointCheck[];
+  metrics: { available: boolean; latency?: number };
+  // Earlier runs from the recent window, oldest first
+  history: HealthSample[];
+}
+
+export type DiagnosticInput = keyof DiagnosticContext;
+
+/**
+ * A check that turns part of the context into problems. `inputs` declares which parts: the
+ * rule is only handed those, so what a rule depends on is visible without reading it.
+ */
+export interface DiagnosticRule<I extends DiagnosticInput = DiagnosticInput> {
+  id: string;
+  description: string;
+  inputs: I[];
+  evaluate: (context: Pick<DiagnosticContext, I>, detectedAt: Date) => Problem[];
+}
+
+// Identity helper so `inputs` narrows the context type of `evaluate`
+export function defineRule<I extends DiagnosticInput>(rule: DiagnosticRule<I>): DiagnosticRule<I> {
+  return rule;
+}
+
+// Plugins the backend cannot work without, matched by substring so variants like store-postgres count
+export const CRITICAL_PLUGINS = [
+  { name: 'store', patterns: ['store', 'store-postgres', 'database-postgres'] },
+  { name: 'supervisor', patterns: ['supervisor', 'supervisor-postgres'] },
+  { name: 'memory', patterns: ['memory', 'memory-stm', 'memory-stm-db'] },
+];
+
+export const LATENCY_THRESHOLD = 3000; // 3 seconds - more reasonable for health checks
+// Share of an endpoint's recent checks that must be slow before latency counts as inconsistent
+export const SLOW_CHECK_SHARE = 0.2;
+export const LATENCY_CRITICAL = 5000;
+
+const healthFailure = defineRule({
+  id: 'health-failure',
+  description: 'Health endpoint must answer with status healthy',
+  inputs: ['health'],
+  evaluate: ({ health }, detectedAt) => {
+    if (health.data?.status === 'healthy') return [];
+
+    return [{
+      id: 'health-failure',
+      severity: 'critical',
+      title: 'Health Check Failed',
+      description: 'The system health endpoint is not responding correctly. This indicates core system issues.',
+      component: 'Core System',
+      detectedAt,
+      solution: 'Restart the API service and check system logs for errors.',
+      steps: [
+        'Check Railway logs for the API service',
+        'Verify database connectivity',
+        'Check Redis connection status',
+        'Restart the API service if needed',
+        'Monitor health endpoint for recovery'
+      ],
+    }];
+  },
+});
+
+const readinessFailure = defineRule({
+  id: 'readiness-failure',
+  description: 'Readiness endpoint must report ready',
+  inputs: ['ready'],
+  evaluate: ({ ready }, detectedAt) => {
+    const isReady = ready.data?.ready === true || ready.data?.status === 'ready';
+    if (isReady) return [];
+
+    // An explicit not_ready is a warning (system starting up); a missing or failed check is critical
+    const isNotReady = ready.data?.ready === false || ready.data?.status === 'not_ready';
+
+    return [{
+      id: 'readiness-failure',
+      severity: isNotReady ? 'warning' : 'critical',
+      title: 'System Not Ready',
+      description: isNotReady
+        ? 'The system readiness check indicates dependencies are initializing. This is normal during startup.'
+        : 'The system readiness check indicates dependencies are not fully initialized or the check failed.',
+      component: 'System Initialization',
+      detectedAt,
+      solution: isNotReady
+        ? 'Wait for dependencies to finish initializing. This usually takes 1-2 minutes after deployment.'
+        : 'Wait for dependencies to initialize or check dependency health.',
+      steps: isNotReady ? [
+        'Wait 1-2 minutes for initialization to complete',
+        'Monitor readiness endpoint: GET /ready',
+        'Check Railway logs for initialization progress',
+        'Verify database connection is established',
+        'Ensure all plugins are loaded successfully'
+      ] : [
+        'Check database migration status',
+        'Verify all required plugins are loaded',
+        'Check external service connectivity',
+        'Review initialization logs',
+        'Wait for automatic recovery (usually 1-2 minutes)'
+      ],
+    }];
+  },
+});
+
+const databaseConnection = defineRule({
+  id: 'database-connection',
+  description: 'Health checks must not report the database down',
+  inputs: ['health'],
+  evaluate: ({ health }, detectedAt) => {
+    if (health.data?.checks?.database !== false) return [];
+
+    return [{
+      id: 'database-connection',
+      severity: 'critical',
+      title: 'Database Connection Failed',
+      description: 'The system cannot connect to the PostgreSQL database.',
+      component: 'Database',
+      detectedAt,
+      solution: 'Check database service status and connection string.',
+      steps: [
+        'Verify PostgreSQL service is running in Railway',
+        'Check DATABASE_URL environment variable',
+        'Verify database credentials are correct',
+        'Check network connectivity between services',
+        'Review database service logs'
+      ],
+      related: ['readiness-failure'],
+    }];
+  },
+});
+
+const redisConnection = defineRule({
+  id: 'redis-connection',
+  description: 'Health checks must not report Redis down',
+  inputs: ['health'],
+  evaluate: ({ health }, detectedAt) => {
+    if (health.data?.checks?.redis !== false) return [];
+
+    return [{
+      id: 'redis-connection',
+      severity: 'warning',
+      title: 'Redis Cache Unavailable',
+      description: 'The system cannot connect to Redis cache. Performance may be degraded.',
+      component: 'Cache',
+      detectedAt,
+      solution: 'Check Redis service status. System will work without cache but with reduced performance.',
+      steps: [
+        'Verify Redis service is running in Railway',
+        'Check REDIS_URL environment variable',
+        'Verify Redis credentials',
+        'System will continue operating without cache',
+        'Check Redis service logs for details'
+      ],
+    }];
+  },
+});
+
+const missingPlugins = defineRule({
+  id: 'missing-plugins',
+  description: 'Critical plugins must be loaded',
+  inputs: ['plugins'],
+  evaluate: ({ plugins }, detectedAt) => {
+    // With no plugin list at all the fetch failed, which the readiness rule already covers
+    if (plugins.length === 0) return [];
+
+    const foundPluginNames = plugins.map(p => (p.name || p.id || '').toLowerCase());
+    const missing = CRITICAL_PLUGINS
+      .filter(({ patterns }) => !patterns.some(pattern => foundPluginNames.some(foundName => foundName.includes(pattern))))
+      .map(({ name }) => name);
+    if (missing.length === 0) return [];
+
+    return [{
+      id: 'missing-plugins',
+      severity: 'critical',
+      title: `Missing Critical Plugins: ${missing.join(', ')}`,
+      description: `Required plugins are not available: ${missing.join(', ')}. Core functionality may be impaired.`,
+      component: 'Plugins',
+      detectedAt,
+      solution: 'Ensure all required plugins are properly installed and initialized.',
+      steps: [
+        'Check plugin installation in package.json',
+        'Verify plugins are loaded during startup',
+        'Check plugin initialization logs',
+        'Restart API service to reload plugins',
+        'Verify plugin configuration is correct',
+        `Available plugins: ${foundPluginNames.join(', ') || 'None detected'}`
+      ],
+    }];
+  },
+});
+
+const endpointFailures = defineRule({
+  id: 'endpoint-failures',
+  description: 'Root, health, ready and metrics endpoints must answer',
+  inputs: ['endpoints'],
+  evaluate: ({ endpoints }, detectedAt) => {
+    const failedEndpoints = endpoints.filter(e => e.status === 'error');
+    if (failedEndpoints.length === 0) return [];
+
+    return [{
+      id: 'endpoint-failures',
+      severity: failedEndpoints.length === endpoints.length ? 'critical' : 'warning',
+      title: `${failedEndpoints.length} Endpoint(s) Unreachable`,
+      description: `The following endpoints are not responding: ${failedEndpoints.map(e => e.name).join(', ')}`,
+      component: 'API Surface',
+      detectedAt,
+      solution: 'Check endpoint implementation and server logs for errors.',
+      steps: [
+        'Review API server logs for errors',
+        'Check endpoint route definitions',
+        'Verify middleware configuration',
+        'Test endpoints individually',
+        'Check for CORS or network issues'
+      ],
+    }];
+  },
+});
+
+// Judged on the rolling window rather than one snapshot: a slow median means sustained latency,
+// and repeated slow checks mean inconsistent latency; a single slow request is neither
+const highLatency = defineRule({
+  id: 'high-latency',
+  description: 'Endpoint latency over the recent window must stay under the thresholds',
+  inputs: ['endpoints', 'history'],
+  evaluate: ({ endpoints, history }, detectedAt) => {
+    const windows = rollingLatency(history, endpoints, detectedAt.getTime());
+    const slowChecks = (latencies: number[]) => latencies.filter(latency => latency > LATENCY_THRESHOLD).length;
+    const sustained = windows.filter(w => w.p50 > LATENCY_THRESHOLD);
+    const inconsistent = windows.filter(w =>
+      w.p50 <= LATENCY_THRESHOLD && slowChecks(w.latencies) >= Math.max(2, Math.ceil(w.count * SLOW_CHECK_SHARE))
+    );
+    if (sustained.length === 0 && inconsistent.length === 0) return [];
+
+    const describe = (list: typeof windows) =>
+      list.map(w => `${w.name} (p50 ${Math.round(w.p50)}ms, p95 ${Math.round(w.p95)}ms over ${w.count} checks)`).join(', ');
+
+    if (sustained.length > 0) {
+      return [{
+        id: 'high-latency',
+        severity: sustained.some(w => w.p50 > LATENCY_CRITICAL) ? 'critical' : 'warning',
+        title: 'High API Response Latency',
+        description: `Endpoints are consistently responding slowly, likely due to network latency or system load: ${describe(sustained)}`,
+        component: 'Performance',
+        detectedAt,
+        solution: 'Check network connectivity, system resources, or consider if this is expected latency for your deployment region.',
+        steps: [
+          'Verify network connectivity between dashboard and API',
+          'Check if this latency is expected for your deployment region',
+          'Monitor system resource usage (CPU, Memory)',
+          'Check Railway deployment logs for performance issues',
+          'Consider geographic proximity of services'
+        ],
+      }];
+    }
+
+    return [{
+      id: 'high-latency',
+      severity: 'warning',
+      title: 'Inconsistent API Response Latency',
+      description: `Some checks are repeatedly much slower than usual, indicating potential API performance issues: ${describe(inconsistent)}`,
+      component: 'Performance',
+      detectedAt,
+      solution: 'Investigate specific slow endpoints for bottlenecks (database queries, external API calls, etc.)',
+      steps: [
+        'Review logs for the slowest endpoints',
+        'Check database query performance for those endpoints',
+        'Review endpoint implementation for bottlenecks',
+        'Check system resource usage (CPU, Memory)',
+        'Consider adding caching for frequently accessed data'
+      ],
+    }];
+  },
+});
+
+// Order here is the order problems are listed in
+export const builtInRules: DiagnosticRule<any>[] = [
+  healthFailure,
+  readinessFailure,
+  databaseConnection,
+  redisConnection,
+  missingPlugins,
+  endpointFailures,
+  highLatency,
+];
+
+// Reported instead of everything else when the checks themselves could not run
+export function connectionErrorProblem(detectedAt: Date = new Date()): Problem {
+  return {
+    id: 'connection-error',
+    severity: 'critical',
+    title: 'Connection Error',
+    description: 'Failed to connect to the API. Check network connectivity and API base URL configuration.',
+    component: 'Network',
+    detectedAt,
+    solution: 'Verify API base URL is correct and service is running.',
+    steps: [
+      'Check NEXT_PUBLIC_API_BASE_URL environment variable',
+      'Verify API service is deployed and running',
+      'Check network connectivity',
+      'Review API service logs in Railway',
+      'Test API endpoint directly in browser'
+    ],
+  };
+}
+
+export function healthCheckStatus(result: { status: 'healthy' | 'unhealthy' | 'error' } | null): CheckStatus {
+  return result?.status === 'healthy' ? 'success' : 'error';
+}
+
+export function readyCheckStatus(result: { status: 'ready' | 'not_ready' | 'error' } | null): CheckStatus {
+  return result?.status === 'ready' ? 'success' : result?.status === 'not_ready' ? 'warning' : 'error';
+}
+
+/**
+ * Overall status shown in the page header. A failing health check means down. Otherwise any
+ * critical problem means critical, even with /health answering (a lost database is an outage,
+ * not a slowdown), and any readiness problem or warning means degraded, so a backend that
+ * answers /health but reports failing dependencies is never shown as operational.
+ */
+export function deriveGlobalStatus(healthStatus: CheckStatus, readyStatus: CheckStatus, problems: Problem[]): SystemStatus {
+  if (healthStatus === 'error') return 'down';
+  if (problems.some(problem => problem.severity === 'critical')) return 'critical';
+  if (readyStatus !== 'success') return 'degraded';
+  if (problems.some(problem => problem.severity === 'warning')) return 'degraded';
+  return 'operational';
+}
@@ -0,0 +1,152 @@
+import { describe, expect, it } from 'vitest';
+import { builtInRules, connectionErrorProblem, defineRule, type DiagnosticContext, type PluginStatus } from './problems';
+import { compileRule, DeclarativeRuleSchema, DiagnosticRuleRegistry, type DeclarativeRule } from './rules';
+
+const NOW = new Date('2026-01-01T12:00:00Z');
+
+function context(overrides: Partial<DiagnosticContext> = {}): DiagnosticContext {
+  return {
+    health: { status: 'success', latency: 120, data: { status: 'healthy', checks: { database: true, redis: true } } },
+    ready: { status: 'success', latency: 2500, data: { ready: true } },
+    plugins: [],
+    endpoints: [],
+    metrics: { available: true },
+    history: [],
+    ...overrides,
+  };
+}
+
+const plugin = (name: string, status: PluginStatus['status'] = 'healthy'): PluginStatus => ({ name, available: true, status });
+
+const degradedPlugin: DeclarativeRule = {
+  id: 'plugin-degraded',
+  input: 'plugins',
+  conditions: [{ field: 'status', operator: 'equals', value: 'degraded' }],
+  problem: {
+    severity: 'warning',
+    title: '{{name}} is degraded',
+    description: '{{ name }} reports {{status}}{{missing}}',
+    steps: ['Restart {{name}}'],
+  },
+};
+
+const slowReady: DeclarativeRule = {
+  id: 'slow-ready',
+  input: 'ready',
+  conditions: [{ field: 'latency', operator: 'gt', value: 2000 }],
+  problem: { severity: 'critical', title: 'Readiness check took {{latency}}ms', description: 'Ready: {{data.ready}}' },
+};
+
+const compile = (rule: DeclarativeRule) => compileRule(DeclarativeRuleSchema.parse(rule));
+
+describe('compileRule', () => {
+  it('reports every matching list item as its own problem', () => {
+    const plugins = [plugin('llm-gateway', 'degraded'), plugin('store'), plugin('memory', 'degraded')];
+    const problems = compile(degradedPlugin).evaluate(context({ plugins }), NOW);
+
+    expect(problems.map(({ id, title }) => [id, title])).toEqual([
+      ['plugin-degraded:llm-gateway', 'llm-gateway is degraded'],
+      ['plugin-degraded:memory', 'memory is degraded'],
+    ]);
+    expect(problems[0]).toMatchObject({
+      severity: 'warning',
+      description: 'llm-gateway reports degraded',
+      component: 'Custom',
+      detectedAt: NOW,
+      solution: '',
+      steps: ['Restart llm-gateway'],
+    });
+  });
+
+  it('keys list items without a name by their id', () => {
+    const unnamed = { id: 'plg_7', available: true, status: 'degraded' } as PluginStatus;
+    const [found] = compile(degradedPlugin).evaluate(context({ plugins: [unnamed] }), NOW);
+    expect(found.id).toBe('plugin-degraded:plg_7');
+  });
+
+  it.each([
+    ['over the limit', 2500, ['Readiness check took 2500ms']],
+    ['under the limit', 1500, []],
+  ])('checks a single input %s', (_, latency, titles) => {
+    const problems = compile(slowReady).evaluate(context({ ready: { status: 'success', latency, data: { ready: true } } }), NOW);
+    expect(problems.map(({ id, title }) => [id, title])).toEqual(titles.map(title => ['slow-ready', title]));
+  });
+
+  it('fills nested fields', () => {
+    const [found] = compile(slowReady).evaluate(context(), NOW);
+    expect(found.description).toBe('Ready: true');
+  });
+
+  it('requires every condition to pass', () => {
+    const rule = compile({ ...degradedPlugin, conditions: [...degradedPlugin.conditions, { field: 'name', operator: 'equals', value: 'store' }] });
+    expect(rule.evaluate(context({ plugins: [plugin('memory', 'degraded')] }), NOW)).toEqual([]);
+  });
+
+  it('declares only the input it reads', () => {
+    expect(compile(degradedPlugin)).toMatchObject({ id: 'plugin-degraded', inputs: ['plugins'], description: '{{name}} is degraded' });
+  });
+});
+
+describe('DiagnosticRuleRegistry', () => {
+  it('runs code and declarative rules in registration order', () => {
+    const registry = new DiagnosticRuleRegistry([
+      slowReady,
+      defineRule({ id: 'always', description: '', inputs: [], evaluate: (_, detectedAt) => [connectionErrorProblem(detectedAt)] }),
+    ]);
+    expect(registry.list().map(({ id }) => id)).toEqual(['slow-ready', 'always']);
+    expect(registry.run(context(), NOW).map(({ id }) => id)).toEqual(['slow-ready', 'connection-error']);
+  });
+
+  it.each<[string, unknown, string]>([
+    ['an unknown input', { ...slowReady, input: 'disk' }, 'slow-ready: input'],
+    ['no conditions', { ...slowReady, conditions: [] }, 'slow-ready: conditions'],
+    ['an unknown operator', { ...slowReady, conditions: [{ field: 'latency', operator: 'between', value: 1 }] }, 'slow-ready: conditions.0.operator'],
+    ['a success severity', { ...slowReady, problem: { ...slowReady.problem, severity: 'success' } }, 'slow-ready: problem.severity'],
+    ['no id', { ...slowReady, id: undefined }, 'Rule without id: id'],
+  ])('reports a JSON rule with %s as a diagnostic-config problem', (_, rule, step) => {
+    const registry = new DiagnosticRuleRegistry([rule as DeclarativeRule, degradedPlugin]);
+    const problems = registry.run(context({ plugins: [plugin('store', 'degraded')] }), NOW);
+
+    expect(registry.list().map(({ id }) => id)).toEqual(['plugin-degraded']);
+    expect(problems.map(({ id }) => id)).toEqual(['plugin-degraded:store', 'diagnostic-config']);
+    expect(problems[1]).toMatchObject({ severity: 'info', title: 'Invalid Diagnostic Rules', description: expect.stringContaining('1 custom rule was skipped') });
+    expect(problems[1].steps).toEqual([expect.stringMatching(new RegExp(`^${step.replace(/\./g, '\\.')} `))]);
+  });
+
+  it('turns a throwing code rule into a rule-error problem and keeps running the others', () => {
+    const registry = new DiagnosticRuleRegistry([
+      defineRule({ id: 'broken', description: '', inputs: ['plugins'], evaluate: () => { throw new Error('boom'); } }),
+      slowReady,
+    ]);
+    const problems = registry.run(context(), NOW);
+
+    expect(problems.map(({ id }) => id)).toEqual(['rule-error:broken', 'slow-ready']);
+    expect(problems[0]).toMatchObject({ severity: 'info', title: 'Diagnostic rule "broken" failed', description: 'boom', detectedAt: NOW });
+  });
+
+  it('lets a custom rule override a built-in by id', () => {
+    const registry = new DiagnosticRuleRegistry([...builtInRules, { ...slowReady, id: 'readiness-failure' }]);
+    const ids = registry.list().map(({ id }) => id);
+
+    // Replaced in place, keeping the built-in's position
+    expect(ids).toEqual(builtInRules.map(({ id }) => id));
+    expect(registry.run(context({ ready: { status: 'error', latency: 3000 } }), NOW).find(({ id }) => id === 'readiness-failure'))
+      .toMatchObject({ severity: 'critical', title: 'Readiness check took 3000ms' });
+  });
+
+  it('stops running a rule once unregistered', () => {
+    const registry = new DiagnosticRuleRegistry();
+    const unregister = registry.register(slowReady);
+    unregister();
+    expect(registry.run(context(), NOW)).toEqual([]);
+  });
+
+  it('hands rules only their declared inputs', () => {
+    let seen: string[] = [];
+    const registry = new DiagnosticRuleRegistry([
+      defineRule({ id: 'spy', description: '', inputs: ['plugins', 'metrics'], evaluate: scoped => { seen = Object.keys(scoped); return []; } }),
+    ]);
+    registry.run(context(), NOW);
+    expect(seen.sort()).toEqual(['metrics', 'plugins']);
+  });
+});
@@ -0,0 +1,158 @@
+import { z } from 'zod';
+import { PolicyConditionSchema } from '@/lib/schemas/api';
+import { evaluateCondition, resolveField } from '@/lib/policies/evaluate';
+import { customDiagnosticRules } from '@/config/diagnostics';
+import {
+  builtInRules,
+  type DiagnosticContext,
+  type DiagnosticInput,
+  type DiagnosticRule,
+  type Problem,
+} from './problems';
+
+/**
+ * Registry of diagnostic rules: the built-in ones plus whatever the diagnostics config adds.
+ *
+ * Custom rules come in two forms. TypeScript rules are `DiagnosticRule` objects, same as the
+ * built-ins. Declarative rules are plain JSON: they pick one input, test it with the policy
+ * condition operators (equals, contains, matches, gt, lt, in, not_in) and describe the problem
+ * to report. For list inputs (plugins, endpoints) every item that passes reports its own problem.
+ */
+
+export const DeclarativeRuleSchema = z.object({
+  id: z.string().trim().min(1),
+  description: z.string().optional(),
+  input: z.enum(['health', 'ready', 'plugins', 'endpoints', 'metrics']),
+  // All must pass; fields are paths into the input, e.g. `latency`, `data.checks.redis`, `name`
+  conditions: z.array(PolicyConditionSchema).min(1),
+  problem: z.object({
+    severity: z.enum(['critical', 'warning', 'info']),
+    // `{{field}}` placeholders are filled from the matching input, e.g. `{{name}}` or `{{latency}}`
+    title: z.string().min(1),
+    description: z.string().min(1),
+    component: z.string().default('Custom'),
+    solution: z.string().default(''),
+    steps: z.array(z.string()).default([]),
+  }),
+});
+
+export type DeclarativeRule = z.input<typeof DeclarativeRuleSchema>;
+
+// Anything the config may contain: a TypeScript rule or a declarative one still to be checked
+export type CustomDiagnosticRule = DiagnosticRule<any> | DeclarativeRule;
+
+function fill(template: string, item: Record<string, any>): string {
+  return template.replace(/\{\{\s*([\w.]+)\s*\}\}/g, (_, field: string) => {
+    const value = resolveField({ intent: item }, field);
+    return value === undefined || value === null ? '' : String(value);
+  });
+}
+
+export function compileRule(definition: z.output<typeof DeclarativeRuleSchema>): DiagnosticRule {
+  const { id, input, conditions, problem } = definition;
+
+  return {
+    id,
+    description: definition.description ?? problem.title,
+    inputs: [input],
+    evaluate: (context, detectedAt) => {
+      const value = context[input];
+      const items: Record<string, any>[] = Array.isArray(value) ? value : [value];
+
+      return items
+        .filter(item => conditions.every(condition => evaluateCondition(condition, { intent: item }).passed))
+        .map(item => ({
+          // One problem per list item, keyed by its name so several can show at once
+          id: Array.isArray(value) ? `${id}:${item.name ?? item.id}` : id,
+          severity: problem.severity,
+          title: fill(problem.title, item),
+          description: fill(problem.description, item),
+          component: problem.component,
+          detectedAt,
+          solution: fill(problem.solution, item),
+          steps: problem.steps.map(step => fill(step, item)),
+        }));
+    },
+  };
+}
+
+function isCodeRule(rule: CustomDiagnosticRule): rule is DiagnosticRule<any> {
+  return typeof (rule as DiagnosticRule).evaluate === 'function';
+}
+
+export class DiagnosticRuleRegistry {
+  private rules = new Map<string, DiagnosticRule<any>>();
+  // Config entries that could not be loaded, reported as a problem instead of breaking the page
+  private configErrors: string[] = [];
+
+  constructor(rules: CustomDiagnosticRule[] = []) {
+    rules.forEach(rule => this.register(rule));
+  }
+
+  // Registering an id that already exists replaces that rule, so config can override a built-in
+  public register(rule: CustomDiagnosticRule): () => void {
+    if (isCodeRule(rule)) {
+      this.rules.set(rule.id, rule);
+      return () => this.unregister(rule.id);
+    }
+
+    const parsed = DeclarativeRuleSchema.safeParse(rule);
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0];
+      this.configErrors.push(`${rule?.id ?? 'Rule without id'}: ${issue.path.join('.') || 'rule'} ${issue.message}`);
+      return () => {};
+    }
+
+    const compiled = compileRule(parsed.data);
+    this.rules.set(compiled.id, compiled);
+    return () => this.unregister(compiled.id);
+  }
+
+  public unregister(id: string): void {
+    this.rules.delete(id);
+  }
+
+  public list(): DiagnosticRule<any>[] {
+    return Array.from(this.rules.values());
+  }
+
+  public run(context: DiagnosticContext, detectedAt: Date = new Date()): Problem[] {
+    const problems: Problem[] = [];
+
+    this.rules.forEach(rule => {
+      // Only the declared inputs are passed in
+      const scoped = Object.fromEntries(rule.inputs.map((input: DiagnosticInput) => [input, context[input]]));
+      try {
+        problems.push(...rule.evaluate(scoped as Pick<DiagnosticContext, DiagnosticInput>, detectedAt));
+      } catch (error) {
+        problems.push({
+          id: `rule-error:${rule.id}`,
+          severity: 'info',
+          title: `Diagnostic rule "${rule.id}" failed`,
+          description: error instanceof Error ? error.message : String(error),
+          component: 'Diagnostics',
+          detectedAt,
+          solution: 'Fix or remove the rule in src/config/diagnostics.ts.',
+          steps: [],
+        });
+      }
+    });
+
+    if (this.configErrors.length > 0) {
+      problems.push({
+        id: 'diagnostic-config',
+        severity: 'info',
+        title: 'Invalid Diagnostic Rules',
+        description: `${this.configErrors.length} custom ${this.configErrors.length === 1 ? 'rule was' : 'rules were'} skipped because ${this.configErrors.length === 1 ? 'it does' : 'they do'} not match the rule format.`,
+        component: 'Diagnostics',
+        detectedAt,
+        solution: 'Correct the rules in src/config/diagnostics.rules.json or src/config/diagnostics.ts.',
+        steps: this.configErrors,
+      });
+    }
+
+    return problems;
+  }
+}
+
+export const diagnosticRules = new DiagnosticRuleRegistry([...builtInRules, ...customDiagnosticRules]);
@@ -0,0 +1,124 @@
+import { diagnosticRules } from './rules';
+import type { HealthSample } from './history';
+import {
+  deriveGlobalStatus,
+  healthCheckStatus,
+  readyCheckStatus,
+  type CheckStatus,
+  type EndpointCheck,
+  type PluginStatus,
+  type Problem,
+  type SystemStatus,
+} from './problems';
+
+/**
+ * The status page's diagnostics run, for the server: the same checks against the backend, fed
+ * through the same rule registry, without the browser API client.
+ *
+ * Used by the scheduler in `scheduler.ts`. `history` plays the part of the page's IndexedDB
+ * history for the rolling-window latency rule; the caller keeps it.
+ */
+
+export interface DiagnosticsRun {
+  globalStatus: SystemStatus;
+  healthStatus: CheckStatus;
+  readyStatus: CheckStatus;
+  endpoints: EndpointCheck[];
+  problems: Problem[];
+}
+
+export interface RunnerOptions {
+  // Backend root, without /api
+  rootUrl: string;
+  // Bearer token for /api/plugins on backends that require one
+  apiToken?: string;
+  timeoutMs?: number;
+  history?: HealthSample[];
+}
+
+interface Fetched {
+  ok: boolean;
+  status?: number;
+  latency: number;
+  data?: any;
+  error?: string;
+}
+
+async function get(url: string, { apiToken, timeoutMs = 10000 }: Pick<RunnerOptions, 'apiToken' | 'timeoutMs'>): Promise<Fetched> {
+  const startTime = Date.now();
+  try {
+    const response = await fetch(url, {
+      headers: { Accept: 'application/json', ...(apiToken && { Authorization: `Bearer ${apiToken}` }) },
+      signal: AbortSignal.timeout(timeoutMs),
+    });
+    const latency = Date.now() - startTime;
+
+    let data;
+    try {
+      data = await response.json();
+    } catch {
+      // Not JSON, that's OK
+    }
+    return { ok: response.ok, status: response.status, latency, data, error: response.ok ? undefined : `HTTP ${response.status}` };
+  } catch (error) {
+    return { ok: false, latency: Date.now() - startTime, error: error instanceof Error ? error.message : 'Network error' };
+  }
+}
+
+export async function runDiagnostics(options: RunnerOptions): Promise<DiagnosticsRun> {
+  const rootUrl = options.rootUrl.replace(/\/$/, '').replace(/\/api$/, '');
+  const check = (path: string) => get(`${rootUrl}${path}`, options);
+
+  const [root, health, ready, plugins, metrics] = await Promise.all([
+    check('/'),
+    check('/health'),
+    check('/ready'),
+    check('/api/plugins'),
+    check('/metrics'),
+  ]);
+
+  const healthStatus = healthCheckStatus({ status: health.ok ? 'healthy' : health.status ? 'unhealthy' : 'error' });
+  const readyStatus = readyCheckStatus({ status: ready.ok ? 'ready' : ready.status ? 'not_ready' : 'error' });
+
+  const pluginStatuses: PluginStatus[] = plugins.ok
+    ? (plugins.data?.data?.plugins ?? []).map((plugin: any) => ({
+      name: plugin.name || plugin.id || 'Unknown',
+      available: true,
+      status: plugin.health?.status || 'healthy',
+      details: plugin,
+    }))
+    : [];
+
+  const lastChecked = new Date();
+  const endpoint = (name: string, path: string, result: Fetched): EndpointCheck => ({
+    name,
+    path,
+    status: result.ok ? 'success' : 'error',
+    latency: result.latency,
+    lastChecked,
+    error: result.error,
+  });
+  const endpoints = [
+    endpoint('Root', '/', root),
+    endpoint('Health', '/health', health),
+    endpoint('Ready', '/ready', ready),
+    ...(metrics.ok ? [endpoint('Metrics', '/metrics', metrics)] : []),
+  ];
+
+  const problems = diagnosticRules.run({
+    health: { status: healthStatus, latency: health.latency, data: health.data },
+    ready: { status: readyStatus, latency: ready.latency, data: ready.data },
+    plugins: pluginStatuses,
+    endpoints,
+    metrics: { available: metrics.ok, latency: metrics.latency },
+    history: options.history ?? [],
+  }, lastChecked);
+
+  return {
+    globalStatus: deriveGlobalStatus(healthStatus, readyStatus, problems),
+    healthStatus,
+    readyStatus,
+    endpoints,
+    problems,
+  };
+}
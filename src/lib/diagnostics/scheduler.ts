@@ -0,0 +1,119 @@
+import { toHealthSample, type HealthSample } from './history';
+import { LATENCY_WINDOW_MS } from './latency';
+import { runDiagnostics, type DiagnosticsRun } from './runner';
+import {
+  deliverWebhook,
+  parseWebhookTargets,
+  problemTransition,
+  webhookEvent,
+  type DeliveryOptions,
+  type WebhookTarget,
+} from './webhooks';
+
+/**
+ * Runs diagnostics on the dashboard server every `intervalMs` and posts problem transitions to
+ * the configured webhooks, so outages are reported with nobody watching the page.
+ *
+ * Started from `src/instrumentation.ts` when DIAGNOSTICS_WEBHOOKS is set. The first run after
+ * start compares against nothing, so problems already open at deploy time are announced once.
+ */
+
+export interface SchedulerConfig {
+  rootUrl: string;
+  apiToken?: string;
+  intervalMs: number;
+  targets: WebhookTarget[];
+  delivery: DeliveryOptions;
+  dashboardUrl?: string;
+}
+
+const log = (message: string, ...details: unknown[]) => console.log(`[diagnostics] ${message}`, ...details);
+
+export function schedulerConfigFromEnv(env: NodeJS.ProcessEnv = process.env): { config: SchedulerConfig; errors: string[] } {
+  const { targets, errors } = parseWebhookTargets(env.DIAGNOSTICS_WEBHOOKS);
+  const number = (value: string | undefined, fallback: number) => (value && Number(value) >= 0 ? Number(value) : fallback);
+
+  return {
+    config: {
+      rootUrl: env.DIAGNOSTICS_API_URL || env.NEXT_PUBLIC_API_BASE_URL || 'http://localhost:3001',
+      apiToken: env.DIAGNOSTICS_API_TOKEN || undefined,
+      intervalMs: Math.max(10, number(env.DIAGNOSTICS_INTERVAL_SECONDS, 60)) * 1000,
+      targets,
+      delivery: {
+        secret: env.DIAGNOSTICS_WEBHOOK_SECRET || undefined,
+        retries: number(env.DIAGNOSTICS_WEBHOOK_RETRIES, 3),
+        retryBaseDelay: number(env.DIAGNOSTICS_WEBHOOK_RETRY_DELAY_MS, 1000),
+      },
+      dashboardUrl: env.DIAGNOSTICS_DASHBOARD_URL || undefined,
+    },
+    errors,
+  };
+}
+
+export class DiagnosticsScheduler {
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private running = false;
+  private previous: DiagnosticsRun | null = null;
+  // Stand-in for the page's IndexedDB history, only as long as the latency rule looks back
+  private history: HealthSample[] = [];
+
+  constructor(private config: SchedulerConfig) {}
+
+  public start(): void {
+    if (this.timer) return;
+    log(`checking ${this.config.rootUrl} every ${this.config.intervalMs / 1000}s, ${this.config.targets.length} webhook(s)`);
+    this.tick();
+    this.timer = setInterval(() => this.tick(), this.config.intervalMs);
+    // Never the reason the server stays up
+    this.timer.unref?.();
+  }
+
+  public stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  // One run plus its deliveries; a run still in flight (slow backend, retrying webhooks) skips the tick
+  public async tick(now = Date.now()): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+
+    try {
+      const run = await runDiagnostics({
+        rootUrl: this.config.rootUrl,
+        apiToken: this.config.apiToken,
+        history: this.history.filter(sample => sample.timestamp >= now - LATENCY_WINDOW_MS),
+      });
+      this.history = [...this.history.filter(sample => sample.timestamp >= now - LATENCY_WINDOW_MS), toHealthSample(run, now)];
+
+      const transition = problemTransition(
+        this.previous && { status: this.previous.globalStatus, problems: this.previous.problems },
+        { status: run.globalStatus, problems: run.problems }
+      );
+      this.previous = run;
+      if (!transition) return;
+
+      const event = webhookEvent(transition, this.config.dashboardUrl, new Date(now));
+      log(`${run.globalStatus}: ${transition.opened.length} opened, ${transition.resolved.length} resolved`);
+
+      const results = await Promise.all(this.config.targets.map(target => deliverWebhook(target, event, this.config.delivery)));
+      results.filter(result => !result.ok).forEach(result => {
+        console.error(`[diagnostics] webhook ${result.url} failed after ${result.attempts} attempt(s): ${result.error}`);
+      });
+    } catch (error) {
+      console.error('[diagnostics] scheduled run failed:', error);
+    } finally {
+      this.running = false;
+    }
+  }
+}
+
+export function startDiagnosticsScheduler(env: NodeJS.ProcessEnv = process.env): DiagnosticsScheduler | null {
+  const { config, errors } = schedulerConfigFromEnv(env);
+  errors.forEach(error => console.error(`[diagnostics] ${error}`));
+  if (config.targets.length === 0) return null;
+
+  const scheduler = new DiagnosticsScheduler(config);
+  scheduler.start();
+  return scheduler;
+}
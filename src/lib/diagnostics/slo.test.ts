@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import type { HealthSample } from './history';
+import type { SystemStatus } from './problems';
+import { findOutages, statusTimeline, uptimeReport, type TimelineSlot, type UptimeReport } from './slo';
+
+const NOW = Date.parse('2026-01-01T12:00:00Z');
+const MINUTE = 60_000;
+const HOUR = 60 * MINUTE;
+
+// [minutes before NOW, status] per sample
+function history(...points: [number, SystemStatus][]): HealthSample[] {
+  return points.map(([minutesAgo, globalStatus]) => ({
+    timestamp: NOW - minutesAgo * MINUTE,
+    globalStatus,
+    healthStatus: 'success',
+    readyStatus: 'success',
+    endpoints: [],
+    problems: [],
+  }));
+}
+
+// One sample a minute from `from` minutes ago up to a minute ago
+function everyMinute(from: number, status: SystemStatus = 'operational'): [number, SystemStatus][] {
+  return Array.from({ length: from }, (_, index) => [from - index, status]);
+}
+
+describe('uptimeReport', () => {
+  it.each<[string, HealthSample[], Partial<UptimeReport>]>([
+    ['no samples', [], { observedMs: 0, downtimeMs: 0, coverage: 0, uptime: null, budgetRemaining: null, burnRate: null }],
+    ['samples every minute', history(...everyMinute(10)), { observedMs: 10 * MINUTE, downtimeMs: 0, uptime: 1 }],
+    // The dashboard was closed between the two samples
+    ['a gap capped at MAX_SAMPLE_SPAN', history([30, 'operational'], [10, 'operational']), { observedMs: 10 * MINUTE }],
+    ['the last sample capped at MAX_SAMPLE_SPAN', history([20, 'operational']), { observedMs: 5 * MINUTE }],
+    ['the last sample clipped at now', history([2, 'operational']), { observedMs: 2 * MINUTE }],
+    ['a sample straddling the window start', history([62, 'down'], [58, 'operational']), { observedMs: 7 * MINUTE, downtimeMs: 2 * MINUTE }],
+    ['a sample whose span ends before the window', history([70, 'down'], [50, 'operational']), { observedMs: 5 * MINUTE, downtimeMs: 0 }],
+    ['a sample after now', history([-5, 'down'], [3, 'operational']), { observedMs: 3 * MINUTE, downtimeMs: 0 }],
+    ['degraded counts as available', history(...everyMinute(4, 'degraded')), { observedMs: 4 * MINUTE, downtimeMs: 0, uptime: 1 }],
+    ['critical and down count as downtime', history([4, 'critical'], [3, 'down'], [2, 'operational'], [1, 'operational']), { downtimeMs: 2 * MINUTE, uptime: 0.5 }],
+    ['samples in any order', history([1, 'operational'], [3, 'down'], [2, 'operational']), { observedMs: 3 * MINUTE, downtimeMs: MINUTE }],
+  ])('%s', (_, samples, expected) => {
+    expect(uptimeReport(samples, HOUR, 99.9, NOW)).toMatchObject({ windowMs: HOUR, ...expected });
+  });
+
+  it('reports coverage as the share of the window observed', () => {
+    expect(uptimeReport(history(...everyMinute(15)), HOUR, 99.9, NOW).coverage).toBeCloseTo(0.25, 10);
+  });
+
+  // 1 minute down in 10 observed at a 99% target: 10x the allowed rate, budget 6s, overspent 9 times
+  it.each<[string, number, number | null, number, number | null]>([
+    ['a breached target', 99, 10, 6_000, -9],
+    ['a target the downtime fits', 80, 0.5, 2 * MINUTE, 0.5],
+    ['a 100% target leaves no budget to burn', 100, null, 0, null],
+  ])('burn rate for %s', (_, target, burnRate, budgetMs, budgetRemaining) => {
+    const samples = history(...everyMinute(10).map(([minutesAgo]): [number, SystemStatus] => [minutesAgo, minutesAgo === 5 ? 'down' : 'operational']));
+    const report = uptimeReport(samples, HOUR, target, NOW);
+
+    expect(report.uptime).toBeCloseTo(0.9, 10);
+    expect(report.budgetMs).toBeCloseTo(budgetMs, 6);
+    if (burnRate === null) expect(report.burnRate).toBeNull();
+    else expect(report.burnRate).toBeCloseTo(burnRate, 10);
+    if (budgetRemaining === null) expect(report.budgetRemaining).toBeNull();
+    else expect(report.budgetRemaining).toBeCloseTo(budgetRemaining, 10);
+  });
+});
+
+describe('findOutages', () => {
+  const outage = (start: number, end: number, status: SystemStatus, ongoing = false) =>
+    ({ start: NOW - start * MINUTE, end: NOW - end * MINUTE, status, ongoing });
+
+  it.each<[string, HealthSample[], ReturnType<typeof outage>[]]>([
+    ['all up', history(...everyMinute(10)), []],
+    ['no samples', [], []],
+    ['a recovered outage', history([10, 'operational'], [9, 'down'], [8, 'down'], [7, 'operational']), [outage(9, 7, 'down')]],
+    ['critical and down merge, reported as down', history([9, 'critical'], [8, 'down'], [7, 'critical'], [6, 'operational']), [outage(9, 6, 'down')]],
+    ['critical only', history([9, 'critical'], [8, 'operational']), [outage(9, 8, 'critical')]],
+    ['newest first', history([20, 'down'], [19, 'operational'], [10, 'critical'], [9, 'operational']), [outage(10, 9, 'critical'), outage(20, 19, 'down')]],
+    // Nothing was observed in between, so it is not known to be one outage
+    ['a gap splits outages', history([30, 'down'], [20, 'down'], [19, 'operational']), [outage(20, 19, 'down'), outage(30, 25, 'down')]],
+    ['clipped at the window start', history([62, 'down'], [59, 'operational']), [outage(60, 59, 'down')]],
+    ['ongoing while the latest sample is down', history([3, 'operational'], [2, 'down'], [1, 'critical']), [outage(2, 0, 'down', true)]],
+    ['ongoing after the dashboard was closed', history([20, 'critical']), [outage(20, 15, 'critical', true)]],
+  ])('%s', (_, samples, expected) => {
+    expect(findOutages(samples, NOW - HOUR, NOW)).toEqual(expected);
+  });
+});
+
+describe('statusTimeline', () => {
+  // Six 10-minute slots over the last hour
+  const timeline = (samples: HealthSample[]) => statusTimeline(samples, NOW - HOUR, NOW, 6);
+
+  it.each<[string, HealthSample[], TimelineSlot[]]>([
+    ['no samples', [], ['unknown', 'unknown', 'unknown', 'unknown', 'unknown', 'unknown']],
+    ['all up', history(...everyMinute(60)), ['up', 'up', 'up', 'up', 'up', 'up']],
+    [
+      'the worst status in a slot wins',
+      history(...everyMinute(60).map(([minutesAgo]): [number, SystemStatus] => [minutesAgo, minutesAgo === 35 ? 'degraded' : minutesAgo === 12 ? 'critical' : 'operational'])),
+      ['up', 'up', 'degraded', 'up', 'down', 'up'],
+    ],
+    ['a span crossing a slot boundary', history([42, 'down']), ['unknown', 'down', 'down', 'unknown', 'unknown', 'unknown']],
+    ['a span ending on a slot boundary', history([45, 'operational']), ['unknown', 'up', 'unknown', 'unknown', 'unknown', 'unknown']],
+    ['a sample before the window', history([62, 'degraded']), ['degraded', 'unknown', 'unknown', 'unknown', 'unknown', 'unknown']],
+  ])('%s', (_, samples, expected) => {
+    expect(timeline(samples)).toEqual(expected);
+  });
+});
@@ -0,0 +1,128 @@
+import type { HealthSample } from './history';
+import type { SystemStatus } from './problems';
+
+/**
+ * Uptime and error budget from the recorded health history.
+ *
+ * Each sample stands for the time until the next one, capped at MAX_SAMPLE_SPAN: when the
+ * dashboard was closed nothing was observed, and that time counts neither as up nor as down.
+ * Operational and degraded count as available; critical and down count as downtime.
+ */
+
+export const SLO_WINDOWS = [
+  { key: '24h', label: 'Last 24 hours', ms: 24 * 60 * 60 * 1000 },
+  { key: '7d', label: 'Last 7 days', ms: 7 * 24 * 60 * 60 * 1000 },
+  { key: '30d', label: 'Last 30 days', ms: 30 * 24 * 60 * 60 * 1000 },
+] as const;
+
+export const MAX_SAMPLE_SPAN = 5 * 60 * 1000;
+
+// Percent, e.g. 99.9
+export const DEFAULT_SLO_TARGET = Number(process.env.NEXT_PUBLIC_UPTIME_SLO) || 99.9;
+
+export const isAvailable = (status: SystemStatus) => status === 'operational' || status === 'degraded';
+
+export interface UptimeReport {
+  windowMs: number;
+  observedMs: number;
+  downtimeMs: number;
+  // Share of the window the dashboard was watching, 0-1
+  coverage: number;
+  // 0-1, null without observations
+  uptime: number | null;
+  // Downtime the SLO allows over the observed time
+  budgetMs: number;
+  // Share of the budget left, 0-1; negative once the SLO is breached
+  budgetRemaining: number | null;
+  // 1 spends the budget exactly over the window, above 1 runs out early
+  burnRate: number | null;
+}
+
+export interface Outage {
+  start: number;
+  end: number;
+  status: SystemStatus;
+  ongoing: boolean;
+}
+
+interface Span {
+  start: number;
+  end: number;
+  status: SystemStatus;
+}
+
+// Samples (any order) as contiguous spans clipped to [from, to]
+function spans(samples: HealthSample[], from: number, to: number): Span[] {
+  const sorted = [...samples].sort((a, b) => a.timestamp - b.timestamp);
+  return sorted
+    .map((sample, i) => {
+      const next = sorted[i + 1]?.timestamp ?? to;
+      return {
+        start: Math.max(sample.timestamp, from),
+        end: Math.min(next, sample.timestamp + MAX_SAMPLE_SPAN, to),
+        status: sample.globalStatus,
+      };
+    })
+    .filter(span => span.end > span.start);
+}
+
+export function uptimeReport(samples: HealthSample[], windowMs: number, sloTarget: number, now = Date.now()): UptimeReport {
+  const windowSpans = spans(samples, now - windowMs, now);
+  const observedMs = windowSpans.reduce((sum, span) => sum + span.end - span.start, 0);
+  const downtimeMs = windowSpans.filter(span => !isAvailable(span.status)).reduce((sum, span) => sum + span.end - span.start, 0);
+  const allowedRatio = Math.max(0, 1 - sloTarget / 100);
+  const budgetMs = observedMs * allowedRatio;
+
+  return {
+    windowMs,
+    observedMs,
+    downtimeMs,
+    coverage: observedMs / windowMs,
+    uptime: observedMs > 0 ? 1 - downtimeMs / observedMs : null,
+    budgetMs,
+    budgetRemaining: budgetMs > 0 ? 1 - downtimeMs / budgetMs : null,
+    burnRate: observedMs > 0 && allowedRatio > 0 ? downtimeMs / observedMs / allowedRatio : null,
+  };
+}
+
+// Periods of downtime, newest first; adjacent down samples merge into one outage
+export function findOutages(samples: HealthSample[], from: number, now = Date.now()): Outage[] {
+  const outages: Outage[] = [];
+
+  for (const span of spans(samples, from, now)) {
+    if (isAvailable(span.status)) continue;
+    const last = outages[outages.length - 1];
+    if (last && last.end === span.start) {
+      last.end = span.end;
+      if (span.status === 'down') last.status = 'down';
+    } else {
+      outages.push({ ...span, ongoing: false });
+    }
+  }
+
+  const latest = samples.reduce<HealthSample | null>((newest, sample) => (!newest || sample.timestamp > newest.timestamp ? sample : newest), null);
+  const current = outages[outages.length - 1];
+  if (current && latest && !isAvailable(latest.globalStatus) && current.end >= latest.timestamp) current.ongoing = true;
+
+  return outages.reverse();
+}
+
+export type TimelineSlot = 'up' | 'degraded' | 'down' | 'unknown';
+
+// The window cut into `slots` equal parts, each showing the worst status observed in it
+export function statusTimeline(samples: HealthSample[], from: number, to: number, slots: number): TimelineSlot[] {
+  const size = (to - from) / slots;
+  const timeline: TimelineSlot[] = Array(slots).fill('unknown');
+  const rank: Record<TimelineSlot, number> = { unknown: 0, up: 1, degraded: 2, down: 3 };
+
+  for (const span of spans(samples, from, to)) {
+    const value: TimelineSlot = !isAvailable(span.status) ? 'down' : span.status === 'degraded' ? 'degraded' : 'up';
+    const first = Math.floor((span.start - from) / size);
+    const last = Math.min(slots - 1, Math.floor((span.end - 1 - from) / size));
+    for (let slot = first; slot <= last; slot++) {
+      if (rank[value] > rank[timeline[slot]]) timeline[slot] = value;
+    }
+  }
+
+  return timeline;
+}
@@ -0,0 +1,28 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { healthHistory, type HealthSample } from './history';
+
+// Recorded runs from the last `windowMs`, oldest first, reloaded whenever a run is recorded
+export function useHealthHistory(windowMs: number): HealthSample[] {
+  const [samples, setSamples] = useState<HealthSample[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = () => {
+      healthHistory
+        .since(Date.now() - windowMs)
+        .then(loaded => { if (!cancelled) setSamples(loaded); })
+        .catch(error => console.error('Failed to load health history:', error));
+    };
+
+    load();
+    const unsubscribe = healthHistory.subscribe(load);
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [windowMs]);
+
+  return samples;
+}
@@ -0,0 +1,175 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { Problem, Severity } from './problems';
+import {
+  deliverWebhook,
+  parseWebhookTargets,
+  problemTransition,
+  signPayload,
+  verifySignature,
+  webhookEvent,
+  SIGNATURE_HEADER,
+} from './webhooks';
+
+const SECRET = 'whsec_test';
+
+const problem = (id: string, severity: Severity): Problem => ({
+  id,
+  severity,
+  title: id,
+  description: `${id} description`,
+  component: 'Test',
+  detectedAt: new Date('2026-01-01T12:00:00Z'),
+  solution: '',
+  steps: [],
+});
+
+const seconds = () => Math.floor(Date.now() / 1000);
+
+describe('signatures', () => {
+  const body = JSON.stringify({ type: 'problems.changed', opened: [{ id: 'db' }] });
+
+  it('verifies a signature it made', () => {
+    expect(verifySignature(body, signPayload(body, SECRET), SECRET)).toBe(true);
+  });
+
+  it.each([
+    ['a tampered body', () => verifySignature(body.replace('db', 'redis'), signPayload(body, SECRET), SECRET)],
+    ['the wrong secret', () => verifySignature(body, signPayload(body, 'other'), SECRET)],
+    ['an expired timestamp', () => verifySignature(body, signPayload(body, SECRET, seconds() - 301), SECRET)],
+    ['a timestamp from the future', () => verifySignature(body, signPayload(body, SECRET, seconds() + 301), SECRET)],
+    ['a swapped timestamp', () => verifySignature(body, signPayload(body, SECRET, seconds() - 10).replace(/t=\d+/, `t=${seconds()}`), SECRET)],
+    ['a truncated digest', () => verifySignature(body, signPayload(body, SECRET).slice(0, -2), SECRET)],
+    ['no header', () => verifySignature(body, undefined, SECRET)],
+    ['a malformed header', () => verifySignature(body, 'sha256=abc', SECRET)],
+  ])('rejects %s', (_, verify) => {
+    expect(verify()).toBe(false);
+  });
+
+  it('accepts an older timestamp within a wider tolerance', () => {
+    expect(verifySignature(body, signPayload(body, SECRET, seconds() - 600), SECRET, 900)).toBe(true);
+  });
+});
+
+describe('problemTransition', () => {
+  const db = problem('db', 'critical');
+  const redis = problem('redis', 'warning');
+  const hint = problem('hint', 'info');
+
+  it('lists opened problems on the first run', () => {
+    const transition = problemTransition(null, { status: 'critical', problems: [db, hint] });
+    expect(transition).toMatchObject({ status: 'critical', previousStatus: null, resolved: [] });
+    expect(transition?.opened.map(({ id }) => id)).toEqual(['db']);
+  });
+
+  it('lists opened and resolved problems together', () => {
+    const transition = problemTransition({ status: 'critical', problems: [db] }, { status: 'degraded', problems: [redis] });
+    expect(transition).toMatchObject({ status: 'degraded', previousStatus: 'critical' });
+    expect(transition?.opened.map(({ id }) => id)).toEqual(['redis']);
+    expect(transition?.resolved.map(({ id }) => id)).toEqual(['db']);
+  });
+
+  it('sends only the fields a receiver needs', () => {
+    const [opened] = problemTransition(null, { status: 'critical', problems: [db] })?.opened ?? [];
+    expect(opened).toEqual({ id: 'db', severity: 'critical', title: 'db', description: 'db description', component: 'Test', solution: '' });
+  });
+
+  it.each([
+    ['nothing changed', [db, redis], [redis, db]],
+    ['an info problem opening', [db], [db, hint]],
+    ['an info problem resolving', [db, hint], [db]],
+    ['no problems either time', [], []],
+  ])('is null for %s', (_, before, after) => {
+    expect(problemTransition({ status: 'degraded', problems: before }, { status: 'degraded', problems: after })).toBeNull();
+  });
+});
+
+describe('parseWebhookTargets', () => {
+  it.each([
+    ['unset', undefined, [], []],
+    ['blank', '  ', [], []],
+    ['one URL', 'https://example.com/hook', [{ url: 'https://example.com/hook' }], []],
+    [
+      'comma-separated URLs with spaces and empty entries',
+      ' https://a.example.com/hook , ,https://hooks.slack.com/services/T/B/X,',
+      [{ url: 'https://a.example.com/hook' }, { url: 'https://hooks.slack.com/services/T/B/X' }],
+      [],
+    ],
+    ['a bad URL among good ones', 'https://a.example.com/hook,not-a-url', [{ url: 'https://a.example.com/hook' }], ['Webhook 2: url Invalid url']],
+    [
+      'a JSON array',
+      '[{"url":"https://a.example.com/hook","format":"slack","secret":"s"},{"url":"https://b.example.com/hook"}]',
+      [{ url: 'https://a.example.com/hook', format: 'slack', secret: 's' }, { url: 'https://b.example.com/hook' }],
+      [],
+    ],
+    [
+      'a JSON array with an invalid entry',
+      '[{"url":"https://a.example.com/hook","format":"teams"},{"url":"https://b.example.com/hook"},"https://c.example.com"]',
+      [{ url: 'https://b.example.com/hook' }],
+      [expect.stringMatching(/^Webhook 1: format /), 'Webhook 3: entry Expected object, received string'],
+    ],
+  ])('%s', (_, value, targets, errors) => {
+    expect(parseWebhookTargets(value)).toEqual({ targets, errors });
+  });
+
+  it('reports broken JSON instead of throwing', () => {
+    const { targets, errors } = parseWebhookTargets('[{"url":');
+    expect(targets).toEqual([]);
+    expect(errors).toEqual([expect.stringMatching(/^DIAGNOSTICS_WEBHOOKS is not valid JSON: /)]);
+  });
+});
+
+describe('deliverWebhook', () => {
+  const event = webhookEvent({ status: 'critical', previousStatus: 'operational', opened: [], resolved: [] }, undefined, new Date('2026-01-01T12:00:00Z'));
+  const target = { url: 'https://example.com/hook' };
+
+  function stubFetch(...statuses: (number | Error)[]) {
+    const fetch = vi.fn(async (_url: string, _init: RequestInit) => {
+      const next = statuses.shift() ?? 200;
+      if (next instanceof Error) throw next;
+      return new Response(null, { status: next });
+    });
+    vi.stubGlobal('fetch', fetch);
+    return fetch;
+  }
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it.each([
+    ['delivered first time', [200], { ok: true, attempts: 1, status: 200 }],
+    ['retries a 503', [503, 503, 200], { ok: true, attempts: 3, status: 200 }],
+    ['retries a 429', [429, 204], { ok: true, attempts: 2, status: 204 }],
+    ['retries a network error', [new Error('fetch failed'), 200], { ok: true, attempts: 2, status: 200 }],
+    ['does not retry a 400', [400, 200], { ok: false, attempts: 1, status: 400, error: 'HTTP 400' }],
+    ['does not retry a 404', [404], { ok: false, attempts: 1, status: 404, error: 'HTTP 404' }],
+    ['gives up after the last retry', [503, 503, 503, 503, 200], { ok: false, attempts: 4, status: 503, error: 'HTTP 503' }],
+    ['reports the last network error', [new Error('a'), new Error('b'), new Error('c'), new Error('d')], { ok: false, attempts: 4, error: 'd' }],
+  ])('%s', async (_, statuses, expected) => {
+    const fetch = stubFetch(...statuses);
+    const result = await deliverWebhook(target, event, { retryBaseDelay: 0 });
+    expect(result).toEqual({ url: target.url, ...expected });
+    expect(fetch).toHaveBeenCalledTimes(expected.attempts);
+  });
+
+  it('signs the exact body it sends with the target secret first', async () => {
+    const fetch = stubFetch(200);
+    await deliverWebhook({ ...target, secret: 'target-secret' }, event, { secret: SECRET, retryBaseDelay: 0 });
+    const { body, headers } = fetch.mock.calls[0][1] as { body: string; headers: Record<string, string> };
+    expect(JSON.parse(body)).toMatchObject({ id: event.id, type: 'problems.changed', status: 'critical' });
+    expect(verifySignature(body, headers[SIGNATURE_HEADER], 'target-secret')).toBe(true);
+    expect(headers['X-Dashboard-Delivery']).toBe(event.id);
+  });
+
+  it('sends no signature without a secret', async () => {
+    const fetch = stubFetch(200);
+    await deliverWebhook(target, event, { retryBaseDelay: 0 });
+    expect((fetch.mock.calls[0][1].headers as Record<string, string>)[SIGNATURE_HEADER]).toBeUndefined();
+  });
+
+  it('sends Slack targets a Slack message', async () => {
+    const fetch = stubFetch(200);
+    await deliverWebhook({ url: 'https://hooks.slack.com/services/T/B/X' }, event, { retryBaseDelay: 0 });
+    expect(JSON.parse(fetch.mock.calls[0][1].body as string)).toMatchObject({ text: 'System critical (was operational): 0 opened, 0 resolved' });
+  });
+});
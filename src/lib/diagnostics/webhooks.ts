@@ -0,0 +1,201 @@
+import { createHmac, randomUUID, timingSafeEqual } from 'crypto';
+import { z } from 'zod';
+import type { Problem, SystemStatus } from './problems';
+
+/**
+ * Outbound webhooks for problems opening and resolving, sent by the server-side scheduler.
+ *
+ * One POST per target per run that changed something. Generic targets get the event as JSON;
+ * Slack targets get an incoming-webhook message. Every request is signed:
+ *
+ *   X-Dashboard-Signature: t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<raw body>">
+ *
+ * so a receiver can check both the body and its age. Network errors, 429 and 5xx are retried
+ * with exponential backoff; any other 4xx is final.
+ */
+
+export const WebhookTargetSchema = z.object({
+  url: z.string().url(),
+  format: z.enum(['generic', 'slack']).optional(),
+  // Falls back to DIAGNOSTICS_WEBHOOK_SECRET
+  secret: z.string().optional(),
+});
+
+export type WebhookTarget = z.infer<typeof WebhookTargetSchema>;
+
+export const SIGNATURE_HEADER = 'X-Dashboard-Signature';
+
+// Only problems worth telling someone about; info problems stay on the page
+const NOTIFY_SEVERITIES: Problem['severity'][] = ['critical', 'warning'];
+
+export interface WebhookProblem {
+  id: string;
+  severity: Problem['severity'];
+  title: string;
+  description: string;
+  component: string;
+  solution: string;
+}
+
+export interface ProblemTransition {
+  status: SystemStatus;
+  previousStatus: SystemStatus | null;
+  opened: WebhookProblem[];
+  resolved: WebhookProblem[];
+}
+
+export interface WebhookEvent extends ProblemTransition {
+  id: string;
+  type: 'problems.changed';
+  timestamp: string;
+  dashboardUrl?: string;
+}
+
+function toWebhookProblem({ id, severity, title, description, component, solution }: Problem): WebhookProblem {
+  return { id, severity, title, description, component, solution };
+}
+
+// What opened and resolved between two runs; null when nothing changed
+export function problemTransition(
+  previous: { status: SystemStatus; problems: Problem[] } | null,
+  current: { status: SystemStatus; problems: Problem[] }
+): ProblemTransition | null {
+  const notable = (problems: Problem[]) => problems.filter(problem => NOTIFY_SEVERITIES.includes(problem.severity));
+  const before = new Map(notable(previous?.problems ?? []).map(problem => [problem.id, problem]));
+  const after = new Map(notable(current.problems).map(problem => [problem.id, problem]));
+
+  const opened = Array.from(after.values()).filter(problem => !before.has(problem.id)).map(toWebhookProblem);
+  const resolved = Array.from(before.values()).filter(problem => !after.has(problem.id)).map(toWebhookProblem);
+  if (opened.length === 0 && resolved.length === 0) return null;
+
+  return { status: current.status, previousStatus: previous?.status ?? null, opened, resolved };
+}
+
+export function signPayload(body: string, secret: string, timestamp = Math.floor(Date.now() / 1000)): string {
+  const digest = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `t=${timestamp},v1=${digest}`;
+}
+
+// For receivers: checks the signature header and that it is no older than `toleranceSeconds`
+export function verifySignature(body: string, header: string | null | undefined, secret: string, toleranceSeconds = 300): boolean {
+  const parts = Object.fromEntries((header ?? '').split(',').map(part => part.split('=', 2) as [string, string]));
+  const timestamp = Number(parts.t);
+  if (!Number.isInteger(timestamp) || !parts.v1) return false;
+  if (Math.abs(Date.now() / 1000 - timestamp) > toleranceSeconds) return false;
+
+  const expected = Buffer.from(signPayload(body, secret, timestamp).split('v1=')[1]);
+  const given = Buffer.from(parts.v1);
+  return expected.length === given.length && timingSafeEqual(expected, given);
+}
+
+const SLACK_EMOJI: Record<Problem['severity'], string> = {
+  critical: ':red_circle:',
+  warning: ':warning:',
+  info: ':information_source:',
+  success: ':white_check_mark:',
+};
+
+export function slackPayload(event: WebhookEvent): Record<string, unknown> {
+  const lines = [
+    ...event.opened.map(problem => `${SLACK_EMOJI[problem.severity]} *Opened:* ${problem.title} (${problem.component})\n>${problem.description}`),
+    ...event.resolved.map(problem => `${SLACK_EMOJI.success} *Resolved:* ${problem.title} (${problem.component})`),
+  ];
+  const header = `System ${event.status}${event.previousStatus && event.previousStatus !== event.status ? ` (was ${event.previousStatus})` : ''}`;
+
+  return {
+    // Shown in notifications and clients without block support
+    text: `${header}: ${event.opened.length} opened, ${event.resolved.length} resolved`,
+    blocks: [
+      { type: 'header', text: { type: 'plain_text', text: header } },
+      // Slack rejects section text over 3000 characters
+      { type: 'section', text: { type: 'mrkdwn', text: lines.join('\n\n').slice(0, 3000) } },
+      ...(event.dashboardUrl ? [{ type: 'context', elements: [{ type: 'mrkdwn', text: `<${event.dashboardUrl}|Open the dashboard>` }] }] : []),
+    ],
+  };
+}
+
+export function webhookEvent(transition: ProblemTransition, dashboardUrl?: string, now = new Date()): WebhookEvent {
+  return { id: randomUUID(), type: 'problems.changed', timestamp: now.toISOString(), ...transition, dashboardUrl };
+}
+
+// Slack's incoming webhooks live on hooks.slack.com; anything else is generic unless configured
+export function targetFormat(target: WebhookTarget): 'generic' | 'slack' {
+  return target.format ?? (new URL(target.url).hostname === 'hooks.slack.com' ? 'slack' : 'generic');
+}
+
+export interface DeliveryOptions {
+  secret?: string;
+  retries?: number;
+  retryBaseDelay?: number;
+  timeoutMs?: number;
+}
+
+export interface DeliveryResult {
+  url: string;
+  ok: boolean;
+  attempts: number;
+  status?: number;
+  error?: string;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const isRetryable = (status: number) => status === 429 || status >= 500;
+
+export async function deliverWebhook(target: WebhookTarget, event: WebhookEvent, options: DeliveryOptions = {}): Promise<DeliveryResult> {
+  const { retries = 3, retryBaseDelay = 1000, timeoutMs = 10000 } = options;
+  const secret = target.secret ?? options.secret;
+  const body = JSON.stringify(targetFormat(target) === 'slack' ? slackPayload(event) : event);
+
+  let result: DeliveryResult = { url: target.url, ok: false, attempts: 0 };
+  for (let attempt = 1; attempt <= retries + 1; attempt++) {
+    if (attempt > 1) await sleep(retryBaseDelay * 2 ** (attempt - 2));
+
+    try {
+      const response = await fetch(target.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'ai-execution-dashboard-webhooks',
+          'X-Dashboard-Event': event.type,
+          // Same id on every retry so receivers can drop duplicates
+          'X-Dashboard-Delivery': event.id,
+          ...(secret && { [SIGNATURE_HEADER]: signPayload(body, secret) }),
+        },
+        body,
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+      result = { url: target.url, ok: response.ok, attempts: attempt, status: response.status, error: response.ok ? undefined : `HTTP ${response.status}` };
+      if (response.ok || !isRetryable(response.status)) return result;
+    } catch (error) {
+      result = { url: target.url, ok: false, attempts: attempt, error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+  return result;
+}
+
+/**
+ * Targets from DIAGNOSTICS_WEBHOOKS: either a JSON array of `{ url, format?, secret? }` or a
+ * comma-separated list of URLs. Invalid entries are reported, not thrown, so one typo does not
+ * stop the others.
+ */
+export function parseWebhookTargets(value: string | undefined): { targets: WebhookTarget[]; errors: string[] } {
+  const raw = value?.trim();
+  if (!raw) return { targets: [], errors: [] };
+
+  let entries: unknown[];
+  try {
+    entries = raw.startsWith('[') ? JSON.parse(raw) : raw.split(',').map(url => ({ url: url.trim() })).filter(entry => entry.url);
+  } catch (error) {
+    return { targets: [], errors: [`DIAGNOSTICS_WEBHOOKS is not valid JSON: ${error instanceof Error ? error.message : error}`] };
+  }
+
+  const targets: WebhookTarget[] = [];
+  const errors: string[] = [];
+  entries.forEach((entry, index) => {
+    const parsed = WebhookTargetSchema.safeParse(entry);
+    if (parsed.success) targets.push(parsed.data);
+    else errors.push(`Webhook ${index + 1}: ${parsed.error.issues[0].path.join('.') || 'entry'} ${parsed.error.issues[0].message}`);
+  });
+  return { targets, errors };
+}
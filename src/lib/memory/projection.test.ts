@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { projectEmbeddings, type ProjectedPoint } from './projection';
+
+const items = (...embeddings: (number[] | undefined)[]) => embeddings.map((embedding, index) => ({ id: `mem_${index}`, embedding }));
+
+// Components are only defined up to sign, so flip `actual` to best match `expected` first.
+// Iteration stops within `tolerance` of the true axis, hence the loose comparison
+function expectUpToSign(actual: number[], expected: number[]) {
+  const sign = actual.reduce((sum, value, i) => sum + value * expected[i], 0) < 0 ? -1 : 1;
+  actual.forEach((value, i) => expect(value * sign).toBeCloseTo(expected[i], 3));
+}
+
+const xs = (points: ProjectedPoint[]) => points.map(point => point.x);
+const ys = (points: ProjectedPoint[]) => points.map(point => point.y);
+
+// Offsets along the first and second axis, spread 5 and 1
+const grid: [number, number][] = [[5, 1], [5, -1], [-5, 1], [-5, -1]];
+
+describe('projectEmbeddings', () => {
+  it.each<[string, (t: number, s: number) => number[]]>([
+    ['axis-aligned 2-D', (t, s) => [t, s]],
+    ['2-D with swapped axes', (t, s) => [s, t]],
+    ['2-D rotated by 30°', (t, s) => [t * Math.cos(Math.PI / 6) - s * Math.sin(Math.PI / 6), t * Math.sin(Math.PI / 6) + s * Math.cos(Math.PI / 6)]],
+    ['3-D with a flat third axis', (t, s) => [s, 7, t]],
+    ['3-D along diagonals', (t, s) => [(t + s) / Math.SQRT2, (t - s) / Math.SQRT2, 0]],
+    ['3-D away from the origin', (t, s) => [100 + t, -40 + s, 3]],
+  ])('lines the axes up with the principal directions: %s', (_, embed) => {
+    const projection = projectEmbeddings(items(...grid.map(([t, s]) => embed(t, s))));
+
+    expectUpToSign(xs(projection.points), grid.map(([t]) => t));
+    expectUpToSign(ys(projection.points), grid.map(([, s]) => s));
+    expect(projection.explainedVariance[0]).toBeCloseTo(25 / 26, 4);
+    expect(projection.explainedVariance[1]).toBeCloseTo(1 / 26, 4);
+  });
+
+  it('puts collinear points on the first axis', () => {
+    const projection = projectEmbeddings(items([0, 0, 0], [1, 2, 2], [2, 4, 4], [3, 6, 6]));
+
+    expectUpToSign(xs(projection.points), [-4.5, -1.5, 1.5, 4.5]);
+    ys(projection.points).forEach(y => expect(y).toBeCloseTo(0, 3));
+    expect(projection.explainedVariance[0]).toBeCloseTo(1, 4);
+    expect(projection.explainedVariance[1]).toBeCloseTo(0, 4);
+  });
+
+  it('gives the same projection every time', () => {
+    const input = items([0.3, -1.2, 4, 0.5], [2.2, 0.1, -0.7, 1], [-1, 1.5, 0.2, -3], [0.8, 0.8, 0.8, 0.8], [4, -2, 1, 0]);
+    expect(projectEmbeddings(input)).toEqual(projectEmbeddings(input));
+  });
+
+  it('projects high-dimensional embeddings', () => {
+    const dimensions = 1536;
+    const direction = Array.from({ length: dimensions }, (_, i) => (i % 2 === 0 ? 1 : -1) / Math.sqrt(dimensions));
+    const projection = projectEmbeddings(items(...[-2, -1, 0, 1, 2].map(t => direction.map(value => value * t))));
+
+    expect(projection.dimensions).toBe(dimensions);
+    expectUpToSign(xs(projection.points), [-2, -1, 0, 1, 2]);
+  });
+
+  it('keeps the most common dimension and skips the rest', () => {
+    const projection = projectEmbeddings(items([1, 0, 0], [0, 1], [0, 1, 0], undefined, [], [0, 0, 1], [1, 1, 1, 1]));
+
+    expect(projection.dimensions).toBe(3);
+    expect(projection.points.map(({ id }) => id)).toEqual(['mem_0', 'mem_2', 'mem_5']);
+    expect(projection.skipped).toEqual(['mem_1', 'mem_3', 'mem_4', 'mem_6']);
+  });
+
+  it('breaks a tie between dimensions by the first one seen', () => {
+    const projection = projectEmbeddings(items([1, 2], [3, 4, 5], [6, 7], [8, 9, 10]));
+    expect(projection.dimensions).toBe(2);
+    expect(projection.skipped).toEqual(['mem_1', 'mem_3']);
+  });
+
+  it.each<[string, { id: string; embedding?: number[] }[], string[], number]>([
+    ['no items', [], [], 0],
+    ['no embeddings', items(undefined, []), [], 0],
+    ['a single point', items([1, 2, 3]), ['mem_0'], 3],
+    ['one point left after skipping another dimension', items([1, 2], [3, 4, 5]), ['mem_0'], 2],
+  ])('puts the origin under %s', (_, input, ids, dimensions) => {
+    const projection = projectEmbeddings(input);
+
+    expect(projection.points).toEqual(ids.map(id => ({ id, x: 0, y: 0 })));
+    expect(projection.explainedVariance).toEqual([0, 0]);
+    expect(projection.dimensions).toBe(dimensions);
+  });
+
+  it('stacks identical points on the origin without NaN', () => {
+    const projection = projectEmbeddings(items([0.5, 0.5, 0.5], [0.5, 0.5, 0.5], [0.5, 0.5, 0.5]));
+
+    expect(projection.points).toEqual([
+      { id: 'mem_0', x: 0, y: 0 },
+      { id: 'mem_1', x: 0, y: 0 },
+      { id: 'mem_2', x: 0, y: 0 },
+    ]);
+    expect(projection.explainedVariance).toEqual([0, 0]);
+  });
+});
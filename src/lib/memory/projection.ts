@@ -0,0 +1,117 @@
+/**
+ * 2D PCA projection of memory embeddings.
+ *
+ * Embeddings are high-dimensional (often 1k+), so the covariance matrix is never built:
+ * principal components are found by power iteration on XᵀX applied as Xᵀ(Xv), with the
+ * first component deflated out while searching for the second.
+ */
+
+export interface ProjectedPoint {
+  id: string;
+  x: number;
+  y: number;
+}
+
+export interface Projection {
+  points: ProjectedPoint[];
+  // Share of total variance captured by each axis, 0-1
+  explainedVariance: [number, number];
+  dimensions: number;
+  // Ids left out because their embedding was missing or had a different dimension
+  skipped: string[];
+}
+
+export interface ProjectionOptions {
+  iterations?: number;
+  tolerance?: number;
+}
+
+const dot = (a: number[], b: number[]) => a.reduce((sum, value, i) => sum + value * b[i], 0);
+
+const normalize = (vector: number[]) => {
+  const length = Math.sqrt(dot(vector, vector));
+  return length === 0 ? vector : vector.map(value => value / length);
+};
+
+// Deterministic start vector so the same memories always land in the same place
+const seedVector = (dimensions: number, offset: number) =>
+  normalize(Array.from({ length: dimensions }, (_, i) => Math.sin((i + 1) * (offset + 1) * 12.9898)));
+
+function powerIteration(
+  rows: number[][],
+  deflate: number[][],
+  iterations: number,
+  tolerance: number,
+  seed: number
+): { vector: number[]; eigenvalue: number } {
+  const dimensions = rows[0].length;
+  const orthogonalize = (v: number[]) =>
+    deflate.reduce((current, component) => {
+      const overlap = dot(current, component);
+      return current.map((value, i) => value - overlap * component[i]);
+    }, v);
+
+  let vector = normalize(orthogonalize(seedVector(dimensions, seed)));
+  let eigenvalue = 0;
+
+  for (let iteration = 0; iteration < iterations; iteration++) {
+    const projected = rows.map(row => dot(row, vector));
+    const next = new Array<number>(dimensions).fill(0);
+    rows.forEach((row, r) => {
+      for (let i = 0; i < dimensions; i++) next[i] += row[i] * projected[r];
+    });
+
+    const candidate = normalize(orthogonalize(next));
+    eigenvalue = projected.reduce((sum, value) => sum + value * value, 0);
+    const converged = Math.abs(Math.abs(dot(candidate, vector)) - 1) < tolerance;
+    vector = candidate;
+    if (converged) break;
+  }
+
+  return { vector, eigenvalue };
+}
+
+export function projectEmbeddings(
+  items: { id: string; embedding?: number[] }[],
+  options: ProjectionOptions = {}
+): Projection {
+  const iterations = options.iterations ?? 100;
+  const tolerance = options.tolerance ?? 1e-6;
+
+  // Keep the most common dimension; mixed embedding models cannot share one space
+  const counts = new Map<number, number>();
+  items.forEach(item => {
+    if (item.embedding?.length) counts.set(item.embedding.length, (counts.get(item.embedding.length) ?? 0) + 1);
+  });
+  const dimensions = [...counts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0] ?? 0;
+
+  const usable = items.filter(item => dimensions > 0 && item.embedding?.length === dimensions);
+  const usableIds = new Set(usable.map(item => item.id));
+  const skipped = items.filter(item => !usableIds.has(item.id)).map(item => item.id);
+
+  if (usable.length < 2) {
+    return {
+      points: usable.map(item => ({ id: item.id, x: 0, y: 0 })),
+      explainedVariance: [0, 0],
+      dimensions,
+      skipped,
+    };
+  }
+
+  const mean = new Array<number>(dimensions).fill(0);
+  usable.forEach(item => item.embedding!.forEach((value, i) => { mean[i] += value / usable.length; }));
+  const rows = usable.map(item => item.embedding!.map((value, i) => value - mean[i]));
+  const totalVariance = rows.reduce((sum, row) => sum + dot(row, row), 0);
+
+  const first = powerIteration(rows, [], iterations, tolerance, 0);
+  const second = powerIteration(rows, [first.vector], iterations, tolerance, 1);
+
+  return {
+    points: usable.map((item, r) => ({ id: item.id, x: dot(rows[r], first.vector), y: dot(rows[r], second.vector) })),
+    explainedVariance: totalVariance > 0
+      ? [first.eigenvalue / totalVariance, second.eigenvalue / totalVariance]
+      : [0, 0],
+    dimensions,
+    skipped,
+  };
+}
@@ -0,0 +1,174 @@
+import { describe, expect, it } from 'vitest';
+import {
+  bucketIncrease,
+  counterIncrease,
+  familySeries,
+  histogramQuantile,
+  labelKey,
+  parsePrometheus,
+  type HistogramBucket,
+} from './prometheus';
+
+const buckets = (...pairs: [number, number][]): HistogramBucket[] => pairs.map(([le, count]) => ({ le, count }));
+
+describe('parsePrometheus', () => {
+  it('groups histogram samples under their TYPE line', () => {
+    const { families, errors } = parsePrometheus([
+      '# HELP http_request_duration_seconds Request latency.\\nIn seconds.',
+      '# TYPE http_request_duration_seconds histogram',
+      'http_request_duration_seconds_bucket{le="0.1"} 3',
+      'http_request_duration_seconds_bucket{le="+Inf"} 5',
+      'http_request_duration_seconds_sum 0.9',
+      'http_request_duration_seconds_count 5',
+    ].join('\n'));
+
+    expect(errors).toEqual([]);
+    expect(families).toHaveLength(1);
+    expect(families[0]).toMatchObject({ name: 'http_request_duration_seconds', type: 'histogram', help: 'Request latency.\nIn seconds.' });
+    expect(families[0].samples.map(sample => sample.name)).toEqual([
+      'http_request_duration_seconds_bucket',
+      'http_request_duration_seconds_bucket',
+      'http_request_duration_seconds_sum',
+      'http_request_duration_seconds_count',
+    ]);
+  });
+
+  it.each([
+    ['plain value', 'up 1', { name: 'up', labels: {}, value: 1 }],
+    ['scientific notation', 'bytes 1.5e3', { name: 'bytes', labels: {}, value: 1500 }],
+    ['+Inf', 'limit +Inf', { name: 'limit', labels: {}, value: Infinity }],
+    ['-Inf', 'floor -Inf', { name: 'floor', labels: {}, value: -Infinity }],
+    ['NaN', 'ratio NaN', { name: 'ratio', labels: {}, value: NaN }],
+    ['timestamp', 'up 1 1700000000000', { name: 'up', labels: {}, value: 1, timestamp: 1700000000000 }],
+    ['labels', 'requests{method="GET",code="200"} 7', { name: 'requests', labels: { method: 'GET', code: '200' }, value: 7 }],
+    ['a trailing comma', 'requests{method="GET",} 7', { name: 'requests', labels: { method: 'GET' }, value: 7 }],
+    ['escaped quote', 'info{path="say \\"hi\\""} 1', { name: 'info', labels: { path: 'say "hi"' }, value: 1 }],
+    ['escaped backslash and newline', 'info{path="C:\\\\tmp\\nnext"} 1', { name: 'info', labels: { path: 'C:\\tmp\nnext' }, value: 1 }],
+    ['closing brace inside a value', 'info{rule="a}b"} 1', { name: 'info', labels: { rule: 'a}b' }, value: 1 }],
+  ])('parses a sample with %s', (_, line, sample) => {
+    const { families, errors } = parsePrometheus(line);
+    expect(errors).toEqual([]);
+    expect(families[0].samples).toEqual([sample]);
+  });
+
+  it('keeps _sum and _count samples without a TYPE line as untyped families of their own', () => {
+    const { families } = parsePrometheus('job_duration_sum 12\njob_duration_count 4');
+    expect(families.map(({ name, type }) => [name, type])).toEqual([
+      ['job_duration_sum', 'untyped'],
+      ['job_duration_count', 'untyped'],
+    ]);
+  });
+
+  it('does not fold _sum into a gauge of the same base name', () => {
+    const { families } = parsePrometheus('# TYPE queue gauge\nqueue 3\nqueue_sum 9');
+    expect(families.map(({ name }) => name)).toEqual(['queue', 'queue_sum']);
+  });
+
+  it('ignores free-text comments and families without samples', () => {
+    const { families, errors } = parsePrometheus('# just a comment\n# HELP unused Never sampled\n# TYPE unused counter\nup 1');
+    expect(errors).toEqual([]);
+    expect(families.map(({ name }) => name)).toEqual(['up']);
+  });
+
+  it.each([
+    ['a TYPE line after samples', 'jobs_total 1\n# TYPE jobs_total counter', 2, 'TYPE for jobs_total comes after its samples'],
+    ['an unknown type', '# TYPE jobs_total meter', 1, 'unknown metric type "meter"'],
+    ['an invalid value', 'up yes', 1, 'invalid value "yes"'],
+    ['a missing value', 'up', 1, 'invalid value ""'],
+    ['a fractional timestamp', 'up 1 17.5', 1, 'invalid timestamp "17.5"'],
+    ['text after the timestamp', 'up 1 17 extra', 1, 'unexpected text after timestamp'],
+    ['an unterminated label value', 'up{job="api} 1', 1, 'unterminated value for label job'],
+    ['a missing separator', 'up{a="1" b="2"} 1', 1, 'expected , or } in label set'],
+    ['an invalid metric name', '1up 1', 1, 'invalid metric name'],
+  ])('collects %s as an error and keeps going', (_, text, line, message) => {
+    const { families, errors } = parsePrometheus(`${text}\nafter 1`);
+    expect(errors).toEqual([{ line, message }]);
+    expect(families.some(family => family.name === 'after')).toBe(true);
+  });
+
+  it('numbers error lines from the start of the text, counting blank lines', () => {
+    const { errors } = parsePrometheus('up 1\n\r\nbad line here!\n');
+    expect(errors.map(error => error.line)).toEqual([3]);
+  });
+});
+
+describe('familySeries', () => {
+  it('folds histogram buckets, sum and count into one series per label set', () => {
+    const { families } = parsePrometheus([
+      '# TYPE latency histogram',
+      'latency_bucket{route="/b",le="+Inf"} 4',
+      'latency_bucket{route="/b",le="0.5"} 1',
+      'latency_sum{route="/b"} 2',
+      'latency_count{route="/b"} 4',
+      'latency_bucket{route="/a",le="+Inf"} 0',
+    ].join('\n'));
+
+    expect(familySeries(families[0])).toEqual([
+      { key: '{route="/b"}', labels: { route: '/b' }, buckets: buckets([0.5, 1], [Infinity, 4]), sum: 2, count: 4 },
+      { key: '{route="/a"}', labels: { route: '/a' }, buckets: buckets([Infinity, 0]) },
+    ]);
+  });
+
+  it('folds summary quantiles', () => {
+    const { families } = parsePrometheus('# TYPE rpc summary\nrpc{quantile="0.99"} 9\nrpc{quantile="0.5"} 2\nrpc_count 10');
+    expect(familySeries(families[0])).toEqual([
+      { key: '{}', labels: {}, quantiles: [{ quantile: 0.5, value: 2 }, { quantile: 0.99, value: 9 }], count: 10 },
+    ]);
+  });
+
+  it('sorts label names in the key', () => {
+    expect(labelKey({ b: '2', a: '1' })).toBe('{a="1",b="2"}');
+  });
+});
+
+describe('histogramQuantile', () => {
+  // 10 observations: 2 up to 0.1s, 6 more up to 0.5s, 1 more up to 1s, 1 above
+  const latency = buckets([0.1, 2], [0.5, 8], [1, 9], [Infinity, 10]);
+
+  it.each([
+    ['rank 0', 0, latency, 0],
+    ['inside the first bucket', 0.1, latency, 0.05],
+    ['on a bucket boundary', 0.2, latency, 0.1],
+    ['inside a bucket', 0.5, latency, 0.1 + 0.4 * (3 / 6)],
+    ['in the last finite bucket', 0.9, latency, 1],
+    ['in the +Inf bucket', 0.95, latency, 1],
+    ['q = 1 in the +Inf bucket', 1, latency, 1],
+    ['unsorted input', 0.5, [...latency].reverse(), 0.3],
+    ['an empty bucket holding the rank', 0.5, buckets([1, 5], [2, 5], [Infinity, 10]), 1],
+  ])('%s', (_, q, input, expected) => {
+    expect(histogramQuantile(q, input)).toBeCloseTo(expected, 10);
+  });
+
+  it.each([
+    ['no observations', 0.5, buckets([1, 0], [Infinity, 0])],
+    ['no +Inf bucket', 0.5, buckets([1, 2], [2, 4])],
+    ['a single bucket', 0.5, buckets([Infinity, 4])],
+    ['q above 1', 1.5, latency],
+    ['q below 0', -0.1, latency],
+  ])('is NaN for %s', (_, q, input) => {
+    expect(histogramQuantile(q, input)).toBeNaN();
+  });
+});
+
+describe('counterIncrease', () => {
+  it.each([
+    [10, 15, 5],
+    [10, 10, 0],
+    // Restarted and counted 3 since
+    [10, 3, 3],
+  ])('%d -> %d is %d', (previous, current, expected) => {
+    expect(counterIncrease(previous, current)).toBe(expected);
+  });
+});
+
+describe('bucketIncrease', () => {
+  it.each([
+    ['observations between scrapes', buckets([1, 2], [Infinity, 4]), buckets([1, 5], [Infinity, 9]), buckets([1, 3], [Infinity, 5])],
+    ['no new observations', buckets([1, 2], [Infinity, 4]), buckets([1, 2], [Infinity, 4]), buckets([1, 0], [Infinity, 0])],
+    ['a counter reset', buckets([1, 20], [Infinity, 40]), buckets([1, 1], [Infinity, 3]), buckets([1, 1], [Infinity, 3])],
+    ['a reset seen in one bucket only', buckets([1, 20], [Infinity, 40]), buckets([1, 2], [Infinity, 45]), buckets([1, 2], [Infinity, 45])],
+    ['a bucket new since the last scrape', buckets([Infinity, 4]), buckets([1, 1], [Infinity, 6]), buckets([1, 1], [Infinity, 2])],
+  ])('%s', (_, previous, current, expected) => {
+    expect(bucketIncrease(previous, current)).toEqual(expected);
+  });
+});
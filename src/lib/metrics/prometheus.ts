@@ -0,0 +1,258 @@
+/**
+ * Parser for the Prometheus text exposition format (version 0.0.4), as served on `/metrics`.
+ *
+ * Samples are grouped into families by their `# TYPE` line: a histogram family owns its
+ * `_bucket`, `_sum` and `_count` samples, a summary its quantile samples plus `_sum` and
+ * `_count`. Samples with no TYPE line become untyped families of their own. Lines that do not
+ * parse are collected as errors rather than failing the whole scrape.
+ */
+
+export type MetricType = 'counter' | 'gauge' | 'histogram' | 'summary' | 'untyped';
+
+export type Labels = Record<string, string>;
+
+export interface MetricSample {
+  name: string;
+  labels: Labels;
+  value: number;
+  // Milliseconds since the epoch, when the exporter sets one
+  timestamp?: number;
+}
+
+export interface MetricFamily {
+  name: string;
+  type: MetricType;
+  help?: string;
+  samples: MetricSample[];
+}
+
+export interface ParseError {
+  line: number;
+  message: string;
+}
+
+export interface ParsedMetrics {
+  families: MetricFamily[];
+  errors: ParseError[];
+}
+
+const METRIC_TYPES: MetricType[] = ['counter', 'gauge', 'histogram', 'summary', 'untyped'];
+const NAME = /^[a-zA-Z_:][a-zA-Z0-9_:]*/;
+const LABEL_NAME = /^[a-zA-Z_][a-zA-Z0-9_]*/;
+
+function parseValue(raw: string): number {
+  switch (raw) {
+    case '+Inf':
+    case 'Inf':
+      return Infinity;
+    case '-Inf':
+      return -Infinity;
+    case 'NaN':
+      return NaN;
+  }
+  const value = Number(raw);
+  if (raw === '' || Number.isNaN(value)) throw new Error(`invalid value "${raw}"`);
+  return value;
+}
+
+function unescape(value: string, help = false): string {
+  // HELP text escapes only backslash and newline; label values also escape double quotes
+  return value.replace(help ? /\\([\\n])/g : /\\([\\n"])/g, (_, char: string) => (char === 'n' ? '\n' : char));
+}
+
+// `{name="value",...}` at the start of `input`; returns the labels and what follows them
+function parseLabels(input: string): [Labels, string] {
+  const labels: Labels = {};
+  let rest = input.slice(1).trimStart();
+
+  while (!rest.startsWith('}')) {
+    const name = LABEL_NAME.exec(rest)?.[0];
+    if (!name) throw new Error('invalid label name');
+    rest = rest.slice(name.length).trimStart();
+    if (!rest.startsWith('="')) throw new Error(`expected ="..." after label ${name}`);
+
+    // Scan to the closing quote, skipping escaped characters
+    let end = 2;
+    while (end < rest.length && rest[end] !== '"') end += rest[end] === '\\' ? 2 : 1;
+    if (end >= rest.length) throw new Error(`unterminated value for label ${name}`);
+
+    labels[name] = unescape(rest.slice(2, end));
+    rest = rest.slice(end + 1).trimStart();
+    if (rest.startsWith(',')) rest = rest.slice(1).trimStart();
+    else if (!rest.startsWith('}')) throw new Error('expected , or } in label set');
+  }
+
+  return [labels, rest.slice(1)];
+}
+
+function parseSample(line: string): MetricSample {
+  const name = NAME.exec(line)?.[0];
+  if (!name) throw new Error('invalid metric name');
+
+  let rest = line.slice(name.length);
+  let labels: Labels = {};
+  if (rest.trimStart().startsWith('{')) [labels, rest] = parseLabels(rest.trimStart());
+
+  const [rawValue, rawTimestamp, ...extra] = rest.trim().split(/\s+/);
+  if (extra.length > 0) throw new Error('unexpected text after timestamp');
+
+  const sample: MetricSample = { name, labels, value: parseValue(rawValue ?? '') };
+  if (rawTimestamp !== undefined) {
+    const timestamp = Number(rawTimestamp);
+    if (!Number.isInteger(timestamp)) throw new Error(`invalid timestamp "${rawTimestamp}"`);
+    sample.timestamp = timestamp;
+  }
+  return sample;
+}
+
+// Family a sample belongs to, given the families declared so far
+function familyName(sample: string, families: Map<string, MetricFamily>): string {
+  const suffixes: [string, MetricType[]][] = [
+    ['_bucket', ['histogram']],
+    ['_sum', ['histogram', 'summary']],
+    ['_count', ['histogram', 'summary']],
+  ];
+  for (const [suffix, types] of suffixes) {
+    if (!sample.endsWith(suffix)) continue;
+    const base = sample.slice(0, -suffix.length);
+    const family = families.get(base);
+    if (family && types.includes(family.type)) return base;
+  }
+  return sample;
+}
+
+export function parsePrometheus(text: string): ParsedMetrics {
+  const families = new Map<string, MetricFamily>();
+  const errors: ParseError[] = [];
+
+  const family = (name: string) => {
+    if (!families.has(name)) families.set(name, { name, type: 'untyped', samples: [] });
+    return families.get(name)!;
+  };
+
+  text.split(/\r?\n/).forEach((raw, index) => {
+    const line = raw.trim();
+    if (!line) return;
+
+    try {
+      if (line.startsWith('#')) {
+        const match = /^#\s+(HELP|TYPE)\s+(\S+)(?:\s+(.*))?$/.exec(line);
+        // Any other comment is free text
+        if (!match) return;
+        const [, keyword, name, value = ''] = match;
+        if (!NAME.test(name)) throw new Error(`invalid metric name "${name}"`);
+
+        if (keyword === 'HELP') {
+          family(name).help = unescape(value, true);
+        } else {
+          if (!METRIC_TYPES.includes(value as MetricType)) throw new Error(`unknown metric type "${value}"`);
+          const target = family(name);
+          if (target.samples.length > 0) throw new Error(`TYPE for ${name} comes after its samples`);
+          target.type = value as MetricType;
+        }
+        return;
+      }
+
+      const sample = parseSample(line);
+      family(familyName(sample.name, families)).samples.push(sample);
+    } catch (error) {
+      errors.push({ line: index + 1, message: error instanceof Error ? error.message : String(error) });
+    }
+  });
+
+  // A HELP or TYPE line with no samples under it declares nothing worth listing
+  return { families: Array.from(families.values()).filter(entry => entry.samples.length > 0), errors };
+}
+
+export interface HistogramBucket {
+  le: number;
+  // Cumulative, as exposed: observations less than or equal to `le`
+  count: number;
+}
+
+export interface MetricSeries {
+  // Stable id of the label set, e.g. `{method="GET",route="/health"}`
+  key: string;
+  labels: Labels;
+  // Counters, gauges and untyped metrics
+  value?: number;
+  // Histograms and summaries
+  count?: number;
+  sum?: number;
+  buckets?: HistogramBucket[];
+  quantiles?: { quantile: number; value: number }[];
+}
+
+export function labelKey(labels: Labels): string {
+  const entries = Object.entries(labels).sort(([a], [b]) => a.localeCompare(b));
+  return `{${entries.map(([name, value]) => `${name}=${JSON.stringify(value)}`).join(',')}}`;
+}
+
+// One series per label set; histogram `le` and summary `quantile` labels fold into the series
+export function familySeries(family: MetricFamily): MetricSeries[] {
+  const series = new Map<string, MetricSeries>();
+
+  family.samples.forEach(sample => {
+    const { le, quantile, ...rest } = sample.labels;
+    const ownLabels = family.type === 'histogram' ? { ...rest, ...(quantile !== undefined && { quantile }) }
+      : family.type === 'summary' ? { ...rest, ...(le !== undefined && { le }) }
+      : sample.labels;
+    const key = labelKey(ownLabels);
+    if (!series.has(key)) series.set(key, { key, labels: ownLabels });
+    const entry = series.get(key)!;
+
+    const aggregate = family.type === 'histogram' || family.type === 'summary';
+    if (aggregate && sample.name === `${family.name}_sum`) {
+      entry.sum = sample.value;
+    } else if (aggregate && sample.name === `${family.name}_count`) {
+      entry.count = sample.value;
+    } else if (family.type === 'histogram' && le !== undefined) {
+      (entry.buckets ??= []).push({ le: parseValue(le), count: sample.value });
+    } else if (family.type === 'summary' && quantile !== undefined) {
+      (entry.quantiles ??= []).push({ quantile: Number(quantile), value: sample.value });
+    } else {
+      entry.value = sample.value;
+    }
+  });
+
+  series.forEach(entry => {
+    entry.buckets?.sort((a, b) => a.le - b.le);
+    entry.quantiles?.sort((a, b) => a.quantile - b.quantile);
+  });
+  return Array.from(series.values());
+}
+
+/**
+ * Estimated q-quantile (0-1) from cumulative histogram buckets, the way PromQL's
+ * histogram_quantile does it: find the bucket holding the rank and interpolate linearly
+ * inside it. Ranks that land in the +Inf bucket return the highest finite bound.
+ */
+export function histogramQuantile(q: number, buckets: HistogramBucket[]): number {
+  const sorted = [...buckets].sort((a, b) => a.le - b.le);
+  if (sorted.length < 2 || sorted[sorted.length - 1].le !== Infinity) return NaN;
+
+  const total = sorted[sorted.length - 1].count;
+  if (total === 0 || q < 0 || q > 1) return NaN;
+
+  const rank = q * total;
+  const index = sorted.findIndex(bucket => bucket.count >= rank);
+  if (index === sorted.length - 1) return sorted[sorted.length - 2].le;
+
+  const bucket = sorted[index];
+  const lower = index === 0 ? (bucket.le > 0 ? 0 : bucket.le) : sorted[index - 1].le;
+  const below = index === 0 ? 0 : sorted[index - 1].count;
+  if (bucket.count === below) return bucket.le;
+  return lower + (bucket.le - lower) * ((rank - below) / (bucket.count - below));
+}
+
+// Increase of a counter between two scrapes; a drop means the process restarted and began again at 0
+export function counterIncrease(previous: number, current: number): number {
+  return current >= previous ? current - previous : current;
+}
+
+// Buckets holding only the observations made between two scrapes of the same histogram
+export function bucketIncrease(previous: HistogramBucket[], current: HistogramBucket[]): HistogramBucket[] {
+  const before = new Map(previous.map(bucket => [bucket.le, bucket.count]));
+  const reset = current.some(bucket => bucket.count < (before.get(bucket.le) ?? 0));
+  return current.map(bucket => ({ le: bucket.le, count: reset ? bucket.count : bucket.count - (before.get(bucket.le) ?? 0) }));
+}
@@ -0,0 +1,166 @@
+import { z } from 'zod';
+import {
+  ComplianceExportSchema,
+  OrchestrationEventSchema,
+  OrchestrationSchema,
+  type Orchestration,
+  type OrchestrationEvent,
+  type OrchestrationStep,
+} from '@/lib/schemas/api';
+import { sortEvents } from './events';
+
+/**
+ * Reading `orchestration_bundle` exports back for offline replay.
+ *
+ * The orchestration and each event are validated separately so one malformed event does not
+ * throw away the whole run: invalid events are reported and left out of the replay.
+ */
+
+export interface BundleIssue {
+  severity: 'error' | 'warning';
+  path: string;
+  message: string;
+}
+
+export interface ImportedBundle {
+  exportId: string;
+  generatedAt: string;
+  schemaVersion: string;
+  orchestration: Orchestration;
+  // Valid events only, in chronological order
+  events: OrchestrationEvent[];
+}
+
+export interface BundleImport {
+  bundle: ImportedBundle | null;
+  issues: BundleIssue[];
+}
+
+// Envelope only; the payload is validated piece by piece below
+const BundleEnvelopeSchema = ComplianceExportSchema.extend({
+  type: z.literal('orchestration_bundle'),
+  data: z.object({
+    orchestration: z.unknown(),
+    events: z.array(z.unknown()),
+  }),
+});
+
+const toIssues = (error: z.ZodError, prefix: string): BundleIssue[] =>
+  error.issues.map(issue => ({
+    severity: 'error',
+    path: [prefix, ...issue.path].filter(part => part !== '').join('.') || '(root)',
+    message: issue.message,
+  }));
+
+export function parseOrchestrationBundle(text: string): BundleImport {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (error) {
+    return { bundle: null, issues: [{ severity: 'error', path: '(file)', message: `Not valid JSON: ${error instanceof Error ? error.message : error}` }] };
+  }
+
+  const envelope = BundleEnvelopeSchema.safeParse(raw);
+  if (!envelope.success) return { bundle: null, issues: toIssues(envelope.error, '') };
+
+  const orchestration = OrchestrationSchema.safeParse(envelope.data.data.orchestration);
+  if (!orchestration.success) return { bundle: null, issues: toIssues(orchestration.error, 'data.orchestration') };
+
+  const issues: BundleIssue[] = [];
+  const events: OrchestrationEvent[] = [];
+
+  envelope.data.data.events.forEach((candidate, index) => {
+    const event = OrchestrationEventSchema.safeParse(candidate);
+    if (!event.success) {
+      issues.push(...toIssues(event.error, `data.events.${index}`));
+      return;
+    }
+    if (event.data.data.orchestrationId !== orchestration.data.id) {
+      issues.push({
+        severity: 'warning',
+        path: `data.events.${index}.data.orchestrationId`,
+        message: `Event belongs to ${event.data.data.orchestrationId}, not ${orchestration.data.id}`,
+      });
+    }
+    events.push(event.data);
+  });
+
+  return {
+    bundle: {
+      exportId: envelope.data.exportId,
+      generatedAt: envelope.data.generatedAt,
+      schemaVersion: envelope.data.schemaVersion,
+      orchestration: orchestration.data,
+      events: sortEvents(events),
+    },
+    issues,
+  };
+}
+
+// Steps as they stood at `time`: later starts are pending again, later ends still running
+export function stepsAt(steps: OrchestrationStep[], time: number): OrchestrationStep[] {
+  return steps.map(step => {
+    const start = step.startTime ? new Date(step.startTime).getTime() : undefined;
+    const end = step.endTime ? new Date(step.endTime).getTime() : undefined;
+
+    if (start === undefined || start > time) {
+      return { ...step, status: 'pending', startTime: undefined, endTime: undefined };
+    }
+    if (end !== undefined && end > time) {
+      return { ...step, status: step.type === 'approval' ? 'waiting_approval' : 'running', endTime: undefined };
+    }
+    return step;
+  });
+}
+
+export interface ReplaySummary {
+  toolCalls: number;
+  toolFailures: number;
+  llmCalls: number;
+  tokens: number;
+  // Correlation ids of requests still waiting for their result
+  pending: string[];
+}
+
+// Totals over events[0..cursor], inclusive
+export function summarizeReplay(events: OrchestrationEvent[], cursor: number): ReplaySummary {
+  const summary: ReplaySummary = { toolCalls: 0, toolFailures: 0, llmCalls: 0, tokens: 0, pending: [] };
+  const open = new Set<string>();
+
+  events.slice(0, cursor + 1).forEach(event => {
+    switch (event.event) {
+      case 'ToolRequested':
+        summary.toolCalls++;
+        open.add(event.data.correlationId);
+        break;
+      case 'ToolExecuted':
+        if (!event.data.result.success) summary.toolFailures++;
+        open.delete(event.data.correlationId);
+        break;
+      case 'LLMRequested':
+        summary.llmCalls++;
+        open.add(event.data.correlationId);
+        break;
+      case 'LLMResponded':
+        summary.tokens += event.data.response.tokens;
+        open.delete(event.data.correlationId);
+        break;
+    }
+  });
+
+  summary.pending = Array.from(open);
+  return summary;
+}
+
+// The request an event answers, or the response to a request, matched by correlation id
+export function findCounterpart(events: OrchestrationEvent[], event: OrchestrationEvent): OrchestrationEvent | undefined {
+  const counterpart: Record<OrchestrationEvent['event'], OrchestrationEvent['event']> = {
+    ToolRequested: 'ToolExecuted',
+    ToolExecuted: 'ToolRequested',
+    LLMRequested: 'LLMResponded',
+    LLMResponded: 'LLMRequested',
+  };
+  return events.find(
+    candidate => candidate.event === counterpart[event.event] && candidate.data.correlationId === event.data.correlationId
+  );
+}
@@ -0,0 +1,22 @@
+import type { OrchestrationEvent } from '@/lib/schemas/api';
+import { formatDuration, formatNumber } from '@/lib/utils/format';
+
+export const describeEvent = (event: OrchestrationEvent): string => {
+  switch (event.event) {
+    case 'ToolRequested':
+      return `${event.data.agentId} requested tool ${event.data.toolId}`;
+    case 'ToolExecuted':
+      return `Tool ${event.data.toolId} ${event.data.result.success ? 'succeeded' : 'failed'} in ${formatDuration(event.data.result.executionTime)}`;
+    case 'LLMRequested':
+      return `${event.data.agentId} prompted ${event.data.providerId}`;
+    case 'LLMResponded':
+      return `${event.data.providerId} responded (${formatNumber(event.data.response.tokens)} tokens)`;
+  }
+};
+
+// Chronological order; events sharing a timestamp keep their original order
+export const sortEvents = (events: OrchestrationEvent[]): OrchestrationEvent[] =>
+  events
+    .map((event, index) => ({ event, index, time: new Date(event.data.timestamp).getTime() }))
+    .sort((a, b) => a.time - b.time || a.index - b.index)
+    .map(({ event }) => event);
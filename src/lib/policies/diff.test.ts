@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest';
+import type { Policy, PolicyCondition, PolicyRule } from '@/lib/schemas/api';
+import { diffConditions, diffPolicies, type RuleChange } from './diff';
+
+const rule = (id: string, overrides: Partial<PolicyRule> = {}): PolicyRule => ({
+  id,
+  name: id,
+  description: '',
+  priority: 0,
+  enabled: true,
+  action: 'allow',
+  conditions: [],
+  parameters: {},
+  ...overrides,
+});
+
+const policy = (version: string, rules: PolicyRule[], metrics: Partial<Policy['metrics']> = {}): Policy => ({
+  id: 'policy_001',
+  name: 'Test policy',
+  description: '',
+  status: 'active',
+  priority: 1,
+  version,
+  rules,
+  createdAt: '2026-01-01T00:00:00.000Z',
+  updatedAt: '2026-01-01T00:00:00.000Z',
+  metrics: { decisionsMade: 100, averageDecisionTime: 12, denialRate: 0.2, approvalRate: 0.8, ...metrics },
+});
+
+// One line per change, e.g. `modified c 2->0 moved priority conditions:changed`
+function summary(change: RuleChange): string {
+  if (change.kind !== 'modified') return `${change.kind} ${change.rule.id} @${change.position}`;
+  return [
+    `modified ${change.to.id} ${change.fromPosition}->${change.toPosition}`,
+    ...(change.moved ? ['moved'] : []),
+    ...change.fields.map(({ field }) => field),
+    ...(change.conditions.length > 0 ? [`conditions:${change.conditions.map(({ kind }) => kind).join(',')}`] : []),
+  ].join(' ');
+}
+
+const riskAbove = (value: number): PolicyCondition => ({ field: 'riskScore', operator: 'gt', value });
+const envIs = (value: string): PolicyCondition => ({ field: 'target.env', operator: 'equals', value });
+
+// Evaluation order a, b, c
+const a = rule('a', { priority: 30 });
+const b = rule('b', { priority: 20, action: 'ask', conditions: [envIs('production')] });
+const c = rule('c', { priority: 10, action: 'deny', conditions: [riskAbove(80)] });
+
+describe('diffPolicies', () => {
+  it.each<[string, PolicyRule[], string[], number]>([
+    ['identical rules', [a, b, c], [], 3],
+    ['declaration order alone does not matter', [c, a, b], [], 3],
+    ['a rule added', [a, b, rule('d', { priority: 25 }), c], ['added d @1'], 3],
+    ['a rule removed', [a, c], ['removed b @1'], 2],
+    ['a rule replaced', [a, rule('b2', { priority: 20 }), c], ['added b2 @1', 'removed b @1'], 2],
+    ['a field edited in place', [a, { ...b, action: 'deny', name: 'Ask prod' }, c], ['modified b 1->1 name action'], 2],
+    ['a rule disabled', [a, b, { ...c, enabled: false }], ['modified c 2->2 enabled'], 2],
+    ['parameters edited', [a, { ...b, parameters: { approvers: ['sre'] } }, c], ['modified b 1->1 parameters'], 2],
+    // Only c changed position relative to the others; a and b keep theirs
+    ['a rule moved and edited', [a, b, { ...c, priority: 40 }], ['modified c 2->0 moved priority'], 2],
+    ['a rule moved down', [{ ...a, priority: 5 }, b, c], ['modified a 0->2 moved priority'], 2],
+    ['a condition value changed', [a, b, { ...c, conditions: [riskAbove(90)] }], ['modified c 2->2 conditions:changed'], 2],
+    ['a condition added', [a, b, { ...c, conditions: [riskAbove(80), envIs('production')] }], ['modified c 2->2 conditions:added'], 2],
+    ['a condition removed', [a, { ...b, conditions: [] }, c], ['modified b 1->1 conditions:removed'], 2],
+  ])('%s', (_, rules, changes, unchangedRules) => {
+    const diff = diffPolicies(policy('1.0.0', [a, b, c]), policy('1.1.0', rules));
+    expect(diff.rules.map(summary)).toEqual(changes);
+    expect(diff.unchangedRules).toBe(unchangedRules);
+  });
+
+  // Equal priorities keep declaration order, so swapping declarations reorders them
+  it('reports rules reordered within the same priority as moved', () => {
+    const same = [rule('x'), rule('y'), rule('z')];
+    const diff = diffPolicies(policy('1.0.0', same), policy('1.1.0', [same[1], same[0], same[2]]));
+    // One rule moving past another is enough to explain the new order
+    expect(diff.rules.map(summary)).toEqual(['modified x 0->1 moved']);
+  });
+
+  it('keeps both revisions of a modified rule', () => {
+    const [change] = diffPolicies(policy('1.0.0', [a, b, c]), policy('1.1.0', [a, b, { ...c, action: 'ask' }])).rules;
+    expect(change).toMatchObject({ kind: 'modified', from: c, to: { id: 'c', action: 'ask' }, fields: [{ field: 'action', from: 'deny', to: 'ask' }] });
+  });
+
+  it('compares versions and metrics', () => {
+    const diff = diffPolicies(policy('1.0.0', [a]), policy('1.1.0', [a], { denialRate: 0.25, decisionsMade: 140 }));
+    expect(diff).toMatchObject({ fromVersion: '1.0.0', toVersion: '1.1.0' });
+    expect(diff.metrics.decisionsMade).toEqual({ from: 100, to: 140, delta: 40 });
+    expect(diff.metrics.denialRate.delta).toBeCloseTo(0.05, 10);
+    expect(diff.metrics.averageDecisionTime).toEqual({ from: 12, to: 12, delta: 0 });
+  });
+});
+
+describe('diffConditions', () => {
+  it.each<[string, PolicyCondition[], PolicyCondition[], ReturnType<typeof diffConditions>]>([
+    ['identical', [riskAbove(80), envIs('prod')], [riskAbove(80), envIs('prod')], []],
+    ['reordered', [riskAbove(80), envIs('prod')], [envIs('prod'), riskAbove(80)], []],
+    ['a value changed', [riskAbove(80)], [riskAbove(90)], [{ kind: 'changed', from: riskAbove(80), to: riskAbove(90) }]],
+    [
+      'an operator changed',
+      [riskAbove(80)],
+      [{ field: 'riskScore', operator: 'lt', value: 80 }],
+      [{ kind: 'added', condition: { field: 'riskScore', operator: 'lt', value: 80 } }, { kind: 'removed', condition: riskAbove(80) }],
+    ],
+    [
+      'a list value changed',
+      [{ field: 'action', operator: 'in', value: ['a'] }],
+      [{ field: 'action', operator: 'in', value: ['a', 'b'] }],
+      [{ kind: 'changed', from: { field: 'action', operator: 'in', value: ['a'] }, to: { field: 'action', operator: 'in', value: ['a', 'b'] } }],
+    ],
+    ['one of two duplicates removed', [riskAbove(80), riskAbove(80)], [riskAbove(80)], [{ kind: 'removed', condition: riskAbove(80) }]],
+    ['added to none', [], [envIs('prod')], [{ kind: 'added', condition: envIs('prod') }]],
+  ])('%s', (_, from, to, expected) => {
+    expect(diffConditions(from, to)).toEqual(expected);
+  });
+});
@@ -0,0 +1,169 @@
+import type { Policy, PolicyCondition, PolicyRule } from '@/lib/schemas/api';
+import { orderRules } from './evaluate';
+
+/**
+ * Structural diff between two revisions of a policy.
+ *
+ * Rules are matched by id. Order is compared in evaluation order (see `orderRules`), and only the
+ * rules that actually changed position relative to the others are reported as moved - raising one
+ * rule's priority does not flag every rule it jumped over.
+ */
+
+export type RuleField = 'name' | 'description' | 'priority' | 'action' | 'enabled' | 'parameters';
+
+export interface FieldChange<T = unknown> {
+  field: RuleField;
+  from: T;
+  to: T;
+}
+
+export type ConditionChange =
+  | { kind: 'added'; condition: PolicyCondition }
+  | { kind: 'removed'; condition: PolicyCondition }
+  | { kind: 'changed'; from: PolicyCondition; to: PolicyCondition };
+
+export type RuleChange =
+  | { kind: 'added'; rule: PolicyRule; position: number }
+  | { kind: 'removed'; rule: PolicyRule; position: number }
+  | {
+      kind: 'modified';
+      from: PolicyRule;
+      to: PolicyRule;
+      fromPosition: number;
+      toPosition: number;
+      moved: boolean;
+      fields: FieldChange[];
+      conditions: ConditionChange[];
+    };
+
+export interface MetricDelta {
+  from: number;
+  to: number;
+  delta: number;
+}
+
+export interface PolicyDiff {
+  fromVersion: string;
+  toVersion: string;
+  rules: RuleChange[];
+  unchangedRules: number;
+  metrics: {
+    denialRate: MetricDelta;
+    approvalRate: MetricDelta;
+    decisionsMade: MetricDelta;
+    averageDecisionTime: MetricDelta;
+  };
+}
+
+const RULE_FIELDS: RuleField[] = ['name', 'description', 'priority', 'action', 'enabled', 'parameters'];
+
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+// Longest common subsequence of ids; anything outside it changed relative position
+function stableIds(from: string[], to: string[]): Set<string> {
+  const table = from.map(() => new Array<number>(to.length + 1).fill(0));
+  table.push(new Array<number>(to.length + 1).fill(0));
+
+  for (let i = from.length - 1; i >= 0; i--) {
+    for (let j = to.length - 1; j >= 0; j--) {
+      table[i][j] = from[i] === to[j] ? table[i + 1][j + 1] + 1 : Math.max(table[i + 1][j], table[i][j + 1]);
+    }
+  }
+
+  const stable = new Set<string>();
+  let i = 0;
+  let j = 0;
+  while (i < from.length && j < to.length) {
+    if (from[i] === to[j]) {
+      stable.add(from[i]);
+      i++;
+      j++;
+    } else if (table[i + 1][j] >= table[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return stable;
+}
+
+// Conditions have no ids: exact matches are unchanged, a shared field+operator is a value change
+export function diffConditions(from: PolicyCondition[], to: PolicyCondition[]): ConditionChange[] {
+  const remaining = [...from];
+  const changes: ConditionChange[] = [];
+  const unmatched: PolicyCondition[] = [];
+
+  for (const condition of to) {
+    const exact = remaining.findIndex(candidate => sameValue(candidate, condition));
+    if (exact >= 0) remaining.splice(exact, 1);
+    else unmatched.push(condition);
+  }
+
+  for (const condition of unmatched) {
+    const similar = remaining.findIndex(
+      candidate => candidate.field === condition.field && candidate.operator === condition.operator
+    );
+    if (similar >= 0) {
+      changes.push({ kind: 'changed', from: remaining[similar], to: condition });
+      remaining.splice(similar, 1);
+    } else {
+      changes.push({ kind: 'added', condition });
+    }
+  }
+
+  return [...changes, ...remaining.map(condition => ({ kind: 'removed' as const, condition }))];
+}
+
+const delta = (from: number, to: number): MetricDelta => ({ from, to, delta: to - from });
+
+export function diffPolicies(from: Policy, to: Policy): PolicyDiff {
+  const fromOrdered = orderRules(from.rules);
+  const toOrdered = orderRules(to.rules);
+  const fromIndex = new Map(fromOrdered.map((rule, index) => [rule.id, index]));
+  const toIndex = new Map(toOrdered.map((rule, index) => [rule.id, index]));
+
+  const shared = (ordered: PolicyRule[], other: Map<string, number>) =>
+    ordered.filter(rule => other.has(rule.id)).map(rule => rule.id);
+  const stable = stableIds(shared(fromOrdered, toIndex), shared(toOrdered, fromIndex));
+
+  const changes: RuleChange[] = [];
+  let unchangedRules = 0;
+
+  toOrdered.forEach((rule, position) => {
+    const fromPosition = fromIndex.get(rule.id);
+    if (fromPosition === undefined) {
+      changes.push({ kind: 'added', rule, position });
+      return;
+    }
+
+    const previous = fromOrdered[fromPosition];
+    const fields = RULE_FIELDS
+      .filter(field => !sameValue(previous[field], rule[field]))
+      .map(field => ({ field, from: previous[field], to: rule[field] }));
+    const conditions = diffConditions(previous.conditions, rule.conditions);
+    const moved = !stable.has(rule.id);
+
+    if (fields.length === 0 && conditions.length === 0 && !moved) {
+      unchangedRules++;
+      return;
+    }
+    changes.push({ kind: 'modified', from: previous, to: rule, fromPosition, toPosition: position, moved, fields, conditions });
+  });
+
+  fromOrdered.forEach((rule, position) => {
+    if (!toIndex.has(rule.id)) changes.push({ kind: 'removed', rule, position });
+  });
+
+  return {
+    fromVersion: from.version,
+    toVersion: to.version,
+    rules: changes,
+    unchangedRules,
+    metrics: {
+      denialRate: delta(from.metrics.denialRate, to.metrics.denialRate),
+      approvalRate: delta(from.metrics.approvalRate, to.metrics.approvalRate),
+      decisionsMade: delta(from.metrics.decisionsMade, to.metrics.decisionsMade),
+      averageDecisionTime: delta(from.metrics.averageDecisionTime, to.metrics.averageDecisionTime),
+    },
+  };
+}
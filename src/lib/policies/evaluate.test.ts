@@ -0,0 +1,168 @@
+import { describe, expect, it } from 'vitest';
+import type { Policy, PolicyCondition, PolicyRule, PolicyTestResult } from '@/lib/schemas/api';
+import { detectPolicyDrift, evaluateCondition, evaluatePolicy, orderRules, resolveField, type PolicyInput } from './evaluate';
+
+const rule = (id: string, overrides: Partial<PolicyRule> = {}): PolicyRule => ({
+  id,
+  name: id,
+  description: '',
+  priority: 0,
+  enabled: true,
+  action: 'allow',
+  conditions: [],
+  parameters: {},
+  ...overrides,
+});
+
+const policy = (rules: PolicyRule[]): Policy => ({
+  id: 'policy_001',
+  name: 'Test policy',
+  description: '',
+  status: 'active',
+  priority: 1,
+  version: '1.0.0',
+  rules,
+  createdAt: '2026-01-01T00:00:00.000Z',
+  updatedAt: '2026-01-01T00:00:00.000Z',
+  metrics: { decisionsMade: 0, averageDecisionTime: 0, denialRate: 0, approvalRate: 0 },
+});
+
+const input: PolicyInput = {
+  intent: { action: 'deploy', riskScore: 42, tags: ['prod', 'db'], target: { env: 'production' } },
+  context: { user: { role: 'admin' }, action: 'shadowed' },
+};
+
+describe('resolveField', () => {
+  it.each([
+    ['intent.action', 'deploy'],
+    ['intent.target.env', 'production'],
+    ['context.user.role', 'admin'],
+    ['riskScore', 42],
+    // Bare paths look in the intent before the context
+    ['action', 'deploy'],
+    ['user.role', 'admin'],
+    ['intent.missing.deeper', undefined],
+    ['', undefined],
+  ])('%s -> %j', (path, expected) => {
+    expect(resolveField(input, path)).toEqual(expected);
+  });
+});
+
+describe('evaluateCondition', () => {
+  it.each<[string, PolicyCondition, boolean]>([
+    ['equals', { field: 'action', operator: 'equals', value: 'deploy' }, true],
+    ['equals, number typed as a string', { field: 'riskScore', operator: 'equals', value: '42' }, true],
+    ['equals, different value', { field: 'action', operator: 'equals', value: 'delete' }, false],
+    ['contains in a string', { field: 'target.env', operator: 'contains', value: 'prod' }, true],
+    ['contains in an array', { field: 'tags', operator: 'contains', value: 'db' }, true],
+    ['contains on a number', { field: 'riskScore', operator: 'contains', value: '4' }, false],
+    ['matches', { field: 'action', operator: 'matches', value: '^dep' }, true],
+    ['matches on a missing field', { field: 'nothing', operator: 'matches', value: '.*' }, false],
+    ['gt', { field: 'riskScore', operator: 'gt', value: 40 }, true],
+    ['gt, equal values', { field: 'riskScore', operator: 'gt', value: 42 }, false],
+    ['lt with a numeric string', { field: 'riskScore', operator: 'lt', value: '50' }, true],
+    ['gt on a missing field', { field: 'nothing', operator: 'gt', value: 0 }, false],
+    ['in', { field: 'action', operator: 'in', value: ['deploy', 'rollback'] }, true],
+    ['in, single value', { field: 'action', operator: 'in', value: 'deploy' }, true],
+    ['in on a missing field', { field: 'nothing', operator: 'in', value: ['deploy'] }, false],
+    ['not_in', { field: 'action', operator: 'not_in', value: ['delete'] }, true],
+    ['not_in, member', { field: 'action', operator: 'not_in', value: ['deploy'] }, false],
+    ['not_in on a missing field', { field: 'nothing', operator: 'not_in', value: ['deploy'] }, true],
+  ])('%s', (_, condition, passed) => {
+    expect(evaluateCondition(condition, input).passed).toBe(passed);
+  });
+
+  it.each<[string, PolicyCondition, string]>([
+    ['invalid pattern', { field: 'action', operator: 'matches', value: '(' }, 'Invalid pattern'],
+    ['non-numeric expected value', { field: 'riskScore', operator: 'gt', value: 'high' }, 'Expected value is not a number'],
+  ])('reports an error for an %s', (_, condition, error) => {
+    const trace = evaluateCondition(condition, input);
+    expect(trace.passed).toBe(false);
+    expect(trace.error).toContain(error);
+  });
+});
+
+describe('orderRules', () => {
+  it('puts higher priority first and keeps declaration order for ties', () => {
+    const rules = [rule('a', { priority: 1 }), rule('b', { priority: 5 }), rule('c', { priority: 1 }), rule('d', { priority: 5 })];
+    expect(orderRules(rules).map(({ id }) => id)).toEqual(['b', 'd', 'a', 'c']);
+  });
+});
+
+describe('evaluatePolicy', () => {
+  const denyHighRisk = rule('deny-high-risk', {
+    priority: 10,
+    action: 'deny',
+    conditions: [{ field: 'riskScore', operator: 'gt', value: 80 }],
+    parameters: { reasonCodes: ['HIGH_RISK', 42] },
+  });
+  const askProduction = rule('ask-production', {
+    priority: 5,
+    action: 'ask',
+    conditions: [{ field: 'target.env', operator: 'equals', value: 'production' }],
+  });
+  const allowAdmins = rule('allow-admins', {
+    priority: 1,
+    conditions: [{ field: 'context.user.role', operator: 'equals', value: 'admin' }],
+  });
+
+  it.each<[string, PolicyRule[], PolicyInput, string | null, PolicyTestResult['decision'], boolean]>([
+    ['first matching rule by priority decides', [allowAdmins, askProduction, denyHighRisk], input, 'ask-production', 'ask', false],
+    ['higher priority rule wins', [allowAdmins, denyHighRisk], { ...input, intent: { ...input.intent, riskScore: 90 } }, 'deny-high-risk', 'deny', false],
+    ['disabled rules are skipped', [{ ...askProduction, enabled: false }, allowAdmins], input, 'allow-admins', 'allow', true],
+    ['every condition must pass', [rule('both', { action: 'autofix', conditions: [...askProduction.conditions, ...denyHighRisk.conditions] })], input, null, 'deny', false],
+    ['a rule without conditions always matches', [rule('catch-all', { action: 'autofix' })], input, 'catch-all', 'autofix', true],
+    ['nothing matching denies', [denyHighRisk], input, null, 'deny', false],
+    ['no rules at all denies', [], input, null, 'deny', false],
+  ])('%s', (_, rules, evaluated, matchedRule, decision, allowed) => {
+    const result = evaluatePolicy(policy(rules), evaluated);
+    expect(result.matchedRule?.id ?? null).toBe(matchedRule);
+    expect(result.decision).toBe(decision);
+    expect(result.allowed).toBe(allowed);
+  });
+
+  it('uses the caller\'s default decision when nothing matches', () => {
+    const result = evaluatePolicy(policy([denyHighRisk]), input, { defaultDecision: 'ask' });
+    expect(result).toMatchObject({ decision: 'ask', allowed: false, matchedRule: null });
+  });
+
+  it('traces rules after the deciding one as not reached', () => {
+    const { evaluatedRules } = evaluatePolicy(policy([allowAdmins, askProduction]), input);
+    expect(evaluatedRules.map(({ ruleId, reached, matched }) => [ruleId, reached, matched])).toEqual([
+      ['ask-production', true, true],
+      ['allow-admins', false, false],
+    ]);
+  });
+
+  it('keeps only string reason codes from the matched rule', () => {
+    const result = evaluatePolicy(policy([denyHighRisk]), { intent: { riskScore: 95 } });
+    expect(result.reasonCodes).toEqual(['HIGH_RISK']);
+  });
+
+  it('stamps the policy and evaluation time', () => {
+    const result = evaluatePolicy(policy([]), input, { now: () => new Date('2026-01-01T12:00:00Z') });
+    expect(result).toMatchObject({ policyId: 'policy_001', policyVersion: '1.0.0', evaluatedAt: '2026-01-01T12:00:00.000Z' });
+  });
+});
+
+describe('detectPolicyDrift', () => {
+  const result = (overrides: Partial<PolicyTestResult> = {}): PolicyTestResult => ({
+    decision: 'allow',
+    allowed: true,
+    matchedRule: { id: 'rule_1', name: 'Rule 1', priority: 1, action: 'allow' },
+    evaluatedRules: [],
+    reasonCodes: [],
+    evaluatedAt: '2026-01-01T00:00:00.000Z',
+    durationMs: 1,
+    ...overrides,
+  });
+
+  it.each<[string, Partial<PolicyTestResult>, string[]]>([
+    ['identical results', {}, []],
+    ['different decision', { decision: 'ask', allowed: false, matchedRule: { id: 'rule_1', name: 'Rule 1', priority: 1, action: 'ask' } }, ['decision', 'allowed']],
+    ['different matched rule', { matchedRule: { id: 'rule_2', name: 'Rule 2', priority: 1, action: 'allow' } }, ['matchedRule']],
+    ['server matched nothing', { decision: 'deny', allowed: false, matchedRule: null }, ['decision', 'allowed', 'matchedRule']],
+  ])('%s', (_, server, fields) => {
+    expect(detectPolicyDrift(result(), result(server)).map(({ field }) => field)).toEqual(fields);
+  });
+});
@@ -0,0 +1,219 @@
+import type { Policy, PolicyCondition, PolicyRule, PolicyTestResult } from '@/lib/schemas/api';
+
+/**
+ * Local policy evaluation, mirroring the supervisor's documented semantics:
+ *
+ * - Enabled rules are checked in descending `priority`; ties keep declaration order.
+ * - A rule matches when ALL of its conditions pass. A rule with no conditions always matches.
+ * - The first matching rule decides. If nothing matches, `defaultDecision` applies: deny unless
+ *   the caller says otherwise, so a policy with a gap never lets an intent through.
+ * - Condition fields are dotted paths. `intent.*` and `context.*` address the input directly;
+ *   any other path is looked up in the intent first, then in the context.
+ *
+ * Pure and dependency-free so it can run in the browser, in CI, or next to `testPolicy` to detect drift.
+ */
+
+export type PolicyDecision = PolicyRule['action'];
+
+export interface PolicyInput {
+  intent: Record<string, any>;
+  context?: Record<string, any>;
+}
+
+export interface ConditionTrace {
+  field: string;
+  operator: PolicyCondition['operator'];
+  expected: unknown;
+  actual: unknown;
+  passed: boolean;
+  error?: string;
+}
+
+export interface RuleTrace {
+  ruleId: string;
+  ruleName: string;
+  priority: number;
+  enabled: boolean;
+  // Rules after the deciding one are still traced, but flagged as not reached
+  reached: boolean;
+  matched: boolean;
+  conditions: ConditionTrace[];
+}
+
+export interface PolicyEvaluation extends PolicyTestResult {
+  policyId: string;
+  policyVersion: string;
+  evaluatedRules: RuleTrace[];
+}
+
+export interface EvaluateOptions {
+  defaultDecision?: PolicyDecision;
+  now?: () => Date;
+}
+
+const ALLOWING_DECISIONS: PolicyDecision[] = ['allow', 'autofix'];
+
+export function resolveField(input: PolicyInput, path: string): unknown {
+  const segments = path.split('.').filter(Boolean);
+  if (segments.length === 0) return undefined;
+
+  const walk = (root: unknown, parts: string[]) =>
+    parts.reduce<unknown>((value, key) => {
+      if (value === null || value === undefined || typeof value !== 'object') return undefined;
+      return (value as Record<string, unknown>)[key];
+    }, root);
+
+  if (segments[0] === 'intent') return walk(input.intent, segments.slice(1));
+  if (segments[0] === 'context') return walk(input.context ?? {}, segments.slice(1));
+
+  const fromIntent = walk(input.intent, segments);
+  return fromIntent !== undefined ? fromIntent : walk(input.context ?? {}, segments);
+}
+
+const isEqual = (a: unknown, b: unknown): boolean => {
+  if (a === b) return true;
+  if (typeof a === 'object' && a !== null && typeof b === 'object' && b !== null) {
+    return JSON.stringify(a) === JSON.stringify(b);
+  }
+  // Numbers typed as strings in a rule still compare equal to numeric input
+  if ((typeof a === 'number' && typeof b === 'string') || (typeof a === 'string' && typeof b === 'number')) {
+    return String(a) === String(b);
+  }
+  return false;
+};
+
+const toList = (value: unknown): unknown[] => (Array.isArray(value) ? value : [value]);
+
+const toNumber = (value: unknown): number | null => {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value === 'string' && value.trim() !== '') {
+    const number = Number(value);
+    return Number.isFinite(number) ? number : null;
+  }
+  return null;
+};
+
+export function evaluateCondition(condition: PolicyCondition, input: PolicyInput): ConditionTrace {
+  const actual = resolveField(input, condition.field);
+  const expected = condition.value;
+  const trace = (passed: boolean, error?: string): ConditionTrace => ({
+    field: condition.field,
+    operator: condition.operator,
+    expected,
+    actual,
+    passed,
+    ...(error ? { error } : {}),
+  });
+
+  switch (condition.operator) {
+    case 'equals':
+      return trace(isEqual(actual, expected));
+
+    case 'contains':
+      if (typeof actual === 'string') return trace(actual.includes(String(expected)));
+      if (Array.isArray(actual)) return trace(actual.some(item => isEqual(item, expected)));
+      return trace(false);
+
+    case 'matches': {
+      if (actual === undefined || actual === null) return trace(false);
+      try {
+        return trace(new RegExp(String(expected)).test(String(actual)));
+      } catch (error) {
+        return trace(false, `Invalid pattern: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
+    case 'gt':
+    case 'lt': {
+      const left = toNumber(actual);
+      const right = toNumber(expected);
+      if (left === null || right === null) return trace(false, left === null ? undefined : 'Expected value is not a number');
+      return trace(condition.operator === 'gt' ? left > right : left < right);
+    }
+
+    case 'in':
+      if (actual === undefined) return trace(false);
+      return trace(toList(expected).some(item => isEqual(item, actual)));
+
+    case 'not_in':
+      // A missing field is not a member of any list
+      if (actual === undefined) return trace(true);
+      return trace(!toList(expected).some(item => isEqual(item, actual)));
+  }
+}
+
+// Stable sort: higher priority first, declaration order breaks ties
+export function orderRules(rules: PolicyRule[]): PolicyRule[] {
+  return rules
+    .map((rule, index) => ({ rule, index }))
+    .sort((a, b) => b.rule.priority - a.rule.priority || a.index - b.index)
+    .map(({ rule }) => rule);
+}
+
+export function evaluatePolicy(policy: Policy, input: PolicyInput, options: EvaluateOptions = {}): PolicyEvaluation {
+  const startedAt = typeof performance !== 'undefined' ? performance.now() : Date.now();
+  const defaultDecision = options.defaultDecision ?? 'deny';
+  const evaluatedRules: RuleTrace[] = [];
+  let matchedRule: PolicyRule | null = null;
+
+  for (const rule of orderRules(policy.rules)) {
+    const reached = matchedRule === null;
+    const conditions = rule.enabled ? rule.conditions.map(condition => evaluateCondition(condition, input)) : [];
+    const matched = rule.enabled && conditions.every(condition => condition.passed);
+
+    evaluatedRules.push({
+      ruleId: rule.id,
+      ruleName: rule.name,
+      priority: rule.priority,
+      enabled: rule.enabled,
+      reached,
+      matched: reached && matched,
+      conditions,
+    });
+
+    if (reached && matched) matchedRule = rule;
+  }
+
+  const decision = matchedRule?.action ?? defaultDecision;
+  const reasonCodes = Array.isArray(matchedRule?.parameters?.reasonCodes)
+    ? matchedRule!.parameters.reasonCodes.filter((code: unknown): code is string => typeof code === 'string')
+    : [];
+  const finishedAt = typeof performance !== 'undefined' ? performance.now() : Date.now();
+
+  return {
+    policyId: policy.id,
+    policyVersion: policy.version,
+    decision,
+    allowed: ALLOWING_DECISIONS.includes(decision),
+    matchedRule: matchedRule
+      ? { id: matchedRule.id, name: matchedRule.name, priority: matchedRule.priority, action: matchedRule.action }
+      : null,
+    evaluatedRules,
+    reasonCodes,
+    evaluatedAt: (options.now?.() ?? new Date()).toISOString(),
+    durationMs: Math.round((finishedAt - startedAt) * 1000) / 1000,
+  };
+}
+
+export interface PolicyDrift {
+  field: 'decision' | 'allowed' | 'matchedRule';
+  local: unknown;
+  server: unknown;
+}
+
+// Differences between a local evaluation and the server's testPolicy result for the same input
+export function detectPolicyDrift(local: PolicyTestResult, server: PolicyTestResult): PolicyDrift[] {
+  const drift: PolicyDrift[] = [];
+
+  if (local.decision !== server.decision) {
+    drift.push({ field: 'decision', local: local.decision, server: server.decision });
+  }
+  if (local.allowed !== server.allowed) {
+    drift.push({ field: 'allowed', local: local.allowed, server: server.allowed });
+  }
+  if ((local.matchedRule?.id ?? null) !== (server.matchedRule?.id ?? null)) {
+    drift.push({ field: 'matchedRule', local: local.matchedRule?.id ?? null, server: server.matchedRule?.id ?? null });
+  }
+
+  return drift;
+}
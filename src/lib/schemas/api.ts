@@ -10,6 +10,15 @@ export const ApiResponseSchema = <T extends z.ZodType>(dataSchema: T) =>
     error: z.string().optional(),
   });
 
+// Body of a failed request - every field is optional because proxies and crashes answer too
+export const ApiErrorBodySchema = z.object({
+  success: z.boolean().optional(),
+  error: z.string().optional(),
+  message: z.string().optional(),
+  code: z.string().optional(),
+  details: z.unknown().optional(),
+}).passthrough();
+
 export const PaginationSchema = z.object({
   total: z.number(),
   limit: z.number(),
@@ -157,7 +166,36 @@ export const AgentProfileSchema = z.object({
   updatedAt: z.string().datetime(),
 });
 
+// Agent create/edit payload - validated client-side before it is sent
+export const AgentInputSchema = z.object({
+  name: z.string().trim().min(2, 'Name must be at least 2 characters').max(100),
+  type: z.string().trim().min(1, 'Type is required'),
+  behaviorPreset: z.string().trim().min(1, 'Behavior preset is required'),
+  capabilities: z.array(z.string().trim().min(1)),
+  permissions: z.array(z.string().trim().min(1)),
+  riskProfile: AgentProfileSchema.shape.riskProfile.extend({
+    maxCost: z.number().nonnegative('Max cost cannot be negative'),
+    maxExecutionTime: z.number().int().positive('Max execution time must be positive'),
+    autonomyLevel: z.number().int().min(1).max(5),
+  }),
+}).superRefine((input, ctx) => {
+  const overlap = input.riskProfile.allowedTools.filter(tool => input.riskProfile.forbiddenTools.includes(tool));
+  if (overlap.length > 0) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['riskProfile', 'forbiddenTools'],
+      message: `Tools cannot be both allowed and forbidden: ${overlap.join(', ')}`,
+    });
+  }
+});
+
 // Policy and Supervisor schemas
+export const PolicyConditionSchema = z.object({
+  field: z.string(),
+  operator: z.enum(['equals', 'contains', 'matches', 'gt', 'lt', 'in', 'not_in']),
+  value: z.any(),
+});
+
 export const PolicyRuleSchema = z.object({
   id: z.string(),
   name: z.string(),
@@ -165,11 +203,7 @@ export const PolicyRuleSchema = z.object({
   priority: z.number(),
   enabled: z.boolean(),
   action: z.enum(['allow', 'deny', 'ask', 'autofix']),
-  conditions: z.array(z.object({
-    field: z.string(),
-    operator: z.enum(['equals', 'contains', 'matches', 'gt', 'lt', 'in', 'not_in']),
-    value: z.any(),
-  })),
+  conditions: z.array(PolicyConditionSchema),
   parameters: z.record(z.any()),
 });
 
@@ -191,6 +225,38 @@ export const PolicySchema = z.object({
   }),
 });
 
+// A saved revision of a policy; metrics cover the period the revision was live
+export const PolicyVersionSchema = PolicySchema.extend({
+  changedBy: z.string().optional(),
+  changeNote: z.string().optional(),
+});
+
+// Result of a policy dry-run (POST /policies/:id/test)
+export const PolicyTestResultSchema = z.object({
+  decision: PolicyRuleSchema.shape.action,
+  allowed: z.boolean(),
+  matchedRule: z.object({
+    id: z.string(),
+    name: z.string(),
+    priority: z.number(),
+    action: PolicyRuleSchema.shape.action,
+  }).nullable(),
+  evaluatedRules: z.array(z.object({
+    ruleId: z.string(),
+    matched: z.boolean(),
+    conditions: z.array(z.object({
+      field: z.string(),
+      operator: PolicyConditionSchema.shape.operator,
+      expected: z.any(),
+      actual: z.any(),
+      passed: z.boolean(),
+    })).optional(),
+  })),
+  reasonCodes: z.array(z.string()).default([]),
+  evaluatedAt: z.string().datetime(),
+  durationMs: z.number().optional(),
+});
+
 export const SupervisorDecisionSchema = z.object({
   id: z.string(),
   orchestrationId: z.string(),
@@ -201,6 +267,25 @@ export const SupervisorDecisionSchema = z.object({
   userId: z.string().optional(),
 });
 
+// Human approval gates for steps in waiting_approval
+export const ApprovalRequestSchema = z.object({
+  id: z.string(),
+  status: z.enum(['pending', 'approved', 'rejected']),
+  orchestrationId: z.string(),
+  orchestrationName: z.string(),
+  step: OrchestrationStepSchema,
+  decision: SupervisorDecisionSchema,
+  requestedAt: z.string().datetime(),
+  resolvedAt: z.string().datetime().optional(),
+  resolvedBy: z.string().optional(),
+  justification: z.string().optional(),
+});
+
+export const ApprovalDecisionSchema = z.object({
+  decision: z.enum(['approve', 'reject']),
+  justification: z.string().trim().min(10, 'Justification must be at least 10 characters'),
+});
+
 // Memory schemas
 export const MemorySchema = z.object({
   id: z.string(),
@@ -223,6 +308,18 @@ export const MemorySchema = z.object({
   }),
 });
 
+export const MemorySearchResultSchema = z.object({
+  query: z.string(),
+  results: z.array(z.object({
+    memory: MemorySchema,
+    // Similarity to the query, higher is closer
+    score: z.number(),
+    highlights: z.array(z.string()).default([]),
+  })),
+  totalMatches: z.number().optional(),
+  tookMs: z.number().optional(),
+});
+
 // Plugin schemas
 export const PluginSchema = z.object({
   id: z.string(),
@@ -280,6 +377,53 @@ export const ComplianceExportSchema = z.object({
   schemaVersion: z.string(),
 });
 
+// Payload of a `compliance_report` export
+export const ComplianceReportDataSchema = z.object({
+  summary: z.object({
+    totalDecisions: z.number(),
+    allowed: z.number(),
+    denied: z.number(),
+    escalated: z.number(),
+    violations: z.number(),
+    approvals: z.number(),
+  }),
+  decisionsByPolicy: z.array(z.object({
+    policyId: z.string(),
+    policyName: z.string(),
+    total: z.number(),
+    allow: z.number(),
+    deny: z.number(),
+    ask: z.number(),
+    autofix: z.number(),
+  })),
+  violations: z.array(z.object({
+    id: z.string(),
+    timestamp: z.string().datetime(),
+    level: AuditEntrySchema.shape.level,
+    message: z.string(),
+    policyId: z.string().optional(),
+    policyName: z.string().optional(),
+    agentId: z.string().optional(),
+    orchestrationId: z.string().optional(),
+  })),
+  approvals: z.array(z.object({
+    id: z.string(),
+    orchestrationId: z.string(),
+    stepName: z.string().optional(),
+    status: z.enum(['approved', 'rejected']),
+    approverId: z.string(),
+    approverName: z.string(),
+    justification: z.string().optional(),
+    requestedAt: z.string().datetime(),
+    resolvedAt: z.string().datetime(),
+  })),
+});
+
+export const ComplianceReportSchema = ComplianceExportSchema.extend({
+  type: z.literal('compliance_report'),
+  data: ComplianceReportDataSchema,
+});
+
 // WebSocket event schemas
 export const WebSocketEventSchema = z.object({
   type: z.string(),
@@ -347,7 +491,16 @@ export const LLMRespondedEventSchema = z.object({
   }),
 });
 
+// Typed orchestration events, discriminated on the `event` field
+export const OrchestrationEventSchema = z.discriminatedUnion('event', [
+  ToolRequestedEventSchema,
+  ToolExecutedEventSchema,
+  LLMRequestedEventSchema,
+  LLMRespondedEventSchema,
+]);
+
 // API Response schemas using the base schema
+export const AuthSessionResponseSchema = ApiResponseSchema(AuthSessionSchema);
 export const OverviewResponseSchema = ApiResponseSchema(OverviewStatsSchema);
 export const OrchestrationsResponseSchema = ApiResponseSchema(
   z.object({
@@ -370,12 +523,20 @@ export const PoliciesResponseSchema = ApiResponseSchema(
   })
 );
 export const PolicyResponseSchema = ApiResponseSchema(PolicySchema);
+export const PolicyTestResponseSchema = ApiResponseSchema(PolicyTestResultSchema);
+export const PolicyVersionsResponseSchema = ApiResponseSchema(
+  z.object({
+    versions: z.array(PolicyVersionSchema),
+  })
+);
 export const MemoryResponseSchema = ApiResponseSchema(
   z.object({
     memories: z.array(MemorySchema),
     pagination: PaginationSchema,
   })
 );
+export const MemorySearchResponseSchema = ApiResponseSchema(MemorySearchResultSchema);
+export const ComplianceExportResponseSchema = ApiResponseSchema(ComplianceExportSchema);
 export const PluginsResponseSchema = ApiResponseSchema(
   z.object({
     plugins: z.array(PluginSchema),
@@ -388,26 +549,61 @@ export const AuditResponseSchema = ApiResponseSchema(
     pagination: PaginationSchema,
   })
 );
+export const ApprovalsResponseSchema = ApiResponseSchema(
+  z.object({
+    approvals: z.array(ApprovalRequestSchema),
+    pagination: PaginationSchema,
+  })
+);
+export const ApprovalResponseSchema = ApiResponseSchema(ApprovalRequestSchema);
 export const SettingsResponseSchema = ApiResponseSchema(
   z.record(z.any()) // Settings can be any structure
 );
 
 // Type exports
+
+// A record the client patched or dropped to fit its schema in lenient validation mode
+export interface ValidationWarning {
+  path: string;
+  action: 'patched' | 'dropped';
+  message: string;
+}
+
 export type ApiResponse<T> = {
   success: boolean;
   data: T;
   timestamp: string;
   message?: string;
   error?: string;
+  // Set by the client in lenient validation mode when records were patched or dropped
+  warnings?: ValidationWarning[];
 };
+export type ApiErrorBody = z.infer<typeof ApiErrorBodySchema>;
 export type User = z.infer<typeof UserSchema>;
 export type AuthSession = z.infer<typeof AuthSessionSchema>;
 export type OverviewStats = z.infer<typeof OverviewStatsSchema>;
 export type Orchestration = z.infer<typeof OrchestrationSchema>;
+export type OrchestrationStep = z.infer<typeof OrchestrationStepSchema>;
+export type ExecutionPlan = z.infer<typeof ExecutionPlanSchema>;
 export type AgentProfile = z.infer<typeof AgentProfileSchema>;
+export type AgentInput = z.infer<typeof AgentInputSchema>;
 export type Policy = z.infer<typeof PolicySchema>;
+export type PolicyRule = z.infer<typeof PolicyRuleSchema>;
+export type PolicyCondition = z.infer<typeof PolicyConditionSchema>;
+export type PolicyTestResult = z.infer<typeof PolicyTestResultSchema>;
+export type PolicyVersion = z.infer<typeof PolicyVersionSchema>;
 export type SupervisorDecision = z.infer<typeof SupervisorDecisionSchema>;
+export type ApprovalRequest = z.infer<typeof ApprovalRequestSchema>;
+export type ApprovalDecision = z.infer<typeof ApprovalDecisionSchema>;
 export type Memory = z.infer<typeof MemorySchema>;
+export type MemorySearchResult = z.infer<typeof MemorySearchResultSchema>;
 export type Plugin = z.infer<typeof PluginSchema>;
 export type AuditEntry = z.infer<typeof AuditEntrySchema>;
-export type WebSocketEvent = z.infer<typeof WebSocketEventSchema>;
\ No newline at end of file
+export type ComplianceExport = z.infer<typeof ComplianceExportSchema>;
+export type ComplianceReport = z.infer<typeof ComplianceReportSchema>;
+export type WebSocketEvent = z.infer<typeof WebSocketEventSchema>;
+export type ToolRequestedEvent = z.infer<typeof ToolRequestedEventSchema>;
+export type ToolExecutedEvent = z.infer<typeof ToolExecutedEventSchema>;
+export type LLMRequestedEvent = z.infer<typeof LLMRequestedEventSchema>;
+export type LLMRespondedEvent = z.infer<typeof LLMRespondedEventSchema>;
+export type OrchestrationEvent = z.infer<typeof OrchestrationEventSchema>;
\ No newline at end of file
@@ -0,0 +1,3 @@
+// Date inputs are local calendar days - expand them to full-day ISO bounds
+export const toStartOfDay = (value: string) => (value ? new Date(`${value}T00:00:00`).toISOString() : undefined);
+export const toEndOfDay = (value: string) => (value ? new Date(`${value}T23:59:59.999`).toISOString() : undefined);
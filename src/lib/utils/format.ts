@@ -0,0 +1,37 @@
+/**
+ * Display formatters shared across dashboard pages.
+ * Durations are milliseconds, costs are USD, rates are 0-1 ratios.
+ */
+export function formatDuration(ms?: number | null): string {
+  if (ms === undefined || ms === null || Number.isNaN(ms)) return '—';
+  if (ms < 1000) return `${Math.round(ms)}ms`;
+
+  const seconds = ms / 1000;
+  if (seconds < 60) return `${seconds.toFixed(1)}s`;
+
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m ${Math.floor(seconds % 60)}s`;
+
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
+
+export function formatCost(cost?: number | null): string {
+  if (cost === undefined || cost === null) return '—';
+  return `$${cost.toFixed(cost < 1 ? 4 : 2)}`;
+}
+
+export function formatNumber(value?: number | null): string {
+  if (value === undefined || value === null) return '—';
+  return value.toLocaleString();
+}
+
+export function formatPercent(ratio?: number | null, digits = 0): string {
+  if (ratio === undefined || ratio === null) return '—';
+  return `${(ratio * 100).toFixed(digits)}%`;
+}
+
+export function formatDateTime(value?: string | Date | null): string {
+  if (!value) return '—';
+  const date = value instanceof Date ? value : new Date(value);
+  return Number.isNaN(date.getTime()) ? '—' : date.toLocaleString();
+}